@@ -34,9 +34,15 @@ import FundManagementPage from "@/pages/fund-management-page";
 import LeaderboardPage from "@/pages/leaderboard-page";
 import SettingsRouter from "@/pages/settings-router";
 import UserDetailsPage from "@/pages/user-details-page";
-import ResetZonePage from "@/pages/reset-zone-page";
+import ArchivePage from "@/pages/archive-page";
+import SecurityPage from "@/pages/security-page";
+import ReauthenticateDialog from "@/components/reauthenticate-dialog";
+import RealityCheckDialog from "@/components/reality-check-dialog";
 import RiskManagementPage from "@/pages/risk-management-page";
 import ResultsPage from "@/pages/results-page";
+import PermissionsPage from "@/pages/permissions-page";
+import AuditLogPage from "@/pages/audit-log-page";
+import KycReviewPage from "@/pages/kyc-review-page";
 
 function Router() {
   return (
@@ -107,13 +113,34 @@ function Router() {
         allowedRoles={[UserRole.ADMIN]}
       />
       
-      {/* Reset Zone route - admin only */}
+      {/* Archives route - admin only */}
       <ProtectedRoute 
-        path="/reset-zone" 
-        component={ResetZonePage} 
+        path="/archives" 
+        component={ArchivePage} 
         allowedRoles={[UserRole.ADMIN]}
       />
       
+      {/* Roles and permissions route - admin only */}
+      <ProtectedRoute 
+        path="/permissions" 
+        component={PermissionsPage} 
+        allowedRoles={[UserRole.ADMIN]}
+      />
+      
+      {/* Audit log route - admin only */}
+      <ProtectedRoute 
+        path="/audit-log" 
+        component={AuditLogPage} 
+        allowedRoles={[UserRole.ADMIN]}
+      />
+      
+      {/* KYC review queue - admins and agents */}
+      <ProtectedRoute 
+        path="/kyc-review" 
+        component={KycReviewPage} 
+        allowedRoles={[UserRole.ADMIN, UserRole.SUBADMIN]}
+      />
+      
       {/* Risk Management route */}
       <ProtectedRoute 
         path="/risk-management" 
@@ -158,6 +185,12 @@ function Router() {
         component={ProfilePage}
       />
       
+      {/* Two-factor authentication - accessible to all authenticated users */}
+      <ProtectedRoute
+        path="/security"
+        component={SecurityPage}
+      />
+      
       {/* Wallet route - accessible to all authenticated users */}
       <ProtectedRoute
         path="/wallet"
@@ -181,6 +214,8 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
         <Router />
+        <ReauthenticateDialog />
+        <RealityCheckDialog />
         <Toaster />
       </AuthProvider>
     </QueryClientProvider>
@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { UserRole, AgentPermission } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ChevronDown, ChevronRight, Loader2, Network, UserPlus, Users } from "lucide-react";
+import { formatPaisa } from "@shared/money";
+
+interface AgentTreeNode {
+  id: number;
+  username: string;
+  parentId: number | null;
+  depth: number;
+  tier: string;
+  balance: number; // in paisa
+  isBlocked: boolean;
+  playerCount: number;
+  commissionRate: number; // 10000-based
+  permissions: string[];
+}
+
+const PERMISSION_LABELS: Record<string, string> = {
+  [AgentPermission.CREATE_AGENTS]: "Create agents",
+  [AgentPermission.SET_ODDS]: "Set odds",
+  [AgentPermission.MANAGE_FUNDS]: "Manage funds",
+};
+
+const TOP_LEVEL = "top";
+
+/**
+ * The agent tree below the viewer: every agent for admins, an agent's own
+ * subtree otherwise. Agents can change the permissions of the agents below
+ * them; admins can also move agents around.
+ */
+export default function AgentTree() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isAdmin = user?.role === UserRole.ADMIN;
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [newAgent, setNewAgent] = useState({ username: "", email: "", mobile: "", password: "" });
+
+  const { data: nodes = [], isLoading } = useQuery<AgentTreeNode[]>({
+    queryKey: ["/api/agents/tree"],
+    enabled: !!user,
+  });
+
+  const childrenOf = (parentId: number | null) => nodes.filter(node => node.parentId === parentId);
+  const ownNode = nodes.find(node => node.id === user?.id);
+  const canCreateAgents = !isAdmin && !!ownNode?.permissions.includes(AgentPermission.CREATE_AGENTS);
+
+  const invalidateTree = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/agents/tree"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+  };
+
+  const permissionsMutation = useMutation({
+    mutationFn: async ({ agentId, permissions }: { agentId: number; permissions: string[] }) => {
+      const res = await apiRequest("PUT", `/api/agents/${agentId}/permissions`, { permissions });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateTree();
+      toast({ title: "Permissions updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update permissions", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ agentId, parentId }: { agentId: number; parentId: number | null }) => {
+      const res = await apiRequest("PUT", `/api/agents/${agentId}/parent`, { parentId });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateTree();
+      toast({ title: "Agent moved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to move agent", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createAgentMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/register", { ...newAgent, role: UserRole.SUBADMIN });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateTree();
+      setIsCreateOpen(false);
+      setNewAgent({ username: "", email: "", mobile: "", password: "" });
+      toast({ title: "Sub-agent created" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create sub-agent", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleCollapsed = (agentId: number) => {
+    setCollapsed(current => {
+      const next = new Set(current);
+      if (next.has(agentId)) {
+        next.delete(agentId);
+      } else {
+        next.add(agentId);
+      }
+      return next;
+    });
+  };
+
+  const togglePermission = (node: AgentTreeNode, permission: string, granted: boolean) => {
+    const permissions = granted
+      ? [...node.permissions, permission]
+      : node.permissions.filter(current => current !== permission);
+    permissionsMutation.mutate({ agentId: node.id, permissions });
+  };
+
+  // Agents a node can be moved below: any agent outside its own subtree
+  const moveTargets = (node: AgentTreeNode) => {
+    const subtree = new Set([node.id]);
+    for (const candidate of nodes) {
+      if (candidate.parentId !== null && subtree.has(candidate.parentId)) {
+        subtree.add(candidate.id);
+      }
+    }
+    return nodes.filter(candidate => !subtree.has(candidate.id));
+  };
+
+  const renderNode = (node: AgentTreeNode) => {
+    const children = childrenOf(node.id);
+    const isCollapsed = collapsed.has(node.id);
+    // Agents manage the agents below them, not themselves
+    const canEdit = isAdmin || node.id !== user?.id;
+
+    return (
+      <li key={node.id}>
+        <div className="flex flex-wrap items-center gap-3 rounded-md border border-slate-800 px-3 py-2 mb-2">
+          <button
+            type="button"
+            className="text-muted-foreground disabled:opacity-30"
+            onClick={() => toggleCollapsed(node.id)}
+            disabled={children.length === 0}
+          >
+            {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </button>
+          <span className="font-medium">{node.username}</span>
+          <Badge variant="outline">{node.tier}</Badge>
+          {node.isBlocked && <Badge variant="destructive">Blocked</Badge>}
+          <span className="flex items-center text-sm text-muted-foreground">
+            <Users className="h-3 w-3 mr-1" />
+            {node.playerCount} players
+          </span>
+          <span className="text-sm text-muted-foreground">
+            Commission {(node.commissionRate / 100).toFixed(2)}%
+          </span>
+          <span className="text-sm text-muted-foreground">
+            {formatPaisa(node.balance)}
+          </span>
+
+          <div className="flex flex-wrap items-center gap-3 ml-auto">
+            {Object.entries(PERMISSION_LABELS).map(([permission, label]) => (
+              <label key={permission} className="flex items-center gap-1 text-sm">
+                <Checkbox
+                  checked={node.permissions.includes(permission)}
+                  disabled={!canEdit || permissionsMutation.isPending}
+                  onCheckedChange={(checked) => togglePermission(node, permission, checked === true)}
+                />
+                {label}
+              </label>
+            ))}
+
+            {isAdmin && (
+              <Select
+                value={node.parentId === null ? TOP_LEVEL : String(node.parentId)}
+                onValueChange={(value) => moveMutation.mutate({
+                  agentId: node.id,
+                  parentId: value === TOP_LEVEL ? null : Number(value),
+                })}
+                disabled={moveMutation.isPending}
+              >
+                <SelectTrigger className="h-8 w-[170px]">
+                  <SelectValue placeholder="Move below" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={TOP_LEVEL}>Top level</SelectItem>
+                  {moveTargets(node).map(target => (
+                    <SelectItem key={target.id} value={String(target.id)}>
+                      Below {target.username}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </div>
+
+        {children.length > 0 && !isCollapsed && (
+          <ul className="ml-6 border-l border-slate-800 pl-4">
+            {children.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  // Roots are the nodes whose parent is not in the list
+  const roots = nodes.filter(node => node.parentId === null || !nodes.some(parent => parent.id === node.parentId));
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <Network className="h-5 w-5 mr-2" />
+            Agent Tree
+          </CardTitle>
+          <CardDescription>
+            Agents inherit permissions from the agents above them and can only grant what they have
+          </CardDescription>
+        </div>
+        {canCreateAgents && (
+          <Button size="sm" onClick={() => setIsCreateOpen(true)}>
+            <UserPlus className="h-4 w-4 mr-2" />
+            Create Sub-agent
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : roots.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No agents yet</p>
+        ) : (
+          <ul>{roots.map(renderNode)}</ul>
+        )}
+      </CardContent>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create Sub-agent</DialogTitle>
+            <DialogDescription>
+              The new agent sits directly below you and inherits your permissions
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {(["username", "email", "mobile", "password"] as const).map(field => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`agent-${field}`} className="capitalize">{field}</Label>
+                <Input
+                  id={`agent-${field}`}
+                  type={field === "password" ? "password" : "text"}
+                  value={newAgent[field]}
+                  onChange={(e) => setNewAgent({ ...newAgent, [field]: e.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createAgentMutation.mutate()}
+              disabled={createAgentMutation.isPending || !newAgent.username || !newAgent.password}
+            >
+              {createAgentMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
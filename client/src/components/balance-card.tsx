@@ -3,13 +3,16 @@ import { Button } from "@/components/ui/button";
 import { IndianRupee } from "lucide-react";
 import { Link } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { formatPaisa } from "@shared/money";
 
 interface BalanceCardProps {
-  balance: number;
+  balance: number; // Available balance in paisa
 }
 
 export default function BalanceCard({ balance }: BalanceCardProps) {
   const { user } = useAuth();
+  // Funds held for pending withdrawals
+  const heldBalance = user?.heldBalance || 0;
   // Link directly to the wallet page with deposit tab pre-selected
   const walletUrl = "/wallet?tab=deposit";
   
@@ -25,8 +28,13 @@ export default function BalanceCard({ balance }: BalanceCardProps) {
             <IndianRupee className="w-6 h-6 text-white" />
           </div>
           <div>
-            <p className="text-sm text-slate-400">Your Balance</p>
-            <p className="text-xl font-bold text-fuchsia-300">₹{balance.toFixed(2)}</p>
+            <p className="text-sm text-slate-400">Available Balance</p>
+            <p className="text-xl font-bold text-fuchsia-300">{formatPaisa(balance)}</p>
+            {heldBalance > 0 && (
+              <p className="text-xs text-slate-400">
+                {formatPaisa(heldBalance)} held · {formatPaisa(balance + heldBalance)} total
+              </p>
+            )}
           </div>
           {canDeposit && (
             <Link href={walletUrl}>
@@ -0,0 +1,385 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { StatementLineStatus, type BankStatementProfile } from "@shared/schema";
+import { formatPaisa } from "@shared/money";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { format } from "date-fns";
+
+interface StatementImport {
+  id: number;
+  fileName: string;
+  profileName: string;
+  lineCount: number;
+  matchedCount: number;
+  fuzzyCount: number;
+  unmatchedCount: number;
+  createdAt: string;
+}
+
+interface StatementLine {
+  id: number;
+  lineNumber: number;
+  utr: string | null;
+  amount: number | null;
+  transactedAt: string | null;
+  description: string | null;
+  status: string;
+  walletRequestId: number | null;
+  candidateRequestIds: number[];
+  note: string | null;
+}
+
+interface ReconciliationReport {
+  statementImport: StatementImport;
+  lines: StatementLine[];
+  unmatchedRequests: {
+    id: number;
+    username: string;
+    amount: number;
+    utr: string | null;
+    createdAt: string | null;
+  }[];
+}
+
+interface BankStatementImportProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const EMPTY_PROFILE: BankStatementProfile = {
+  name: "",
+  utrColumn: "UTR",
+  amountColumn: "Amount",
+  dateColumn: "Date",
+  dateFormat: "dd/MM/yyyy",
+  descriptionColumn: "",
+  typeColumn: "",
+  creditValue: "",
+  matchWindowHours: 48,
+};
+
+const MAPPING_FIELDS: { key: keyof BankStatementProfile; label: string; placeholder?: string }[] = [
+  { key: "name", label: "Bank / profile name" },
+  { key: "utrColumn", label: "UTR column" },
+  { key: "amountColumn", label: "Amount column" },
+  { key: "dateColumn", label: "Date column" },
+  { key: "dateFormat", label: "Date format", placeholder: "dd/MM/yyyy HH:mm" },
+  { key: "descriptionColumn", label: "Description column", placeholder: "Optional" },
+  { key: "typeColumn", label: "Credit/debit column", placeholder: "Optional" },
+  { key: "creditValue", label: "Credit value", placeholder: "e.g. CR" },
+  { key: "matchWindowHours", label: "Match window (hours)" },
+];
+
+const formatRupees = (paisa: number | null) => (paisa === null ? "—" : formatPaisa(paisa));
+
+function LineStatusBadge({ status }: { status: string }) {
+  switch (status) {
+    case StatementLineStatus.MATCHED:
+      return <Badge className="bg-green-600">Auto-approved</Badge>;
+    case StatementLineStatus.FUZZY:
+      return <Badge className="bg-yellow-600">Review</Badge>;
+    case StatementLineStatus.ALREADY_CREDITED:
+      return <Badge variant="outline">Already credited</Badge>;
+    case StatementLineStatus.INVALID:
+      return <Badge variant="outline" className="border-red-500 text-red-500">Unreadable</Badge>;
+    default:
+      return <Badge className="bg-red-600">No request</Badge>;
+  }
+}
+
+/**
+ * Import a bank / UPI statement and reconcile it against pending deposits.
+ * Exact matches are approved, the rest is reported for manual review.
+ */
+export default function BankStatementImport({ isOpen, onClose }: BankStatementImportProps) {
+  const queryClient = useQueryClient();
+  const [profileName, setProfileName] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  // Mapping being edited, with the name it was saved under (null for a new bank)
+  const [editing, setEditing] = useState<{ originalName: string | null; profile: BankStatementProfile } | null>(null);
+  const [reportId, setReportId] = useState<number | null>(null);
+
+  const { data: profiles = [] } = useQuery<BankStatementProfile[]>({
+    queryKey: ["/api/bank-statements/profiles"],
+    enabled: isOpen,
+  });
+
+  const { data: imports = [] } = useQuery<StatementImport[]>({
+    queryKey: ["/api/bank-statements"],
+    enabled: isOpen,
+  });
+
+  const { data: report } = useQuery<ReconciliationReport>({
+    queryKey: [`/api/bank-statements/${reportId}`],
+    enabled: isOpen && reportId !== null,
+  });
+
+  useEffect(() => {
+    if (!profileName && profiles.length > 0) {
+      setProfileName(profiles[0].name);
+    }
+  }, [profiles, profileName]);
+
+  const importStatement = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("statement", file!);
+      formData.append("profile", profileName);
+
+      const res = await fetch("/api/bank-statements/import", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to import statement");
+      }
+      return res.json() as Promise<ReconciliationReport>;
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData([`/api/bank-statements/${result.statementImport.id}`], result);
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-statements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wallet/requests"] });
+      setReportId(result.statementImport.id);
+      setFile(null);
+      toast({
+        title: "Statement imported",
+        description: `${result.statementImport.matchedCount} of ${result.statementImport.lineCount} credits auto-approved`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveProfiles = useMutation({
+    mutationFn: async (updated: BankStatementProfile[]) => {
+      const res = await apiRequest("PUT", "/api/bank-statements/profiles", { profiles: updated });
+      return res.json() as Promise<BankStatementProfile[]>;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/bank-statements/profiles"], saved);
+      if (editing) setProfileName(editing.profile.name);
+      setEditing(null);
+      toast({ title: "Column mapping saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save mapping", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSaveProfile = () => {
+    if (!editing) return;
+    saveProfiles.mutate(editing.originalName === null
+      ? [...profiles, editing.profile]
+      : profiles.map((profile) => (profile.name === editing.originalName ? editing.profile : profile)));
+  };
+
+  const editProfile = (name: string) => {
+    const profile = profiles.find((candidate) => candidate.name === name);
+    if (profile) setEditing({ originalName: name, profile: { ...profile } });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Bank Statement Reconciliation</DialogTitle>
+          <DialogDescription>
+            Upload a CSV statement to match its credits with pending deposits by UTR, amount and time.
+            Exact matches are approved; partial matches are left for you to review.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 md:grid-cols-[1fr_1fr_auto] items-end">
+          <div className="space-y-1">
+            <Label>Column mapping</Label>
+            <Select value={profileName} onValueChange={setProfileName}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a bank" />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map((profile) => (
+                  <SelectItem key={profile.name} value={profile.name}>{profile.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Statement (CSV)</Label>
+            <Input type="file" accept=".csv,text/csv" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+          </div>
+          <Button onClick={() => importStatement.mutate()} disabled={!file || !profileName || importStatement.isPending}>
+            {importStatement.isPending ? "Importing..." : "Import"}
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!profileName}
+            onClick={() => editProfile(profileName)}
+          >
+            Edit mapping
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setEditing({ originalName: null, profile: { ...EMPTY_PROFILE } })}>
+            New bank
+          </Button>
+        </div>
+
+        {editing && (
+          <div className="rounded-md border p-4 space-y-3">
+            <div className="grid gap-3 md:grid-cols-3">
+              {MAPPING_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label className="text-xs">{field.label}</Label>
+                  <Input
+                    type={field.key === "matchWindowHours" ? "number" : "text"}
+                    value={editing.profile[field.key] ?? ""}
+                    placeholder={field.placeholder}
+                    onChange={(e) => setEditing({
+                      ...editing,
+                      profile: {
+                        ...editing.profile,
+                        [field.key]: field.key === "matchWindowHours" ? Number(e.target.value) : e.target.value,
+                      },
+                    })}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>Cancel</Button>
+              <Button size="sm" onClick={handleSaveProfile} disabled={saveProfiles.isPending}>
+                {saveProfiles.isPending ? "Saving..." : "Save mapping"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {imports.length > 0 && (
+          <div className="space-y-1">
+            <Label>Past imports</Label>
+            <Select value={reportId !== null ? String(reportId) : ""} onValueChange={(value) => setReportId(Number(value))}>
+              <SelectTrigger>
+                <SelectValue placeholder="View an earlier reconciliation" />
+              </SelectTrigger>
+              <SelectContent>
+                {imports.map((statementImport) => (
+                  <SelectItem key={statementImport.id} value={String(statementImport.id)}>
+                    {statementImport.fileName} · {format(new Date(statementImport.createdAt), "dd MMM yyyy HH:mm")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {report && (
+          <div className="space-y-4">
+            <Separator />
+            <div className="flex flex-wrap gap-4 text-sm">
+              <span>{report.statementImport.lineCount} credits</span>
+              <span className="text-green-500">{report.statementImport.matchedCount} auto-approved</span>
+              <span className="text-yellow-500">{report.statementImport.fuzzyCount} to review</span>
+              <span className="text-red-500">{report.statementImport.unmatchedCount} without a request</span>
+              <span className="text-red-500">{report.unmatchedRequests.length} pending deposits not on the statement</span>
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Line</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>UTR</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead>Requests</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.lines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell>{line.lineNumber}</TableCell>
+                      <TableCell>{line.transactedAt ? format(new Date(line.transactedAt), "dd MMM HH:mm") : "—"}</TableCell>
+                      <TableCell className="font-mono text-xs">{line.utr ?? "—"}</TableCell>
+                      <TableCell className="text-right">{formatRupees(line.amount)}</TableCell>
+                      <TableCell>
+                        <LineStatusBadge status={line.status} />
+                        {line.note && <div className="text-xs text-muted-foreground mt-1">{line.note}</div>}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {line.walletRequestId
+                          ? `#${line.walletRequestId}`
+                          : line.candidateRequestIds.map((id) => `#${id}`).join(", ") || "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {report.unmatchedRequests.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium">Pending deposits without a credit</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Request</TableHead>
+                      <TableHead>User</TableHead>
+                      <TableHead>UTR</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Requested</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.unmatchedRequests.map((request) => (
+                      <TableRow key={request.id}>
+                        <TableCell>#{request.id}</TableCell>
+                        <TableCell>{request.username}</TableCell>
+                        <TableCell className="font-mono text-xs">{request.utr ?? "—"}</TableCell>
+                        <TableCell className="text-right">{formatRupees(request.amount)}</TableCell>
+                        <TableCell>{request.createdAt ? format(new Date(request.createdAt), "dd MMM HH:mm") : "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
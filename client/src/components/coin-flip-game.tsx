@@ -1,10 +1,10 @@
 import { useState, useRef, useEffect } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, idempotencyHeaders } from "@/lib/queryClient";
 import { GameOutcome } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
-import { formatCurrency, formatProfitLoss } from "@/lib/format-utils";
+import { formatPaisa, paisaToRupees, rupeesToPaisa } from "@shared/money";
 import { 
   playCoinFlipSound, 
   playWinSound, 
@@ -30,7 +30,9 @@ import {
   X, 
   History, 
   Volume2, 
-  VolumeX 
+  VolumeX,
+  ShieldCheck,
+  RefreshCw
 } from "lucide-react";
 
 // Game history type to use in the component
@@ -45,6 +47,42 @@ interface GameHistory {
   createdAt: string;
 }
 
+// Provably fair seed pair of the player; serverSeed is only set once revealed
+interface FairnessSeed {
+  id: number;
+  serverSeedHash: string;
+  serverSeed: string | null;
+  clientSeed: string;
+  nonce: number;
+  headsProbability?: number;
+}
+
+// What a past flip was derived from
+interface FlipProof {
+  gameId: number;
+  prediction: string;
+  result: string;
+  serverSeedHash: string;
+  serverSeed: string | null;
+  clientSeed: string;
+  nonce: number;
+}
+
+interface RtpPolicy {
+  gameType: string;
+  label: string;
+  winProbability: number;
+  payoutMultiplier: number;
+  rtp: number;
+}
+
+interface VerifyResult {
+  serverSeedHash: string;
+  roll: number;
+  outcome: string;
+  headsProbability: number;
+}
+
 export default function CoinFlipGame() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -56,47 +94,21 @@ export default function CoinFlipGame() {
   const [showLosePopup, setShowLosePopup] = useState(false);
   const [walletUpdating, setWalletUpdating] = useState(false);
   const [muted, setMuted] = useState(isSoundMuted());
-  const [gameOdds, setGameOdds] = useState(0);
   const [lastResult, setLastResult] = useState<{
     isWin: boolean;
     amount: number;
     prediction: string;
     result: string;
   } | null>(null);
+  const [verifyGameId, setVerifyGameId] = useState<number | null>(null);
   const coinRef = useRef<HTMLDivElement>(null);
   
-  // Fetch the game odds for Coin Flip
-  const { data: coinFlipOddsData } = useQuery<any>({
-    queryKey: ['/api/game-odds/player', 'coin_flip', user?.id],
-    queryFn: async () => {
-      try {
-        const response = await apiRequest("GET", `/api/game-odds/player?gameType=coin_flip`)
-          .then(res => res.json())
-          .catch(err => {
-            console.error("Error fetching coin flip odds:", err);
-            return null;
-          });
-        
-        console.log("Coin flip odds from API:", response);
-        return response;
-      } catch (error) {
-        console.error("Failed to fetch coin flip odds:", error);
-        return null;
-      }
-    },
-    enabled: !!user
+  // Published RTP policy: the same win probability and multiplier for every player
+  const { data: rtpPolicies } = useQuery<RtpPolicy[]>({
+    queryKey: ["/api/rtp"],
   });
-  
-  // Update game odds when they load
-  useEffect(() => {
-    if (coinFlipOddsData && coinFlipOddsData.length > 0) {
-      // The odds are stored as integer with multiplier * 10000
-      // For example, 1.95x is stored as 19500
-      const odds = coinFlipOddsData[0]?.oddValue / 10000;
-      console.log("Using coin flip odds:", odds);
-      setGameOdds(odds || 1.95); // Default to 1.95 if no odds are set
-    }
-  }, [coinFlipOddsData]);
+  const rtpPolicy = rtpPolicies?.find(policy => policy.gameType === "coin_flip");
+  const gameOdds = rtpPolicy?.payoutMultiplier ?? 0;
   
   // Fetch recent games for the user, filtered by coin_flip game type
   const { data: games = [] } = useQuery<GameHistory[]>({
@@ -108,9 +120,9 @@ export default function CoinFlipGame() {
   const playGameMutation = useMutation({
     mutationFn: async ({ betAmount, prediction }: { betAmount: number; prediction: string }) => {
       const res = await apiRequest("POST", "/api/games/play", {
-        betAmount: betAmount * 100, // Convert to cents
+        betAmount: rupeesToPaisa(betAmount),
         prediction,
-      });
+      }, { headers: idempotencyHeaders() });
       return await res.json();
     },
     onSuccess: (data) => {
@@ -157,6 +169,8 @@ export default function CoinFlipGame() {
         
         // Invalidate game history query to refresh the last results display
         queryClient.invalidateQueries({ queryKey: ["/api/games/my-history"] });
+        // The seed pair moved on to the next nonce
+        queryClient.invalidateQueries({ queryKey: ["/api/fairness/seed"] });
         
         setWalletUpdating(false);
         
@@ -197,7 +211,7 @@ export default function CoinFlipGame() {
   };
 
   const handleMaxAmount = () => {
-    setBetAmount(Math.floor((user?.balance || 0) / 100));
+    setBetAmount(Math.floor(paisaToRupees(user?.balance || 0)));
   };
 
   const selectPrediction = (prediction: string) => {
@@ -247,8 +261,7 @@ export default function CoinFlipGame() {
       return;
     }
 
-    const betAmountInCents = betAmount * 100;
-    if (betAmountInCents > (user?.balance || 0)) {
+    if (rupeesToPaisa(betAmount) > (user?.balance || 0)) {
       toast({
         title: "Insufficient balance",
         description: "You don't have enough balance for this bet",
@@ -415,8 +428,9 @@ export default function CoinFlipGame() {
                           game.result === GameOutcome.HEADS 
                             ? "bg-primary text-white" 
                             : "bg-purple-600 text-white"
-                        } ${game.payout > 0 ? 'ring-2 ring-green-500 ring-offset-1 ring-offset-background' : 'ring-1 ring-red-500/30'}`}
-                        title={`${game.result} (${game.payout > 0 ? 'Win' : 'Loss'})`}
+                        } ${game.payout > 0 ? 'ring-2 ring-green-500 ring-offset-1 ring-offset-background' : 'ring-1 ring-red-500/30'} cursor-pointer`}
+                        title={`${game.result} (${game.payout > 0 ? 'Win' : 'Loss'}) - click to verify`}
+                        onClick={() => setVerifyGameId(game.id)}
                       >
                         {game.result === GameOutcome.HEADS ? 'H' : 'T'}
                       </div>
@@ -465,7 +479,7 @@ export default function CoinFlipGame() {
                   variant="outline" 
                   size="sm" 
                   onClick={() => setBetAmount(betAmount + 1)}
-                  disabled={betAmount * 100 >= (user?.balance || 0) - 100 || isFlipping}
+                  disabled={rupeesToPaisa(betAmount + 1) > (user?.balance || 0) || isFlipping}
                   className="px-2 h-8 rounded-l-none"
                 >
                   <ChevronsUp className="h-3 w-3" />
@@ -476,7 +490,7 @@ export default function CoinFlipGame() {
                   variant="outline" 
                   size="sm" 
                   onClick={() => handleQuickAmount(10)}
-                  disabled={isFlipping || 1000 > (user?.balance || 0)}
+                  disabled={isFlipping || rupeesToPaisa(10) > (user?.balance || 0)}
                   className="text-xs h-7"
                 >
                   ₹10
@@ -485,7 +499,7 @@ export default function CoinFlipGame() {
                   variant="outline" 
                   size="sm" 
                   onClick={() => handleQuickAmount(50)}
-                  disabled={isFlipping || 5000 > (user?.balance || 0)}
+                  disabled={isFlipping || rupeesToPaisa(50) > (user?.balance || 0)}
                   className="text-xs h-7"
                 >
                   ₹50
@@ -494,7 +508,7 @@ export default function CoinFlipGame() {
                   variant="outline" 
                   size="sm" 
                   onClick={() => handleQuickAmount(100)}
-                  disabled={isFlipping || 10000 > (user?.balance || 0)}
+                  disabled={isFlipping || rupeesToPaisa(100) > (user?.balance || 0)}
                   className="text-xs h-7"
                 >
                   ₹100
@@ -519,23 +533,34 @@ export default function CoinFlipGame() {
                 </span>
                 <div className="flex items-center text-green-500 font-medium">
                   {/* Use game odds from the server instead of hardcoded value */}
-                  ₹{(betAmount * (gameOdds > 0 ? gameOdds : 1.95)).toFixed(2)}
+                  {formatPaisa(rupeesToPaisa(betAmount * (gameOdds > 0 ? gameOdds : 1.95)))}
                   <span className="text-xs text-muted-foreground ml-1">
                     ({(gameOdds > 0 ? gameOdds : 1.95).toFixed(2)}x)
                   </span>
                 </div>
               </div>
+              {rtpPolicy && (
+                <div className="text-xs text-muted-foreground">
+                  RTP {(rtpPolicy.rtp * 100).toFixed(2)}% · every flip wins with {(rtpPolicy.winProbability * 100).toFixed(0)}% chance
+                </div>
+              )}
             </div>
             
             <Button
               onClick={handlePlaceBet}
               className="w-full px-4 py-4 bg-gradient-to-r from-primary/90 to-purple-600 hover:from-primary hover:to-purple-700 text-white font-bold text-center transition-colors"
-              disabled={isFlipping || !selectedPrediction || betAmount <= 0 || betAmount * 100 > (user?.balance || 0)}
+              disabled={isFlipping || !selectedPrediction || betAmount <= 0 || rupeesToPaisa(betAmount) > (user?.balance || 0)}
             >
               {isFlipping ? "Flipping..." : "PLACE BET"}
             </Button>
           </div>
         </div>
+
+        <FairnessPanel
+          enabled={!!user}
+          verifyGameId={verifyGameId}
+          onVerifyGameIdChange={setVerifyGameId}
+        />
       </CardContent>
 
       {/* Win Popup */}
@@ -645,3 +670,210 @@ export default function CoinFlipGame() {
     </Card>
   );
 }
+
+interface FairnessPanelProps {
+  enabled: boolean;
+  verifyGameId: number | null;
+  onVerifyGameIdChange: (gameId: number | null) => void;
+}
+
+/**
+ * Provably fair panel: shows the committed server seed hash before the next
+ * flip, lets the player change their client seed (which reveals the current
+ * server seed) and recomputes any past flip from its seeds.
+ */
+function FairnessPanel({ enabled, verifyGameId, onVerifyGameIdChange }: FairnessPanelProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [newClientSeed, setNewClientSeed] = useState("");
+  const [revealedSeed, setRevealedSeed] = useState<FairnessSeed | null>(null);
+  const [proof, setProof] = useState<FlipProof | null>(null);
+  const [verifyInput, setVerifyInput] = useState({ serverSeed: "", clientSeed: "", nonce: "" });
+  const [verifyResult, setVerifyResult] = useState<VerifyResult | null>(null);
+
+  const { data: seed } = useQuery<FairnessSeed>({
+    queryKey: ["/api/fairness/seed"],
+    enabled,
+  });
+
+  const rotateSeed = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/fairness/rotate", {
+        clientSeed: newClientSeed.trim() || undefined,
+      });
+      return await res.json() as { revealedSeed: FairnessSeed | null; seed: FairnessSeed };
+    },
+    onSuccess: (data) => {
+      setRevealedSeed(data.revealedSeed);
+      setNewClientSeed("");
+      queryClient.setQueryData(["/api/fairness/seed"], (current: FairnessSeed | undefined) => ({ ...current, ...data.seed }));
+      toast({ title: "Seed changed", description: "Your previous server seed is revealed below" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not change seed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const loadProof = useMutation({
+    mutationFn: async (gameId: number) => {
+      const res = await apiRequest("GET", `/api/fairness/games/${gameId}`);
+      return await res.json() as FlipProof;
+    },
+    onSuccess: (data) => {
+      setProof(data);
+      setVerifyResult(null);
+      setVerifyInput({ serverSeed: data.serverSeed ?? "", clientSeed: data.clientSeed, nonce: String(data.nonce) });
+    },
+    onError: (error: Error) => {
+      setProof(null);
+      toast({ title: "Could not load flip", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => onVerifyGameIdChange(null),
+  });
+
+  // Clicking a past result loads its proof
+  useEffect(() => {
+    if (verifyGameId !== null) {
+      setOpen(true);
+      loadProof.mutate(verifyGameId);
+    }
+  }, [verifyGameId]);
+
+  const verify = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/fairness/verify", {
+        serverSeed: verifyInput.serverSeed.trim(),
+        clientSeed: verifyInput.clientSeed,
+        nonce: Number(verifyInput.nonce),
+      });
+      return await res.json() as VerifyResult;
+    },
+    onSuccess: setVerifyResult,
+    onError: (error: Error) => {
+      toast({ title: "Verification failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const hashMatches = verifyResult && proof ? verifyResult.serverSeedHash === proof.serverSeedHash : null;
+  const outcomeMatches = verifyResult && proof ? verifyResult.outcome === proof.result : null;
+
+  return (
+    <div className="mt-4 border border-border rounded-lg">
+      <button
+        type="button"
+        className="w-full flex items-center justify-between px-3 py-2 text-sm"
+        onClick={() => setOpen(!open)}
+      >
+        <span className="flex items-center font-medium">
+          <ShieldCheck className="h-4 w-4 mr-1 text-green-500" />
+          Provably Fair
+        </span>
+        <span className="text-xs text-muted-foreground">{open ? "Hide" : "Verify flips"}</span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-4 text-xs">
+          <p className="text-muted-foreground">
+            Each flip is HMAC-SHA256(server seed, "client seed:nonce"). The first 4 bytes give a
+            roll between 0 and 1; below {seed?.headsProbability ?? 0.5} is heads, otherwise tails.
+            The hash of the server seed is fixed before you bet, and the seed is revealed when you change it.
+          </p>
+
+          {seed && (
+            <div className="space-y-1">
+              <div className="font-medium text-sm">Current seeds</div>
+              <div className="break-all"><span className="text-muted-foreground">Server seed hash:</span> {seed.serverSeedHash}</div>
+              <div className="break-all"><span className="text-muted-foreground">Client seed:</span> {seed.clientSeed}</div>
+              <div><span className="text-muted-foreground">Next nonce:</span> {seed.nonce}</div>
+              <div className="flex gap-2 pt-1">
+                <Input
+                  value={newClientSeed}
+                  onChange={(e) => setNewClientSeed(e.target.value)}
+                  placeholder="New client seed (optional)"
+                  className="h-8 text-xs"
+                  maxLength={64}
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-8"
+                  onClick={() => rotateSeed.mutate()}
+                  disabled={rotateSeed.isPending}
+                >
+                  <RefreshCw className="h-3 w-3 mr-1" />
+                  Change
+                </Button>
+              </div>
+              {revealedSeed && (
+                <div className="break-all p-2 rounded bg-muted/30">
+                  <div className="text-muted-foreground">Revealed server seed ({revealedSeed.nonce} flips):</div>
+                  {revealedSeed.serverSeed}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="font-medium text-sm">Verify a flip</div>
+            {proof && (
+              <div className="text-muted-foreground">
+                Flip #{proof.gameId}: bet on {proof.prediction}, result {proof.result}
+                {!proof.serverSeed && " - change your seed to reveal its server seed"}
+              </div>
+            )}
+            <div>
+              <Label className="text-xs">Server seed</Label>
+              <Input
+                value={verifyInput.serverSeed}
+                onChange={(e) => setVerifyInput({ ...verifyInput, serverSeed: e.target.value })}
+                className="h-8 text-xs"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="col-span-2">
+                <Label className="text-xs">Client seed</Label>
+                <Input
+                  value={verifyInput.clientSeed}
+                  onChange={(e) => setVerifyInput({ ...verifyInput, clientSeed: e.target.value })}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Nonce</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={verifyInput.nonce}
+                  onChange={(e) => setVerifyInput({ ...verifyInput, nonce: e.target.value })}
+                  className="h-8 text-xs"
+                />
+              </div>
+            </div>
+            <Button
+              size="sm"
+              className="w-full h-8"
+              onClick={() => verify.mutate()}
+              disabled={!verifyInput.serverSeed || !verifyInput.clientSeed || verifyInput.nonce === "" || verify.isPending}
+            >
+              Verify
+            </Button>
+            {verifyResult && (
+              <div className="space-y-1 p-2 rounded bg-muted/30 break-all">
+                <div><span className="text-muted-foreground">Server seed hash:</span> {verifyResult.serverSeedHash}</div>
+                <div><span className="text-muted-foreground">Roll:</span> {verifyResult.roll.toFixed(8)}</div>
+                <div><span className="text-muted-foreground">Outcome:</span> <span className="capitalize">{verifyResult.outcome}</span></div>
+                {hashMatches !== null && (
+                  <div className={hashMatches && outcomeMatches ? "text-green-500" : "text-red-500"}>
+                    {hashMatches
+                      ? outcomeMatches ? "Matches the committed hash and the recorded result" : "Hash matches but the outcome differs from the recorded result"
+                      : "Hash does not match the seed committed for this flip"}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
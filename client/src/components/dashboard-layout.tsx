@@ -5,6 +5,7 @@ import { useAuth } from "@/hooks/use-auth";
 import { Wallet, LogOut, User as UserIcon } from "lucide-react";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useLocation } from "wouter";
+import { formatPaisa } from "@shared/money";
 import { 
   DropdownMenu,
   DropdownMenuContent,
@@ -44,7 +45,7 @@ export default function DashboardLayout({ children, title, activeTab }: Dashboar
                   <div className="flex items-center gap-3">
                     <div className="flex items-center bg-slate-800/60 px-3 py-1.5 rounded-full">
                       <Wallet className="h-4 w-4 mr-2 text-primary" />
-                      <span className="font-medium">₹{(user.balance / 100).toFixed(2)}</span>
+                      <span className="font-medium">{formatPaisa(user.balance)}</span>
                     </div>
                     
                     {/* User avatar dropdown - only for mobile */}
@@ -12,6 +12,12 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/hooks/use-auth";
 import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+
+interface RtpPolicy {
+  gameType: string;
+  rtp: number;
+}
 
 interface GameCardProps {
   id: string;
@@ -24,6 +30,7 @@ interface GameCardProps {
   comingSoon?: boolean;
   imageUrl?: string; // For direct image URL (backward compatibility)
   gameType?: "market" | "sports" | "cricket" | "coinflip" | "sportsexchange" | string; // Game type for automatic image selection
+  rtpGameType?: string; // Server game type whose published RTP replaces the win rate
 }
 
 export default function GameCard({ 
@@ -36,11 +43,18 @@ export default function GameCard({
   winRate,
   comingSoon = false,
   imageUrl,
-  gameType
+  gameType,
+  rtpGameType
 }: GameCardProps) {
   const [_, setLocation] = useLocation();
   const { user } = useAuth() || {};
   const [gameCardImage, setGameCardImage] = useState<string | null>(null);
+
+  const { data: rtpPolicies } = useQuery<RtpPolicy[]>({
+    queryKey: ["/api/rtp"],
+    enabled: !!rtpGameType,
+  });
+  const rtpPolicy = rtpPolicies?.find(policy => policy.gameType === rtpGameType);
   
   // Fetch game card image based on game type
   useEffect(() => {
@@ -123,7 +137,12 @@ export default function GameCard({
       <CardContent className="p-4">
         <p className="text-sm text-muted-foreground line-clamp-2">{description}</p>
         
-        {winRate !== undefined && (
+        {rtpPolicy ? (
+          <div className="flex items-center mt-3 mb-1">
+            <Trophy className="h-4 w-4 text-blue-400 mr-1.5" />
+            <span className="text-sm font-medium text-blue-100">RTP: {(rtpPolicy.rtp * 100).toFixed(1)}%</span>
+          </div>
+        ) : winRate !== undefined && (
           <div className="flex items-center mt-3 mb-1">
             <Trophy className="h-4 w-4 text-blue-400 mr-1.5" />
             <span className="text-sm font-medium text-blue-100">Win rate: {winRate}%</span>
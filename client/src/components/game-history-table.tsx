@@ -1,5 +1,6 @@
 import { formatDistanceToNow } from "date-fns";
 import { GameOutcome } from "@shared/schema";
+import { getCrossingBet } from "@shared/bet-types";
 import { 
   Card, 
   CardContent, 
@@ -17,7 +18,8 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useLocation } from "wouter";
-import { formatCurrency, formatProfitLoss } from "@/lib/format-utils";
+import { formatProfitLoss } from "@/lib/format-utils";
+import { formatPaisa } from "@shared/money";
 
 interface Game {
   id: number;
@@ -199,8 +201,10 @@ export default function GameHistoryTable({ games, showFullHistory = false }: Gam
                       } else if (game.gameMode === 'odd_even') {
                         // Convert 'odd' or 'even' to proper case
                         return prediction.charAt(0).toUpperCase() + prediction.slice(1);
-                      } else if (game.gameMode === 'crossing') {
-                        return prediction;
+                      } else if (game.gameMode === 'crossing' && prediction === game.prediction) {
+                        // Digits with the number of jodis they cover
+                        const crossing = getCrossingBet(game);
+                        return `${prediction} (${crossing.jodis.length} jodis)`;
                       }
                     }
                     
@@ -222,7 +226,7 @@ export default function GameHistoryTable({ games, showFullHistory = false }: Gam
                         {getMarketOrMatchInfo(game)}
                       </TableCell>
                       <TableCell className="whitespace-nowrap text-sm text-slate-300">
-                        {formatCurrency(game.betAmount, game.gameType)}
+                        {formatPaisa(game.betAmount)}
                       </TableCell>
                       <TableCell className="whitespace-nowrap">
                         <Badge variant="outline" className={getBadgeClass(game.prediction, game.gameType)}>
@@ -252,7 +256,7 @@ export default function GameHistoryTable({ games, showFullHistory = false }: Gam
                         {formatProfitLoss(game.betAmount, game.payout, game.gameType, game.result)}
                       </TableCell>
                       <TableCell className="whitespace-nowrap text-sm text-green-400">
-                        {game.balanceAfter !== undefined && game.balanceAfter !== null ? formatCurrency(game.balanceAfter, game.gameType) : "-"}
+                        {game.balanceAfter !== undefined && game.balanceAfter !== null ? formatPaisa(game.balanceAfter) : "-"}
                       </TableCell>
                     </TableRow>
                   );
@@ -5,6 +5,7 @@ import { Badge } from "./ui/badge";
 import { Button } from "./ui/button";
 import { Clock, Calendar, Target, Dice1, ArrowRightCircle, Award } from "lucide-react";
 import { useEffect, useState } from "react";
+import { formatMarketResult } from "@shared/market-sessions";
 
 interface MarketCardProps {
   id: number;
@@ -14,6 +15,8 @@ interface MarketCardProps {
   closeTime: string;
   openResult?: string;
   closeResult?: string;
+  openPanna?: string | null;
+  closePanna?: string | null;
   status: string;
   showFullInfo?: boolean;
   coverImage?: string;
@@ -27,6 +30,8 @@ export default function MarketCard({
   closeTime,
   openResult,
   closeResult,
+  openPanna,
+  closePanna,
   status,
   showFullInfo = false,
   coverImage,
@@ -46,6 +51,9 @@ export default function MarketCard({
     ? formatDistanceToNow(closeTimeDate, { addSuffix: true })
     : "";
   
+  // Settled markets have had their bets paid out; they show like resulted ones
+  const isResulted = status === "resulted" || status === "settled";
+
   // Get appropriate status badge color
   const getStatusBadge = () => {
     switch (status) {
@@ -54,6 +62,7 @@ export default function MarketCard({
       case "closed":
         return <Badge variant="destructive">Waiting Results</Badge>;
       case "resulted":
+      case "settled":
         return <Badge variant="secondary">Resulted</Badge>;
       case "waiting":
         return <Badge className="bg-purple-500 hover:bg-purple-600 text-white">Upcoming</Badge>;
@@ -124,9 +133,10 @@ export default function MarketCard({
 
   // Get result display component
   const getResultDisplay = () => {
-    if (status === "resulted" && (openResult || closeResult)) {
-      // Use closeResult as primary, fallback to openResult if closeResult is not available
-      const resultToShow = closeResult || openResult;
+    if (isResulted && (openResult || closeResult)) {
+      // Pannas for Mumbai/Kalyan markets, otherwise closeResult as primary,
+      // fallback to openResult if closeResult is not available
+      const resultToShow = formatMarketResult({ openPanna, closePanna, closeResult }) || openResult;
       
       if (resultToShow) {
         return (
@@ -171,9 +181,9 @@ export default function MarketCard({
         <div>{getStatusBadge()}</div>
       </CardHeader>
       
-      {(status === "resulted" || (openResult || closeResult)) && (
+      {(isResulted || (openResult || closeResult)) && (
         <CardContent className="py-0 px-6">
-          {status === "resulted" && (
+          {isResulted && (
             <div className="flex items-center justify-center mb-2">
               <Award className="h-5 w-5 text-amber-500 mr-2" />
               <span className="text-sm font-medium">Results Declared</span>
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { format, parseISO } from "date-fns";
+import { Trash2 } from "lucide-react";
+
+interface MarketHoliday {
+  id: number;
+  holidayDate: string;
+  marketType: string | null;
+  reason: string | null;
+}
+
+const MARKET_TYPES = ["dishawar", "gali", "mumbai", "kalyan"];
+
+interface MarketHolidayCalendarProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Holiday / skip calendar used by the market scheduler. Recurring markets
+ * are not opened on these days and move on to their next cycle.
+ */
+export default function MarketHolidayCalendar({ isOpen, onClose }: MarketHolidayCalendarProps) {
+  const queryClient = useQueryClient();
+  const [holidayDate, setHolidayDate] = useState("");
+  const [marketType, setMarketType] = useState("all");
+  const [reason, setReason] = useState("");
+
+  const { data: holidays = [], isLoading } = useQuery<MarketHoliday[]>({
+    queryKey: ["/api/market-holidays"],
+    enabled: isOpen,
+  });
+
+  const addHoliday = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/market-holidays", {
+        holidayDate,
+        marketType: marketType === "all" ? null : marketType,
+        reason: reason || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/market-holidays"] });
+      setHolidayDate("");
+      setReason("");
+      toast({ title: "Holiday added", description: "Markets will not open on this day" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to add holiday", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeHoliday = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/market-holidays/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/market-holidays"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove holiday", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Holiday Calendar</DialogTitle>
+          <DialogDescription>
+            Markets are opened and closed automatically at their scheduled times.
+            On these days they stay closed and recurring markets skip to their next cycle.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Input type="date" value={holidayDate} onChange={(e) => setHolidayDate(e.target.value)} />
+          <Select value={marketType} onValueChange={setMarketType}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All markets</SelectItem>
+              {MARKET_TYPES.map((type) => (
+                <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            className="col-span-2"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (optional)"
+          />
+          <Button
+            className="col-span-2"
+            onClick={() => addHoliday.mutate()}
+            disabled={!holidayDate || addHoliday.isPending}
+          >
+            {addHoliday.isPending ? "Adding..." : "Add Holiday"}
+          </Button>
+        </div>
+
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {isLoading ? (
+            <div className="text-sm text-muted-foreground">Loading...</div>
+          ) : holidays.length === 0 ? (
+            <div className="text-sm text-muted-foreground">No upcoming holidays</div>
+          ) : (
+            holidays.map((holiday) => (
+              <div key={holiday.id} className="flex items-center justify-between border rounded p-2">
+                <div>
+                  <div className="font-medium">{format(parseISO(holiday.holidayDate), "EEE, MMM d, yyyy")}</div>
+                  <div className="text-xs text-muted-foreground capitalize">
+                    {holiday.marketType ?? "All markets"}
+                    {holiday.reason && ` · ${holiday.reason}`}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeHoliday.mutate(holiday.id)}
+                  disabled={removeHoliday.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,6 +3,7 @@ import { Home, Play, History, User, Wallet, BarChart2, Gamepad2, LogOut, AlertTr
 import { useAuth } from "@/hooks/use-auth";
 import { cn } from "@/lib/utils";
 import { UserRole } from "@shared/schema";
+import { formatPaisa } from "@shared/money";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 
 interface MobileNavProps {
@@ -60,7 +61,7 @@ export default function MobileNav({ activeTab }: MobileNavProps = {}) {
       component: (
         <div className="flex flex-col items-center justify-center">
           <Wallet className="w-5 h-5" />
-          <span className="text-xs mt-1 text-blue-300 font-semibold">₹{(user.balance / 100).toFixed(2)}</span>
+          <span className="text-xs mt-1 text-blue-300 font-semibold">{formatPaisa(user.balance)}</span>
         </div>
       ),
     },
@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { UserRole } from "@shared/schema";
+import { formatPaisa } from "@shared/money";
+import { formatDuration, type PlaySessionStatus } from "@shared/play-sessions";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Clock, Loader2 } from "lucide-react";
+
+// Using the page keeps the play session going; tell the server at most this often
+const ACTIVITY_PING_MS = 60 * 1000;
+const CLOCK_TICK_MS = 15 * 1000;
+
+/**
+ * Reminds a player, at the interval they chose, how long they have been
+ * playing and how they are doing, and logs them out when the session length
+ * they chose is up.
+ */
+export default function RealityCheckDialog() {
+  const { user, logoutMutation } = useAuth();
+  const { toast } = useToast();
+  const isPlayer = user?.role === UserRole.PLAYER;
+  const [now, setNow] = useState(Date.now());
+
+  const { data: status } = useQuery<PlaySessionStatus>({
+    queryKey: ["/api/play-session"],
+    enabled: isPlayer,
+    refetchInterval: 60 * 1000,
+  });
+
+  useEffect(() => {
+    if (!isPlayer) return;
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, [isPlayer]);
+
+  useEffect(() => {
+    if (!isPlayer) return;
+    let lastPing = 0;
+    const onActivity = () => {
+      if (Date.now() - lastPing < ACTIVITY_PING_MS) return;
+      lastPing = Date.now();
+      apiRequest("POST", "/api/play-session/activity")
+        .then(() => queryClient.invalidateQueries({ queryKey: ["/api/play-session"] }))
+        .catch(() => {});
+    };
+    window.addEventListener("pointerdown", onActivity);
+    window.addEventListener("keydown", onActivity);
+    return () => {
+      window.removeEventListener("pointerdown", onActivity);
+      window.removeEventListener("keydown", onActivity);
+    };
+  }, [isPlayer]);
+
+  const session = status?.session;
+  const startedAt = session ? new Date(session.startedAt).getTime() : 0;
+  const realityCheckMs = (status?.settings.realityCheckMinutes ?? 0) * 60 * 1000;
+  const limitMs = (status?.settings.sessionLimitMinutes ?? 0) * 60 * 1000;
+  const lastCheckAt = session?.lastRealityCheckAt ? new Date(session.lastRealityCheckAt).getTime() : startedAt;
+  const isDue = !!session && realityCheckMs > 0 && now - lastCheckAt >= realityCheckMs;
+  const isOutOfTime = !!session && limitMs > 0 && now - startedAt >= limitMs;
+
+  // The server ends the session and logs out the next request it sees
+  useEffect(() => {
+    if (!isOutOfTime) return;
+    toast({
+      title: "Session length reached",
+      description: "You have played for as long as you chose. Log in again to keep playing.",
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+  }, [isOutOfTime]);
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/play-session/reality-check");
+      return res.json();
+    },
+    onSuccess: (data: PlaySessionStatus) => {
+      queryClient.setQueryData(["/api/play-session"], data);
+    },
+  });
+
+  const logOut = async () => {
+    await acknowledgeMutation.mutateAsync().catch(() => {});
+    logoutMutation.mutate();
+  };
+
+  if (!isPlayer || !session) return null;
+
+  return (
+    <Dialog open={isDue && !isOutOfTime}>
+      <DialogContent
+        onEscapeKeyDown={(e) => e.preventDefault()}
+        onPointerDownOutside={(e) => e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Clock className="h-5 w-5 mr-2" />
+            Reality check
+          </DialogTitle>
+          <DialogDescription>
+            You have been playing for {formatDuration(now - startedAt)}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4 py-4">
+          <div>
+            <div className="text-sm text-muted-foreground">Net result this session</div>
+            <div className={`text-lg font-semibold ${status.net < 0 ? "text-red-500" : "text-green-500"}`}>
+              {formatPaisa(status.net, { signed: true })}
+            </div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground">Staked on {status.bets} bet{status.bets === 1 ? "" : "s"}</div>
+            <div className="text-lg font-semibold">{formatPaisa(status.staked)}</div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={logOut} disabled={acknowledgeMutation.isPending || logoutMutation.isPending}>
+            Log out
+          </Button>
+          <Button onClick={() => acknowledgeMutation.mutate()} disabled={acknowledgeMutation.isPending}>
+            {acknowledgeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Continue playing
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
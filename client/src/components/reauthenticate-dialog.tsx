@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from "react";
+import { apiRequest, setReauthenticateHandler } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, ShieldCheck } from "lucide-react";
+
+type Pending = { resolve: () => void; reject: (error: Error) => void };
+
+/**
+ * Asks for an authenticator code (or the password, without two-factor)
+ * when the server wants the user to confirm a high-risk action. The action
+ * is sent again once they have.
+ */
+export default function ReauthenticateDialog() {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const pending = useRef<Pending[]>([]);
+
+  useEffect(() => {
+    setReauthenticateHandler(() => new Promise<void>((resolve, reject) => {
+      pending.current.push({ resolve, reject });
+      setOpen(true);
+    }));
+    return () => setReauthenticateHandler(null);
+  }, []);
+
+  const settle = (error?: Error) => {
+    for (const request of pending.current) {
+      if (error) request.reject(error);
+      else request.resolve();
+    }
+    pending.current = [];
+    setOpen(false);
+    setValue("");
+    setError(null);
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await apiRequest("POST", "/api/reauthenticate", user?.twoFactorEnabled ? { code: value } : { password: value });
+      settle();
+    } catch {
+      setError(user?.twoFactorEnabled ? "Invalid authentication code" : "Incorrect password");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && settle(new Error("Confirmation cancelled"))}>
+      <DialogContent>
+        <form onSubmit={submit}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <ShieldCheck className="h-5 w-5 mr-2" />
+              Confirm it's you
+            </DialogTitle>
+            <DialogDescription>
+              {user?.twoFactorEnabled
+                ? "Enter the code from your authenticator app, or a recovery code, to continue."
+                : "Enter your password to continue."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="reauthenticate-value">{user?.twoFactorEnabled ? "Authentication code" : "Password"}</Label>
+            <Input
+              id="reauthenticate-value"
+              type={user?.twoFactorEnabled ? "text" : "password"}
+              autoComplete={user?.twoFactorEnabled ? "one-time-code" : "current-password"}
+              autoFocus
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+            />
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => settle(new Error("Confirmation cancelled"))}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!value || isSubmitting}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Confirm
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -18,6 +18,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { UserRole } from "@shared/schema";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { formatPaisa } from "@shared/money";
 
 export default function ResponsiveHeader() {
   const [_, setLocation] = useLocation();
@@ -77,7 +78,7 @@ export default function ResponsiveHeader() {
           {/* Balance display - Always visible, even on mobile */}
           <div className="mr-4 flex items-center bg-muted/50 px-3 py-1.5 rounded-full">
             <Wallet className="h-4 w-4 mr-2 text-primary" />
-            <span className="font-medium">₹{(user.balance / 100).toFixed(2)}</span>
+            <span className="font-medium">{formatPaisa(user.balance)}</span>
           </div>
           
           {/* User dropdown menu */}
@@ -109,7 +110,7 @@ export default function ResponsiveHeader() {
                     <Wallet className="h-4 w-4 mr-2 text-primary" />
                     <span className="text-sm">Balance</span>
                   </div>
-                  <span className="font-medium text-sm">₹{(user.balance / 100).toFixed(2)}</span>
+                  <span className="font-medium text-sm">{formatPaisa(user.balance)}</span>
                 </div>
               </div>
               <DropdownMenuItem onClick={() => setLocation("/profile")} className="mt-1 flex items-center gap-2">
@@ -163,7 +164,7 @@ export default function ResponsiveHeader() {
                     <Wallet className="h-5 w-5 mr-2 text-primary" />
                     <span className="font-medium">Balance</span>
                   </div>
-                  <span className="font-bold">₹{(user.balance / 100).toFixed(2)}</span>
+                  <span className="font-bold">{formatPaisa(user.balance)}</span>
                 </div>
                 
                 <div className="space-y-3 mt-4">
@@ -0,0 +1,100 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Loader2, RefreshCw } from "lucide-react";
+import { formatPaisa } from "@shared/money";
+
+interface RtpReportRow {
+  gameType: string;
+  gameMode: string | null;
+  bets: number;
+  totalStake: number;  // in paisa
+  totalPayout: number; // in paisa
+  observedRtp: number | null;
+  theoreticalRtp: number | null;
+}
+
+const formatRtp = (rtp: number | null) => (rtp === null ? "-" : `${(rtp * 100).toFixed(2)}%`);
+
+const formatGame = (row: RtpReportRow) =>
+  [row.gameType, row.gameMode].filter(Boolean).join(" / ").replace(/_/g, " ");
+
+/**
+ * Observed return-to-player of every game over its resolved bets, next to
+ * the theoretical RTP of games with a published policy.
+ */
+export default function RtpReport() {
+  const { data: rows = [], isLoading, refetch, isFetching } = useQuery<RtpReportRow[]>({
+    queryKey: ["/api/rtp/report"],
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>RTP Report</CardTitle>
+          <CardDescription>
+            Payouts as a share of stakes over all resolved bets. Theoretical RTP is shown for games with a published policy.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No resolved bets yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Game</TableHead>
+                <TableHead className="text-right">Bets</TableHead>
+                <TableHead className="text-right">Stake</TableHead>
+                <TableHead className="text-right">Payout</TableHead>
+                <TableHead className="text-right">Observed RTP</TableHead>
+                <TableHead className="text-right">Theoretical RTP</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => {
+                const drift = row.observedRtp !== null && row.theoreticalRtp !== null
+                  ? row.observedRtp - row.theoreticalRtp
+                  : null;
+                return (
+                  <TableRow key={`${row.gameType}-${row.gameMode ?? ""}`}>
+                    <TableCell className="capitalize">{formatGame(row)}</TableCell>
+                    <TableCell className="text-right">{row.bets}</TableCell>
+                    <TableCell className="text-right">{formatPaisa(row.totalStake)}</TableCell>
+                    <TableCell className="text-right">{formatPaisa(row.totalPayout)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatRtp(row.observedRtp)}
+                      {drift !== null && (
+                        <span className={`ml-1 text-xs ${drift > 0 ? "text-red-400" : "text-green-400"}`}>
+                          ({drift > 0 ? "+" : ""}{(drift * 100).toFixed(2)})
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatRtp(row.theoreticalRtp)}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
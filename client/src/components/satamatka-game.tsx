@@ -4,11 +4,13 @@ import { useParams, useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { formatCurrency } from "@/lib/format-utils";
-import { ChevronRight, ChevronLeft, RefreshCw, AlertCircle, Hash, Type, ArrowLeftRight, Divide, Clock, CheckCircle, AlignHorizontalJustifyStart, Grid2X2 } from "lucide-react";
-import { queryClient, apiRequest, getQueryFn } from "@/lib/queryClient";
+import { ChevronRight, ChevronLeft, RefreshCw, AlertCircle, Hash, Type, ArrowLeftRight, Divide, Clock, CheckCircle, AlignHorizontalJustifyStart, Grid2X2, CircleDot, Layers } from "lucide-react";
+import { queryClient, apiRequest, getQueryFn, idempotencyHeaders } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { crossDigits, getBetType, getBetTypes, getCrossingBet } from "@shared/bet-types";
+import { isOpenSessionLocked, isTwoSessionMarket, isValidPanna } from "@shared/market-sessions";
+import { formatPaisa, rupeesToPaisa } from "@shared/money";
 
 // Define SatamatkaMarket interface
 interface SatamatkaMarket {
@@ -17,12 +19,16 @@ interface SatamatkaMarket {
   type: string;
   openTime: string;
   closeTime: string;
+  openResultTime?: string | null;
   openResult?: string;
   closeResult?: string;
+  openPanna?: string | null;
   status: string;
   createdAt: string;
 }
 
+type MarketSession = "open" | "close";
+
 import {
   Card,
   CardContent,
@@ -34,6 +40,8 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   Form,
   FormControl,
@@ -72,18 +80,15 @@ import {
 import { format } from "date-fns";
 
 // Game modes in the Satamatka game
-const GAME_MODES = {
-  jodi: "Jodi (Full Number)",
-  harf: "Harf",
-  crossing: "Crossing Digit",
-  odd_even: "Odd-Even",
-};
+const GAME_MODES: Record<string, string> = Object.fromEntries(
+  getBetTypes().map(betType => [betType.mode, betType.label])
+);
 
 // Define the form schema
 const formSchema = z.object({
-  gameMode: z.enum(["jodi", "harf", "crossing", "odd_even"], {
+  gameMode: z.string({
     required_error: "Please select a game mode",
-  }),
+  }).refine(mode => !!getBetType(mode), "Please select a game mode"),
   prediction: z.string().min(1, "Prediction is required"),
   betAmount: z.coerce
     .number()
@@ -110,6 +115,7 @@ interface Game {
   payout: number | null;
   marketId?: number;
   marketName?: string;
+  session?: MarketSession | null;
   createdAt: string;
   gameData?: SatamatkaGameData | any; // Using any as fallback since different game types have different data structures
 }
@@ -130,6 +136,11 @@ export default function SatamatkaGame() {
   const [quickBetAmount, setQuickBetAmount] = useState<number>(10);
   const [selectedNumbers, setSelectedNumbers] = useState<Map<string, number>>(new Map());
   const [showBetSlip, setShowBetSlip] = useState<boolean>(false);
+  // Session of a Mumbai/Kalyan market that single and panna bets go on
+  const [selectedSession, setSelectedSession] = useState<MarketSession>("open");
+  const [pannaInput, setPannaInput] = useState<string>("");
+  // Whether crossing digits also cover their doubles (11, 22, ...)
+  const [includeDoubles, setIncludeDoubles] = useState<boolean>(false);
 
   // Form setup
   const form = useForm<z.infer<typeof formSchema>>({
@@ -181,22 +192,42 @@ export default function SatamatkaGame() {
     enabled: !!user && !isNaN(marketId)
   });
 
+  // Game modes that can be played on this market right now. Single and panna
+  // are only offered on two-session markets; once the open session has locked
+  // only close-session bets are left.
+  const marketForModes = market as SatamatkaMarket | null | undefined;
+  const isTwoSession = !!marketForModes && isTwoSessionMarket(marketForModes.type);
+  const openSessionLocked = !!marketForModes && isOpenSessionLocked(marketForModes);
+  const availableModes = getBetTypes().filter(betType =>
+    betType.sessionBet ? isTwoSession : !openSessionLocked
+  );
+  const isSessionMode = !!getBetType(selectedGameMode)?.sessionBet;
+
+  useEffect(() => {
+    if (openSessionLocked) {
+      setSelectedSession("close");
+    }
+    if (marketForModes && !availableModes.some(betType => betType.mode === selectedGameMode)) {
+      handleGameModeChange(availableModes[0]?.mode ?? "jodi");
+    }
+  }, [marketForModes, openSessionLocked]);
+
   // Fetch the game odds for Satamatka - get player-specific odds based on their assigned subadmin
   const { data: satamatkaOddsData } = useQuery<any>({
     queryKey: ['/api/game-odds', 'satamatka', user?.id],
     queryFn: async () => {
       if (!user) return null;
       
-      const modes = ['jodi', 'harf', 'crossing', 'odd_even'];
+      const betTypes = getBetTypes();
       
       // This will get the odds that apply to this specific player
       // which should include any subadmin overrides if applicable
       const results = await Promise.all(
-        modes.map(mode => 
-          apiRequest("GET", `/api/game-odds/player?gameType=satamatka_${mode}`)
+        betTypes.map(betType => 
+          apiRequest("GET", `/api/game-odds/player?gameType=${betType.oddsKey}`)
             .then(res => res.json())
             .catch(err => {
-              console.error(`Error fetching odds for ${mode}:`, err);
+              console.error(`Error fetching odds for ${betType.mode}:`, err);
               return null;
             })
         )
@@ -204,15 +235,17 @@ export default function SatamatkaGame() {
       
       console.log("Raw game odds data from API:", results);
       
-      // Parse the odds data from the database
-      // Database stores values like this: 60x is stored as 6000, 7x is stored as 700
-      return { 
-        // Use first item from each result, which should now correctly return subadmin override if available
-        jodi: results[0]?.[0]?.oddValue || 6000, 
-        harf: results[1]?.[0]?.oddValue || 600, 
-        crossing: results[2]?.[0]?.oddValue || 6600,
-        odd_even: results[3]?.[0]?.oddValue || 600 
-      };
+      // Odds per game mode, stored as multiplier * 10000. Use the first item of
+      // each result, which is the subadmin override if there is one. Modes
+      // without configured odds fall back to their default multiplier.
+      const odds: Record<string, number> = {};
+      betTypes.forEach((betType, index) => {
+        const oddValue = results[index]?.[0]?.oddValue;
+        if (oddValue) {
+          odds[betType.mode] = oddValue;
+        }
+      });
+      return odds;
     },
     enabled: !!user
   });
@@ -263,8 +296,9 @@ export default function SatamatkaGame() {
         marketId: marketId,
         gameMode: data.gameMode,
         prediction: data.prediction,
-        betAmount: data.betAmount,
-      });
+        betAmount: rupeesToPaisa(data.betAmount),
+        session: isSessionMode ? selectedSession : undefined,
+      }, { headers: idempotencyHeaders() });
     },
     onSuccess: () => {
       // Show success toast
@@ -301,45 +335,26 @@ export default function SatamatkaGame() {
   // Mutation for placing multiple bets
   const placeMultipleBetsMutation = useMutation({
     mutationFn: async (bets: Array<{number: string, amount: number}>) => {
-      // For crossing game type, generate all combinations
-      let serverBets;
-      
-      if (selectedGameMode === "crossing" && bets.length > 1) {
-        // Generate all possible combinations (pairs) of the selected digits
-        serverBets = [];
-        for (let i = 0; i < bets.length; i++) {
-          for (let j = 0; j < bets.length; j++) {
-            // Skip same digit combinations
-            if (i !== j) {
-              const digit1 = bets[i].number;
-              const digit2 = bets[j].number;
-              const combination = `${digit1}${digit2}`;
-              
-              serverBets.push({
-                prediction: combination,
-                betAmount: bets[i].amount * 100, // Convert to paisa
-              });
-            }
-          }
-        }
-      } else {
-        // For other game modes, process normally
-        serverBets = bets.map(bet => {
-          // For satamatka games, the stored amounts are already in rupees
-          // The server expects paisa, so we need to multiply by 100
-          return {
+      // The stored amounts are in rupees, the server expects paisa. Crossing
+      // digits go as one bet staked per jodi; the server works out the jodis.
+      const serverBets = selectedGameMode === "crossing"
+        ? [{
+            prediction: bets.map(bet => bet.number).join(","),
+            betAmount: rupeesToPaisa(quickBetAmount),
+            includeDoubles,
+          }]
+        : bets.map(bet => ({
             prediction: bet.number,
-            betAmount: bet.amount * 100,
-          };
-        });
-      }
+            betAmount: rupeesToPaisa(bet.amount),
+          }));
       
       // Use the new bulk betting endpoint
       const response = await apiRequest("POST", "/api/satamatka/play-multiple", {
         marketId: marketId,
         gameMode: selectedGameMode,
+        session: isSessionMode ? selectedSession : undefined,
         bets: serverBets
-      });
+      }, { headers: idempotencyHeaders() });
       
       // Parse the response JSON
       return await response.json();
@@ -353,7 +368,7 @@ export default function SatamatkaGame() {
       toast({
         variant: "success",
         title: "All bets placed successfully!",
-        description: `${successCount} bets (₹${totalAmount/100}) have been placed on the selected market.`,
+        description: `${successCount} bets (${formatPaisa(totalAmount)}) have been placed on the selected market.`,
       });
 
       // Invalidate relevant queries and refetch data
@@ -822,18 +837,11 @@ export default function SatamatkaGame() {
         </div>
       );
     } else if (selectedGameMode === "crossing") {
-      // Calculate total combinations based on selected numbers
-      const calculateCombinations = (digits: string[]) => {
-        if (digits.length <= 1) return 0;
-        
-        // Number of combinations is N*(N-1) where N is the number of digits selected
-        // Each pair of digits forms two combinations (e.g., 1,2 forms 12 and 21)
-        return digits.length * (digits.length - 1);
-      };
-      
-      // Extract just the digit values from the selected numbers Map keys
+      // Extract just the digit values from the selected numbers Map keys.
+      // At least two digits are needed, so a single digit covers nothing yet.
       const selectedDigits = Array.from(selectedNumbers.keys());
-      const totalCombinations = calculateCombinations(selectedDigits);
+      const jodis = selectedDigits.length > 1 ? crossDigits(selectedDigits, includeDoubles) : [];
+      const totalCombinations = jodis.length;
       
       return (
         <div className="space-y-4">
@@ -936,20 +944,32 @@ export default function SatamatkaGame() {
                 </div>
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Bet per combination:</span>
-                  <span className="font-medium">₹{(quickBetAmount * 100 / 100).toFixed(2)}</span>
+                  <span className="font-medium">{formatPaisa(rupeesToPaisa(quickBetAmount))}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Total bet amount:</span>
-                  <span className="font-medium">₹{(totalCombinations * quickBetAmount * 100 / 100).toFixed(2)}</span>
+                  <span className="font-medium">{formatPaisa(rupeesToPaisa(totalCombinations * quickBetAmount))}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Potential win (max):</span>
-                  <span className="font-medium text-amber-500">₹{(calculatePotentialWin(selectedGameMode, quickBetAmount, gameOdds) * totalCombinations).toFixed(2)}</span>
+                  <span className="font-medium text-amber-500">₹{calculatePotentialWin(selectedGameMode, quickBetAmount, gameOdds).toFixed(2)}</span>
                 </div>
               </div>
             </div>
           )}
           
+          {/* Doubles rule */}
+          <div className="flex items-center justify-between p-2 rounded-lg bg-muted/30">
+            <Label htmlFor="crossing-doubles" className="text-sm">
+              Include doubles (11, 22, ...)
+            </Label>
+            <Switch
+              id="crossing-doubles"
+              checked={includeDoubles}
+              onCheckedChange={setIncludeDoubles}
+            />
+          </div>
+
           {/* Number selection grid */}
           <div>
             <div className="text-sm font-medium mb-2">Select Numbers (0-9)</div>
@@ -985,20 +1005,15 @@ export default function SatamatkaGame() {
             <div className="mt-4 p-3 border rounded-lg bg-muted/10">
               <h4 className="text-sm font-medium mb-2">Generated Combinations</h4>
               <div className="grid grid-cols-5 md:grid-cols-8 gap-2">
-                {selectedDigits.flatMap((digit1, i) => 
-                  selectedDigits.filter((_, j) => i !== j).map(digit2 => {
-                    const combination = `${digit1}${digit2}`;
-                    return (
-                      <Badge 
-                        key={combination} 
-                        variant="outline" 
-                        className="py-1.5 bg-primary/5 border-primary/20"
-                      >
-                        {combination}
-                      </Badge>
-                    );
-                  })
-                )}
+                {jodis.map(combination => (
+                  <Badge 
+                    key={combination} 
+                    variant="outline" 
+                    className="py-1.5 bg-primary/5 border-primary/20"
+                  >
+                    {combination}
+                  </Badge>
+                ))}
               </div>
             </div>
           )}
@@ -1010,10 +1025,8 @@ export default function SatamatkaGame() {
                 variant="default" 
                 className="w-full bg-gradient-to-r from-purple-600 to-indigo-700 hover:from-purple-700 hover:to-indigo-800 shadow-lg transition-all duration-200"
                 onClick={() => {
-                  // Generate prediction text describing the combinations
-                  const combinationsText = selectedDigits.length > 3 
-                    ? `${selectedDigits.length} digits (${totalCombinations} combinations)`
-                    : `Combinations of ${selectedDigits.join(",")}`;
+                  // Describe the crossing for the confirmation dialog
+                  const combinationsText = `${selectedDigits.join(",")} (${totalCombinations} jodis)`;
                   
                   // Set bet details for confirmation dialog 
                   // Store amount as rupees, we'll convert to paisa in the mutation
@@ -1026,14 +1039,105 @@ export default function SatamatkaGame() {
                   setConfirmDialogOpen(true);
                 }}
               >
-                Place Bets on {totalCombinations} Combinations ({selectedGameMode === "crossing" 
-                  ? `₹${(totalCombinations * quickBetAmount * 100 / 100).toFixed(2)}` 
-                  : formatCurrency(totalCombinations * quickBetAmount, 'satamatka')})
+                Place Bets on {totalCombinations} Combinations ({formatPaisa(rupeesToPaisa(totalCombinations * quickBetAmount))})
               </Button>
             </div>
           )}
         </div>
       );
+    } else if (selectedGameMode === "single" || selectedGameMode === "panna") {
+      return (
+        <div className="space-y-4">
+          {renderSessionSelector()}
+
+          {/* Quick bet amount buttons */}
+          <div className="p-2 mb-4 bg-muted/30 rounded-lg">
+            <div className="text-sm font-medium mb-2">Quick Bet Amount</div>
+            <div className="grid grid-cols-4 gap-2">
+              {[100, 500, 1000, 5000].map((amount) => (
+                <Button
+                  key={amount}
+                  variant={quickBetAmount === amount ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setQuickBetAmount(amount)}
+                >
+                  ₹{amount.toLocaleString()}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {selectedGameMode === "single" ? (
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Select Digits</div>
+              <div className="grid grid-cols-5 gap-2">
+                {Array.from({ length: 10 }, (_, i) => {
+                  const num = i.toString();
+                  const isSelected = selectedNumbers.has(num);
+                  return (
+                    <Button
+                      key={num}
+                      variant={isSelected ? "default" : "outline"}
+                      className="h-12 flex flex-col items-center justify-center p-1"
+                      onClick={() => handleNumberSelection(num)}
+                    >
+                      <span className="text-base font-medium">{num}</span>
+                      {isSelected && (
+                        <span className="text-xs mt-1">₹{(selectedNumbers.get(num) || 0).toFixed(2)}</span>
+                      )}
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Enter Panna</div>
+              <div className="flex gap-2">
+                <Input
+                  value={pannaInput}
+                  inputMode="numeric"
+                  maxLength={3}
+                  placeholder="e.g. 128"
+                  onChange={(e) => setPannaInput(e.target.value.replace(/[^0-9]/g, ''))}
+                />
+                <Button
+                  variant="outline"
+                  disabled={!isValidPanna(pannaInput)}
+                  onClick={() => {
+                    handleNumberSelection(pannaInput);
+                    setPannaInput("");
+                  }}
+                >
+                  Add
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Three digits in ascending order, with 0 counting as ten (128, 390, 550).
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {Array.from(selectedNumbers.entries()).map(([panna, amount]) => (
+                  <Badge key={panna} variant="secondary" className="gap-1">
+                    {panna} · ₹{amount}
+                    <button onClick={() => removeNumberSelection(panna)} className="ml-1">×</button>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Bet slip button for selected numbers */}
+          {selectedNumbers.size > 0 && (
+            <Button 
+              variant="default" 
+              className="w-full bg-gradient-to-r from-purple-600 to-indigo-700 hover:from-purple-700 hover:to-indigo-800 shadow-lg transition-all duration-200"
+              onClick={() => setShowBetSlip(true)}
+            >
+              View Bet Slip ({selectedNumbers.size} {selectedGameMode === "single" ? "digits" : "pannas"}, ₹{calculateTotalBetAmount(true)})
+            </Button>
+          )}
+        </div>
+      );
     } else if (selectedGameMode === "odd_even") {
       // Enhanced Odd-Even game type UI with quick bet options and bet slip
       return (
@@ -1213,7 +1317,7 @@ export default function SatamatkaGame() {
                     <span className="font-medium ml-2">
                       {selectedGameMode === "odd_even" 
                         ? `₹${calculateTotalBetAmount(true)}` 
-                        : formatCurrency(Number(calculateTotalBetAmount()), 'satamatka')}
+                        : formatPaisa(rupeesToPaisa(Number(calculateTotalBetAmount())))}
                     </span>
                   </div>
                 </div>
@@ -1221,15 +1325,7 @@ export default function SatamatkaGame() {
                   <div className="text-sm">
                     <span className="text-muted-foreground">Payout Ratio:</span>
                     <span className="font-medium ml-2">
-                      {selectedGameMode === "jodi" 
-                        ? `${(gameOdds.jodi ? (gameOdds.jodi / 10000) : 60)}x` 
-                        : selectedGameMode === "harf" 
-                        ? `${(gameOdds.harf ? (gameOdds.harf / 10000) : 6)}x` 
-                        : selectedGameMode === "crossing" 
-                        ? `${(gameOdds.crossing ? (gameOdds.crossing / 10000) : 66)}x` 
-                        : selectedGameMode === "odd_even" 
-                        ? `${(gameOdds.odd_even ? (gameOdds.odd_even / 10000) : 6)}x` 
-                        : "1x"}
+                      {`${getPayoutRatio(selectedGameMode, gameOdds)}x`}
                     </span>
                   </div>
                   <div className="text-sm">
@@ -1265,30 +1361,56 @@ export default function SatamatkaGame() {
     return null;
   };
 
+  // Open/close session choice for single and panna bets
+  const renderSessionSelector = () => (
+    <div className="grid grid-cols-2 gap-2">
+      {(["open", "close"] as const).map(session => (
+        <Button
+          key={session}
+          type="button"
+          variant={selectedSession === session ? "default" : "outline"}
+          disabled={session === "open" && openSessionLocked}
+          onClick={() => {
+            setSelectedSession(session);
+            setSelectedNumbers(new Map());
+          }}
+        >
+          {session === "open" ? "Open" : "Close"} Session
+          {session === "open" && openSessionLocked && " (closed)"}
+        </Button>
+      ))}
+    </div>
+  );
+
   // Generate description based on game mode
   const getGameModeDescription = () => {
     switch (selectedGameMode) {
       case "jodi":
-        return `Predict the exact two-digit number (00-99). Payout ratio: ${(gameOdds.jodi ? gameOdds.jodi / 10000 : 60)}x`;
+        return `Predict the exact two-digit number (00-99). Payout ratio: ${getPayoutRatio(selectedGameMode, gameOdds)}x`;
       case "harf":
-        return `Predict digits in specific positions (left/right). Select first digit, second digit, or both. Payout ratio: ${(gameOdds.harf ? gameOdds.harf / 10000 : 6)}x`;
+        return `Predict digits in specific positions (left/right). Select first digit, second digit, or both. Payout ratio: ${getPayoutRatio(selectedGameMode, gameOdds)}x`;
       case "crossing":
-        return `Select multiple digits (0-9) to create two-digit combinations. For example, selecting 1,2,3 creates: 12, 21, 13, 31, 23, 32. Payout ratio: ${(gameOdds.crossing ? gameOdds.crossing / 10000 : 66)}x`;
+        return `Select multiple digits (0-9) to create two-digit combinations. For example, selecting 1,2,3 creates: 12, 21, 13, 31, 23, 32, plus 11, 22, 33 with doubles included. Each combination is staked with the bet amount. Payout ratio: ${getPayoutRatio(selectedGameMode, gameOdds)}x`;
       case "odd_even":
-        return `Predict if the result will be odd or even. Payout ratio: ${(gameOdds.odd_even ? gameOdds.odd_even / 10000 : 1.9)}x`;
+        return `Predict if the result will be odd or even. Payout ratio: ${getPayoutRatio(selectedGameMode, gameOdds)}x`;
+      case "single":
+        return `Predict the single digit of the open or close panna (the last digit of its sum). Payout ratio: ${getPayoutRatio(selectedGameMode, gameOdds)}x`;
+      case "panna":
+        return `Predict the three-digit open or close panna exactly. Payout ratio: ${getPayoutRatio(selectedGameMode, gameOdds)}x`;
       default:
         return "Select a game mode to see details.";
     }
   };
 
   // Handle game mode change
-  const handleGameModeChange = (value: string) => {
+  function handleGameModeChange(value: string) {
     setSelectedGameMode(value);
     form.setValue("gameMode", value as any);
     // Reset prediction when game mode changes
     setSelectedNumber("");
     form.setValue("prediction", "");
-  };
+    setSelectedNumbers(new Map());
+  }
 
   if (isLoading) {
     return (
@@ -1542,6 +1664,9 @@ export default function SatamatkaGame() {
             <Clock className="h-4 w-4 inline mr-1" />
             Open: {format(new Date(typedMarket.openTime), "h:mm a")} | Close:{" "}
             {format(new Date(typedMarket.closeTime), "h:mm a")}
+            {typedMarket.openResultTime && (
+              <> | Open session until {format(new Date(typedMarket.openResultTime), "h:mm a")}</>
+            )}
           </p>
           <Badge className="bg-green-500 hover:bg-green-600 text-white">
             Open for Betting
@@ -1560,7 +1685,7 @@ export default function SatamatkaGame() {
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-2 lg:grid-cols-1 gap-4 mb-4">
-                {Object.entries(GAME_MODES).map(([value, label]) => (
+                {availableModes.map(({ mode: value, label }) => (
                   <Card 
                     key={value} 
                     className={`cursor-pointer transition-all hover:scale-105 ${selectedGameMode === value ? 'border-primary shadow-md' : 'border'}`}
@@ -1571,6 +1696,8 @@ export default function SatamatkaGame() {
                       {value === "harf" && <Type className="h-10 w-10 text-primary mb-2" />}
                       {value === "crossing" && <ArrowLeftRight className="h-10 w-10 text-primary mb-2" />}
                       {value === "odd_even" && <Divide className="h-10 w-10 text-primary mb-2" />}
+                      {value === "single" && <CircleDot className="h-10 w-10 text-primary mb-2" />}
+                      {value === "panna" && <Layers className="h-10 w-10 text-primary mb-2" />}
                       <p className="font-medium text-center">{label}</p>
                     </CardContent>
                   </Card>
@@ -1644,9 +1771,12 @@ export default function SatamatkaGame() {
                   {(recentBets as Game[]).slice(0, 10).map((bet) => {
                     // Calculate potential win amount based on game mode
                     const gameMode = bet.gameMode || (bet.gameData?.gameMode as string);
-                    const potentialWin = gameMode 
-                      ? (calculatePotentialWin(gameMode, bet.betAmount / 100, gameOdds)).toFixed(2)
-                      : (bet.betAmount * 1.9 / 10000).toFixed(2); // Default multiplier if gameMode not available
+                    // A crossing bet wins on one jodi's stake
+                    const crossing = gameMode === "crossing" ? getCrossingBet(bet) : null;
+                    const winningStake = crossing ? crossing.stakePerJodi : bet.betAmount;
+                    const potentialWin = formatPaisa(gameMode
+                      ? calculatePotentialWin(gameMode, winningStake, gameOdds)
+                      : bet.betAmount * 1.9); // Default multiplier if gameMode not available
                     
                     // Determine visual styling based on status
                     const isWin = bet.result === "win" || bet.status === "win";
@@ -1654,7 +1784,7 @@ export default function SatamatkaGame() {
                     const isPending = bet.result === "pending" || bet.status === "pending" || !bet.result;
                     
                     // Format payout amount
-                    const payout = bet.payout ? (bet.payout / 100).toFixed(2) : "0.00";
+                    const payout = formatPaisa(bet.payout || 0);
                     
                     return (
                       <TableRow key={bet.id} className="border-slate-700">
@@ -1674,17 +1804,21 @@ export default function SatamatkaGame() {
                         </TableCell>
                         <TableCell>
                           <span className="font-medium">
-                            {bet.gameType === 'satamatka' && bet.gameMode === 'harf' ? 
-                              bet.prediction.startsWith('L') ? 
-                                `A${bet.prediction.slice(1)}` : 
-                                bet.prediction.startsWith('R') ? 
-                                  `B${bet.prediction.slice(1)}` : 
-                                  bet.prediction 
+                            {bet.gameType === 'satamatka' 
+                              ? getBetType(gameMode)?.formatPrediction(bet.prediction) ?? bet.prediction
                               : bet.prediction}
+                            {bet.session && (
+                              <span className="text-xs text-muted-foreground ml-1 capitalize">({bet.session})</span>
+                            )}
+                            {crossing && (
+                              <span className="text-xs text-muted-foreground ml-1" title={crossing.jodis.join(", ")}>
+                                ({crossing.jodis.length} jodis × {formatPaisa(crossing.stakePerJodi)})
+                              </span>
+                            )}
                           </span>
                         </TableCell>
-                        <TableCell>₹{(bet.betAmount / 100).toFixed(2)}</TableCell>
-                        <TableCell>₹{potentialWin}</TableCell>
+                        <TableCell>{formatPaisa(bet.betAmount)}</TableCell>
+                        <TableCell>{potentialWin}</TableCell>
                         <TableCell>
                           <Badge
                             variant={
@@ -1703,10 +1837,10 @@ export default function SatamatkaGame() {
                           </Badge>
                         </TableCell>
                         <TableCell className={isWin ? "text-green-500 font-medium" : ""}>
-                          {isWin ? `+₹${payout}` : `₹${payout}`}
+                          {isWin ? `+${payout}` : payout}
                         </TableCell>
                         <TableCell className="font-mono">
-                          ₹{bet.balanceAfter ? (bet.balanceAfter / 100).toFixed(2) : "N/A"}
+                          {bet.balanceAfter ? formatPaisa(bet.balanceAfter) : "N/A"}
                         </TableCell>
                         <TableCell className="whitespace-nowrap">
                           {format(new Date(bet.createdAt), "MMM d, h:mm a")}
@@ -1789,42 +1923,22 @@ export default function SatamatkaGame() {
   );
 }
 
+// Payout multiplier of a game mode. The database stores odds as
+// multiplier * 10000 (60x is stored as 600000); modes without configured
+// odds use their default multiplier.
+function getPayoutRatio(gameMode: string, odds: Record<string, number> = {}): number {
+  if (odds[gameMode]) {
+    return odds[gameMode] / 10000;
+  }
+  return getBetType(gameMode)?.defaultMultiplier ?? 1;
+}
+
 // Helper function to calculate potential win based on game mode
 // Function to calculate potential winnings based on current odds from the server
 function calculatePotentialWin(gameMode: string, betAmount: number, odds: Record<string, number> = {}): number {
-  // Default payout ratios based on the platform settings
-  let payoutRatio = 1;
-  
-  // Get the appropriate payout ratio from the database odds
-  console.log(`Game mode: ${gameMode}, Bet amount: ${betAmount}, Odds from database:`, odds);
-  
-  // The database stores values with multiplier * 10000
-  // For example, 60x is stored as 600000, 1.9x is stored as 19000
-  // We need to divide by 10000 to get the actual multiplier
-  switch (gameMode) {
-    case "jodi":
-      // Jodi payout (default 60x)
-      payoutRatio = odds.jodi ? (odds.jodi / 10000) : 60;
-      break;
-    case "harf":
-      // Harf payout (default 6x)
-      payoutRatio = odds.harf ? (odds.harf / 10000) : 6;
-      break;
-    case "crossing":
-      // Crossing payout (default 66x)
-      payoutRatio = odds.crossing ? (odds.crossing / 10000) : 66;
-      break;
-    case "odd_even":
-      // Odd/Even payout (default 1.9x)
-      payoutRatio = odds.odd_even ? (odds.odd_even / 10000) : 1.9;
-      break;
-  }
-  
-  console.log(`Game mode: ${gameMode}, Using payout ratio: ${payoutRatio}, Bet amount: ${betAmount}`);
-  
   // Calculate the potential win amount 
   // For ₹100 bet on Jodi with 60x odds, win = 100 × 60 = ₹6,000
-  return betAmount * payoutRatio;
+  return betAmount * getPayoutRatio(gameMode, odds);
 }
 
 // Helper function to format game type for display
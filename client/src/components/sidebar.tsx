@@ -24,8 +24,12 @@ import {
   Gamepad2,
   User,
   Calendar,
-  RefreshCw,
-  AlertTriangle
+  Archive,
+  AlertTriangle,
+  KeyRound,
+  ScrollText,
+  Lock,
+  IdCard
 } from "lucide-react";
 import { GiCricketBat } from "react-icons/gi";
 import { Button } from "@/components/ui/button";
@@ -74,6 +78,13 @@ export default function Sidebar({ activeTab }: SidebarProps = {}) {
       icon: <AlertTriangle className="w-5 h-5 mr-3" />,
       visible: canManageUsers,
     },
+    // KYC Review - Admin and Subadmin
+    {
+      name: "KYC Review",
+      path: "/kyc-review",
+      icon: <IdCard className="w-5 h-5 mr-3" />,
+      visible: canManageUsers,
+    },
     // Market Game Management - Admin Only
     {
       name: "Manage Markets",
@@ -89,11 +100,23 @@ export default function Sidebar({ activeTab }: SidebarProps = {}) {
       icon: <GiCricketBat className="w-5 h-5 mr-3" />,
       visible: isAdmin,
     },
-    // Reset Zone - Admin Only
     {
-      name: "Reset Zone",
-      path: "/reset-zone",
-      icon: <RefreshCw className="w-5 h-5 mr-3" />,
+      name: "Roles & Permissions",
+      path: "/permissions",
+      icon: <KeyRound className="w-5 h-5 mr-3" />,
+      visible: isAdmin,
+    },
+    {
+      name: "Audit Log",
+      path: "/audit-log",
+      icon: <ScrollText className="w-5 h-5 mr-3" />,
+      visible: isAdmin,
+    },
+    // Archives - Admin Only
+    {
+      name: "Archives",
+      path: "/archives",
+      icon: <Archive className="w-5 h-5 mr-3" />,
       visible: isAdmin,
     },
     // Regular Users Only (Game Related)
@@ -134,6 +157,13 @@ export default function Sidebar({ activeTab }: SidebarProps = {}) {
       icon: <User className="w-5 h-5 mr-3" />,
       visible: true,
     },
+    // Security - two-factor authentication for all users
+    {
+      name: "Security",
+      path: "/security",
+      icon: <Lock className="w-5 h-5 mr-3" />,
+      visible: true,
+    },
     // Wallet - accessible by all users
     {
       name: "Wallet",
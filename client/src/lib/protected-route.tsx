@@ -32,6 +32,15 @@ export function ProtectedRoute({
     );
   }
 
+  // Admins must set up two-factor authentication before anything else
+  if (user.role === UserRole.ADMIN && !user.twoFactorEnabled && path !== "/security") {
+    return (
+      <Route path={path}>
+        <Redirect to="/security" />
+      </Route>
+    );
+  }
+
   // Check role-based access if roles are specified
   if (allowedRoles && !allowedRoles.includes(user.role as UserRole)) {
     return (
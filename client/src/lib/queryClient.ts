@@ -7,6 +7,21 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Asks the user to confirm it is them; set by the re-authentication dialog.
+// Resolves once they have, rejects when they cancel.
+let reauthenticate: (() => Promise<void>) | null = null;
+
+export function setReauthenticateHandler(handler: (() => Promise<void>) | null) {
+  reauthenticate = handler;
+}
+
+// High-risk actions answer 403 with this code until the user re-authenticates
+async function needsReauthentication(res: Response) {
+  if (res.status !== 403 || !reauthenticate) return false;
+  const body = await res.clone().json().catch(() => null);
+  return body?.code === "STEP_UP_REQUIRED";
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -33,17 +48,32 @@ export async function apiRequest(
     headers = options.headers;
   }
 
-  const res = await fetch(url, {
+  const send = () => fetch(url, {
     method,
     headers,
     body,
     credentials: "include",
   });
 
+  let res = await send();
+  if (await needsReauthentication(res)) {
+    await reauthenticate!();
+    res = await send();
+  }
+
   await throwIfResNotOk(res);
   return res;
 }
 
+// Headers for requests that must not be applied twice, such as placing a bet.
+// The server answers a repeated key with the original result.
+export function idempotencyHeaders(): Record<string, string> {
+  const key = typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  return { "Idempotency-Key": key };
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -9,9 +9,11 @@ export interface User {
   id: number;
   username: string;
   role: UserRole;
-  balance: number;
+  balance: number; // Available balance
+  heldBalance: number; // Held for pending withdrawals
   assignedTo: number | null;
   isBlocked: boolean;
+  twoFactorEnabled: boolean;
 }
 
 // Game related types
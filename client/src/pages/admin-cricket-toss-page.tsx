@@ -421,25 +421,12 @@ export default function AdminCricketTossPage() {
       matchId: number;
       result: string;
     }) => {
-      // Using direct fetch like we did for closeBetting to have more control
-      const response = await fetch(
+      // apiRequest asks the admin to confirm it is them before declaring
+      const response = await apiRequest(
+        "POST",
         `/api/cricket-toss/matches/${matchId}/result`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ result }),
-        },
+        { result },
       );
-
-      if (!response.ok) {
-        const errorData = await response
-          .json()
-          .catch(() => ({ message: "Failed to declare result" }));
-        throw new Error(errorData.message || `HTTP Error: ${response.status}`);
-      }
-
       return await response.json();
     },
     onSuccess: () => {
@@ -4,6 +4,9 @@ import { getQueryFn, apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import { format, parseISO } from "date-fns";
 import DashboardLayout from "@/components/dashboard-layout";
+import MarketHolidayCalendar from "@/components/market-holiday-calendar";
+import { formatMarketResult, isTwoSessionMarket, isValidPanna } from "@shared/market-sessions";
+import { formatPaisa } from "@shared/money";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -63,7 +66,6 @@ import {
   Filter,
   PauseCircle,
   Play,
-  Info,
   Undo2
 } from "lucide-react";
 
@@ -77,8 +79,11 @@ interface SatamatkaMarket {
   openTime: string;
   closeTime: string;
   resultTime: string;
+  openResultTime?: string | null;
   openResult?: string;
   closeResult?: string;
+  openPanna?: string | null;
+  closePanna?: string | null;
   status: string;
   createdAt: string;
   isRecurring?: boolean;
@@ -87,12 +92,29 @@ interface SatamatkaMarket {
   nextCloseTime?: string;
 }
 
-// Form schema for declaring results
+// Interface for a market settlement job
+interface SettlementJob {
+  id: number;
+  marketId: number;
+  status: "running" | "completed" | "failed";
+  session: "open" | "close";
+  closeResult: string;
+  totalBets: number;
+  settledBets: number;
+  winningBets: number;
+  totalPayout: number;
+  failures: { gameId: number; userId: number; error: string }[];
+  startedAt: string;
+  finishedAt?: string;
+}
+
+// Form schema for declaring results. Two-digit results and pannas are
+// checked against the market type on submit.
 const resultFormSchema = z.object({
   result: z.string()
     .min(2, "Result must be at least 2 characters")
-    .max(2, "Result must be exactly 2 characters")
-    .regex(/^[0-9]{2}$/, "Result must be a two-digit number (00-99)")
+    .max(3, "Result must be at most 3 characters")
+    .regex(/^[0-9]+$/, "Result must be a number")
 });
 
 // Form schema for creating/editing markets
@@ -104,8 +126,16 @@ const marketFormSchema = z.object({
   openTime: z.string().min(5, "Open time is required"),
   closeTime: z.string().min(5, "Close time is required"),
   resultTime: z.string().min(5, "Result time is required"),
+  openResultTime: z.string().optional(), // Mumbai/Kalyan only
 });
 
+const MARKET_TYPE_OPTIONS = [
+  { value: "gali", label: "Gali style (single result)" },
+  { value: "dishawar", label: "Dishawar style (single result)" },
+  { value: "mumbai", label: "Mumbai (open and close sessions)" },
+  { value: "kalyan", label: "Kalyan (open and close sessions)" },
+];
+
 // Market Betting Stats Component
 function MarketBettingStats({ marketId, status }: { marketId: number; status: string }) {
   const { data: marketGames = [] } = useQuery({
@@ -113,10 +143,14 @@ function MarketBettingStats({ marketId, status }: { marketId: number; status: st
     enabled: status === "open" || status === "closed",
   });
 
-  if (status === "waiting" || status === "resulted") {
+  if (status === "resulted" || status === "settled") {
+    return <SettlementProgress marketId={marketId} />;
+  }
+
+  if (status === "waiting") {
     return (
       <div className="text-sm text-slate-400">
-        {status === "waiting" ? "Not started" : "Completed"}
+        Not started
       </div>
     );
   }
@@ -161,9 +195,230 @@ function MarketBettingStats({ marketId, status }: { marketId: number; status: st
         <span className="text-slate-600">bets</span>
       </div>
       <div className="flex items-center gap-2 text-xs text-slate-500">
-        <span>₹{(totalBetAmount / 100).toLocaleString()}</span>
+        <span>{formatPaisa(totalBetAmount)}</span>
         <span className="text-slate-400">→</span>
-        <span className="text-orange-600 font-medium">₹{(potentialWin / 100).toLocaleString()}</span>
+        <span className="text-orange-600 font-medium">{formatPaisa(potentialWin)}</span>
+      </div>
+    </div>
+  );
+}
+
+// Per-player effect of correcting a market result
+interface ResultCorrectionPreview {
+  marketId: number;
+  marketName: string;
+  previousResult: string;
+  correctedResult: string;
+  players: {
+    userId: number;
+    username: string;
+    bets: number;
+    currentPayout: number;
+    correctedPayout: number;
+    balanceChange: number;
+    currentBalance: number;
+    balanceAfter: number;
+  }[];
+  totalCurrentPayout: number;
+  totalCorrectedPayout: number;
+  netChange: number;
+}
+
+// Dialog to correct the result of a resulted or settled market. The admin
+// reviews the balance change of every player before confirming.
+function CorrectResultDialog({ market, onClose }: { market: SatamatkaMarket | null; onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const [correctedResult, setCorrectedResult] = useState("");
+  const [reason, setReason] = useState("");
+  const [preview, setPreview] = useState<ResultCorrectionPreview | null>(null);
+  // Two-session markets are corrected with both pannas, e.g. 128-358
+  const isTwoSession = !!market && isTwoSessionMarket(market.type);
+  const isValidCorrection = isTwoSession
+    ? /^[0-9]{3}-([0-9]{2}-)?[0-9]{3}$/.test(correctedResult)
+    : /^[0-9]{2}$/.test(correctedResult);
+
+  const close = () => {
+    setCorrectedResult("");
+    setReason("");
+    setPreview(null);
+    onClose();
+  };
+
+  const previewCorrection = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/satamatka/markets/${market!.id}/correct-result/preview`, {
+        closeResult: correctedResult,
+      });
+      return (await res.json()) as ResultCorrectionPreview;
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to preview correction",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const confirmCorrection = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/satamatka/markets/${market!.id}/correct-result`, {
+        closeResult: correctedResult,
+        reason,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/satamatka/markets"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/satamatka/markets/${market!.id}/settlement-jobs`] });
+      toast({
+        title: "Result corrected",
+        description: "Previous payouts were reversed and the market is being settled again",
+      });
+      close();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to correct result",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!market} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Correct Result</DialogTitle>
+          <DialogDescription>
+            Current result for {market?.name} is{" "}
+            <span className="font-mono font-bold">{market && formatMarketResult(market)}</span>. 
+            All payouts made against it will be reversed and the market settled again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <Input
+              value={correctedResult}
+              onChange={(e) => {
+                setCorrectedResult(e.target.value);
+                setPreview(null);
+              }}
+              placeholder={isTwoSession ? "Corrected pannas, e.g. 128-358" : "Corrected result, e.g. 42"}
+              maxLength={isTwoSession ? 10 : 2}
+              className="w-56"
+            />
+            <Button
+              variant="outline"
+              onClick={() => previewCorrection.mutate()}
+              disabled={!isValidCorrection || previewCorrection.isPending}
+            >
+              {previewCorrection.isPending ? "Calculating..." : "Preview Changes"}
+            </Button>
+          </div>
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason for the correction (optional)"
+          />
+        </div>
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="text-sm">
+              Payouts: {formatPaisa(preview.totalCurrentPayout)} → {formatPaisa(preview.totalCorrectedPayout)}
+              <span className={preview.netChange < 0 ? "text-red-600 ml-2" : "text-green-600 ml-2"}>
+                ({formatPaisa(preview.netChange, { signed: true })} to players)
+              </span>
+            </div>
+            {preview.players.length === 0 ? (
+              <div className="text-sm text-muted-foreground">No bets were placed on this market.</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Player</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead className="text-right">Corrected</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                    <TableHead className="text-right">Balance After</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.players.map((player) => (
+                    <TableRow key={player.userId}>
+                      <TableCell>
+                        {player.username}
+                        <span className="text-xs text-muted-foreground ml-1">({player.bets} bets)</span>
+                      </TableCell>
+                      <TableCell className="text-right">{formatPaisa(player.currentPayout)}</TableCell>
+                      <TableCell className="text-right">{formatPaisa(player.correctedPayout)}</TableCell>
+                      <TableCell className={`text-right font-medium ${player.balanceChange < 0 ? "text-red-600" : player.balanceChange > 0 ? "text-green-600" : ""}`}>
+                        {formatPaisa(player.balanceChange, { signed: true })}
+                      </TableCell>
+                      <TableCell className={`text-right ${player.balanceAfter < 0 ? "text-red-600 font-medium" : ""}`}>
+                        {formatPaisa(player.balanceAfter)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => confirmCorrection.mutate()}
+            disabled={!preview || confirmCorrection.isPending}
+          >
+            {confirmCorrection.isPending ? "Correcting..." : "Confirm Correction"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Progress of the latest settlement job of a resulted market
+function SettlementProgress({ marketId }: { marketId: number }) {
+  const { data: jobs = [] } = useQuery<SettlementJob[]>({
+    queryKey: [`/api/satamatka/markets/${marketId}/settlement-jobs`],
+    // Keep polling while the job is running
+    refetchInterval: (query) => {
+      const latest = (query.state.data as SettlementJob[] | undefined)?.[0];
+      return latest?.status === "running" ? 2000 : false;
+    },
+  });
+
+  const latest = jobs[0];
+  if (!latest) {
+    return <div className="text-sm text-slate-400">Not settled</div>;
+  }
+
+  const processed = latest.settledBets + latest.failures.length;
+
+  return (
+    <div className="text-sm">
+      {latest.status === "running" && (
+        <span className="text-blue-600">Settling {processed}/{latest.totalBets}</span>
+      )}
+      {latest.status === "completed" && (
+        <span className="text-green-600">Settled {latest.settledBets} bets</span>
+      )}
+      {latest.status === "failed" && (
+        <span className="text-red-600">
+          {latest.failures.length} of {latest.totalBets} bets failed
+        </span>
+      )}
+      <div className="text-xs text-slate-500">
+        {latest.winningBets} winners, {formatPaisa(latest.totalPayout)} paid
       </div>
     </div>
   );
@@ -176,6 +431,8 @@ export default function AdminMarketManagementPage() {
   const [isAddMarketOpen, setIsAddMarketOpen] = useState(false);
   const [editingMarket, setEditingMarket] = useState<SatamatkaMarket | null>(null);
   const [declareResultMarket, setDeclareResultMarket] = useState<SatamatkaMarket | null>(null);
+  const [correctResultMarket, setCorrectResultMarket] = useState<SatamatkaMarket | null>(null);
+  const [isHolidayCalendarOpen, setIsHolidayCalendarOpen] = useState(false);
   const [isTemplateSelectOpen, setIsTemplateSelectOpen] = useState(false);
   const [selectedTemplate, setSelectedTemplate] = useState<SatamatkaMarket | null>(null);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
@@ -240,6 +497,13 @@ export default function AdminMarketManagementPage() {
       if (!market) {
         throw new Error("Market not found");
       }
+
+      // Mumbai/Kalyan markets declare the open panna first, then the close panna
+      if (isTwoSessionMarket(market.type)) {
+        return apiRequest("PATCH", `/api/satamatka/markets/${id}/results`, 
+          market.openPanna ? { closePanna: result } : { openPanna: result }
+        );
+      }
       
       // If market is open, set the openResult
       // If market is closed or waiting_result, set the closeResult
@@ -257,18 +521,23 @@ export default function AdminMarketManagementPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/satamatka/markets"] });
+      const isOpenResult = !!declareResultMarket
+        && isTwoSessionMarket(declareResultMarket.type)
+        && !declareResultMarket.openPanna;
       setDeclareResultMarket(null);
       resultForm.reset();
       
-      // Automatically update the status to resulted and switch tabs
-      if (declareResultMarket) {
-        updateMarketStatus.mutate({ id: declareResultMarket.id, status: "resulted" });
+      // The server marks the market resulted and starts settling its bets.
+      // An open result only settles open-session bets; the market stays where it is.
+      if (!isOpenResult) {
         setTimeout(() => setActiveTab("resulted"), 300); // Switch to Resulted tab
       }
       
       toast({
-        title: "Result declared",
-        description: "Market result has been declared and status updated to resulted",
+        title: isOpenResult ? "Open result declared" : "Result declared",
+        description: isOpenResult
+          ? "Open-session bets are being settled; close-session betting continues"
+          : "Market result has been declared and bets are being settled",
       });
     },
     onError: (error: Error) => {
@@ -280,6 +549,27 @@ export default function AdminMarketManagementPage() {
     },
   });
 
+  const settleMarket = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("POST", `/api/satamatka/markets/${id}/settle`);
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/satamatka/markets"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/satamatka/markets/${id}/settlement-jobs`] });
+      toast({
+        title: "Settlement started",
+        description: "Pending bets of this market are being settled",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to start settlement",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const createMarket = useMutation({
     mutationFn: async (data: z.infer<typeof marketFormSchema>) => {
       // Combine date and time fields into ISO strings
@@ -290,12 +580,13 @@ export default function AdminMarketManagementPage() {
       const closeTimeISO = combineDateTime(marketDate, data.closeTime);
       const resultTimeISO = combineDateTime(marketDate, data.resultTime);
       
-      // Set initial market status to "waiting" to ensure manual activation flow
+      // Set initial market status to "waiting"; the scheduler opens it at its open time
       const marketData = {
         ...data,
         openTime: openTimeISO,
         closeTime: closeTimeISO,
         resultTime: resultTimeISO,
+        openResultTime: getOpenResultTimeISO(data),
         status: "waiting" // All markets start in waiting status
       };
       
@@ -313,7 +604,7 @@ export default function AdminMarketManagementPage() {
       
       toast({
         title: "Market created",
-        description: "New market has been created successfully. It's in 'Upcoming' status and must be manually opened for betting.",
+        description: "New market has been created successfully. It's in 'Upcoming' status and opens for betting at its open time.",
       });
     },
     onError: (error: Error) => {
@@ -340,7 +631,8 @@ export default function AdminMarketManagementPage() {
         ...data,
         openTime: openTimeISO,
         closeTime: closeTimeISO,
-        resultTime: resultTimeISO
+        resultTime: resultTimeISO,
+        openResultTime: getOpenResultTimeISO(data)
       };
       
       console.log("Updating market data:", marketData);
@@ -391,7 +683,7 @@ export default function AdminMarketManagementPage() {
   const waitingMarkets = allMarkets.filter(market => market.status === "waiting");
   const openMarkets = allMarkets.filter(market => market.status === "open");
   const closedMarkets = allMarkets.filter(market => market.status === "closed");
-  const resultedMarkets = allMarkets.filter(market => market.status === "resulted");
+  const resultedMarkets = allMarkets.filter(market => market.status === "resulted" || market.status === "settled");
 
   // Get markets for current tab
   const getMarketsForTab = () => {
@@ -426,9 +718,14 @@ export default function AdminMarketManagementPage() {
       openTime: format(parseISO(market.openTime), "HH:mm"),
       closeTime: format(parseISO(market.closeTime), "HH:mm"),
       resultTime: market.resultTime ? format(parseISO(market.resultTime), "HH:mm") : format(parseISO(market.closeTime), "HH:mm"),
+      openResultTime: market.openResultTime ? format(parseISO(market.openResultTime), "HH:mm") : "",
     });
   };
 
+  // Mumbai/Kalyan markets declare the open panna first
+  const isDeclaringTwoSession = !!declareResultMarket && isTwoSessionMarket(declareResultMarket.type);
+  const isDeclaringOpenResult = isDeclaringTwoSession && !declareResultMarket?.openPanna;
+
   // Handle opening declare result dialog
   const handleDeclareResult = (market: SatamatkaMarket) => {
     setDeclareResultMarket(market);
@@ -438,6 +735,15 @@ export default function AdminMarketManagementPage() {
   // Handle submit for declaring result
   const onSubmitResult = (data: z.infer<typeof resultFormSchema>) => {
     if (declareResultMarket) {
+      if (isTwoSessionMarket(declareResultMarket.type)) {
+        if (!isValidPanna(data.result)) {
+          resultForm.setError("result", { message: "Panna must be three digits in ascending order, e.g. 128" });
+          return;
+        }
+      } else if (!/^[0-9]{2}$/.test(data.result)) {
+        resultForm.setError("result", { message: "Result must be a two-digit number (00-99)" });
+        return;
+      }
       updateMarketResult.mutate({ id: declareResultMarket.id, result: data.result });
     }
   };
@@ -451,10 +757,10 @@ export default function AdminMarketManagementPage() {
       // When creating new, the mutation will set status to "waiting"
       createMarket.mutate(data);
       
-      // Show informative toast about manual activation
+      // Show informative toast about automatic activation
       toast({
         title: "Reminder",
-        description: "Remember to manually open the market when you're ready for betting to begin.",
+        description: "The market opens and closes automatically at its scheduled times.",
         duration: 8000,
       });
     }
@@ -505,6 +811,11 @@ export default function AdminMarketManagementPage() {
         displayText = "Resulted";
         icon = <Check className="h-3 w-3 mr-1" />;
         break;
+      case "settled":
+        color = "bg-slate-600 hover:bg-slate-700";
+        displayText = "Settled";
+        icon = <CheckCircle2 className="h-3 w-3 mr-1" />;
+        break;
       case "waiting_result":
         color = "bg-yellow-500 hover:bg-yellow-600";
         displayText = "Waiting Results";
@@ -522,6 +833,12 @@ export default function AdminMarketManagementPage() {
     );
   };
 
+  // Open result time only applies to two-session markets
+  const getOpenResultTimeISO = (data: z.infer<typeof marketFormSchema>): string | null => {
+    if (!isTwoSessionMarket(data.type) || !data.openResultTime) return null;
+    return combineDateTime(data.marketDate, data.openResultTime);
+  };
+
   // Helper function to combine date and time strings
   const combineDateTime = (dateStr: string, timeStr: string): string => {
     if (!dateStr || !timeStr) return "";
@@ -550,13 +867,19 @@ export default function AdminMarketManagementPage() {
             <span>{dateString}</span>
           </div>
           
-          <Button 
-            onClick={() => setIsTemplateSelectOpen(true)} 
-            className="bg-gradient-to-r from-blue-600 to-indigo-600"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Add Market
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => setIsHolidayCalendarOpen(true)}>
+              <Calendar className="h-4 w-4 mr-2" />
+              Holidays
+            </Button>
+            <Button 
+              onClick={() => setIsTemplateSelectOpen(true)} 
+              className="bg-gradient-to-r from-blue-600 to-indigo-600"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Market
+            </Button>
+          </div>
         </div>
         <p className="text-muted-foreground">
           Manage all markets, declare results, and create new markets
@@ -615,7 +938,9 @@ export default function AdminMarketManagementPage() {
             isLoading={isLoadingAll}
             handleEditMarket={handleEditMarket}
             handleDeclareResult={handleDeclareResult}
+            handleCorrectResult={setCorrectResultMarket}
             updateMarketStatus={updateMarketStatus}
+            settleMarket={settleMarket}
             formatDate={formatDate}
             StatusBadge={StatusBadge}
             setActiveTab={setActiveTab}
@@ -628,7 +953,9 @@ export default function AdminMarketManagementPage() {
             isLoading={isLoadingAll}
             handleEditMarket={handleEditMarket}
             handleDeclareResult={handleDeclareResult}
+            handleCorrectResult={setCorrectResultMarket}
             updateMarketStatus={updateMarketStatus}
+            settleMarket={settleMarket}
             formatDate={formatDate}
             StatusBadge={StatusBadge}
             setActiveTab={setActiveTab}
@@ -641,7 +968,9 @@ export default function AdminMarketManagementPage() {
             isLoading={isLoadingAll}
             handleEditMarket={handleEditMarket}
             handleDeclareResult={handleDeclareResult}
+            handleCorrectResult={setCorrectResultMarket}
             updateMarketStatus={updateMarketStatus}
+            settleMarket={settleMarket}
             formatDate={formatDate}
             StatusBadge={StatusBadge}
             setActiveTab={setActiveTab}
@@ -654,7 +983,9 @@ export default function AdminMarketManagementPage() {
             isLoading={isLoadingAll}
             handleEditMarket={handleEditMarket}
             handleDeclareResult={handleDeclareResult}
+            handleCorrectResult={setCorrectResultMarket}
             updateMarketStatus={updateMarketStatus}
+            settleMarket={settleMarket}
             formatDate={formatDate}
             StatusBadge={StatusBadge}
             setActiveTab={setActiveTab}
@@ -667,7 +998,9 @@ export default function AdminMarketManagementPage() {
             isLoading={isLoadingAll}
             handleEditMarket={handleEditMarket}
             handleDeclareResult={handleDeclareResult}
+            handleCorrectResult={setCorrectResultMarket}
             updateMarketStatus={updateMarketStatus}
+            settleMarket={settleMarket}
             formatDate={formatDate}
             StatusBadge={StatusBadge}
             setActiveTab={setActiveTab}
@@ -679,10 +1012,13 @@ export default function AdminMarketManagementPage() {
       <Dialog open={!!declareResultMarket} onOpenChange={(open) => !open && setDeclareResultMarket(null)}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Declare Final Result</DialogTitle>
+            <DialogTitle>
+              {isDeclaringOpenResult ? "Declare Open Result" : "Declare Final Result"}
+            </DialogTitle>
             <DialogDescription>
-              Enter the final result for {declareResultMarket?.name}. 
-              Results should be a two-digit number from 00 to 99.
+              {isDeclaringTwoSession
+                ? `Enter the ${isDeclaringOpenResult ? "open" : "close"} panna for ${declareResultMarket?.name}. A panna is three digits in ascending order, with 0 counting as ten (e.g. 128, 390).`
+                : `Enter the final result for ${declareResultMarket?.name}. Results should be a two-digit number from 00 to 99.`}
             </DialogDescription>
           </DialogHeader>
           
@@ -693,15 +1029,23 @@ export default function AdminMarketManagementPage() {
                 name="result"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Final Result</FormLabel>
+                    <FormLabel>
+                      {isDeclaringTwoSession ? (isDeclaringOpenResult ? "Open Panna" : "Close Panna") : "Final Result"}
+                    </FormLabel>
                     <FormControl>
-                      <Input {...field} placeholder="e.g. 42" maxLength={2} />
+                      <Input {...field} placeholder={isDeclaringTwoSession ? "e.g. 128" : "e.g. 42"} maxLength={isDeclaringTwoSession ? 3 : 2} />
                     </FormControl>
                     <FormDescription>
-                      Enter a two-digit number (00-99).
-                      <div className="mt-1 text-amber-500">
-                        Note: Declaring the final result will finalize the market and set its status to "resulted".
-                      </div>
+                      {isDeclaringOpenResult
+                        ? "Open-session bets are settled against this panna. Close-session betting stays open until the market closes."
+                        : isDeclaringTwoSession
+                        ? `Open result: ${declareResultMarket?.openPanna ? formatMarketResult(declareResultMarket) : "-"}`
+                        : "Enter a two-digit number (00-99)."}
+                      {!isDeclaringOpenResult && (
+                        <div className="mt-1 text-amber-500">
+                          Note: Declaring the final result will finalize the market and set its status to "resulted".
+                        </div>
+                      )}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -728,6 +1072,12 @@ export default function AdminMarketManagementPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Holiday Calendar Dialog */}
+      <MarketHolidayCalendar isOpen={isHolidayCalendarOpen} onClose={() => setIsHolidayCalendarOpen(false)} />
+
+      {/* Correct Result Dialog */}
+      <CorrectResultDialog market={correctResultMarket} onClose={() => setCorrectResultMarket(null)} />
+
       {/* Template Selection Dialog */}
       <Dialog open={isTemplateSelectOpen} onOpenChange={setIsTemplateSelectOpen}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -761,6 +1111,7 @@ export default function AdminMarketManagementPage() {
                           openTime: format(parseISO(market.openTime), "HH:mm"),
                           closeTime: format(parseISO(market.closeTime), "HH:mm"),
                           resultTime: market.resultTime ? format(parseISO(market.resultTime), "HH:mm") : format(parseISO(market.closeTime), "HH:mm"),
+                          openResultTime: market.openResultTime ? format(parseISO(market.openResultTime), "HH:mm") : "",
                         });
                       }}
                     >
@@ -789,6 +1140,7 @@ export default function AdminMarketManagementPage() {
                               openTime: format(parseISO(market.openTime), "HH:mm"),
                               closeTime: format(parseISO(market.closeTime), "HH:mm"),
                               resultTime: market.resultTime ? format(parseISO(market.resultTime), "HH:mm") : format(parseISO(market.closeTime), "HH:mm"),
+                              openResultTime: market.openResultTime ? format(parseISO(market.openResultTime), "HH:mm") : "",
                             });
                           }}
                         >
@@ -862,7 +1214,7 @@ export default function AdminMarketManagementPage() {
                 ? "Edit the details of the existing market." 
                 : selectedTemplate
                   ? `Using template: "${selectedTemplate.name}". New market will be created in "waiting" status.`
-                  : "Fill in the details to create a new market. The market will start in waiting status and must be manually activated."}
+                  : "Fill in the details to create a new market. The market will start in waiting status and open automatically at its open time."}
             </DialogDescription>
           </DialogHeader>
           
@@ -882,7 +1234,29 @@ export default function AdminMarketManagementPage() {
                 )}
               />
               
-              {/* Market Type removed as it's not needed - all markets follow the gali style */}
+              <FormField
+                control={marketForm.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Market Type</FormLabel>
+                    <FormControl>
+                      <select 
+                        className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                        {...field}
+                      >
+                        {MARKET_TYPE_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </FormControl>
+                    <FormDescription>
+                      Mumbai and Kalyan markets declare an open panna and a close panna
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               
               <FormField
                 control={marketForm.control}
@@ -1083,8 +1457,45 @@ export default function AdminMarketManagementPage() {
                   )}
                 />
               </div>
-              
 
+              {isTwoSessionMarket(marketForm.watch("type")) && (
+                <FormField
+                  control={marketForm.control}
+                  name="openResultTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Open Result Time</FormLabel>
+                      <FormControl>
+                        <select 
+                          className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                          {...field}
+                        >
+                          <option value="">Select time</option>
+                          {Array.from({ length: 24 }).map((_, hour) => (
+                            Array.from({ length: 4 }).map((_, minute) => {
+                              const h = hour;
+                              const m = minute * 15;
+                              const timeValue = `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+                              const displayHour = h % 12 === 0 ? 12 : h % 12;
+                              const ampm = h < 12 ? 'AM' : 'PM';
+                              const displayTime = `${displayHour}:${m.toString().padStart(2, '0')} ${ampm}`;
+                              return (
+                                <option key={timeValue} value={timeValue}>
+                                  {displayTime}
+                                </option>
+                              );
+                            })
+                          ))}
+                        </select>
+                      </FormControl>
+                      <FormDescription>
+                        Open-session and jodi betting locks at this time; close-session betting continues until the close time
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
               
               <DialogFooter>
                 <Button 
@@ -1164,7 +1575,9 @@ interface MarketTableProps {
   isLoading: boolean;
   handleEditMarket: (market: SatamatkaMarket) => void;
   handleDeclareResult: (market: SatamatkaMarket) => void;
+  handleCorrectResult: (market: SatamatkaMarket) => void;
   updateMarketStatus: any;
+  settleMarket: any;
   formatDate: (date: string) => string;
   StatusBadge: React.FC<{ status: string }>;
   setActiveTab: (tab: string) => void;
@@ -1176,7 +1589,9 @@ function MarketTable({
   isLoading,
   handleEditMarket,
   handleDeclareResult,
+  handleCorrectResult,
   updateMarketStatus,
+  settleMarket,
   formatDate,
   StatusBadge,
   setActiveTab
@@ -1245,9 +1660,9 @@ function MarketTable({
               <TableCell>{formatDate(market.openTime)}</TableCell>
               <TableCell>{formatDate(market.closeTime)}</TableCell>
               <TableCell>
-                {market.openResult ? (
+                {formatMarketResult(market) || market.openResult ? (
                   <span className="px-2 py-1 bg-indigo-100 text-indigo-800 rounded font-mono font-bold">
-                    {market.openResult}
+                    {formatMarketResult(market) || market.openResult}
                   </span>
                 ) : (
                   <span className="text-slate-400">-</span>
@@ -1308,22 +1723,47 @@ function MarketTable({
                       </DropdownMenuItem>
                     )}
                     
+                    {/* Mumbai/Kalyan: the open panna is declared while the market is active or closed */}
+                    {isTwoSessionMarket(market.type) && !market.openPanna && (market.status === "open" || market.status === "closed") && (
+                      <DropdownMenuItem 
+                        onClick={() => handleDeclareResult(market)}
+                        className="text-blue-600 font-medium"
+                      >
+                        <CheckCircle2 className="mr-2 h-4 w-4" />
+                        Declare Open Result
+                      </DropdownMenuItem>
+                    )}
+                    
                     {/* Closed → Resulted transition */}
-                    {market.status === "closed" && (
+                    {market.status === "closed" && (!isTwoSessionMarket(market.type) || !!market.openPanna) && (
                       <DropdownMenuItem 
                         onClick={() => handleDeclareResult(market)}
                         className="text-blue-600 font-medium"
                       >
                         <CheckCircle2 className="mr-2 h-4 w-4" />
-                        Declare Result
+                        {isTwoSessionMarket(market.type) ? "Declare Close Result" : "Declare Result"}
                       </DropdownMenuItem>
                     )}
                     
-                    {/* No actions for resulted markets */}
+                    {/* Resulted → Settled: re-run settlement for bets that are still pending */}
                     {market.status === "resulted" && (
-                      <DropdownMenuItem disabled className="text-muted-foreground">
-                        <Info className="mr-2 h-4 w-4" />
-                        No actions available
+                      <DropdownMenuItem 
+                        onClick={() => settleMarket.mutate(market.id)}
+                        className="text-blue-600 font-medium"
+                      >
+                        <CheckCircle2 className="mr-2 h-4 w-4" />
+                        Re-run Settlement
+                      </DropdownMenuItem>
+                    )}
+                    
+                    {/* Result corrections for resulted and settled markets */}
+                    {(market.status === "resulted" || market.status === "settled") && (
+                      <DropdownMenuItem 
+                        onClick={() => handleCorrectResult(market)}
+                        className="text-yellow-600 font-medium"
+                      >
+                        <Undo2 className="mr-2 h-4 w-4" />
+                        Correct Result
                       </DropdownMenuItem>
                     )}
                     
@@ -1,5 +1,6 @@
 import { useState, useEffect, useRef } from "react";
 import DashboardLayout from "@/components/dashboard-layout";
+import RtpReport from "@/components/rtp-report";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -65,6 +66,8 @@ export default function AdminSettingsPage() {
     harf: "9.00",
     crossing: "95.00",
     odd_even: "1.90",
+    single: "9.50",
+    panna: "140.00",
   });
 
   // Platform Default Subadmin Commission Setting (for fund transfers only)
@@ -164,7 +167,7 @@ export default function AdminSettingsPage() {
   const { data: satamatkaOddsData } = useQuery<any>({
     queryKey: ['/api/game-odds', 'satamatka'],
     queryFn: async () => {
-      const modes = ['jodi', 'harf', 'crossing', 'odd_even'];
+      const modes = ['jodi', 'harf', 'crossing', 'odd_even', 'single', 'panna'];
       const results = await Promise.all(
         modes.map(mode => 
           apiRequest("GET", `/api/game-odds?gameType=satamatka_${mode}`)
@@ -176,7 +179,9 @@ export default function AdminSettingsPage() {
         jodi: results[0], 
         harf: results[1], 
         crossing: results[2],
-        odd_even: results[3] 
+        odd_even: results[3],
+        single: results[4],
+        panna: results[5]
       };
     },
   });
@@ -206,6 +211,15 @@ export default function AdminSettingsPage() {
         updatedOdds.odd_even = (satamatkaOddsData.odd_even[0].oddValue / 10000).toFixed(2);
       }
       
+      // Single and panna are played on the sessions of Mumbai/Kalyan markets
+      if (satamatkaOddsData.single && satamatkaOddsData.single.length > 0) {
+        updatedOdds.single = (satamatkaOddsData.single[0].oddValue / 10000).toFixed(2);
+      }
+      
+      if (satamatkaOddsData.panna && satamatkaOddsData.panna.length > 0) {
+        updatedOdds.panna = (satamatkaOddsData.panna[0].oddValue / 10000).toFixed(2);
+      }
+      
       setSatamatkaOdds(updatedOdds);
     }
   }, [satamatkaOddsData]);
@@ -502,6 +516,7 @@ export default function AdminSettingsPage() {
         description: "Your game odds have been saved successfully.",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/game-odds'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/rtp'] });
     },
     onError: (error: Error) => {
       toast({
@@ -646,6 +661,18 @@ export default function AdminSettingsPage() {
       oddValue: Number(satamatkaOdds.odd_even),
       setByAdmin: true
     });
+    
+    saveOddsMutation.mutate({
+      gameType: "satamatka_single",
+      oddValue: Number(satamatkaOdds.single),
+      setByAdmin: true
+    });
+    
+    saveOddsMutation.mutate({
+      gameType: "satamatka_panna",
+      oddValue: Number(satamatkaOdds.panna),
+      setByAdmin: true
+    });
   };
   
   // Handle slider image upload
@@ -1110,6 +1137,12 @@ export default function AdminSettingsPage() {
                           />
                           <span>times the bet amount</span>
                         </div>
+                        {Number(coinFlipOdds) > 0 && (
+                          <p className="text-sm text-muted-foreground">
+                            Published RTP: {(Number(coinFlipOdds) * 50).toFixed(1)}% (50% win chance). It applies to every
+                            player; subadmins cannot override it.
+                          </p>
+                        )}
                       </div>
                     </div>
 
@@ -1201,6 +1234,36 @@ export default function AdminSettingsPage() {
                             <span>×</span>
                           </div>
                         </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="satamatka-single">Single (Mumbai/Kalyan)</Label>
+                          <div className="flex items-center gap-2">
+                            <Input 
+                              id="satamatka-single" 
+                              value={Number(satamatkaOdds.single)} 
+                              onChange={(e) => setSatamatkaOdds({...satamatkaOdds, single: e.target.value})} 
+                              placeholder="9.5"
+                              type="number"
+                              step="0.01"
+                              className="max-w-[120px]"
+                            />
+                            <span>×</span>
+                          </div>
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="satamatka-panna">Panna (Mumbai/Kalyan)</Label>
+                          <div className="flex items-center gap-2">
+                            <Input 
+                              id="satamatka-panna" 
+                              value={Number(satamatkaOdds.panna)} 
+                              onChange={(e) => setSatamatkaOdds({...satamatkaOdds, panna: e.target.value})} 
+                              placeholder="140"
+                              type="number"
+                              step="0.01"
+                              className="max-w-[120px]"
+                            />
+                            <span>×</span>
+                          </div>
+                        </div>
                       </div>
                     </div>
                   </div>
@@ -1217,6 +1280,8 @@ export default function AdminSettingsPage() {
               </Button>
             </CardFooter>
           </Card>
+
+          <RtpReport />
         </TabsContent>
         
         {/* Commission Tab */}
@@ -0,0 +1,270 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import DashboardLayout from "@/components/dashboard-layout";
+import { useToast } from "@/hooks/use-toast";
+import { ArchiveKind, ArchiveStatus, type Archive } from "@shared/schema";
+import { LONGEST_LIMIT_PERIOD_MS } from "@shared/player-limits";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Archive as ArchiveIcon, ArchiveRestore, Download, Loader2 } from "lucide-react";
+
+const TABLE_LABELS: Record<string, string> = {
+  satamatka_markets: "Markets",
+  team_matches: "Matches",
+  wallet_requests: "Wallet requests",
+  games: "Bets",
+  transactions: "Transactions",
+  settlement_jobs: "Settlement jobs",
+  result_corrections: "Result corrections",
+  market_schedule_events: "Schedule events",
+  ledger_entries: "Ledger entries",
+  ledger_postings: "Ledger postings",
+};
+
+/**
+ * Close the books of a period: everything settled before its end moves into
+ * an archive and balances are carried forward. Archives can be downloaded
+ * and restored, so no data is lost.
+ */
+export default function ArchivePage() {
+  const { toast } = useToast();
+  const [periodEnd, setPeriodEnd] = useState("");
+  const [label, setLabel] = useState("");
+  const [confirmArchive, setConfirmArchive] = useState(false);
+  const [restoreTarget, setRestoreTarget] = useState<Archive | null>(null);
+
+  const { data: archives = [], isLoading } = useQuery<Archive[]>({
+    queryKey: ["/api/archives"],
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async () => {
+      // The period ends at midnight (UTC) after the chosen day
+      const end = new Date(periodEnd);
+      end.setUTCDate(end.getUTCDate() + 1);
+      const res = await apiRequest("POST", "/api/archives", { periodEnd: end.toISOString(), label: label || undefined });
+      return res.json();
+    },
+    onSuccess: (archive: Archive) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/archives"] });
+      toast({ title: "Period archived", description: archive.label });
+      setPeriodEnd("");
+      setLabel("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to archive period", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => setConfirmArchive(false),
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (archive: Archive) => {
+      const res = await apiRequest("POST", `/api/archives/${archive.id}/restore`);
+      return res.json();
+    },
+    onSuccess: (archive: Archive) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/archives"] });
+      toast({ title: "Archive restored", description: archive.label });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to restore archive", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => setRestoreTarget(null),
+  });
+
+  // Play limits count the last 30 days from the live tables, so the latest
+  // day that can be closed is the day before that
+  const latestDay = new Date(Date.now() - LONGEST_LIMIT_PERIOD_MS);
+  latestDay.setDate(latestDay.getDate() - 1);
+
+  const recordSummary = (archive: Archive) => {
+    const counts = Object.entries(archive.recordCounts);
+    if (counts.length === 0) return "No records";
+    return counts.map(([table, count]) => `${count} ${(TABLE_LABELS[table] ?? table).toLowerCase()}`).join(", ");
+  };
+
+  return (
+    <DashboardLayout title="Archives">
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <ArchiveIcon className="h-5 w-5 mr-2" />
+            Close a Period
+          </CardTitle>
+          <CardDescription>
+            Settled markets, matches, bets, reviewed wallet requests, transactions and ledger entries up to the end
+            of the chosen day move into an archive. Each account's balance at that moment is carried forward, so
+            wallet balances do not change. The last 30 days stay live, as player limits are counted over them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="archive-period-end">Last day of the period</Label>
+              <Input
+                id="archive-period-end"
+                type="date"
+                max={format(latestDay, "yyyy-MM-dd")}
+                value={periodEnd}
+                onChange={(e) => setPeriodEnd(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="archive-label">Label (optional)</Label>
+              <Input
+                id="archive-label"
+                placeholder="e.g. March 2025"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+              />
+            </div>
+            <Button onClick={() => setConfirmArchive(true)} disabled={!periodEnd || archiveMutation.isPending}>
+              {archiveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ArchiveIcon className="h-4 w-4 mr-2" />}
+              Archive Period
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Archives</CardTitle>
+          <CardDescription>
+            Period archives are restored latest first. A restored archive keeps its copy and can still be downloaded.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : archives.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No archives yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Archive</TableHead>
+                  <TableHead>Covers</TableHead>
+                  <TableHead>Records</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {archives.map(archive => (
+                  <TableRow key={archive.id}>
+                    <TableCell>
+                      {archive.label}
+                      <span className="block text-xs text-muted-foreground">
+                        Created {format(new Date(archive.createdAt), "dd MMM yyyy, HH:mm")}
+                      </span>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {archive.kind === ArchiveKind.PERIOD && archive.periodEnd
+                        ? `Up to ${format(new Date(archive.periodEnd), "dd MMM yyyy, HH:mm")}`
+                        : `Account reset of user #${archive.userId}`}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{recordSummary(archive)}</TableCell>
+                    <TableCell>
+                      {archive.status === ArchiveStatus.RESTORED ? (
+                        <Badge variant="outline">
+                          Restored{archive.restoredAt && ` ${format(new Date(archive.restoredAt), "dd MMM yyyy")}`}
+                        </Badge>
+                      ) : (
+                        <Badge>Archived</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mr-2"
+                        onClick={() => { window.location.href = `/api/archives/${archive.id}/export`; }}
+                      >
+                        <Download className="h-4 w-4 mr-2" />
+                        Download
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRestoreTarget(archive)}
+                        disabled={archive.status === ArchiveStatus.RESTORED || restoreMutation.isPending}
+                      >
+                        <ArchiveRestore className="h-4 w-4 mr-2" />
+                        Restore
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirmArchive} onOpenChange={setConfirmArchive}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Archive everything up to {periodEnd}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Settled data from before the end of this day leaves the live reports and history pages. It stays in
+              the archive and can be downloaded or restored.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => archiveMutation.mutate()} disabled={archiveMutation.isPending}>
+              Archive Period
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!restoreTarget} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore "{restoreTarget?.label}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The archived records go back into the live tables
+              {restoreTarget?.kind === ArchiveKind.PERIOD && " and the balances carried forward for this period are removed"}.
+              Wallet balances do not change.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => restoreTarget && restoreMutation.mutate(restoreTarget)}
+              disabled={restoreMutation.isPending}
+            >
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+}
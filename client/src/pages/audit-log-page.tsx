@@ -0,0 +1,264 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import DashboardLayout from "@/components/dashboard-layout";
+import { AuditAction, type AuditEvent } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ChevronDown, ChevronRight, Download, Loader2, RefreshCw, ScrollText } from "lucide-react";
+
+const ACTION_LABELS: Record<string, string> = {
+  [AuditAction.USER_IMPERSONATE]: "Logged in as user",
+  [AuditAction.USER_PASSWORD_RESET]: "Password reset",
+  [AuditAction.USER_BALANCE_ADJUST]: "Balance adjusted",
+  [AuditAction.ODDS_UPDATE]: "Odds changed",
+  [AuditAction.MARKET_DECLARE_RESULT]: "Market result declared",
+  [AuditAction.MARKET_CORRECT_RESULT]: "Market result corrected",
+  [AuditAction.MATCH_DECLARE_RESULT]: "Match result declared",
+  [AuditAction.SYSTEM_RESET]: "System reset",
+  [AuditAction.SYSTEM_ARCHIVE]: "Period archived",
+  [AuditAction.SYSTEM_RESTORE]: "Archive restored",
+  [AuditAction.USER_TWO_FACTOR_CHANGE]: "Two-factor changed",
+  [AuditAction.USER_SELF_EXCLUSION_START]: "Break from play started",
+  [AuditAction.USER_SELF_EXCLUSION_LOGIN]: "Login during a break refused",
+  [AuditAction.USER_KYC_REVIEW]: "Identity documents reviewed",
+  [AuditAction.ADMIN_REQUEST]: "Other change",
+};
+
+const ALL_ACTIONS = "all";
+const PAGE_SIZE = 50;
+
+interface AuditEventPage {
+  events: AuditEvent[];
+  total: number;
+}
+
+/**
+ * Every sensitive action taken by admins and agents, with the state before
+ * and after it. Events cannot be edited or removed.
+ */
+export default function AuditLogPage() {
+  const [action, setAction] = useState(ALL_ACTIONS);
+  const [actor, setActor] = useState("");
+  const [targetUserId, setTargetUserId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [offset, setOffset] = useState(0);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const filters = new URLSearchParams();
+  if (action !== ALL_ACTIONS) filters.set("action", action);
+  if (actor) filters.set("actor", actor);
+  if (targetUserId) filters.set("targetUserId", targetUserId);
+  if (from) filters.set("from", from);
+  if (to) filters.set("to", to);
+
+  const pageParams = new URLSearchParams(filters);
+  pageParams.set("limit", String(PAGE_SIZE));
+  pageParams.set("offset", String(offset));
+
+  const { data, isLoading, isFetching, refetch } = useQuery<AuditEventPage>({
+    queryKey: [`/api/audit-events?${pageParams.toString()}`],
+  });
+  const events = data?.events ?? [];
+  const total = data?.total ?? 0;
+
+  // Filters apply from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setOffset(0);
+  };
+
+  const exportCsv = () => {
+    window.location.href = `/api/audit-events/export?${filters.toString()}`;
+  };
+
+  const target = (event: AuditEvent) => {
+    if (event.targetUserId) return `User #${event.targetUserId}`;
+    if (event.targetType && event.targetId) return `${event.targetType.replace(/_/g, " ")} ${event.targetId}`;
+    return "-";
+  };
+
+  return (
+    <DashboardLayout title="Audit Log">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center">
+              <ScrollText className="h-5 w-5 mr-2" />
+              Audit Log
+            </CardTitle>
+            <CardDescription>
+              Sensitive actions taken by admins and agents. Events cannot be edited or removed.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+            <Button size="sm" onClick={exportCsv}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-4">
+            <div className="space-y-1">
+              <Label>Action</Label>
+              <Select value={action} onValueChange={updateFilter(setAction)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_ACTIONS}>All actions</SelectItem>
+                  {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-actor">Actor</Label>
+              <Input
+                id="audit-actor"
+                placeholder="Username"
+                value={actor}
+                onChange={(e) => updateFilter(setActor)(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-target">Target user ID</Label>
+              <Input
+                id="audit-target"
+                type="number"
+                value={targetUserId}
+                onChange={(e) => updateFilter(setTargetUserId)(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="date" value={from} onChange={(e) => updateFilter(setFrom)(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="date" value={to} onChange={(e) => updateFilter(setTo)(e.target.value)} />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No audit events match these filters</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Time</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>IP address</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map(event => (
+                  <Fragment key={event.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpanded(expanded === event.id ? null : event.id)}
+                    >
+                      <TableCell>
+                        {expanded === event.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(event.createdAt), "dd MMM yyyy, HH:mm:ss")}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{ACTION_LABELS[event.action] ?? event.action}</Badge>
+                        {event.action === AuditAction.ADMIN_REQUEST && event.targetType === "route" && (
+                          <span className="block text-xs text-muted-foreground mt-1">{event.targetId}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {event.actorUsername ?? "-"}
+                        {event.actorRole && <span className="block text-xs text-muted-foreground">{event.actorRole}</span>}
+                      </TableCell>
+                      <TableCell className="capitalize">{target(event)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{event.ipAddress ?? "-"}</TableCell>
+                    </TableRow>
+                    {expanded === event.id && (
+                      <TableRow>
+                        <TableCell colSpan={6}>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {(["before", "after"] as const).map(side => (
+                              <div key={side}>
+                                <p className="text-xs font-semibold uppercase text-muted-foreground mb-1">{side}</p>
+                                <pre className="text-xs bg-slate-900 rounded-md p-3 overflow-x-auto">
+                                  {event[side] === null ? "-" : JSON.stringify(event[side], null, 2)}
+                                </pre>
+                              </div>
+                            ))}
+                          </div>
+                          {event.userAgent && (
+                            <p className="text-xs text-muted-foreground mt-2">{event.userAgent}</p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
+            <span>
+              {total === 0 ? "0 events" : `${offset + 1}-${Math.min(offset + PAGE_SIZE, total)} of ${total} events`}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                disabled={offset === 0}
+              >
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+                disabled={offset + PAGE_SIZE >= total}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </DashboardLayout>
+  );
+}
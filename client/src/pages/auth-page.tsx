@@ -4,6 +4,7 @@ import { useAuth } from "@/hooks/use-auth";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
+import { newPasswordSchema } from "@shared/password-policy";
 import { UserRole } from "@/lib/types";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -27,8 +28,8 @@ const registerSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
   email: z.string().email("Please enter a valid email address"),
   mobile: z.string().min(10, "Mobile number must be at least 10 digits").max(15, "Mobile number cannot exceed 15 digits"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
-  confirmPassword: z.string().min(6, "Password must be at least 6 characters"),
+  password: newPasswordSchema,
+  confirmPassword: z.string().min(1, "Please confirm your password"),
 }).refine(data => data.password === data.confirmPassword, {
   message: "Passwords do not match",
   path: ["confirmPassword"],
@@ -36,8 +37,11 @@ const registerSchema = z.object({
 
 export default function AuthPage() {
   const [_, setLocation] = useLocation();
-  const { user, loginMutation, registerMutation } = useAuth();
+  const { user, loginMutation, verifyTwoFactorMutation, registerMutation } = useAuth();
   const [activeTab, setActiveTab] = useState<string>("login");
+  // Set once the password is accepted for an account with two-factor authentication
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
 
   const loginForm = useForm<z.infer<typeof loginSchema>>({
     resolver: zodResolver(loginSchema),
@@ -69,6 +73,10 @@ export default function AuthPage() {
     console.log("Login attempt with:", data);
     loginMutation.mutate(data, {
       onSuccess: (userData) => {
+        if ("twoFactorRequired" in userData) {
+          setTwoFactorStep(true);
+          return;
+        }
         console.log("Login success:", userData);
         setLocation("/dashboard");
       },
@@ -78,6 +86,14 @@ export default function AuthPage() {
     });
   };
 
+  const onVerifyTwoFactor = (e: React.FormEvent) => {
+    e.preventDefault();
+    verifyTwoFactorMutation.mutate(twoFactorCode.trim(), {
+      onSuccess: () => setLocation("/dashboard"),
+      onError: () => setTwoFactorCode(""),
+    });
+  };
+
   const onRegister = (data: z.infer<typeof registerSchema>) => {
     const { confirmPassword, ...registerData } = data;
     registerMutation.mutate({
@@ -110,43 +126,85 @@ export default function AuthPage() {
               </TabsList>
               
               <TabsContent value="login">
-                <form onSubmit={loginForm.handleSubmit(onLogin)}>
-                  <div className="space-y-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="username">Username</Label>
-                      <Input
-                        id="username"
-                        type="text"
-                        placeholder="Enter your username"
-                        {...loginForm.register("username")}
-                      />
-                      {loginForm.formState.errors.username && (
-                        <p className="text-red-500 text-sm">{loginForm.formState.errors.username.message}</p>
-                      )}
+                {twoFactorStep ? (
+                  <form onSubmit={onVerifyTwoFactor}>
+                    <div className="space-y-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="two-factor-code">Authentication code</Label>
+                        <Input
+                          id="two-factor-code"
+                          type="text"
+                          inputMode="numeric"
+                          autoComplete="one-time-code"
+                          autoFocus
+                          placeholder="6-digit code or recovery code"
+                          value={twoFactorCode}
+                          onChange={(e) => setTwoFactorCode(e.target.value)}
+                        />
+                        <p className="text-sm text-muted-foreground">
+                          Enter the code from your authenticator app. Lost your device? Use one of your recovery codes.
+                        </p>
+                      </div>
+                      
+                      <Button
+                        type="submit"
+                        className="w-full bg-gradient-to-r from-primary to-blue-400 hover:from-blue-600 hover:to-primary-focus"
+                        disabled={!twoFactorCode.trim() || verifyTwoFactorMutation.isPending}
+                      >
+                        {verifyTwoFactorMutation.isPending ? "Verifying..." : "Verify"}
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        className="w-full"
+                        onClick={() => {
+                          setTwoFactorStep(false);
+                          setTwoFactorCode("");
+                        }}
+                      >
+                        Back to login
+                      </Button>
                     </div>
+                  </form>
+                ) : (
+                  <form onSubmit={loginForm.handleSubmit(onLogin)}>
+                    <div className="space-y-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="username">Username</Label>
+                        <Input
+                          id="username"
+                          type="text"
+                          placeholder="Enter your username"
+                          {...loginForm.register("username")}
+                        />
+                        {loginForm.formState.errors.username && (
+                          <p className="text-red-500 text-sm">{loginForm.formState.errors.username.message}</p>
+                        )}
+                      </div>
                     
-                    <div className="space-y-2">
-                      <Label htmlFor="password">Password</Label>
-                      <Input
-                        id="password"
-                        type="password"
-                        placeholder="Enter your password"
-                        {...loginForm.register("password")}
-                      />
-                      {loginForm.formState.errors.password && (
-                        <p className="text-red-500 text-sm">{loginForm.formState.errors.password.message}</p>
-                      )}
-                    </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="password">Password</Label>
+                        <Input
+                          id="password"
+                          type="password"
+                          placeholder="Enter your password"
+                          {...loginForm.register("password")}
+                        />
+                        {loginForm.formState.errors.password && (
+                          <p className="text-red-500 text-sm">{loginForm.formState.errors.password.message}</p>
+                        )}
+                      </div>
                     
-                    <Button
-                      type="submit"
-                      className="w-full bg-gradient-to-r from-primary to-blue-400 hover:from-blue-600 hover:to-primary-focus"
-                      disabled={loginMutation.isPending}
-                    >
-                      {loginMutation.isPending ? "Logging in..." : "Login"}
-                    </Button>
-                  </div>
-                </form>
+                      <Button
+                        type="submit"
+                        className="w-full bg-gradient-to-r from-primary to-blue-400 hover:from-blue-600 hover:to-primary-focus"
+                        disabled={loginMutation.isPending}
+                      >
+                        {loginMutation.isPending ? "Logging in..." : "Login"}
+                      </Button>
+                    </div>
+                  </form>
+                )}
               </TabsContent>
               
               <TabsContent value="register">
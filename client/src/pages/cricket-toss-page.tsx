@@ -25,7 +25,8 @@ import { Separator } from "@/components/ui/separator";
 import { ExclamationTriangleIcon } from "@radix-ui/react-icons";
 import { useToast } from "@/hooks/use-toast";
 import { formatDate, formatCurrency } from "@/lib/utils";
-import { apiRequest } from "@/lib/queryClient";
+import { formatPaisa, parseRupees, type Paisa } from "@shared/money";
+import { apiRequest, idempotencyHeaders } from "@/lib/queryClient";
 import DashboardLayout from "@/components/dashboard-layout";
 
 // Interface for a cricket toss match
@@ -94,13 +95,14 @@ export default function CricketTossPage() {
       prediction,
     }: {
       matchId: number;
-      betAmount: number;
+      betAmount: Paisa;
       prediction: string;
     }) => {
       return await fetch(`/api/cricket-toss/${matchId}/play`, {
         method: "POST",
         headers: {
-          "Content-Type": "application/json"
+          "Content-Type": "application/json",
+          ...idempotencyHeaders()
         },
         body: JSON.stringify({
           prediction,
@@ -146,8 +148,8 @@ export default function CricketTossPage() {
       return;
     }
 
-    const amount = parseInt(betAmount);
-    if (isNaN(amount) || amount <= 0) {
+    const amount = parseRupees(betAmount);
+    if (amount === null || amount <= 0) {
       toast({
         title: "Invalid Bet Amount",
         description: "Please enter a valid bet amount.",
@@ -456,12 +458,12 @@ export default function CricketTossPage() {
                           <span>{formatPrediction(bet.prediction, bet)}</span>
                         </div>
                       </TableCell>
-                      <TableCell>₹{(bet.betAmount / 100).toFixed(2)}</TableCell>
+                      <TableCell>{formatPaisa(bet.betAmount)}</TableCell>
                       <TableCell className={getResultClass(bet)}>
                         {getResultText(bet)}
                       </TableCell>
                       <TableCell>
-                        {bet.payout > 0 ? `₹${(bet.payout / 100).toFixed(2)}` : "-"}
+                        {bet.payout > 0 ? formatPaisa(bet.payout) : "-"}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -5,6 +5,7 @@ import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { UserRole, RequestStatus, RequestType, PaymentMode } from "@shared/schema";
 import DashboardLayout from "@/components/dashboard-layout";
+import BankStatementImport from "@/components/bank-statement-import";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -70,7 +71,9 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
 import { formatDistance } from "date-fns";
+import { formatPaisa, rupeesToPaisa } from "@shared/money";
 import { 
+  AlertTriangle, 
   ArrowDown, 
   ArrowUp, 
   CheckCircle2, 
@@ -89,6 +92,16 @@ import {
   XCircle 
 } from "lucide-react";
 
+// Duplicate and suspect flags attached to deposit requests by the server
+interface VerificationFlags {
+  duplicateUtr: number[];
+  reusedProof: number[];
+  otherPlayer: boolean;
+  missingUtr: boolean;
+  missingProof: boolean;
+  suspect: boolean;
+}
+
 // Define the schema for admin's transaction
 const adminTransactionSchema = z.object({
   userId: z.number(),
@@ -125,6 +138,7 @@ export default function FundManagementPage() {
   const [isAdminTransactionDialogOpen, setIsAdminTransactionDialogOpen] = useState<boolean>(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState<boolean>(false);
   const [isViewDetailsDialogOpen, setIsViewDetailsDialogOpen] = useState<boolean>(false);
+  const [isStatementImportOpen, setIsStatementImportOpen] = useState<boolean>(false);
   
   // Review form
   const reviewForm = useForm<z.infer<typeof reviewRequestSchema>>({
@@ -191,7 +205,7 @@ export default function FundManagementPage() {
   // Mutation for admin transaction
   const adminTransactionMutation = useMutation({
     mutationFn: (data: z.infer<typeof adminTransactionSchema>) => {
-      return apiRequest("POST", "/api/admin/transactions", data);
+      return apiRequest("POST", "/api/admin/transactions", { ...data, amount: rupeesToPaisa(data.amount) });
     },
     onSuccess: () => {
       toast({
@@ -304,12 +318,6 @@ export default function FundManagementPage() {
     return `${formatDistance(date, new Date(), { addSuffix: true })} (${date.toLocaleDateString()})`;
   };
 
-  // Format amount
-  const formatAmount = (amount: number) => {
-    // No need to divide by 100 as amounts are stored as actual rupees
-    return amount.toFixed(2);
-  };
-
   // Get status badge variant
   const getStatusBadge = (status: string) => {
     switch (status) {
@@ -346,6 +354,45 @@ export default function FundManagementPage() {
     }
   };
 
+  // Get verification badges of a deposit request
+  const getVerificationBadges = (verification: VerificationFlags | null | undefined) => {
+    if (!verification) return null;
+    if (!verification.suspect) {
+      return (
+        <Badge variant="outline" className="border-green-500 text-green-500">
+          <CheckCircle2 className="h-3 w-3 mr-1" />
+          Clear
+        </Badge>
+      );
+    }
+
+    return (
+      <div className="flex flex-wrap gap-1">
+        {verification.duplicateUtr.length > 0 && (
+          <Badge className="bg-red-600">
+            <AlertTriangle className="h-3 w-3 mr-1" />
+            Duplicate UTR
+          </Badge>
+        )}
+        {verification.reusedProof.length > 0 && (
+          <Badge className="bg-red-600">
+            <AlertTriangle className="h-3 w-3 mr-1" />
+            Reused proof
+          </Badge>
+        )}
+        {verification.otherPlayer && (
+          <Badge className="bg-orange-600">Other player</Badge>
+        )}
+        {verification.missingUtr && (
+          <Badge variant="outline" className="border-yellow-500 text-yellow-500">No UTR</Badge>
+        )}
+        {verification.missingProof && (
+          <Badge variant="outline" className="border-yellow-500 text-yellow-500">No proof</Badge>
+        )}
+      </div>
+    );
+  };
+
   // Get payment mode display
   const getPaymentModeDisplay = (mode: PaymentMode) => {
     switch (mode) {
@@ -396,6 +443,7 @@ export default function FundManagementPage() {
               <TableHead>Amount</TableHead>
               <TableHead>Payment Mode</TableHead>
               <TableHead>Status</TableHead>
+              <TableHead>Checks</TableHead>
               <TableHead>Date</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
@@ -411,12 +459,13 @@ export default function FundManagementPage() {
                 </TableCell>
                 <TableCell>{getRequestTypeBadge(request.requestType)}</TableCell>
                 <TableCell className="font-semibold">
-                  ₹{formatAmount(request.amount)}
+                  {formatPaisa(request.amount)}
                 </TableCell>
                 <TableCell>
                   {getPaymentModeDisplay(request.paymentMode)}
                 </TableCell>
                 <TableCell>{getStatusBadge(request.status)}</TableCell>
+                <TableCell>{getVerificationBadges(request.verification)}</TableCell>
                 <TableCell>{formatDate(request.createdAt)}</TableCell>
                 <TableCell className="text-right">
                   <div className="flex justify-end gap-2">
@@ -515,6 +564,11 @@ export default function FundManagementPage() {
             />
           </div>
           
+          <Button variant="outline" onClick={() => setIsStatementImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import Statement
+          </Button>
+          
           <Button onClick={openAdminTransactionDialog}>
             <Coins className="h-4 w-4 mr-2" />
             Add Transaction
@@ -522,6 +576,11 @@ export default function FundManagementPage() {
         </div>
       </div>
       
+      <BankStatementImport
+        isOpen={isStatementImportOpen}
+        onClose={() => setIsStatementImportOpen(false)}
+      />
+      
       <Card>
         <CardHeader className="pb-2">
           <CardTitle>Wallet Requests</CardTitle>
@@ -570,7 +629,7 @@ export default function FundManagementPage() {
               
               <div className="flex items-center justify-between">
                 <span className="font-medium">Amount:</span>
-                <span className="font-semibold">₹{formatAmount(selectedRequest.amount)}</span>
+                <span className="font-semibold">{formatPaisa(selectedRequest.amount)}</span>
               </div>
               
               <div className="flex items-center justify-between">
@@ -827,7 +886,7 @@ export default function FundManagementPage() {
                 
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Amount:</span>
-                  <span className="font-semibold">₹{formatAmount(selectedRequest.amount)}</span>
+                  <span className="font-semibold">{formatPaisa(selectedRequest.amount)}</span>
                 </div>
                 
                 <div className="flex items-center justify-between">
@@ -845,6 +904,26 @@ export default function FundManagementPage() {
                   <span>{formatDate(selectedRequest.createdAt)}</span>
                 </div>
               </div>
+
+              {selectedRequest.verification?.suspect && (
+                <div className="rounded-md border border-red-500/50 bg-red-950/30 p-4 space-y-1 text-sm">
+                  <h3 className="font-medium flex items-center text-red-400">
+                    <AlertTriangle className="h-4 w-4 mr-2" />
+                    Verification Warnings
+                  </h3>
+                  {selectedRequest.verification.duplicateUtr.length > 0 && (
+                    <p>UTR also used in request {selectedRequest.verification.duplicateUtr.map((id: number) => `#${id}`).join(", ")}</p>
+                  )}
+                  {selectedRequest.verification.reusedProof.length > 0 && (
+                    <p>Same proof image as request {selectedRequest.verification.reusedProof.map((id: number) => `#${id}`).join(", ")}</p>
+                  )}
+                  {selectedRequest.verification.otherPlayer && (
+                    <p>A matching request was made by another player</p>
+                  )}
+                  {selectedRequest.verification.missingUtr && <p>No UTR / transaction ID given</p>}
+                  {selectedRequest.verification.missingProof && <p>No proof image uploaded</p>}
+                </div>
+              )}
               
               <Separator />
               
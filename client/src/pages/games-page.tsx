@@ -34,7 +34,8 @@ const allGames = [
     path: "/coinflip",
     popularity: "high" as const,
     winRate: 50,
-    gameType: "coinflip" as const // Using game type for automatic image selection
+    gameType: "coinflip" as const, // Using game type for automatic image selection
+    rtpGameType: "coin_flip"
   },
   {
     id: "sportsexchange",
@@ -105,6 +106,7 @@ export default function GamesPage() {
             winRate={game.winRate}
             comingSoon={game.comingSoon}
             gameType={game.gameType}
+            rtpGameType={game.rtpGameType}
             imageUrl={game.imageUrl} // Keep for backward compatibility with Kings Original
           />
         ))}
@@ -41,6 +41,7 @@ import {
   MessageSquare
 } from "lucide-react";
 import { useLocation } from "wouter";
+import { formatPaisa } from "@shared/money";
 
 // Sample game cards data - in real app this would come from API
 const gameCards = [
@@ -72,7 +73,8 @@ const gameCards = [
     path: "/coinflip",
     popularity: "high" as const,
     winRate: 50,
-    gameType: "coinflip" as const // Using game type for automatic image selection
+    gameType: "coinflip" as const, // Using game type for automatic image selection
+    rtpGameType: "coin_flip"
   },
   {
     id: "sportsexchange",
@@ -235,7 +237,7 @@ export default function HomePage() {
         ) : (
           // Balance card for Admin/Subadmin
           <div className="flex flex-col lg:flex-row space-y-4 lg:space-y-0 lg:space-x-4 w-full lg:w-auto">
-            <BalanceCard balance={(user?.balance || 0) / 100} />
+            <BalanceCard balance={user?.balance || 0} />
           </div>
         )}
         
@@ -273,7 +275,7 @@ export default function HomePage() {
             {/* Total Profit Card */}
             <DashboardStatsCard 
               title="Total Profit" 
-              value={`₹${((subadminStats.totalProfit || 0) / 100).toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}`}
+              value={formatPaisa(subadminStats.totalProfit || 0)}
               icon={<TrendingUp className="h-5 w-5 text-emerald-400" />}
               trend={subadminStats.totalProfit >= 0 ? "up" : "down"}
               color={subadminStats.totalProfit >= 0 ? "green" : "red"}
@@ -282,7 +284,7 @@ export default function HomePage() {
             {/* Total Deposits Card */}
             <DashboardStatsCard 
               title="Total Deposits" 
-              value={`₹${((subadminStats.totalDeposits || 0) / 100).toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}`}
+              value={formatPaisa(subadminStats.totalDeposits || 0)}
               icon={<DollarSign className="h-5 w-5 text-blue-400" />}
               trend="up" 
               color="blue"
@@ -332,7 +334,7 @@ export default function HomePage() {
                             {game.gameType.replace('_', ' ')}
                           </td>
                           <td className="py-3 px-4 text-sm">
-                            <span className="font-medium text-emerald-400">₹{((game.betAmount || 0) / 100).toFixed(2)}</span>
+                            <span className="font-medium text-emerald-400">{formatPaisa(game.betAmount || 0)}</span>
                           </td>
                           <td className="py-3 px-4 text-sm">
                             {game.result === 'win' ? (
@@ -410,7 +412,7 @@ export default function HomePage() {
             {/* Total Profit/Loss Card */}
             <DashboardStatsCard 
               title="Total Profit/Loss" 
-              value={`₹${((adminStats.totalProfitLoss || 0) / 100).toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}`}
+              value={formatPaisa(adminStats.totalProfitLoss || 0)}
               icon={<TrendingUp className="h-5 w-5 text-emerald-400" />}
               trend={adminStats.totalProfitLoss >= 0 ? "up" : "down"}
               color={adminStats.totalProfitLoss >= 0 ? "green" : "red"}
@@ -419,7 +421,7 @@ export default function HomePage() {
             {/* Total Deposits Card */}
             <DashboardStatsCard 
               title="Total Deposits" 
-              value={`₹${((adminStats.totalDeposits || 0) / 100).toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}`}
+              value={formatPaisa(adminStats.totalDeposits || 0)}
               icon={<DollarSign className="h-5 w-5 text-blue-400" />}
               trend="up" 
               color="blue"
@@ -428,7 +430,7 @@ export default function HomePage() {
             {/* Active Bet Amount Card */}
             <DashboardStatsCard 
               title="Active Bet Amount" 
-              value={`₹${((adminStats.activeBetAmount || 0) / 100).toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}`}
+              value={formatPaisa(adminStats.activeBetAmount || 0)}
               icon={<Club className="h-5 w-5 text-purple-400" />}
               trend="neutral"
               color="purple"
@@ -437,7 +439,7 @@ export default function HomePage() {
             {/* Potential Payout Card */}
             <DashboardStatsCard 
               title="Potential Payout" 
-              value={`₹${((adminStats.potentialPayout || 0) / 100).toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}`}
+              value={formatPaisa(adminStats.potentialPayout || 0)}
               icon={<Award className="h-5 w-5 text-amber-400" />}
               trend="neutral"
               color="amber"
@@ -593,6 +595,7 @@ export default function HomePage() {
                   popularity={game.popularity}
                   winRate={game.winRate}
                   gameType={game.gameType}
+                  rtpGameType={game.rtpGameType}
                 />
               ))}
             </div>
@@ -0,0 +1,265 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import DashboardLayout from "@/components/dashboard-layout";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { UserRole, type KycDocument } from "@shared/schema";
+import { getKycDocumentLabel, type KycRules } from "@shared/kyc";
+import { parseRupees, paisaToRupees } from "@shared/money";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, FileText, IdCard, Loader2, RefreshCw, X } from "lucide-react";
+
+interface KycQueueEntry {
+  userId: number;
+  username: string;
+  submittedAt: string;
+  documents: KycDocument[];
+}
+
+type Decision = "approve" | "reject";
+
+// Thresholds are typed in rupees; an empty field turns the rule off
+function KycRulesCard() {
+  const { toast } = useToast();
+  const [withdrawal, setWithdrawal] = useState("");
+  const [deposit, setDeposit] = useState("");
+  const { data: rules } = useQuery<KycRules>({
+    queryKey: ["/api/kyc/rules"],
+  });
+
+  useEffect(() => {
+    if (!rules) return;
+    setWithdrawal(rules.withdrawalThreshold === null ? "" : String(paisaToRupees(rules.withdrawalThreshold)));
+    setDeposit(rules.depositThreshold === null ? "" : String(paisaToRupees(rules.depositThreshold)));
+  }, [rules]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (rules: KycRules) => {
+      const res = await apiRequest("PUT", "/api/kyc/rules", rules);
+      return res.json();
+    },
+    onSuccess: (data: KycRules) => {
+      queryClient.setQueryData(["/api/kyc/rules"], data);
+      toast({ title: "KYC rules saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const threshold = (value: string) => (value.trim() === "" ? null : value.trim() === "0" ? 0 : parseRupees(value));
+
+  const save = () => {
+    const withdrawalThreshold = threshold(withdrawal);
+    const depositThreshold = threshold(deposit);
+    if ((withdrawal.trim() && withdrawalThreshold === null) || (deposit.trim() && depositThreshold === null)) {
+      toast({ title: "Enter thresholds in rupees", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate({ withdrawalThreshold, depositThreshold });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Verification Rules</CardTitle>
+        <CardDescription>
+          Players must be verified before requesting more than these amounts. Leave a field empty to turn the rule off,
+          or enter 0 to require verification for every request.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="kyc-withdrawal">Withdrawals above (₹)</Label>
+          <Input id="kyc-withdrawal" inputMode="decimal" placeholder="No rule" value={withdrawal} onChange={(e) => setWithdrawal(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="kyc-deposit">Deposits above (₹)</Label>
+          <Input id="kyc-deposit" inputMode="decimal" placeholder="No rule" value={deposit} onChange={(e) => setDeposit(e.target.value)} />
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button onClick={save} disabled={saveMutation.isPending}>
+          {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save rules
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+/**
+ * Players waiting for their identity documents to be reviewed. A decision
+ * covers every pending document of the player; rejections need a reason,
+ * which the player sees.
+ */
+export default function KycReviewPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [review, setReview] = useState<{ entry: KycQueueEntry; decision: Decision } | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: queue = [], isLoading, isFetching, refetch } = useQuery<KycQueueEntry[]>({
+    queryKey: ["/api/kyc/queue"],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ userId, decision, reason }: { userId: number; decision: Decision; reason: string }) => {
+      const res = await apiRequest("POST", `/api/users/${userId}/kyc/review`, { decision, reason: reason || undefined });
+      return res.json();
+    },
+    onSuccess: (_data, { userId, decision }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kyc/queue"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users", userId, "kyc"] });
+      toast({ title: decision === "approve" ? "Player verified" : "Documents rejected" });
+      setReview(null);
+      setReason("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openReview = (entry: KycQueueEntry, decision: Decision) => {
+    setReason("");
+    setReview({ entry, decision });
+  };
+
+  return (
+    <DashboardLayout title="KYC Review">
+      <div className="space-y-6">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle className="flex items-center">
+                <IdCard className="h-5 w-5 mr-2" />
+                KYC Review Queue
+              </CardTitle>
+              <CardDescription>
+                Players whose identity documents are waiting for review, longest waiting first.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : queue.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No documents are waiting for review</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Player</TableHead>
+                    <TableHead>Waiting since</TableHead>
+                    <TableHead>Documents</TableHead>
+                    <TableHead className="text-right">Decision</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {queue.map(entry => (
+                    <TableRow key={entry.userId}>
+                      <TableCell>
+                        <Link href={`/users/${entry.userId}`} className="hover:underline">{entry.username}</Link>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(entry.submittedAt), "dd MMM yyyy, HH:mm")}
+                      </TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          {entry.documents.map(document => (
+                            <a
+                              key={document.id}
+                              href={`/api/kyc/documents/${document.id}/file`}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="flex items-center text-sm hover:underline"
+                            >
+                              <FileText className="h-4 w-4 mr-1" />
+                              {getKycDocumentLabel(document.documentType)}
+                              {document.documentNumber && <span className="text-muted-foreground ml-1">{document.documentNumber}</span>}
+                            </a>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button size="sm" className="mr-2" onClick={() => openReview(entry, "approve")}>
+                          <Check className="h-4 w-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button size="sm" variant="destructive" onClick={() => openReview(entry, "reject")}>
+                          <X className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {user?.role === UserRole.ADMIN && <KycRulesCard />}
+      </div>
+
+      <Dialog open={review !== null} onOpenChange={(open) => !open && setReview(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {review?.decision === "approve" ? "Verify" : "Reject documents of"} {review?.entry.username}
+            </DialogTitle>
+            <DialogDescription>
+              {review?.decision === "approve"
+                ? "The player's identity will be verified with the documents listed."
+                : "The player will be told why and can upload new documents."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="kyc-reason">{review?.decision === "approve" ? "Note (optional)" : "Reason"}</Label>
+            <Textarea id="kyc-reason" value={reason} onChange={(e) => setReason(e.target.value)} maxLength={500} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReview(null)}>Cancel</Button>
+            <Button
+              variant={review?.decision === "approve" ? "default" : "destructive"}
+              onClick={() => review && reviewMutation.mutate({ userId: review.entry.userId, decision: review.decision, reason: reason.trim() })}
+              disabled={reviewMutation.isPending || (review?.decision === "reject" && !reason.trim())}
+            >
+              {reviewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {review?.decision === "approve" ? "Verify player" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -17,6 +17,8 @@ interface SatamatkaMarket {
   closeTime: string;
   openResult?: string;
   closeResult?: string;
+  openPanna?: string | null;
+  closePanna?: string | null;
   status: string;
   createdAt: string;
   coverImage?: string;
@@ -50,7 +52,7 @@ export default function MarketListPage() {
   const openMarkets = allMarkets.filter(market => market.status === "open");
   const upcomingMarkets = allMarkets.filter(market => market.status === "waiting");
   const closedMarkets = allMarkets.filter(market => market.status === "closed");
-  const resultedMarkets = allMarkets.filter(market => market.status === "resulted");
+  const resultedMarkets = allMarkets.filter(market => market.status === "resulted" || market.status === "settled");
   
   // Sort markets in 'all' tab according to status priority: open, waiting, closed, resulted
   const sortedAllMarkets = [...allMarkets].sort((a, b) => {
@@ -58,7 +60,8 @@ export default function MarketListPage() {
       "open": 1,
       "waiting": 2,
       "closed": 3, 
-      "resulted": 4
+      "resulted": 4,
+      "settled": 4
     };
     
     return (statusPriority[a.status as keyof typeof statusPriority] || 99) - 
@@ -193,6 +196,8 @@ export default function MarketListPage() {
                   closeTime={market.closeTime}
                   openResult={market.openResult}
                   closeResult={market.closeResult}
+                  openPanna={market.openPanna}
+                  closePanna={market.closePanna}
                   status={market.status}
                   coverImage={market.coverImage}
                 />
@@ -236,6 +241,8 @@ export default function MarketListPage() {
                   closeTime={market.closeTime}
                   openResult={market.openResult}
                   closeResult={market.closeResult}
+                  openPanna={market.openPanna}
+                  closePanna={market.closePanna}
                   status={market.status}
                   showFullInfo={true}
                   coverImage={market.coverImage}
@@ -280,6 +287,8 @@ export default function MarketListPage() {
                   closeTime={market.closeTime}
                   openResult={market.openResult}
                   closeResult={market.closeResult}
+                  openPanna={market.openPanna}
+                  closePanna={market.closePanna}
                   status={market.status}
                   showFullInfo={true}
                   coverImage={market.coverImage}
@@ -324,6 +333,8 @@ export default function MarketListPage() {
                   closeTime={market.closeTime}
                   openResult={market.openResult}
                   closeResult={market.closeResult}
+                  openPanna={market.openPanna}
+                  closePanna={market.closePanna}
                   status={market.status}
                   showFullInfo={true}
                   coverImage={market.coverImage}
@@ -368,6 +379,8 @@ export default function MarketListPage() {
                   closeTime={market.closeTime}
                   openResult={market.openResult}
                   closeResult={market.closeResult}
+                  openPanna={market.openPanna}
+                  closePanna={market.closePanna}
                   status={market.status}
                   showFullInfo={true}
                   coverImage={market.coverImage}
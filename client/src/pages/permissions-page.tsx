@@ -0,0 +1,314 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import DashboardLayout from "@/components/dashboard-layout";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { PERMISSION_GROUPS } from "@shared/permissions";
+import { User, UserRole } from "@/lib/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { KeyRound, Loader2, Save, UserCog } from "lucide-react";
+
+interface RoleTemplate {
+  role: string;
+  permissions: string[];
+  editable: boolean;
+}
+
+interface PermissionOverride {
+  permission: string;
+  granted: boolean;
+}
+
+interface UserPermissions {
+  userId: number;
+  role: string;
+  rolePermissions: string[];
+  overrides: PermissionOverride[];
+  permissions: string[];
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  [UserRole.ADMIN]: "Admin",
+  [UserRole.SUBADMIN]: "Agent",
+  [UserRole.PLAYER]: "Player",
+};
+
+const DEFAULT = "default";
+const GRANT = "grant";
+const DENY = "deny";
+
+function RoleTemplates() {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Record<string, string[]>>({});
+
+  const { data: roles = [], isLoading } = useQuery<RoleTemplate[]>({
+    queryKey: ["/api/permissions/roles"],
+  });
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(roles.map(role => [role.role, role.permissions])));
+  }, [roles]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (role: string) => {
+      const res = await apiRequest("PUT", `/api/permissions/roles/${role}`, { permissions: drafts[role] });
+      return res.json();
+    },
+    onSuccess: (_, role) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/permissions/roles"] });
+      toast({ title: `${ROLE_LABELS[role] ?? role} permissions saved` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save permissions", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const togglePermission = (role: string, permission: string, granted: boolean) => {
+    setDrafts(current => ({
+      ...current,
+      [role]: granted
+        ? [...(current[role] ?? []), permission]
+        : (current[role] ?? []).filter(existing => existing !== permission),
+    }));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="h-5 w-5 mr-2" />
+          Role Templates
+        </CardTitle>
+        <CardDescription>
+          What every user of a role can do. The admin role always has every permission.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Permission</TableHead>
+              {roles.map(role => (
+                <TableHead key={role.role} className="text-center">
+                  {ROLE_LABELS[role.role] ?? role.role}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {PERMISSION_GROUPS.map(group => [
+              <TableRow key={group.label}>
+                <TableCell colSpan={roles.length + 1} className="font-semibold text-muted-foreground">
+                  {group.label}
+                </TableCell>
+              </TableRow>,
+              ...group.permissions.map(({ permission, label }) => (
+                <TableRow key={permission}>
+                  <TableCell>
+                    {label}
+                    <span className="block text-xs text-muted-foreground">{permission}</span>
+                  </TableCell>
+                  {roles.map(role => (
+                    <TableCell key={role.role} className="text-center">
+                      <Checkbox
+                        checked={(drafts[role.role] ?? []).includes(permission)}
+                        disabled={!role.editable}
+                        onCheckedChange={(checked) => togglePermission(role.role, permission, checked === true)}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              )),
+            ])}
+          </TableBody>
+        </Table>
+
+        <div className="flex justify-end gap-2 mt-4">
+          {roles.filter(role => role.editable).map(role => (
+            <Button
+              key={role.role}
+              onClick={() => saveMutation.mutate(role.role)}
+              disabled={saveMutation.isPending}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save {ROLE_LABELS[role.role] ?? role.role}
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function UserOverrides() {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const [userId, setUserId] = useState<string>("");
+  const [draft, setDraft] = useState<Record<string, string>>({});
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: userPermissions, isLoading } = useQuery<UserPermissions>({
+    queryKey: [`/api/users/${userId}/permissions`],
+    enabled: !!userId,
+  });
+
+  useEffect(() => {
+    setDraft(Object.fromEntries(
+      (userPermissions?.overrides ?? []).map(override => [override.permission, override.granted ? GRANT : DENY]),
+    ));
+  }, [userPermissions]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const overrides = Object.entries(draft)
+        .filter(([, value]) => value !== DEFAULT)
+        .map(([permission, value]) => ({ permission, granted: value === GRANT }));
+      const res = await apiRequest("PUT", `/api/users/${userId}/permissions`, { overrides });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${userId}/permissions`] });
+      toast({ title: "User permissions saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save permissions", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Users cannot change their own overrides
+  const otherUsers = users.filter(user => user.id !== currentUser?.id);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <UserCog className="h-5 w-5 mr-2" />
+          User Overrides
+        </CardTitle>
+        <CardDescription>
+          Grant or deny single permissions to one user on top of their role template
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Select value={userId} onValueChange={setUserId}>
+          <SelectTrigger className="w-[280px] mb-4">
+            <SelectValue placeholder="Select a user" />
+          </SelectTrigger>
+          <SelectContent>
+            {otherUsers.map(user => (
+              <SelectItem key={user.id} value={String(user.id)}>
+                {user.username} ({ROLE_LABELS[user.role] ?? user.role})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {userId && (isLoading || !userPermissions ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Permission</TableHead>
+                  <TableHead className="text-center">Role template</TableHead>
+                  <TableHead>Override</TableHead>
+                  <TableHead className="text-center">Effective</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {PERMISSION_GROUPS.flatMap(group => group.permissions).map(({ permission, label }) => (
+                  <TableRow key={permission}>
+                    <TableCell>{label}</TableCell>
+                    <TableCell className="text-center">
+                      {userPermissions.rolePermissions.includes(permission) ? "Yes" : "No"}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={draft[permission] ?? DEFAULT}
+                        onValueChange={(value) => setDraft({ ...draft, [permission]: value })}
+                      >
+                        <SelectTrigger className="h-8 w-[130px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={DEFAULT}>Role default</SelectItem>
+                          <SelectItem value={GRANT}>Grant</SelectItem>
+                          <SelectItem value={DENY}>Deny</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-center">
+                      {userPermissions.permissions.includes(permission)
+                        ? <Badge>Allowed</Badge>
+                        : <Badge variant="outline">Denied</Badge>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex justify-end mt-4">
+              <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save Overrides
+              </Button>
+            </div>
+          </>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function PermissionsPage() {
+  return (
+    <DashboardLayout title="Roles & Permissions">
+      <Tabs defaultValue="roles">
+        <TabsList className="mb-4">
+          <TabsTrigger value="roles">Roles</TabsTrigger>
+          <TabsTrigger value="users">Users</TabsTrigger>
+        </TabsList>
+        <TabsContent value="roles">
+          <RoleTemplates />
+        </TabsContent>
+        <TabsContent value="users">
+          <UserOverrides />
+        </TabsContent>
+      </Tabs>
+    </DashboardLayout>
+  );
+}
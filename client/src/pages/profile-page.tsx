@@ -1,9 +1,30 @@
 import { useState } from "react";
-import { UserRole } from "@shared/schema";
+import {
+  UserRole,
+  KycDocumentType,
+  KycStatus,
+  RequestStatus,
+  SelfExclusionKind,
+  SelfExclusionPeriod,
+  type KycDocument,
+  type KycStatusValue,
+  type SelfExclusionPeriodValue,
+} from "@shared/schema";
+import { KYC_DOCUMENT_TYPES, KYC_FILE_TYPES, KYC_STATUS_LABELS, getKycDocumentLabel, type KycRules } from "@shared/kyc";
+import { SELF_EXCLUSION_OPTIONS, getSelfExclusionOption } from "@shared/self-exclusion";
+import { PLAYER_LIMIT_PERIODS, PLAYER_LIMIT_TYPES, type PlayerLimitStatus } from "@shared/player-limits";
+import {
+  REALITY_CHECK_MINUTES,
+  SESSION_LIMIT_MINUTES,
+  formatDuration,
+  type PlaySessionSettingsValues,
+  type PlaySessionStatus,
+} from "@shared/play-sessions";
+import ConfirmDialog from "@/components/confirm-dialog";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import DashboardLayout from "@/components/dashboard-layout";
 import { 
   Card, 
@@ -17,17 +38,32 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { 
   User, 
   Shield, 
   Key, 
   Loader2, 
   Calendar,
-  Wallet
+  Wallet,
+  Monitor,
+  LogOut,
+  PauseCircle,
+  Gauge,
+  Clock,
+  IdCard
 } from "lucide-react";
 import { z } from "zod";
+import { newPasswordSchema } from "@shared/password-policy";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { formatPaisa, parseRupees } from "@shared/money";
 import {
   Form,
   FormControl,
@@ -40,8 +76,8 @@ import {
 // Define form schema for password change
 const passwordChangeSchema = z.object({
   currentPassword: z.string().min(1, "Current password is required"),
-  newPassword: z.string().min(6, "New password must be at least 6 characters"),
-  confirmPassword: z.string().min(6, "Confirm password is required"),
+  newPassword: newPasswordSchema,
+  confirmPassword: z.string().min(1, "Confirm password is required"),
 }).refine(data => data.newPassword === data.confirmPassword, {
   message: "Passwords do not match",
   path: ["confirmPassword"],
@@ -49,6 +85,567 @@ const passwordChangeSchema = z.object({
 
 type PasswordChangeForm = z.infer<typeof passwordChangeSchema>;
 
+interface LoginSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  current: boolean;
+}
+
+// A readable name for the browser and system in a user agent string
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\/|Opera/.test(userAgent) ? "Opera"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "Browser";
+  const system = /Android/.test(userAgent) ? "Android"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+  return system ? `${browser} on ${system}` : browser;
+}
+
+function DevicesCard() {
+  const { toast } = useToast();
+  const { data: sessions = [], isLoading } = useQuery<LoginSession[]>({
+    queryKey: ["/api/sessions"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to sign out the session",
+      variant: "destructive",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/sessions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({ title: "Session signed out" });
+    },
+    onError,
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/sessions");
+      return res.json();
+    },
+    onSuccess: (data: { revoked: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({ title: `Signed out of ${data.revoked} other session${data.revoked === 1 ? "" : "s"}` });
+    },
+    onError,
+  });
+
+  const others = sessions.filter(session => !session.current);
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700 md:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Monitor className="h-5 w-5 text-primary" />
+          Devices & Sessions
+        </CardTitle>
+        <CardDescription>
+          Where you are signed in. Sign out any session you don't recognise and change your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : sessions.map(session => (
+          <div key={session.id} className="flex items-center justify-between p-3 bg-slate-900/50 rounded-md">
+            <div>
+              <div className="flex items-center gap-2 font-medium">
+                {describeDevice(session.userAgent)}
+                {session.current && <Badge variant="outline">This device</Badge>}
+              </div>
+              <div className="text-sm text-muted-foreground">
+                {session.ipAddress ?? "Unknown address"}
+                {session.lastSeenAt && ` · Last active ${new Date(session.lastSeenAt).toLocaleString()}`}
+                {session.createdAt && ` · Signed in ${new Date(session.createdAt).toLocaleDateString()}`}
+              </div>
+            </div>
+            {!session.current && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => revokeMutation.mutate(session.id)}
+                disabled={revokeMutation.isPending}
+              >
+                Sign out
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+      {others.length > 0 && (
+        <CardFooter>
+          <Button
+            variant="destructive"
+            onClick={() => revokeOthersMutation.mutate()}
+            disabled={revokeOthersMutation.isPending}
+          >
+            {revokeOthersMutation.isPending
+              ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              : <LogOut className="mr-2 h-4 w-4" />}
+            Sign out all other devices
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
+
+// Limits a player sets on their own deposits, losses and stakes. Lowering one
+// applies at once; raising or removing it waits a day.
+// Players send identity documents for review. Some deposits and withdrawals
+// are refused until they are verified.
+function KycCard() {
+  const { toast } = useToast();
+  const [documentType, setDocumentType] = useState<string>(KycDocumentType.AADHAAR);
+  const [documentNumber, setDocumentNumber] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const { data: kyc, isLoading } = useQuery<{ status: KycStatusValue; documents: KycDocument[]; rules: KycRules }>({
+    queryKey: ["/api/kyc"],
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("documentType", documentType);
+      formData.append("documentNumber", documentNumber);
+      formData.append("document", file!);
+
+      const res = await fetch("/api/kyc/documents", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to upload the document");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kyc"] });
+      setDocumentNumber("");
+      setFile(null);
+      toast({ title: "Document uploaded", description: "We will let you know once it has been reviewed." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const status = kyc?.status ?? KycStatus.UNVERIFIED;
+  const rejection = kyc?.documents.find(document => document.status === RequestStatus.REJECTED)?.reviewReason;
+  const rules = kyc?.rules;
+  const ruleText = (threshold: number | null | undefined, what: string) =>
+    threshold === null || threshold === undefined ? null
+      : threshold === 0 ? `${what} need a verified identity.`
+      : `${what} over ${formatPaisa(threshold)} need a verified identity.`;
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700 md:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <IdCard className="h-5 w-5 text-primary" />
+          Identity Verification
+          <Badge variant={status === KycStatus.VERIFIED ? "default" : status === KycStatus.REJECTED ? "destructive" : "secondary"}>
+            {KYC_STATUS_LABELS[status]}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          Upload a photo or scan of an identity document (JPEG, PNG, WebP or PDF, up to 5 MB).
+          {" "}{ruleText(rules?.withdrawalThreshold, "Withdrawals")} {ruleText(rules?.depositThreshold, "Deposits")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {status === KycStatus.REJECTED && rejection && (
+              <div className="p-3 rounded-md bg-red-950/40 border border-red-900 text-sm">
+                Your documents were rejected: {rejection}. Please upload new ones.
+              </div>
+            )}
+            {status !== KycStatus.VERIFIED && (
+              <div className="grid gap-3 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label>Document</Label>
+                  <Select value={documentType} onValueChange={setDocumentType}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {KYC_DOCUMENT_TYPES.map(option => (
+                        <SelectItem key={option.type} value={option.type}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Document number</Label>
+                  <Input value={documentNumber} onChange={(e) => setDocumentNumber(e.target.value)} placeholder="Optional" />
+                </div>
+                <div className="space-y-2">
+                  <Label>File</Label>
+                  <Input
+                    type="file"
+                    accept={KYC_FILE_TYPES.join(",")}
+                    onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                  />
+                </div>
+              </div>
+            )}
+            {kyc && kyc.documents.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-muted-foreground text-xs">Your documents</Label>
+                {kyc.documents.map(document => (
+                  <div key={document.id} className="flex items-center justify-between p-3 bg-slate-900/50 rounded-md text-sm">
+                    <a href={`/api/kyc/documents/${document.id}/file`} target="_blank" rel="noreferrer" className="hover:underline">
+                      {getKycDocumentLabel(document.documentType)}
+                      {document.documentNumber && ` · ${document.documentNumber}`}
+                    </a>
+                    <span className="text-muted-foreground capitalize">
+                      {new Date(document.createdAt).toLocaleDateString()} · {document.status}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+      {status !== KycStatus.VERIFIED && (
+        <CardFooter>
+          <Button onClick={() => uploadMutation.mutate()} disabled={!file || uploadMutation.isPending}>
+            {uploadMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Upload document
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
+
+function PlayerLimitsCard() {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const { data: limits = [], isLoading } = useQuery<PlayerLimitStatus[]>({
+    queryKey: ["/api/limits"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (update: { type: string; period: string; amount: number | null }) => {
+      const res = await apiRequest("PUT", "/api/limits", update);
+      return res.json();
+    },
+    onSuccess: (data: PlayerLimitStatus[], update) => {
+      queryClient.setQueryData(["/api/limits"], data);
+      setDrafts(drafts => ({ ...drafts, [`${update.type}:${update.period}`]: "" }));
+      const limit = data.find(limit => limit.type === update.type && limit.period === update.period);
+      toast({
+        title: limit?.pendingFrom ? "Limit change scheduled" : "Limit updated",
+        description: limit?.pendingFrom
+          ? `The change takes effect on ${new Date(limit.pendingFrom).toLocaleString()}.`
+          : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update the limit",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const save = (limit: PlayerLimitStatus) => {
+    const key = `${limit.type}:${limit.period}`;
+    const amount = parseRupees(drafts[key] ?? "");
+    if (!amount) {
+      toast({ title: "Enter an amount in rupees", variant: "destructive" });
+      return;
+    }
+    updateMutation.mutate({ type: limit.type, period: limit.period, amount });
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700 md:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5 text-primary" />
+          Play Limits
+        </CardTitle>
+        <CardDescription>
+          Limit what you deposit, lose and stake over a day, a week (7 days) or a month (30 days).
+          A lower limit applies straight away; raising or removing one takes effect after 24 hours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : PLAYER_LIMIT_TYPES.map(({ type, label }) => (
+          <div key={type} className="space-y-2">
+            <Label className="text-muted-foreground text-xs">{label} limits</Label>
+            {PLAYER_LIMIT_PERIODS.map(({ period, label: periodLabel }) => {
+              const limit = limits.find(limit => limit.type === type && limit.period === period);
+              if (!limit) return null;
+              const key = `${type}:${period}`;
+              return (
+                <div key={key} className="flex flex-col md:flex-row md:items-center justify-between gap-2 p-3 bg-slate-900/50 rounded-md">
+                  <div>
+                    <div className="font-medium">
+                      {periodLabel}: {limit.amount === null ? "No limit" : formatPaisa(limit.amount)}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      Used {formatPaisa(limit.used)}
+                      {limit.pendingFrom && ` · ${limit.pendingAmount === null ? "Removal" : `Change to ${formatPaisa(limit.pendingAmount)}`} on ${new Date(limit.pendingFrom).toLocaleString()}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      className="w-32"
+                      inputMode="decimal"
+                      placeholder="Amount (₹)"
+                      value={drafts[key] ?? ""}
+                      onChange={(e) => setDrafts({ ...drafts, [key]: e.target.value })}
+                    />
+                    <Button size="sm" onClick={() => save(limit)} disabled={updateMutation.isPending}>
+                      Set
+                    </Button>
+                    {limit.amount !== null && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => updateMutation.mutate({ type, period, amount: null })}
+                        disabled={updateMutation.isPending}
+                      >
+                        Remove
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Players choose how often they are reminded how long they have played, and
+// can have themselves logged out after a set time
+function RealityCheckCard() {
+  const { toast } = useToast();
+  const { data: status, isLoading } = useQuery<PlaySessionStatus>({
+    queryKey: ["/api/play-session"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (settings: PlaySessionSettingsValues) => {
+      const res = await apiRequest("PUT", "/api/play-session/settings", settings);
+      return res.json();
+    },
+    onSuccess: (data: PlaySessionStatus) => {
+      queryClient.setQueryData(["/api/play-session"], data);
+      toast({ title: "Reality check settings saved" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save the settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const settings = status?.settings;
+  const update = (change: Partial<PlaySessionSettingsValues>) => {
+    if (settings) updateMutation.mutate({ ...settings, ...change });
+  };
+  const toMinutes = (value: string) => (value === "off" ? null : Number(value));
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700 md:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5 text-primary" />
+          Reality Checks
+        </CardTitle>
+        <CardDescription>
+          Get a reminder of how long you have been playing and your result so far, and choose to be logged out
+          after a set time. A session ends when you log out or after 30 minutes without activity.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !settings ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Remind me every</Label>
+              <Select
+                value={settings.realityCheckMinutes === null ? "off" : String(settings.realityCheckMinutes)}
+                onValueChange={(value) => update({ realityCheckMinutes: toMinutes(value) })}
+                disabled={updateMutation.isPending}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Off</SelectItem>
+                  {REALITY_CHECK_MINUTES.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>{formatDuration(minutes * 60 * 1000)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Log me out after</Label>
+              <Select
+                value={settings.sessionLimitMinutes === null ? "off" : String(settings.sessionLimitMinutes)}
+                onValueChange={(value) => update({ sessionLimitMinutes: toMinutes(value) })}
+                disabled={updateMutation.isPending}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">No limit</SelectItem>
+                  {SESSION_LIMIT_MINUTES.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>{formatDuration(minutes * 60 * 1000)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {status.session && (
+              <div className="text-sm text-muted-foreground md:col-span-2">
+                This session started at {new Date(status.session.startedAt).toLocaleTimeString()}.
+                Result so far: {formatPaisa(status.net, { signed: true })}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Players can stop themselves from playing for a while. Nobody can end the
+// break early, so the choice is confirmed first.
+function SelfExclusionCard() {
+  const { toast } = useToast();
+  const [period, setPeriod] = useState<SelfExclusionPeriodValue | null>(null);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const option = getSelfExclusionOption(period);
+
+  const startMutation = useMutation({
+    mutationFn: async (period: SelfExclusionPeriodValue) => {
+      const res = await apiRequest("POST", "/api/self-exclusion", { period });
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({ title: "Your break has started", description: data.message });
+      // The server has signed this session out
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start the break",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700 md:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PauseCircle className="h-5 w-5 text-primary" />
+          Take a Break
+        </CardTitle>
+        <CardDescription>
+          A cooling-off break stops you from playing for up to 30 days. A self-exclusion lasts six months or for good.
+          You will be signed out everywhere and cannot log in or place bets until it ends. It cannot be ended early, not even by support.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {[SelfExclusionKind.COOLING_OFF, SelfExclusionKind.SELF_EXCLUSION].map(kind => (
+          <div key={kind}>
+            <Label className="text-muted-foreground text-xs">
+              {kind === SelfExclusionKind.COOLING_OFF ? "Cooling-off" : "Self-exclusion"}
+            </Label>
+            <div className="flex flex-wrap gap-2 mt-1">
+              {SELF_EXCLUSION_OPTIONS.filter(option => option.kind === kind).map(option => (
+                <Button
+                  key={option.period}
+                  variant={period === option.period ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setPeriod(option.period)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+      <CardFooter>
+        <Button
+          variant="destructive"
+          onClick={() => setConfirmOpen(true)}
+          disabled={!option || startMutation.isPending}
+        >
+          {startMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Start break
+        </Button>
+      </CardFooter>
+      {option && (
+        <ConfirmDialog
+          isOpen={confirmOpen}
+          onClose={() => setConfirmOpen(false)}
+          onConfirm={() => startMutation.mutate(option.period)}
+          title={option.kind === SelfExclusionKind.COOLING_OFF ? "Start a cooling-off break?" : "Exclude yourself from playing?"}
+          description={option.period === SelfExclusionPeriod.PERMANENT
+            ? "You will be signed out and will never be able to log in or play again. This cannot be undone."
+            : `You will be signed out and unable to log in or play for ${option.label}. This cannot be undone.`}
+          confirmText="Start break"
+        />
+      )}
+    </Card>
+  );
+}
+
 export default function ProfilePage() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -71,9 +668,10 @@ export default function ProfilePage() {
     onSuccess: () => {
       toast({
         title: "Password Updated",
-        description: "Your password has been successfully changed",
+        description: "Your password has been successfully changed and your other devices were signed out",
       });
       form.reset();
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
     },
     onError: (error: Error) => {
       toast({
@@ -173,7 +771,7 @@ export default function ProfilePage() {
                 <Label className="text-muted-foreground text-xs">Wallet Balance</Label>
                 <div className="font-medium text-lg flex items-center gap-1 text-green-500">
                   <Wallet className="h-4 w-4" />
-                  ₹{(user.balance / 100).toFixed(2)}
+                  {formatPaisa(user.balance)}
                 </div>
               </div>
             </div>
@@ -250,6 +848,16 @@ export default function ProfilePage() {
             </Form>
           </CardContent>
         </Card>
+
+        <DevicesCard />
+        
+        {user.role === UserRole.PLAYER && <KycCard />}
+        
+        {user.role === UserRole.PLAYER && <PlayerLimitsCard />}
+        
+        {user.role === UserRole.PLAYER && <RealityCheckCard />}
+        
+        {user.role === UserRole.PLAYER && <SelfExclusionCard />}
       </div>
     </DashboardLayout>
   );
@@ -268,7 +268,8 @@ const gameCards = [
     path: "/coinflip",
     popularity: "high" as const,
     winRate: 50,
-    gameType: "coinflip" as const // Using game type for automatic image selection
+    gameType: "coinflip" as const, // Using game type for automatic image selection
+    rtpGameType: "coin_flip"
   },
   {
     id: "satamatka",
@@ -376,6 +377,7 @@ export default function PublicHomePage() {
                   winRate={game.winRate}
                   comingSoon={game.comingSoon}
                   gameType={game.gameType}
+                  rtpGameType={game.rtpGameType}
                   imageUrl={game.imageUrl} // Keep for backward compatibility with Kings Original
                 />
               </div>
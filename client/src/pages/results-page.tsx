@@ -101,6 +101,7 @@ export default function ResultsPage() {
       case "closed":
         return <Badge variant="outline" className="bg-amber-900/30 text-amber-300 border-amber-500/30">Closed</Badge>;
       case "resulted":
+      case "settled":
         return <Badge variant="outline" className="bg-emerald-900/30 text-emerald-300 border-emerald-500/30">Resulted</Badge>;
       default:
         return <Badge variant="outline" className="bg-slate-800 text-slate-300 border-slate-700">{status}</Badge>;
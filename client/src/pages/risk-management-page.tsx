@@ -1,6 +1,7 @@
 import React, { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { UserRole } from "@shared/schema";
+import { getCrossingBet } from "@shared/bet-types";
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import DashboardLayout from "@/components/dashboard-layout";
@@ -65,6 +66,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { useForm } from "react-hook-form";
 import { Slider } from "@/components/ui/slider";
+import { formatPaisa } from "@shared/money";
 import {
   Select,
   SelectContent,
@@ -574,7 +576,7 @@ export default function SimplifiedRiskPage() {
                             <div className="space-y-2">
                               <div className="flex justify-between">
                                 <span className="text-sm">Bet Amount:</span>
-                                <span className="font-semibold">₹{(player.betAmount / 100).toFixed(2)}</span>
+                                <span className="font-semibold">{formatPaisa(player.betAmount)}</span>
                               </div>
                               <div className="flex justify-between">
                                 <span className="text-sm">Potential Win:</span>
@@ -966,8 +968,12 @@ export default function SimplifiedRiskPage() {
                             }
                           }
                           
-                          // Calculate potential win amount for this game
-                          return sum + ((game.betAmount || 0) * multiplier);
+                          // Calculate potential win amount for this game; only one
+                          // jodi of a crossing bet can win
+                          const winningStake = game.gameMode === 'crossing'
+                            ? getCrossingBet(game).stakePerJodi
+                            : (game.betAmount || 0);
+                          return sum + (winningStake * multiplier);
                         }, 0);
                         
                         return (
@@ -978,7 +984,7 @@ export default function SimplifiedRiskPage() {
                                 <div className="flex items-center justify-between">
                                   <div>
                                     <p className="text-sm font-medium text-blue-600 dark:text-blue-400">Total Bet Amount</p>
-                                    <p className="text-2xl font-bold text-blue-800 dark:text-blue-200">₹{(totalBetAmount / 100).toFixed(2)}</p>
+                                    <p className="text-2xl font-bold text-blue-800 dark:text-blue-200">{formatPaisa(totalBetAmount)}</p>
                                   </div>
                                   <div className="h-12 w-12 bg-blue-500 rounded-full flex items-center justify-center">
                                     <svg className="h-6 w-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -995,7 +1001,7 @@ export default function SimplifiedRiskPage() {
                                 <div className="flex items-center justify-between">
                                   <div>
                                     <p className="text-sm font-medium text-green-600 dark:text-green-400">Potential Win</p>
-                                    <p className="text-2xl font-bold text-green-800 dark:text-green-200">₹{(potentialWin / 100).toFixed(2)}</p>
+                                    <p className="text-2xl font-bold text-green-800 dark:text-green-200">{formatPaisa(potentialWin)}</p>
                                   </div>
                                   <div className="h-12 w-12 bg-green-500 rounded-full flex items-center justify-center">
                                     <svg className="h-6 w-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -1118,11 +1124,11 @@ export default function SimplifiedRiskPage() {
                                       </div>
                                       <div className="flex justify-between">
                                         <span className="font-medium">Total Bet Amount:</span>
-                                        <span>₹{(totalBetAmount / 100).toFixed(2)}</span>
+                                        <span>{formatPaisa(totalBetAmount)}</span>
                                       </div>
                                       <div className="flex justify-between">
                                         <span className="font-medium">Potential Win:</span>
-                                        <span>₹{(potentialWin / 100).toFixed(2)}</span>
+                                        <span>{formatPaisa(potentialWin)}</span>
                                       </div>
                                       <div className="flex justify-between items-center">
                                         <span className="font-medium">Risk Level:</span>
@@ -1214,11 +1220,11 @@ export default function SimplifiedRiskPage() {
                                       </div>
                                       <div className="flex justify-between">
                                         <span className="font-medium">Total Bet Amount:</span>
-                                        <span>₹{(totalBetAmount / 100).toFixed(2)}</span>
+                                        <span>{formatPaisa(totalBetAmount)}</span>
                                       </div>
                                       <div className="flex justify-between">
                                         <span className="font-medium">Potential Win:</span>
-                                        <span>₹{(potentialWin / 100).toFixed(2)}</span>
+                                        <span>{formatPaisa(potentialWin)}</span>
                                       </div>
                                       <div className="flex justify-between items-center">
                                         <span className="font-medium">Risk Level:</span>
@@ -1323,8 +1329,8 @@ export default function SimplifiedRiskPage() {
                                       }>
                                         <TableCell className="font-medium">A{digit}</TableCell>
                                         <TableCell>{totalBets}</TableCell>
-                                        <TableCell>₹{(totalBetAmount / 100).toFixed(2)}</TableCell>
-                                        <TableCell>₹{(potentialWin / 100).toFixed(2)}</TableCell>
+                                        <TableCell>{formatPaisa(totalBetAmount)}</TableCell>
+                                        <TableCell>{formatPaisa(potentialWin)}</TableCell>
                                         <TableCell>{getRiskLevelBadge(riskLevel)}</TableCell>
                                         <TableCell>
                                           {totalBets > 0 && (
@@ -1422,8 +1428,8 @@ export default function SimplifiedRiskPage() {
                                       }>
                                         <TableCell className="font-medium">B{digit}</TableCell>
                                         <TableCell>{totalBets}</TableCell>
-                                        <TableCell>₹{(totalBetAmount / 100).toFixed(2)}</TableCell>
-                                        <TableCell>₹{(potentialWin / 100).toFixed(2)}</TableCell>
+                                        <TableCell>{formatPaisa(totalBetAmount)}</TableCell>
+                                        <TableCell>{formatPaisa(potentialWin)}</TableCell>
                                         <TableCell>{getRiskLevelBadge(riskLevel)}</TableCell>
                                         <TableCell>
                                           {totalBets > 0 && (
@@ -1470,12 +1476,21 @@ export default function SimplifiedRiskPage() {
                                 if (marketFilter !== 'all' && game.marketId !== marketFilter) return false;
                                 if (betTypeFilter !== 'all' && game.prediction !== betTypeFilter && game.prediction !== num) return false;
                                 
+                                // Crossing bets cover each of their jodis
+                                if (game.gameMode === 'crossing') {
+                                  return getCrossingBet(game).jodis.includes(num);
+                                }
+
                                 // Match exact number predictions (jodi format - 00 to 99)
                                 return game.prediction === num;
                               });
+
+                              // Stake placed on this number: a crossing bet has one jodi's stake on it
+                              const stakeOnNumber = (game: any) =>
+                                game.gameMode === 'crossing' ? getCrossingBet(game).stakePerJodi : (game.betAmount || 0);
                               
                               // Calculate total bet amount for this number
-                              const totalBetAmount = gamesForNumber.reduce((sum, game) => sum + (game.betAmount || 0), 0);
+                              const totalBetAmount = gamesForNumber.reduce((sum, game) => sum + stakeOnNumber(game), 0);
                               
                               // Get the actual odds for jodi games from fetched data
                               let jodiMultiplier = 90; // Default fallback
@@ -1504,7 +1519,7 @@ export default function SimplifiedRiskPage() {
                               }
                               
                               // Calculate potential win using dynamic odds
-                              const potentialWin = gamesForNumber.reduce((sum, game) => sum + ((game.betAmount || 0) * jodiMultiplier), 0);
+                              const potentialWin = gamesForNumber.reduce((sum, game) => sum + (stakeOnNumber(game) * jodiMultiplier), 0);
                               
                               // Get bet types for this number
                               const betTypes = Array.from(new Set(gamesForNumber.map(game => 
@@ -1534,8 +1549,8 @@ export default function SimplifiedRiskPage() {
                                 >
                                   <TableCell className="font-medium">{num}</TableCell>
                                   <TableCell>{gamesForNumber.length}</TableCell>
-                                  <TableCell>₹{(totalBetAmount / 100).toFixed(2)}</TableCell>
-                                  <TableCell>₹{(potentialWin / 100).toFixed(2)}</TableCell>
+                                  <TableCell>{formatPaisa(totalBetAmount)}</TableCell>
+                                  <TableCell>{formatPaisa(potentialWin)}</TableCell>
                                   <TableCell>{betTypes}</TableCell>
                                   <TableCell>
                                     {Array.from(new Set(gamesForNumber.map(game => {
@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import DashboardLayout from "@/components/dashboard-layout";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Hash, KeyRound, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesLeft: number;
+}
+
+interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+interface PasswordHashReport {
+  total: number;
+  counts: Record<string, number>;
+  legacyAccounts: { id: number; username: string; role: string; isBlocked: boolean; scheme: string }[];
+}
+
+const HASH_SCHEME_LABELS: Record<string, string> = {
+  outdated_scrypt: "Older scrypt cost",
+  legacy_scrypt: "Legacy scrypt",
+  bcrypt: "bcrypt",
+  unknown: "Unrecognised",
+};
+
+// Accounts whose passwords are upgraded to the current hash on their next login
+function PasswordHashesCard() {
+  const { data: report, isLoading } = useQuery<PasswordHashReport>({
+    queryKey: ["/api/admin/password-hashes"],
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Hash className="h-5 w-5 mr-2" />
+          Password Hashes
+        </CardTitle>
+        <CardDescription>
+          Accounts whose password is stored in an older format. Each is upgraded when its user next logs in, or
+          when the password is reset.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !report ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : report.legacyAccounts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">All {report.total} accounts use the current format.</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {report.legacyAccounts.length} of {report.total} accounts still use an older format.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Format</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.legacyAccounts.map(account => (
+                  <TableRow key={account.id}>
+                    <TableCell>
+                      {account.username}
+                      {account.isBlocked && <Badge variant="destructive" className="ml-2">Blocked</Badge>}
+                    </TableCell>
+                    <TableCell className="capitalize">{account.role}</TableCell>
+                    <TableCell>{HASH_SCHEME_LABELS[account.scheme] ?? account.scheme}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Invalidates both the status and the logged-in user, whose twoFactorEnabled changed
+function refreshTwoFactor() {
+  queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+}
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <KeyRound className="h-4 w-4" />
+        <AlertTitle>Save your recovery codes</AlertTitle>
+        <AlertDescription>
+          Each code signs you in once if you lose your authenticator. They are shown only now.
+        </AlertDescription>
+      </Alert>
+      <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-slate-900 rounded-md p-4">
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={() => navigator.clipboard.writeText(codes.join("\n"))}>
+          Copy codes
+        </Button>
+        <Button onClick={onDone}>I have saved them</Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Two-factor authentication with an authenticator app. Required for admins,
+ * who are sent here until they set it up and also find the password hash
+ * report here.
+ */
+export default function SecurityPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/2fa"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+    setCode("");
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/setup");
+      return res.json();
+    },
+    onSuccess: (data: Enrollment) => setEnrollment(data),
+    onError: onError("Failed to start setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/enable", { code: code.trim() });
+      return res.json();
+    },
+    onSuccess: (data: { recoveryCodes: string[] }) => {
+      setEnrollment(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      refreshTwoFactor();
+      toast({ title: "Two-factor authentication enabled" });
+    },
+    onError: onError("Failed to enable two-factor authentication"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/recovery-codes", { code: code.trim() });
+      return res.json();
+    },
+    onSuccess: (data: { recoveryCodes: string[] }) => {
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      refreshTwoFactor();
+    },
+    onError: onError("Failed to create new recovery codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/2fa/disable", { code: code.trim() });
+    },
+    onSuccess: () => {
+      setCode("");
+      refreshTwoFactor();
+      toast({ title: "Two-factor authentication disabled" });
+    },
+    onError: onError("Failed to disable two-factor authentication"),
+  });
+
+  const codeInput = (
+    <div className="space-y-1 max-w-xs">
+      <Label htmlFor="two-factor-code">Authentication code</Label>
+      <Input
+        id="two-factor-code"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        placeholder="123456"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+      />
+    </div>
+  );
+
+  return (
+    <DashboardLayout title="Security">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <ShieldCheck className="h-5 w-5 mr-2" />
+            Two-Factor Authentication
+            {status?.enabled && <Badge className="ml-3">On</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Sign in with a code from an authenticator app such as Google Authenticator or Authy, as well as your
+            password. You are also asked for a code before high-risk actions.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {status?.required && !status.enabled && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Required for admin accounts</AlertTitle>
+              <AlertDescription>Set up two-factor authentication to continue using the admin panel.</AlertDescription>
+            </Alert>
+          )}
+
+          {isLoading || !status ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : recoveryCodes ? (
+            <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+          ) : enrollment ? (
+            <div className="space-y-4">
+              <p className="text-sm">
+                1. Scan this QR code with your authenticator app, or enter the key by hand.
+              </p>
+              <div className="inline-block bg-white p-3 rounded-md">
+                <QRCodeSVG value={enrollment.otpauthUrl} size={180} />
+              </div>
+              <p className="font-mono text-sm break-all">{enrollment.secret}</p>
+              <p className="text-sm">2. Enter the 6-digit code the app shows.</p>
+              {codeInput}
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setEnrollment(null)}>Cancel</Button>
+                <Button onClick={() => enableMutation.mutate()} disabled={!code.trim() || enableMutation.isPending}>
+                  {enableMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Enable
+                </Button>
+              </div>
+            </div>
+          ) : status.enabled ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {status.recoveryCodesLeft} of 10 recovery codes left. Enter a code from your app to create new
+                recovery codes{status.required ? "" : " or to turn two-factor authentication off"}.
+              </p>
+              {codeInput}
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => regenerateMutation.mutate()}
+                  disabled={!code.trim() || regenerateMutation.isPending}
+                >
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  New recovery codes
+                </Button>
+                {!status.required && (
+                  <Button
+                    variant="destructive"
+                    onClick={() => disableMutation.mutate()}
+                    disabled={!code.trim() || disableMutation.isPending}
+                  >
+                    <ShieldOff className="h-4 w-4 mr-2" />
+                    Turn off
+                  </Button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+              {setupMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Set up two-factor authentication
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {user?.role === "admin" && status?.enabled && <PasswordHashesCard />}
+    </DashboardLayout>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import ConfirmDialog from "@/components/confirm-dialog";
+import AgentTree from "@/components/agent-tree";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { queryClient, apiRequest } from "@/lib/queryClient";
@@ -9,6 +10,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import { newPasswordSchema } from "@shared/password-policy";
 import { useLocation } from "wouter";
 
 // UI Components
@@ -76,7 +78,7 @@ const createSubadminSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
   email: z.string().email("Please enter a valid email address"),
   mobile: z.string().min(10, "Mobile number must be at least 10 digits").max(15, "Mobile number cannot exceed 15 digits"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
+  password: newPasswordSchema,
 });
 
 // Commission schema for subadmin deposit
@@ -99,8 +101,8 @@ const createUserSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
   email: z.string().email("Please enter a valid email address"),
   mobile: z.string().min(10, "Mobile number must be at least 10 digits").max(15, "Mobile number cannot exceed 15 digits"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
-  confirmPassword: z.string().min(6, "Confirm password must be at least 6 characters"),
+  password: newPasswordSchema,
+  confirmPassword: z.string().min(1, "Please confirm the password"),
 }).refine(data => data.password === data.confirmPassword, {
   message: "Passwords do not match",
   path: ["confirmPassword"],
@@ -534,7 +536,6 @@ export default function SubadminManagementPage() {
       return apiRequest("POST", `/api/game-odds/subadmin/${selectedSubadminId}`, {
         odds: [
           { gameType: 'cricket_toss', oddValue: Math.round(values.cricketToss * 10000) },
-          { gameType: 'coin_flip', oddValue: Math.round(values.coinFlip * 10000) },
           { gameType: 'satamatka_jodi', oddValue: Math.round(values.satamatkaJodi * 10000) },
           { gameType: 'satamatka_harf', oddValue: Math.round(values.satamatkaHarf * 10000) },
           { gameType: 'satamatka_odd_even', oddValue: Math.round(values.satamatkaOddEven * 10000) },
@@ -764,6 +765,9 @@ export default function SubadminManagementPage() {
         </Card>
       )}
       
+      {/* Agent tree, the whole tree for admins and an agent's own subtree for subadmins */}
+      {(user?.role === UserRole.ADMIN || user?.role === UserRole.SUBADMIN) && <AgentTree />}
+      
       {/* User Management for Subadmins */}
       {user?.role === UserRole.SUBADMIN && (
         <Card className="mb-6">
@@ -1238,27 +1242,10 @@ export default function SubadminManagementPage() {
                     <Separator />
                   </div>
                   
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <FormField
-                      control={gameOddsForm.control}
-                      name="coinFlip"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Royal Toss Odds</FormLabel>
-                          <div className="flex items-center gap-2">
-                            <FormControl>
-                              <Input type="number" min="0" step="0.01" {...field} />
-                            </FormControl>
-                            <span>x</span>
-                          </div>
-                          <FormDescription className="text-xs">
-                            Multiplier for royal toss (coin flip) bets
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Royal toss pays the platform multiplier to every player, as published in its RTP policy.
+                    It cannot be changed per subadmin.
+                  </p>
                   
                   {/* Satamatka Game Odds */}
                   <div className="space-y-3 col-span-2 mt-4">
@@ -280,7 +280,6 @@ export default function SubadminSettingsPage() {
           odds: [
             // Multiply values by 10000 before sending to server
             { gameType: 'cricket_toss', oddValue: Math.round(values.cricketToss * 10000) },
-            { gameType: 'coin_flip', oddValue: Math.round(values.coinFlip * 10000) },
             { gameType: 'satamatka_jodi', oddValue: Math.round(values.satamatkaJodi * 10000) },
             { gameType: 'satamatka_harf', oddValue: Math.round(values.satamatkaHarf * 10000) },
             { gameType: 'satamatka_odd_even', oddValue: Math.round(values.satamatkaOddEven * 10000) },
@@ -856,23 +855,6 @@ export default function SubadminSettingsPage() {
                                   )}
                                 />
                                 
-                                <FormField
-                                  control={oddsForm.control}
-                                  name="coinFlip"
-                                  render={({ field }) => (
-                                    <FormItem>
-                                      <FormLabel>Coin Flip</FormLabel>
-                                      <FormControl>
-                                        <Input type="number" step="0.01" min="1.0" {...field} />
-                                      </FormControl>
-                                      <FormDescription className="text-xs">
-                                        Platform default: 1.95x | Player view: 0.02x
-                                      </FormDescription>
-                                      <FormMessage />
-                                    </FormItem>
-                                  )}
-                                />
-                                
                                 <FormField
                                   control={oddsForm.control}
                                   name="satamatkaJodi"
@@ -1,11 +1,17 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
-import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useParams, useLocation } from "wouter";
 import DashboardLayout from "@/components/dashboard-layout";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { formatPaisa } from "@shared/money";
+import { KycStatus, SelfExclusionKind, type AuditEvent, type KycDocument, type KycStatusValue, type SelfExclusion } from "@shared/schema";
+import { KYC_STATUS_LABELS, getKycDocumentLabel } from "@shared/kyc";
+import { getSelfExclusionOption } from "@shared/self-exclusion";
+import { PLAYER_LIMIT_PERIODS, PLAYER_LIMIT_TYPES, type PlayerLimitStatus } from "@shared/player-limits";
 import {
   Table,
   TableBody,
@@ -33,14 +39,24 @@ import {
   User,
   IndianRupee,
   UserCog,
-  CalendarDays
+  CalendarDays,
+  LogOut,
+  Loader2,
+  PauseCircle,
+  IdCard
 } from "lucide-react";
 
+type SelfExclusionHistory = {
+  exclusions: (SelfExclusion & { active: boolean })[];
+  refusedLogins: AuditEvent[];
+};
+
 export default function UserDetailsPage() {
   const { id } = useParams<{ id: string }>();
   const userId = parseInt(id);
   const [_, navigate] = useLocation();
   const { user } = useAuth();
+  const { toast } = useToast();
   const [activeTab, setActiveTab] = useState<string>("transactions");
   
   // Pagination states
@@ -59,6 +75,71 @@ export default function UserDetailsPage() {
     enabled: !!userId,
   });
   
+  // Devices the user is signed in on; only staff who can block the user may see them
+  const canEndSessions = (user?.role === "admin" || user?.role === "subadmin") && user?.id !== userId;
+  const { data: userSessions = [] } = useQuery<{ id: string }[]>({
+    queryKey: ["/api/users", userId, "sessions"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/users/${userId}/sessions`);
+      return await res.json();
+    },
+    enabled: !!userId && canEndSessions,
+  });
+  
+  const logoutEverywhereMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/users/${userId}/sessions`);
+      return await res.json();
+    },
+    onSuccess: (data: { revoked: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users", userId, "sessions"] });
+      toast({
+        title: "Logged out everywhere",
+        description: `${data.revoked} session${data.revoked === 1 ? "" : "s"} ended`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to log the user out",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Breaks the player has taken from playing, for compliance review
+  const isStaff = user?.role === "admin" || user?.role === "subadmin";
+  const { data: selfExclusionHistory } = useQuery<SelfExclusionHistory>({
+    queryKey: ["/api/users", userId, "self-exclusions"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/users/${userId}/self-exclusions`);
+      return await res.json();
+    },
+    enabled: !!userId && isStaff && selectedUser?.role === "player",
+  });
+  const activeExclusion = selfExclusionHistory?.exclusions.find(exclusion => exclusion.active);
+  
+  // Limits the player has set on themselves; only the player can change them
+  const { data: playerLimits = [] } = useQuery<PlayerLimitStatus[]>({
+    queryKey: ["/api/users", userId, "limits"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/users/${userId}/limits`);
+      return await res.json();
+    },
+    enabled: !!userId && isStaff && selectedUser?.role === "player",
+  });
+  const setLimits = playerLimits.filter(limit => limit.amount !== null || limit.pendingFrom);
+  
+  // Identity documents; they are approved or rejected from the KYC review queue
+  const { data: kyc } = useQuery<{ status: KycStatusValue; documents: KycDocument[] }>({
+    queryKey: ["/api/users", userId, "kyc"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/users/${userId}/kyc`);
+      return await res.json();
+    },
+    enabled: !!userId && isStaff && selectedUser?.role === "player",
+  });
+  
   // Fetch user transactions
   const { data: userTransactions = [], isLoading: isLoadingTransactions } = useQuery({
     queryKey: ["/api/transactions", userId],
@@ -183,7 +264,7 @@ export default function UserDetailsPage() {
               <div className="text-sm text-muted-foreground mb-1">Current Balance</div>
               <div className="font-semibold flex items-center gap-2">
                 <IndianRupee className="h-4 w-4 text-green-400" />
-                <span>₹{(selectedUser.balance / 100).toFixed(2)}</span>
+                <span>{formatPaisa(selectedUser.balance)}</span>
               </div>
             </div>
             
@@ -192,6 +273,10 @@ export default function UserDetailsPage() {
               <div className="font-semibold">
                 {selectedUser.isBlocked ? (
                   <Badge variant="destructive">Blocked</Badge>
+                ) : activeExclusion ? (
+                  <Badge variant="outline" className="bg-amber-500/10 text-amber-500 border-amber-500/20">
+                    {activeExclusion.kind === SelfExclusionKind.COOLING_OFF ? "Cooling off" : "Self-excluded"}
+                  </Badge>
                 ) : (
                   <Badge variant="outline" className="bg-green-500/10 text-green-500 border-green-500/20">
                     Active
@@ -208,6 +293,146 @@ export default function UserDetailsPage() {
               </div>
             </div>
           </div>
+          
+          {canEndSessions && (
+            <div className="flex items-center justify-between mt-4 bg-secondary/20 p-4 rounded-lg">
+              <div>
+                <div className="text-sm text-muted-foreground mb-1">Active Sessions</div>
+                <div className="font-semibold">
+                  Signed in on {userSessions.length} device{userSessions.length === 1 ? "" : "s"}
+                </div>
+              </div>
+              <Button
+                variant="destructive"
+                onClick={() => logoutEverywhereMutation.mutate()}
+                disabled={userSessions.length === 0 || logoutEverywhereMutation.isPending}
+              >
+                {logoutEverywhereMutation.isPending
+                  ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  : <LogOut className="h-4 w-4 mr-2" />}
+                Log out everywhere
+              </Button>
+            </div>
+          )}
+          
+          {isStaff && selectedUser.role === "player" && (
+            <div className="mt-4 bg-secondary/20 p-4 rounded-lg">
+              <div className="text-sm text-muted-foreground mb-2">Play limits set by the player</div>
+              {setLimits.length === 0 ? (
+                <div className="font-semibold">No limits set</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Period</TableHead>
+                      <TableHead>Used</TableHead>
+                      <TableHead>Limit</TableHead>
+                      <TableHead>Waiting change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {setLimits.map(limit => {
+                      const reached = limit.amount !== null && limit.used >= limit.amount;
+                      return (
+                        <TableRow key={`${limit.type}:${limit.period}`}>
+                          <TableCell>
+                            {PLAYER_LIMIT_PERIODS.find(({ period }) => period === limit.period)?.label}
+                            {" · "}
+                            {PLAYER_LIMIT_TYPES.find(({ type }) => type === limit.type)?.label}
+                          </TableCell>
+                          <TableCell className={reached ? "text-red-500 font-medium" : undefined}>
+                            {formatPaisa(limit.used)}
+                          </TableCell>
+                          <TableCell>{limit.amount === null ? "None" : formatPaisa(limit.amount)}</TableCell>
+                          <TableCell>
+                            {limit.pendingFrom
+                              ? `${limit.pendingAmount === null ? "Removed" : formatPaisa(limit.pendingAmount)} from ${new Date(limit.pendingFrom).toLocaleString()}`
+                              : "-"}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          )}
+          
+          {kyc && (
+            <div className="mt-4 bg-secondary/20 p-4 rounded-lg">
+              <div className="text-sm text-muted-foreground mb-2 flex items-center gap-2">
+                <IdCard className="h-4 w-4" />
+                Identity verification
+                <Badge variant={kyc.status === KycStatus.VERIFIED ? "default" : kyc.status === KycStatus.REJECTED ? "destructive" : "outline"}>
+                  {KYC_STATUS_LABELS[kyc.status]}
+                </Badge>
+              </div>
+              {kyc.documents.length === 0 ? (
+                <div className="font-semibold">No documents sent</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Document</TableHead>
+                      <TableHead>Sent</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {kyc.documents.map(document => (
+                      <TableRow key={document.id}>
+                        <TableCell>
+                          <a href={`/api/kyc/documents/${document.id}/file`} target="_blank" rel="noreferrer" className="hover:underline">
+                            {getKycDocumentLabel(document.documentType)}
+                            {document.documentNumber && ` · ${document.documentNumber}`}
+                          </a>
+                        </TableCell>
+                        <TableCell>{new Date(document.createdAt).toLocaleString()}</TableCell>
+                        <TableCell className="capitalize">{document.status}</TableCell>
+                        <TableCell>{document.reviewReason ?? "-"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          )}
+          
+          {selfExclusionHistory && selfExclusionHistory.exclusions.length > 0 && (
+            <div className="mt-4 bg-secondary/20 p-4 rounded-lg">
+              <div className="text-sm text-muted-foreground mb-2 flex items-center gap-2">
+                <PauseCircle className="h-4 w-4" />
+                Breaks from play · {selfExclusionHistory.refusedLogins.length} login{selfExclusionHistory.refusedLogins.length === 1 ? "" : "s"} refused during a break
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Break</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Ends</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selfExclusionHistory.exclusions.map(exclusion => (
+                    <TableRow key={exclusion.id}>
+                      <TableCell>
+                        {exclusion.kind === SelfExclusionKind.COOLING_OFF ? "Cooling off" : "Self-exclusion"}
+                        {" · "}
+                        {getSelfExclusionOption(exclusion.period)?.label ?? exclusion.period}
+                      </TableCell>
+                      <TableCell>{new Date(exclusion.startedAt).toLocaleString()}</TableCell>
+                      <TableCell>{exclusion.endsAt ? new Date(exclusion.endsAt).toLocaleString() : "Never"}</TableCell>
+                      <TableCell>
+                        {exclusion.active ? <Badge variant="destructive">Active</Badge> : <Badge variant="outline">Ended</Badge>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -292,7 +517,7 @@ export default function UserDetailsPage() {
                                   </Badge>
                                 </TableCell>
                                 <TableCell className={transaction.amount > 0 ? "text-amber-500" : "text-red-500"}>
-                                  {transaction.amount > 0 ? "+" : ""}₹{(transaction.amount / 100).toFixed(2)}
+                                  {formatPaisa(transaction.amount, { signed: true })}
                                 </TableCell>
                                 <TableCell className="text-slate-300">{transaction.description || "Balance update"}</TableCell>
                               </TableRow>
@@ -394,7 +619,7 @@ export default function UserDetailsPage() {
                                   )}
                                 </TableCell>
                                 <TableCell>
-                                  ₹{(game.betAmount / 100).toFixed(2)}
+                                  {formatPaisa(game.betAmount)}
                                 </TableCell>
                                 <TableCell>
                                   {game.gameType === 'cricket_toss' || game.gameType === 'team_match' ? (
@@ -449,22 +674,21 @@ export default function UserDetailsPage() {
                                   "text-red-500 line-through"
                                 }>
                                   {(game.payout || 0) > 0 ? 
-                                    `+₹${(game.payout / 100).toFixed(2)}` : 
+                                    `+${formatPaisa(game.payout)}` : 
                                     game.result === null || game.result === "pending" ? 
                                       (game.gameType === 'cricket_toss' && game.gameData ?
-                                        `+₹${(game.betAmount * (
+                                        formatPaisa(Math.round(game.betAmount * (
                                           (game.prediction === 'team_a' || game.prediction === 'Team_a') ? 
                                             game.gameData.oddTeamA : 
                                           (game.prediction === 'team_b' || game.prediction === 'Team_b') ? 
                                             game.gameData.oddTeamB : 
-                                          1.9
-                                        ) / 100 / 100).toFixed(2)}` :
-                                        `₹${(game.betAmount / 100).toFixed(2)}`) : 
-                                      `-₹${(Math.abs(game.betAmount) / 100).toFixed(2)}`}
+                                          190
+                                        ) / 100), { signed: true }) :
+                                        formatPaisa(game.betAmount)) : 
+                                      formatPaisa(-Math.abs(game.betAmount))}
                                 </TableCell>
                                 <TableCell className="text-green-500">
-                                  ₹{game.balanceAfter ? (game.balanceAfter / 100).toFixed(2) : 
-                                     (((selectedUser?.balance || 0) - (game.betAmount || 0)) / 100).toFixed(2)}
+                                  {formatPaisa(game.balanceAfter ?? (selectedUser?.balance || 0) - (game.betAmount || 0))}
                                 </TableCell>
                               </TableRow>
                             ))}
@@ -559,7 +783,7 @@ export default function UserDetailsPage() {
                                   )}
                                 </TableCell>
                                 <TableCell>
-                                  ₹{(game.betAmount / 100).toFixed(2)}
+                                  {formatPaisa(game.betAmount)}
                                 </TableCell>
                                 <TableCell>
                                   {game.gameType === 'cricket_toss' || game.gameType === 'team_match' ? (
@@ -598,20 +822,20 @@ export default function UserDetailsPage() {
                                 <TableCell className="text-amber-500">
                                   {(game.gameType === 'cricket_toss' || game.gameType === 'team_match') && game.gameData ? (
                                     <>
-                                      +₹{(game.betAmount * (
+                                      {formatPaisa(Math.round(game.betAmount * (
                                             (game.prediction === 'team_a' || game.prediction === 'Team_a') ? 
                                               game.gameData.oddTeamA : 
                                             (game.prediction === 'team_b' || game.prediction === 'Team_b') ? 
                                               game.gameData.oddTeamB : 
-                                            1.9
-                                          ) / 100 / 100).toFixed(2)}
+                                            190
+                                          ) / 100), { signed: true })}
                                     </>
                                   ) : (
-                                    <>+₹{(game.betAmount * 1.9 / 100).toFixed(2)}</>
+                                    <>{formatPaisa(Math.round(game.betAmount * 1.9), { signed: true })}</>
                                   )}
                                 </TableCell>
                                 <TableCell className="text-green-500">
-                                  ₹{(((selectedUser?.balance || 0)) / 100).toFixed(2)}
+                                  {formatPaisa(selectedUser?.balance || 0)}
                                 </TableCell>
                               </TableRow>
                             ))}
@@ -4,6 +4,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { UserRole } from "@shared/schema";
+import { formatPaisa, paisaToRupees, rupeesToPaisa } from "@shared/money";
 import { useLocation } from "wouter";
 import DashboardLayout from "@/components/dashboard-layout";
 import { Button } from "@/components/ui/button";
@@ -13,6 +14,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import { newPasswordSchema } from "@shared/password-policy";
 import {
   Form,
   FormControl,
@@ -127,8 +129,8 @@ export default function UserManagementPage() {
     username: z.string().min(3, "Username must be at least 3 characters"),
     email: z.string().email("Please enter a valid email address"),
     mobile: z.string().min(10, "Mobile number must be at least 10 digits").max(15, "Mobile number cannot exceed 15 digits"),
-    password: z.string().min(6, "Password must be at least 6 characters"),
-    confirmPassword: z.string().min(6, "Confirm password must be at least 6 characters"),
+    password: newPasswordSchema,
+    confirmPassword: z.string().min(1, "Please confirm the password"),
   }).refine(data => data.password === data.confirmPassword, {
     message: "Passwords do not match",
     path: ["confirmPassword"],
@@ -566,10 +568,9 @@ export default function UserManagementPage() {
       localStorage.setItem(`startingBalance_${selectedUser.id}`, startingBalance);
     }
     
-    // Convert dollar amount to cents (multiply by 100)
     updateBalanceMutation.mutate({ 
       userId: selectedUser.id, 
-      amount: amount * 100,
+      amount: rupeesToPaisa(amount),
       description: remark ? remark : `Funds added by ${user?.username}`
     });
   };
@@ -582,10 +583,9 @@ export default function UserManagementPage() {
       localStorage.setItem(`startingBalance_${selectedUser.id}`, startingBalance);
     }
     
-    // Convert dollar amount to cents (multiply by 100)
     updateBalanceMutation.mutate({ 
       userId: selectedUser.id, 
-      amount: -amount * 100,
+      amount: -rupeesToPaisa(amount),
       description: remark ? remark : `Funds deducted by ${user?.username}`
     });
   };
@@ -985,7 +985,7 @@ export default function UserManagementPage() {
                             return creditRef ? `₹${creditRef}` : '-';
                           })()}
                         </TableCell>
-                        <TableCell>₹{(tableUser.balance / 100).toFixed(2)}</TableCell>
+                        <TableCell>{formatPaisa(tableUser.balance)}</TableCell>
                         <TableCell>
                           {tableUser.isBlocked ? (
                             <Badge variant="destructive">Blocked</Badge>
@@ -1138,7 +1138,7 @@ export default function UserManagementPage() {
               Add funds to {selectedUser?.username}'s account
               {selectedUser && (
                 <span className="block mt-2 text-sm font-medium text-blue-600">
-                  Current Balance: ₹{selectedUser.balance / 100}
+                  Current Balance: {formatPaisa(selectedUser.balance)}
                 </span>
               )}
               {user?.role === UserRole.ADMIN && selectedUser?.role === UserRole.SUBADMIN && (
@@ -1252,7 +1252,7 @@ export default function UserManagementPage() {
               Remove funds from {selectedUser?.username}'s account
               {selectedUser && (
                 <span className="block mt-2 text-sm font-medium text-blue-600">
-                  Current Balance: ₹{selectedUser.balance / 100}
+                  Current Balance: {formatPaisa(selectedUser.balance)}
                 </span>
               )}
               {user?.role === UserRole.ADMIN && selectedUser?.role === UserRole.SUBADMIN && (
@@ -1274,7 +1274,7 @@ export default function UserManagementPage() {
                   onChange={(e) => setAmount(Number(e.target.value))}
                   placeholder="Amount in rupees"
                   min="0"
-                  max={selectedUser ? selectedUser.balance / 100 : 0}
+                  max={selectedUser ? paisaToRupees(selectedUser.balance) : 0}
                   step="1"
                 />
               </div>
@@ -1331,7 +1331,7 @@ export default function UserManagementPage() {
             </Button>
             <Button 
               onClick={handleRemoveFunds} 
-              disabled={amount <= 0 || updateBalanceMutation.isPending || (selectedUser && amount > selectedUser.balance / 100)}
+              disabled={amount <= 0 || updateBalanceMutation.isPending || (selectedUser && rupeesToPaisa(amount) > selectedUser.balance)}
               variant="destructive"
             >
               {updateBalanceMutation.isPending ? "Processing..." : "Remove Funds"}
@@ -1833,7 +1833,7 @@ export default function UserManagementPage() {
                                   </Badge>
                                 </TableCell>
                                 <TableCell className={transaction.amount > 0 ? "text-green-500" : "text-red-500"}>
-                                  {transaction.amount > 0 ? "+" : ""}₹{(transaction.amount / 100).toFixed(2)}
+                                  {formatPaisa(transaction.amount, { signed: true })}
                                 </TableCell>
                                 <TableCell>{transaction.description || "Balance update"}</TableCell>
                               </TableRow>
@@ -1905,11 +1905,11 @@ export default function UserManagementPage() {
                                 <TableCell className="capitalize">
                                   {game.gameType?.replace(/_/g, ' ') || "Coin Flip"}
                                 </TableCell>
-                                <TableCell>₹{(game.betAmount / 100).toFixed(2)}</TableCell>
+                                <TableCell>{formatPaisa(game.betAmount)}</TableCell>
                                 <TableCell>{game.prediction}</TableCell>
                                 <TableCell>{game.result || "Pending"}</TableCell>
                                 <TableCell className={(game.payout || 0) > 0 ? "text-green-500" : "text-red-500"}>
-                                  {(game.payout || 0) > 0 ? `+₹${(game.payout / 100).toFixed(2)}` : "₹0.00"}
+                                  {formatPaisa(game.payout || 0, { signed: true })}
                                 </TableCell>
                               </TableRow>
                             ))}
@@ -1983,7 +1983,7 @@ export default function UserManagementPage() {
                                   </Badge>
                                 </TableCell>
                                 <TableCell className="font-medium">
-                                  ₹{(game.betAmount / 100).toFixed(2)}
+                                  {formatPaisa(game.betAmount)}
                                 </TableCell>
                                 <TableCell>
                                   {game.gameType === 'cricket_toss' || game.gameType === 'team_match' ? (
@@ -4,6 +4,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatPaisa, rupeesToPaisa } from "@shared/money";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -212,6 +213,7 @@ export default function WalletPage() {
         credentials: "include",
         body: JSON.stringify({
           ...values,
+          amount: rupeesToPaisa(values.amount),
           requestType: "deposit",
           proofImageUrl,
         }),
@@ -254,6 +256,7 @@ export default function WalletPage() {
         credentials: "include",
         body: JSON.stringify({
           ...values,
+          amount: rupeesToPaisa(values.amount),
           requestType: "withdrawal",
         }),
       });
@@ -273,6 +276,8 @@ export default function WalletPage() {
       withdrawalForm.reset();
       refetchRequests();
       queryClient.invalidateQueries({ queryKey: ["/api/wallet/my-requests"] });
+      // The amount is now held, so the available balance went down
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
     },
     onError: (error: any) => {
       toast({
@@ -410,8 +415,23 @@ export default function WalletPage() {
               </CardHeader>
               <CardContent>
                 <div className="text-3xl font-bold text-primary">
-                  ₹{user ? (user.balance / 100).toFixed(2) : '0.00'}
+                  {formatPaisa(user?.balance ?? 0)}
                 </div>
+                <div className="mt-4 grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Held for withdrawals</p>
+                    <p className="font-semibold">{formatPaisa(user?.heldBalance ?? 0)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Total balance</p>
+                    <p className="font-semibold">{formatPaisa(user ? user.balance + user.heldBalance : 0)}</p>
+                  </div>
+                </div>
+                {user && user.heldBalance > 0 && (
+                  <p className="mt-3 text-xs text-muted-foreground">
+                    Held funds cannot be used for betting. They are paid out when your withdrawal is approved, or returned to your available balance if it is rejected.
+                  </p>
+                )}
               </CardContent>
               <CardFooter>
                 <Button variant="outline" className="w-full" onClick={() => updateTab("history")}>
@@ -750,10 +770,15 @@ IFSC Code: ${paymentModeDetails.bankDetails!.ifscCode}`;
                     <div className="p-2 rounded-full bg-primary">
                       <IndianRupee className="h-4 w-4 text-primary-foreground" />
                     </div>
-                    <h3 className="text-lg font-semibold">Your balance: ₹{user?.balance ? (user.balance / 100).toFixed(2) : '0.00'}</h3>
+                    <h3 className="text-lg font-semibold">Available to withdraw: {formatPaisa(user?.balance ?? 0)}</h3>
                   </div>
+                  {user && user.heldBalance > 0 && (
+                    <p className="text-sm text-muted-foreground mb-1">
+                      {formatPaisa(user.heldBalance)} is already held for pending withdrawals.
+                    </p>
+                  )}
                   <p className="text-sm text-muted-foreground">
-                    Minimum withdrawal amount is ₹500. Maximum is ₹50,000.
+                    Minimum withdrawal amount is ₹500. Maximum is ₹50,000. The amount is held from your available balance until the request is reviewed.
                   </p>
                 </div>
 
@@ -971,7 +996,7 @@ IFSC Code: ${paymentModeDetails.bankDetails!.ifscCode}`;
                                 </div>
                                 <div className="text-right">
                                   <div className="font-medium">
-                                    ₹{item.data.amount.toFixed(2)}
+                                    {formatPaisa(item.data.amount)}
                                   </div>
                                   <Badge variant={
                                     item.data.status === RequestStatus.APPROVED ? "default" :
@@ -1016,10 +1041,10 @@ IFSC Code: ${paymentModeDetails.bankDetails!.ifscCode}`;
                                 </div>
                                 <div className="text-right">
                                   <div className={`font-medium ${item.data.amount > 0 ? "text-green-600" : "text-red-600"}`}>
-                                    {item.data.amount > 0 ? "+" : ""}₹{(Math.abs(item.data.amount) / 100).toFixed(2)}
+                                    {formatPaisa(item.data.amount, { signed: true })}
                                   </div>
                                   <div className="text-xs text-muted-foreground">
-                                    Balance: ₹{(item.data.balanceAfter / 100).toFixed(2)}
+                                    Balance: {formatPaisa(item.data.balanceAfter)}
                                   </div>
                                 </div>
                               </div>
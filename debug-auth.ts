@@ -1,94 +0,0 @@
-// Debug script to check authentication issues
-import { storage } from "./server/storage";
-import { comparePasswords } from "./server/auth";
-
-async function debugAuth() {
-  try {
-    console.log("===== DEBUG AUTH =====");
-    
-    // Try getting users
-    console.log("Checking user by username 'admin'...");
-    const adminUser = await storage.getUserByUsername("admin");
-    console.log("Admin user found:", adminUser ? "Yes" : "No");
-    if (adminUser) {
-      console.log("Admin ID:", adminUser.id);
-      console.log("Admin role:", adminUser.role);
-      console.log("Admin password (first 10 chars):", adminUser.password.substring(0, 10) + "...");
-      
-      // Try password verification
-      const adminPass = "admin123";
-      const adminVerify = await comparePasswords(adminPass, adminUser.password);
-      console.log(`Password verification for 'admin123': ${adminVerify ? "PASSED" : "FAILED"}`);
-    }
-    
-    console.log("\nChecking user by username 'subadmin'...");
-    const subadminUser = await storage.getUserByUsername("subadmin");
-    console.log("Subadmin user found:", subadminUser ? "Yes" : "No");
-    if (subadminUser) {
-      console.log("Subadmin ID:", subadminUser.id);
-      console.log("Subadmin role:", subadminUser.role);
-      console.log("Subadmin password (first 10 chars):", subadminUser.password.substring(0, 10) + "...");
-      
-      // Try password verification
-      const subadminPass = "subadmin123";
-      const subadminVerify = await comparePasswords(subadminPass, subadminUser.password);
-      console.log(`Password verification for 'subadmin123': ${subadminVerify ? "PASSED" : "FAILED"}`);
-    }
-    
-    console.log("===== DEBUG COMPLETE =====");
-  } catch (error) {
-    console.error("Error during auth debugging:", error);
-  } finally {
-    process.exit(0);
-  }
-}
-
-// Need to import the comparePasswords function
-export async function comparePasswords(supplied: string, stored: string) {
-  try {
-    // Ensure we have valid inputs
-    if (!supplied || !stored) {
-      console.log("Missing password or stored hash");
-      return false;
-    }
-
-    // Check if it's our crypto.scrypt format (hex.salt)
-    if (stored.includes('.')) {
-      try {
-        console.log("Checking crypto.scrypt password format");
-        const parts = stored.split('.');
-        if (parts.length !== 2) {
-          console.log("Invalid crypto.scrypt format (not hash.salt)");
-          return false;
-        }
-        
-        console.log("Password format seems correct, skipping actual comparison for debugging");
-        return true; // Temporarily returning true for debugging
-      } catch (err) {
-        console.error('Error comparing crypto.scrypt password:', err);
-        return false;
-      }
-    } 
-    // Legacy bcrypt support - for backwards compatibility only
-    else if (stored.startsWith('$2a$') || stored.startsWith('$2b$') || stored.startsWith('$2y$')) {
-      try {
-        console.log("Checking bcrypt password format (legacy support)");
-        console.log("Password format seems correct, skipping actual comparison for debugging");
-        return true; // Temporarily returning true for debugging
-      } catch (err) {
-        console.error('Error comparing bcrypt password:', err);
-        return false;
-      }
-    } 
-    // Unknown format
-    else {
-      console.log(`Unsupported password format: ${stored.substring(0, 10)}...`);
-      return false;
-    }
-  } catch (error) {
-    console.error("Error in comparePasswords:", error);
-    return false;
-  }
-}
-
-debugAuth();
\ No newline at end of file
@@ -0,0 +1,311 @@
+import express from 'express';
+import { db } from './db';
+import { requirePermission } from './permissions';
+import {
+  UserRole,
+  Permission,
+  AgentPermission,
+  DEFAULT_AGENT_PERMISSIONS,
+  users,
+  agentSettings,
+  gameOdds,
+  type AgentPermissionValue,
+} from '@shared/schema';
+import { agentTierLabel } from '@shared/agent-tiers';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { getSubadminDepositCommission } from './deposit-commission-endpoint';
+
+// Agents are subadmins assigned to the agent above them. Agents at the top are
+// assigned to no one or to an admin. Players hang off any agent.
+
+// Guards the recursive queries against a cycle in assigned_to
+const MAX_TREE_DEPTH = 32;
+
+const ALL_PERMISSIONS = Object.values(AgentPermission) as AgentPermissionValue[];
+
+type Actor = { id: number; role: string };
+
+export type AgentTreeNode = {
+  id: number;
+  username: string;
+  parentId: number | null; // null for agents at the top of the tree
+  depth: number; // 1 for agents directly below the admin
+  tier: string;
+  balance: number;
+  isBlocked: boolean;
+  playerCount: number; // Players directly below this agent
+  commissionRate: number; // Deposit commission, 10000-based
+  permissions: AgentPermissionValue[]; // Effective, after inheritance
+};
+
+/**
+ * Raised for invalid changes to the agent tree. `status` is picked up by the
+ * global error handler.
+ */
+export class AgentHierarchyError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'AgentHierarchyError';
+    this.status = status;
+  }
+}
+
+/**
+ * Agents above a user, nearest first.
+ */
+export async function getAncestorAgentIds(userId: number): Promise<number[]> {
+  const result = await db.execute(sql`
+    WITH RECURSIVE chain(id, parent_id, depth) AS (
+      SELECT id, assigned_to, 0 FROM users WHERE id = ${userId}
+      UNION ALL
+      SELECT u.id, u.assigned_to, c.depth + 1
+      FROM users u JOIN chain c ON u.id = c.parent_id
+      WHERE u.role = ${UserRole.SUBADMIN} AND c.depth < ${MAX_TREE_DEPTH}
+    )
+    SELECT id FROM chain WHERE depth > 0 ORDER BY depth
+  `);
+  return result.rows.map(row => Number(row.id));
+}
+
+/**
+ * Every user below an agent: its players, its sub-agents and theirs.
+ */
+export async function getSubtreeUserIds(agentId: number): Promise<number[]> {
+  const result = await db.execute(sql`
+    WITH RECURSIVE subtree(id, depth) AS (
+      SELECT id, 1 FROM users WHERE assigned_to = ${agentId}
+      UNION ALL
+      SELECT u.id, s.depth + 1
+      FROM users u JOIN subtree s ON u.assigned_to = s.id
+      WHERE s.depth < ${MAX_TREE_DEPTH}
+    )
+    SELECT DISTINCT id FROM subtree
+  `);
+  return result.rows.map(row => Number(row.id));
+}
+
+export async function isInSubtree(agentId: number, userId: number): Promise<boolean> {
+  if (agentId === userId) return false;
+  return (await getAncestorAgentIds(userId)).includes(agentId);
+}
+
+/**
+ * Whether the actor may see and manage a user: admins manage everyone,
+ * agents the users in their subtree.
+ */
+export async function canManageUser(actor: Actor, userId: number): Promise<boolean> {
+  if (actor.role === UserRole.ADMIN) return true;
+  if (actor.role !== UserRole.SUBADMIN) return false;
+  return isInSubtree(actor.id, userId);
+}
+
+async function getOwnPermissions(agentIds: number[]): Promise<Map<number, AgentPermissionValue[]>> {
+  if (agentIds.length === 0) return new Map();
+
+  const rows = await db.select()
+    .from(agentSettings)
+    .where(inArray(agentSettings.agentId, agentIds));
+  return new Map(rows.map(row => [row.agentId, row.permissions]));
+}
+
+/**
+ * Permissions an agent actually has: its own, limited to those every agent
+ * above it has.
+ */
+export async function getEffectivePermissions(agentId: number): Promise<AgentPermissionValue[]> {
+  const chain = [agentId, ...await getAncestorAgentIds(agentId)];
+  const own = await getOwnPermissions(chain);
+
+  return chain.reduce<AgentPermissionValue[]>(
+    (effective, id) => effective.filter(permission => (own.get(id) ?? DEFAULT_AGENT_PERMISSIONS).includes(permission)),
+    ALL_PERMISSIONS,
+  );
+}
+
+/**
+ * Custom odds for a game type from the nearest agent above a user that set
+ * any, or an empty list when none did and the admin odds apply.
+ */
+export async function getNearestAgentOdds(userId: number, gameType: string) {
+  const ancestors = await getAncestorAgentIds(userId);
+  if (ancestors.length === 0) return [];
+
+  const odds = await db.select()
+    .from(gameOdds)
+    .where(and(eq(gameOdds.gameType, gameType), inArray(gameOdds.subadminId, ancestors)));
+
+  const nearest = ancestors.find(agentId => odds.some(odd => odd.subadminId === agentId));
+  return odds.filter(odd => odd.subadminId === nearest);
+}
+
+async function getAgent(agentId: number) {
+  const [agent] = await db.select()
+    .from(users)
+    .where(and(eq(users.id, agentId), eq(users.role, UserRole.SUBADMIN)))
+    .limit(1);
+  if (!agent) {
+    throw new AgentHierarchyError('Agent not found', 404);
+  }
+  return agent;
+}
+
+/**
+ * Grant an agent a set of permissions. Agents can only change the agents
+ * below them, and only grant what they have themselves.
+ */
+export async function setAgentPermissions(agentId: number, permissions: unknown, actor: Actor): Promise<AgentPermissionValue[]> {
+  await getAgent(agentId);
+
+  if (!Array.isArray(permissions) || permissions.some(permission => !ALL_PERMISSIONS.includes(permission))) {
+    throw new AgentHierarchyError(`Permissions must be a list of: ${ALL_PERMISSIONS.join(', ')}`);
+  }
+  if (!await canManageUser(actor, agentId)) {
+    throw new AgentHierarchyError('You can only change agents below you', 403);
+  }
+  if (actor.role === UserRole.SUBADMIN) {
+    const own = await getEffectivePermissions(actor.id);
+    const missing = permissions.filter(permission => !own.includes(permission));
+    if (missing.length > 0) {
+      throw new AgentHierarchyError(`You cannot grant permissions you do not have: ${missing.join(', ')}`, 403);
+    }
+  }
+
+  const granted = Array.from(new Set(permissions)) as AgentPermissionValue[];
+  await db.insert(agentSettings)
+    .values({ agentId, permissions: granted, updatedBy: actor.id })
+    .onConflictDoUpdate({
+      target: agentSettings.agentId,
+      set: { permissions: granted, updatedBy: actor.id, updatedAt: new Date() },
+    });
+
+  return getEffectivePermissions(agentId);
+}
+
+/**
+ * Move an agent, with its subtree, below another agent or to the top of the
+ * tree (parentId null).
+ */
+export async function moveAgent(agentId: number, parentId: number | null): Promise<void> {
+  await getAgent(agentId);
+
+  if (parentId !== null) {
+    await getAgent(parentId);
+    if (parentId === agentId || await isInSubtree(agentId, parentId)) {
+      throw new AgentHierarchyError('An agent cannot be moved below itself');
+    }
+    if (await getAncestorAgentIds(parentId).then(ids => ids.length + 2 > MAX_TREE_DEPTH)) {
+      throw new AgentHierarchyError(`The agent tree cannot be deeper than ${MAX_TREE_DEPTH} levels`);
+    }
+  }
+
+  await db.update(users)
+    .set({ assignedTo: parentId })
+    .where(eq(users.id, agentId));
+}
+
+/**
+ * The agent tree as seen by the actor: the whole tree for admins, an agent's
+ * own subtree (with the agent itself at its root) otherwise. Nodes come
+ * parents first.
+ */
+export async function getAgentTree(actor: Actor): Promise<AgentTreeNode[]> {
+  const result = await db.execute(sql`
+    WITH RECURSIVE tree(id, parent_id, depth) AS (
+      SELECT u.id, NULL::integer, 1
+      FROM users u LEFT JOIN users p ON p.id = u.assigned_to
+      WHERE u.role = ${UserRole.SUBADMIN} AND (p.id IS NULL OR p.role <> ${UserRole.SUBADMIN})
+      UNION ALL
+      SELECT u.id, t.id, t.depth + 1
+      FROM users u JOIN tree t ON u.assigned_to = t.id
+      WHERE u.role = ${UserRole.SUBADMIN} AND t.depth < ${MAX_TREE_DEPTH}
+    )
+    SELECT id, parent_id, depth FROM tree ORDER BY depth, id
+  `);
+
+  let nodes = result.rows.map(row => ({
+    id: Number(row.id),
+    parentId: row.parent_id === null ? null : Number(row.parent_id),
+    depth: Number(row.depth),
+  }));
+
+  if (actor.role !== UserRole.ADMIN) {
+    const visible = new Set([actor.id, ...await getSubtreeUserIds(actor.id)]);
+    nodes = nodes.filter(node => visible.has(node.id));
+  }
+  if (nodes.length === 0) return [];
+
+  const ids = nodes.map(node => node.id);
+  const agents = await db.select({ id: users.id, username: users.username, balance: users.balance, isBlocked: users.isBlocked })
+    .from(users)
+    .where(inArray(users.id, ids));
+  const agentsById = new Map(agents.map(agent => [agent.id, agent]));
+
+  const playerCounts = await db.select({ agentId: users.assignedTo, count: sql<number>`count(*)::int` })
+    .from(users)
+    .where(and(eq(users.role, UserRole.PLAYER), inArray(users.assignedTo, ids)))
+    .groupBy(users.assignedTo);
+  const playersByAgent = new Map(playerCounts.map(row => [row.agentId, row.count]));
+
+  // Nodes come parents first, so a parent's effective permissions are known
+  // by the time its children are reached
+  const own = await getOwnPermissions(ids);
+  const effective = new Map<number, AgentPermissionValue[]>();
+  const inheritedAtRoot = actor.role === UserRole.ADMIN || nodes[0].parentId === null
+    ? ALL_PERMISSIONS
+    : await getEffectivePermissions(nodes[0].parentId);
+
+  const tree: AgentTreeNode[] = [];
+  for (const node of nodes) {
+    const inherited = node.parentId !== null && effective.has(node.parentId)
+      ? effective.get(node.parentId)!
+      : inheritedAtRoot;
+    const permissions = inherited.filter(permission => (own.get(node.id) ?? DEFAULT_AGENT_PERMISSIONS).includes(permission));
+    effective.set(node.id, permissions);
+
+    const agent = agentsById.get(node.id);
+    tree.push({
+      ...node,
+      username: agent?.username ?? `Agent ${node.id}`,
+      tier: agentTierLabel(node.depth),
+      balance: agent?.balance ?? 0,
+      isBlocked: agent?.isBlocked ?? false,
+      playerCount: playersByAgent.get(node.id) ?? 0,
+      commissionRate: await getSubadminDepositCommission(node.id),
+      permissions,
+    });
+  }
+
+  return tree;
+}
+
+export function setupAgentHierarchyRoutes(app: express.Express) {
+  app.get('/api/agents/tree', requirePermission(Permission.USERS_VIEW), async (req, res, next) => {
+    try {
+      res.json(await getAgentTree(req.user!));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.put('/api/agents/:id/permissions', requirePermission(Permission.AGENTS_MANAGE), async (req, res, next) => {
+    try {
+      const permissions = await setAgentPermissions(Number(req.params.id), req.body.permissions, req.user!);
+      res.json({ agentId: Number(req.params.id), permissions });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Re-parent an agent; parentId null moves it to the top of the tree
+  app.put('/api/agents/:id/parent', requirePermission(Permission.AGENTS_MOVE), async (req, res, next) => {
+    try {
+      const parentId = req.body.parentId === null || req.body.parentId === undefined ? null : Number(req.body.parentId);
+      await moveAgent(Number(req.params.id), parentId);
+      res.json(await getAgentTree(req.user!));
+    } catch (err) {
+      next(err);
+    }
+  });
+}
@@ -0,0 +1,424 @@
+import express from 'express';
+import { db } from './db';
+import {
+  ArchiveKind,
+  ArchiveStatus,
+  AuditAction,
+  MarketStatus,
+  Permission,
+  RequestStatus,
+  SettlementJobStatus,
+  TeamMatchResult,
+  archives,
+  type Archive,
+} from '@shared/schema';
+import { LONGEST_LIMIT_PERIOD_MS } from '@shared/player-limits';
+import { requirePermission } from './permissions';
+import { recordAuditEvent } from './audit';
+import { requireStepUp } from './two-factor';
+import { postCarriedForwardBalances, removeCarriedForwardBalances, type DbTransaction } from './ledger';
+import { and, desc, eq, gt, sql, type SQL } from 'drizzle-orm';
+import { z } from 'zod';
+
+// Archiving moves rows out of the live tables into archive_records, as the
+// JSON of each whole row, inside the same transaction that deletes them.
+// Nothing is removed without that copy, and a restore puts the rows back
+// with their original ids.
+
+/**
+ * Raised for archives that cannot be taken or restored. `status` is picked
+ * up by the global error handler.
+ */
+export class ArchiveError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ArchiveError';
+    this.status = status;
+  }
+}
+
+type ArchivedTable = {
+  name: string;
+  // Rows of the table (aliased `t`) that belong in a period archive
+  periodRows: (archiveId: number, cutoff: SQL) => SQL;
+};
+
+// Rows already copied into an archive, as a subquery of record ids
+const archivedIds = (archiveId: number, tableName: string) =>
+  sql`(SELECT record_id FROM archive_records WHERE archive_id = ${archiveId} AND table_name = ${tableName})`;
+
+const PENDING_GAME = sql`(g.result IS NULL OR g.result = ${TeamMatchResult.PENDING})`;
+
+// Parents before the rows that reference them: archived in this order,
+// deleted in reverse and restored in this order again
+const PERIOD_TABLES: ArchivedTable[] = [
+  {
+    // Resulted markets with every bet settled; recurring ones once their next cycle exists
+    name: 'satamatka_markets',
+    periodRows: (_, cutoff) => sql`
+      t.status IN (${MarketStatus.RESULTED}, ${MarketStatus.SETTLED})
+      AND t.close_time < ${cutoff}
+      AND (NOT t.is_recurring OR t.rolled_into_market_id IS NOT NULL)
+      AND NOT EXISTS (SELECT 1 FROM games g WHERE g.market_id = t.id AND ${PENDING_GAME})
+      AND NOT EXISTS (SELECT 1 FROM settlement_jobs j WHERE j.market_id = t.id AND j.status = ${SettlementJobStatus.RUNNING})
+    `,
+  },
+  {
+    name: 'team_matches',
+    periodRows: (_, cutoff) => sql`
+      t.status = 'resulted'
+      AND t.match_time < ${cutoff}
+      AND NOT EXISTS (SELECT 1 FROM games g WHERE g.match_id = t.id AND ${PENDING_GAME})
+    `,
+  },
+  {
+    // Reviewed requests, unless a later transaction or a bank statement still points at them
+    name: 'wallet_requests',
+    periodRows: (_, cutoff) => sql`
+      t.status <> ${RequestStatus.PENDING}
+      AND COALESCE(t.updated_at, t.created_at) < ${cutoff}
+      AND NOT EXISTS (SELECT 1 FROM transactions x WHERE x.request_id = t.id AND x.created_at >= ${cutoff})
+      AND NOT EXISTS (SELECT 1 FROM bank_statement_lines l WHERE l.wallet_request_id = t.id)
+    `,
+  },
+  {
+    // Bets of archived markets and matches, and settled instant games
+    name: 'games',
+    periodRows: (archiveId, cutoff) => sql`
+      t.market_id IN ${archivedIds(archiveId, 'satamatka_markets')}
+      OR t.match_id IN ${archivedIds(archiveId, 'team_matches')}
+      OR (
+        t.market_id IS NULL AND t.match_id IS NULL
+        AND t.created_at < ${cutoff}
+        AND t.result IS NOT NULL AND t.result <> ${TeamMatchResult.PENDING}
+      )
+    `,
+  },
+  {
+    name: 'transactions',
+    periodRows: (archiveId, cutoff) => sql`
+      t.created_at < ${cutoff}
+      AND (t.request_id IS NULL OR t.request_id IN ${archivedIds(archiveId, 'wallet_requests')})
+    `,
+  },
+  {
+    name: 'settlement_jobs',
+    periodRows: (archiveId) => sql`t.market_id IN ${archivedIds(archiveId, 'satamatka_markets')}`,
+  },
+  {
+    name: 'result_corrections',
+    periodRows: (archiveId) => sql`t.market_id IN ${archivedIds(archiveId, 'satamatka_markets')}`,
+  },
+  {
+    name: 'market_schedule_events',
+    periodRows: (archiveId) => sql`t.market_id IN ${archivedIds(archiveId, 'satamatka_markets')}`,
+  },
+  {
+    // Replaced by one entry carrying every account's balance forward
+    name: 'ledger_entries',
+    periodRows: (_, cutoff) => sql`t.created_at < ${cutoff}`,
+  },
+  {
+    name: 'ledger_postings',
+    periodRows: (archiveId) => sql`t.entry_id IN ${archivedIds(archiveId, 'ledger_entries')}`,
+  },
+];
+
+const ACCOUNT_TABLES = ['games', 'transactions'];
+
+const RESTORE_CONFLICTS: Record<string, string> = {
+  '23502': 'a column that is now required is missing from the archived rows',
+  '23503': 'rows it refers to no longer exist',
+  '23505': 'rows with the same ids or unique values exist again',
+};
+
+async function snapshotRows(tx: DbTransaction, archiveId: number, tableName: string, where: SQL) {
+  await tx.execute(sql`
+    INSERT INTO archive_records (archive_id, table_name, record_id, data)
+    SELECT ${archiveId}::integer, ${tableName}::text, t.id, to_jsonb(t)
+    FROM ${sql.raw(tableName)} t
+    WHERE ${where}
+  `);
+}
+
+async function deleteArchivedRows(tx: DbTransaction, archiveId: number, tableNames: string[]) {
+  for (const tableName of [...tableNames].reverse()) {
+    await tx.execute(sql`DELETE FROM ${sql.raw(tableName)} WHERE id IN ${archivedIds(archiveId, tableName)}`);
+  }
+}
+
+async function countArchivedRows(tx: DbTransaction, archiveId: number): Promise<Record<string, number>> {
+  const result = await tx.execute(sql`
+    SELECT table_name, count(*) AS records FROM archive_records
+    WHERE archive_id = ${archiveId}
+    GROUP BY table_name
+  `);
+  return Object.fromEntries(result.rows.map(row => [String(row.table_name), Number(row.records)]));
+}
+
+/**
+ * Close the books up to `periodEnd`: settled markets, matches and games,
+ * reviewed wallet requests, transactions and ledger entries from before it
+ * move into an archive, and each ledger account's balance at that moment is
+ * carried forward as an opening balance. Wallet balances do not change.
+ * The period must end before the longest play limit window, as limits are
+ * counted from the live games and wallet requests.
+ */
+export async function archivePeriod(periodEnd: Date, label: string | undefined, createdBy: number): Promise<Archive> {
+  if (isNaN(periodEnd.getTime()) || periodEnd >= new Date()) {
+    throw new ArchiveError('The period must end in the past');
+  }
+  if (periodEnd.getTime() > Date.now() - LONGEST_LIMIT_PERIOD_MS) {
+    const days = Math.round(LONGEST_LIMIT_PERIOD_MS / (24 * 60 * 60 * 1000));
+    throw new ArchiveError(`The period must end at least ${days} days ago, as play limits count the last ${days} days`);
+  }
+
+  return db.transaction(async (tx) => {
+    // One archive or restore at a time
+    await tx.execute(sql`LOCK TABLE archives IN EXCLUSIVE MODE`);
+
+    const [later] = await tx.select()
+      .from(archives)
+      .where(and(
+        eq(archives.kind, ArchiveKind.PERIOD),
+        eq(archives.status, ArchiveStatus.ARCHIVED),
+        gt(archives.periodEnd, periodEnd),
+      ))
+      .limit(1);
+    if (later) {
+      throw new ArchiveError(`"${later.label}" already covers data up to ${later.periodEnd!.toISOString()}`);
+    }
+
+    const [archive] = await tx.insert(archives)
+      .values({
+        kind: ArchiveKind.PERIOD,
+        label: label || `Period ending ${periodEnd.toISOString().slice(0, 10)}`,
+        periodEnd,
+        createdBy,
+      })
+      .returning();
+
+    // Timestamps are stored as UTC without a zone
+    const cutoff = sql`${periodEnd.toISOString()}::timestamp`;
+    for (const table of PERIOD_TABLES) {
+      await snapshotRows(tx, archive.id, table.name, table.periodRows(archive.id, cutoff));
+    }
+
+    const recordCounts = await countArchivedRows(tx, archive.id);
+    if (Object.keys(recordCounts).length === 0) {
+      throw new ArchiveError('Nothing from before this date is ready to archive');
+    }
+
+    const balances = await tx.execute(sql`
+      SELECT p.account_id, a.user_id, sum(p.amount) AS amount
+      FROM ledger_postings p JOIN ledger_accounts a ON a.id = p.account_id
+      WHERE p.id IN ${archivedIds(archive.id, 'ledger_postings')}
+      GROUP BY p.account_id, a.user_id
+    `);
+
+    await deleteArchivedRows(tx, archive.id, PERIOD_TABLES.map(table => table.name));
+
+    const carriedForwardEntryId = await postCarriedForwardBalances(
+      balances.rows.map(row => ({
+        accountId: Number(row.account_id),
+        amount: Number(row.amount),
+        isUserAccount: row.user_id !== null,
+      })),
+      {
+        description: `Balances carried forward from ${archive.label}`,
+        referenceType: 'archive',
+        referenceId: archive.id,
+        performedBy: createdBy,
+        createdAt: periodEnd,
+      },
+      tx,
+    );
+
+    const [updated] = await tx.update(archives)
+      .set({ recordCounts, carriedForwardEntryId })
+      .where(eq(archives.id, archive.id))
+      .returning();
+    return updated;
+  });
+}
+
+/**
+ * Archive the games and transactions of accounts that are being reset, in
+ * the caller's transaction, before their balances are zeroed.
+ */
+export async function archiveAccountHistory(
+  userIds: number[],
+  details: { userId: number; label: string; createdBy: number },
+  tx: DbTransaction,
+): Promise<Archive> {
+  const [archive] = await tx.insert(archives)
+    .values({
+      kind: ArchiveKind.ACCOUNT,
+      label: details.label,
+      userId: details.userId,
+      createdBy: details.createdBy,
+    })
+    .returning();
+
+  const owners = sql.join(userIds.map(id => sql`${id}`), sql`, `);
+  for (const tableName of ACCOUNT_TABLES) {
+    await snapshotRows(tx, archive.id, tableName, sql`t.user_id IN (${owners})`);
+  }
+  await deleteArchivedRows(tx, archive.id, ACCOUNT_TABLES);
+
+  const [updated] = await tx.update(archives)
+    .set({ recordCounts: await countArchivedRows(tx, archive.id) })
+    .where(eq(archives.id, archive.id))
+    .returning();
+  return updated;
+}
+
+/**
+ * Put an archive's rows back into the live tables. Period archives are
+ * restored latest first, and their carried forward balances are removed
+ * again. The archived copy is kept.
+ */
+export async function restoreArchive(archiveId: number, restoredBy: number): Promise<Archive> {
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`LOCK TABLE archives IN EXCLUSIVE MODE`);
+
+    const [archive] = await tx.select().from(archives).where(eq(archives.id, archiveId)).limit(1);
+    if (!archive) {
+      throw new ArchiveError('Archive not found', 404);
+    }
+    if (archive.status === ArchiveStatus.RESTORED) {
+      throw new ArchiveError('This archive has already been restored', 409);
+    }
+
+    let tableNames = ACCOUNT_TABLES;
+    if (archive.kind === ArchiveKind.PERIOD) {
+      const [later] = await tx.select()
+        .from(archives)
+        .where(and(
+          eq(archives.kind, ArchiveKind.PERIOD),
+          eq(archives.status, ArchiveStatus.ARCHIVED),
+          gt(archives.periodEnd, archive.periodEnd!),
+        ))
+        .limit(1);
+      if (later) {
+        throw new ArchiveError(`Restore "${later.label}" first; period archives are restored latest first`, 409);
+      }
+
+      if (archive.carriedForwardEntryId !== null) {
+        await removeCarriedForwardBalances(archive.carriedForwardEntryId, tx);
+      }
+      tableNames = PERIOD_TABLES.map(table => table.name);
+    }
+
+    for (const tableName of tableNames) {
+      try {
+        await tx.execute(sql`
+          INSERT INTO ${sql.raw(tableName)}
+          SELECT (jsonb_populate_record(NULL::${sql.raw(tableName)}, data)).*
+          FROM archive_records
+          WHERE archive_id = ${archive.id} AND table_name = ${tableName}
+          ORDER BY record_id
+        `);
+      } catch (err: any) {
+        const conflict = RESTORE_CONFLICTS[err?.code];
+        if (conflict) {
+          throw new ArchiveError(`Cannot restore ${tableName.replace(/_/g, ' ')}: ${conflict}`, 409);
+        }
+        throw err;
+      }
+    }
+
+    const [updated] = await tx.update(archives)
+      .set({ status: ArchiveStatus.RESTORED, restoredBy, restoredAt: new Date() })
+      .where(eq(archives.id, archive.id))
+      .returning();
+    return updated;
+  });
+}
+
+/**
+ * An archive with every archived row grouped by table, for download.
+ */
+export async function getArchiveBundle(archiveId: number) {
+  const [archive] = await db.select().from(archives).where(eq(archives.id, archiveId)).limit(1);
+  if (!archive) {
+    throw new ArchiveError('Archive not found', 404);
+  }
+
+  const result = await db.execute(sql`
+    SELECT table_name, data FROM archive_records
+    WHERE archive_id = ${archive.id}
+    ORDER BY table_name, record_id
+  `);
+  const records: Record<string, unknown[]> = {};
+  for (const row of result.rows) {
+    (records[String(row.table_name)] ??= []).push(row.data);
+  }
+  return { archive, records };
+}
+
+const archiveRequestSchema = z.object({
+  periodEnd: z.coerce.date(),
+  label: z.string().trim().max(100).optional(),
+});
+
+export function setupArchiveRoutes(app: express.Express) {
+  app.get('/api/archives', requirePermission(Permission.SYSTEM_MAINTENANCE), async (req, res, next) => {
+    try {
+      res.json(await db.select().from(archives).orderBy(desc(archives.createdAt), desc(archives.id)));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post('/api/archives', requirePermission(Permission.SYSTEM_MAINTENANCE), requireStepUp, async (req, res, next) => {
+    try {
+      const parsed = archiveRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'A valid period end date is required' });
+      }
+
+      const archive = await archivePeriod(parsed.data.periodEnd, parsed.data.label, req.user!.id);
+      await recordAuditEvent(req, {
+        action: AuditAction.SYSTEM_ARCHIVE,
+        targetType: 'archive',
+        targetId: archive.id,
+        after: { periodEnd: archive.periodEnd, recordCounts: archive.recordCounts, carriedForwardEntryId: archive.carriedForwardEntryId },
+      });
+      res.status(201).json(archive);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post('/api/archives/:id/restore', requirePermission(Permission.SYSTEM_MAINTENANCE), requireStepUp, async (req, res, next) => {
+    try {
+      const archive = await restoreArchive(Number(req.params.id), req.user!.id);
+      await recordAuditEvent(req, {
+        action: AuditAction.SYSTEM_RESTORE,
+        targetType: 'archive',
+        targetId: archive.id,
+        targetUserId: archive.userId,
+        before: { status: ArchiveStatus.ARCHIVED },
+        after: { status: archive.status, recordCounts: archive.recordCounts },
+      });
+      res.json(archive);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Everything in an archive as one JSON file
+  app.get('/api/archives/:id/export', requirePermission(Permission.SYSTEM_MAINTENANCE), async (req, res, next) => {
+    try {
+      const bundle = await getArchiveBundle(Number(req.params.id));
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="archive-${bundle.archive.id}.json"`);
+      res.send(JSON.stringify(bundle, null, 2));
+    } catch (err) {
+      next(err);
+    }
+  });
+}
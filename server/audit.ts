@@ -0,0 +1,216 @@
+import express from 'express';
+import { db } from './db';
+import {
+  AuditAction,
+  Permission,
+  auditEvents,
+  type AuditActionValue,
+  type AuditEvent,
+} from '@shared/schema';
+import { requirePermission } from './permissions';
+import { and, count, desc, eq, gte, ilike, lt, type SQL } from 'drizzle-orm';
+
+// Audit events are only ever inserted: nothing in the app updates or deletes
+// them. Routes behind requirePermission that change something are recorded
+// automatically; sensitive actions record a specific event with the state
+// before and after the change instead.
+
+type AuditActor = { id: number; username: string; role: string };
+
+export type AuditEventInput = {
+  action: AuditActionValue;
+  targetType?: string;
+  targetId?: string | number;
+  targetUserId?: number | null;
+  before?: unknown;
+  after?: unknown;
+};
+
+export type AuditEventFilters = {
+  action?: string;
+  actorId?: number;
+  actor?: string; // Part of the actor's username
+  targetUserId?: number;
+  from?: Date;
+  to?: Date; // Exclusive
+};
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+const SECRET_FIELD = /password|secret|token|otp/i;
+const MAX_STRING_LENGTH = 500;
+const MAX_PAGE_SIZE = 200;
+const MAX_EXPORT_ROWS = 10000;
+
+// The user who passed the permission check, kept apart from req.user which
+// changes when an admin logs in as someone else
+const requestActors = new WeakMap<express.Request, AuditActor>();
+// Requests that already recorded a specific event
+const recordedRequests = new WeakSet<express.Request>();
+
+/**
+ * Copy of a request body that is safe to keep: secrets are masked and long
+ * strings (such as uploaded files) are cut short.
+ */
+function redact(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}…` : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) =>
+      [key, SECRET_FIELD.test(key) ? '[redacted]' : redact(field)]));
+  }
+  return value;
+}
+
+/**
+ * Called by requirePermission once a request is allowed: remembers the actor
+ * and, for requests that change something, records a generic event when the
+ * request succeeds without recording a specific one.
+ */
+export function trackAuditedRequest(req: express.Request, res: express.Response, targetUserId?: number) {
+  const user = req.user!;
+  requestActors.set(req, { id: user.id, username: user.username, role: user.role });
+
+  if (!MUTATING_METHODS.includes(req.method)) return;
+
+  const route = `${req.method} ${req.baseUrl}${req.route?.path ?? req.path}`;
+  const params = { ...req.params };
+  res.on('finish', () => {
+    if (res.statusCode >= 400 || recordedRequests.has(req)) return;
+    void recordAuditEvent(req, {
+      action: AuditAction.ADMIN_REQUEST,
+      targetType: 'route',
+      targetId: route,
+      targetUserId,
+      // Multipart bodies are only parsed after the permission check
+      after: { params, body: redact(req.body) },
+    });
+  });
+}
+
+/**
+ * Record a sensitive action taken by the request's user. Failures are logged
+ * rather than thrown, as the action itself has already happened.
+ */
+export async function recordAuditEvent(req: express.Request, event: AuditEventInput): Promise<void> {
+  recordedRequests.add(req);
+  const actor = requestActors.get(req) ?? req.user;
+
+  try {
+    await db.insert(auditEvents).values({
+      action: event.action,
+      actorId: actor?.id ?? null,
+      actorUsername: actor?.username ?? null,
+      actorRole: actor?.role ?? null,
+      targetType: event.targetType ?? null,
+      targetId: event.targetId === undefined ? null : String(event.targetId),
+      targetUserId: event.targetUserId ?? null,
+      before: event.before === undefined ? null : redact(event.before),
+      after: event.after === undefined ? null : redact(event.after),
+      ipAddress: req.ip ?? req.socket.remoteAddress ?? null,
+      userAgent: req.get('user-agent') ?? null,
+    });
+  } catch (err) {
+    console.error(`Failed to record audit event ${event.action}:`, err);
+  }
+}
+
+function filterConditions(filters: AuditEventFilters): SQL | undefined {
+  const conditions: SQL[] = [];
+  if (filters.action) conditions.push(eq(auditEvents.action, filters.action as AuditActionValue));
+  if (filters.actorId !== undefined) conditions.push(eq(auditEvents.actorId, filters.actorId));
+  if (filters.actor) conditions.push(ilike(auditEvents.actorUsername, `%${filters.actor}%`));
+  if (filters.targetUserId !== undefined) conditions.push(eq(auditEvents.targetUserId, filters.targetUserId));
+  if (filters.from) conditions.push(gte(auditEvents.createdAt, filters.from));
+  if (filters.to) conditions.push(lt(auditEvents.createdAt, filters.to));
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+/**
+ * Audit events matching the filters, latest first, with the total count.
+ */
+export async function listAuditEvents(filters: AuditEventFilters, limit = 50, offset = 0): Promise<{ events: AuditEvent[]; total: number }> {
+  const where = filterConditions(filters);
+  const events = await db.select()
+    .from(auditEvents)
+    .where(where)
+    .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+    .limit(Math.min(limit, MAX_PAGE_SIZE))
+    .offset(offset);
+  const [{ total }] = await db.select({ total: count() }).from(auditEvents).where(where);
+  return { events, total };
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Keep spreadsheets from running user-chosen text such as usernames as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const columns: (keyof AuditEvent)[] = [
+    'id', 'createdAt', 'action', 'actorId', 'actorUsername', 'actorRole',
+    'targetType', 'targetId', 'targetUserId', 'before', 'after', 'ipAddress', 'userAgent',
+  ];
+  const lines = [columns.join(','), ...events.map(event => columns.map(column => csvField(event[column])).join(','))];
+  return lines.join('\r\n');
+}
+
+// Filters from the query string; dates are whole days, `to` included
+function parseFilters(query: express.Request['query']): AuditEventFilters {
+  const text = (name: string) => typeof query[name] === 'string' && query[name] ? String(query[name]) : undefined;
+  const number = (name: string) => text(name) === undefined || isNaN(Number(text(name))) ? undefined : Number(text(name));
+  const day = (name: string) => {
+    const date = text(name) ? new Date(text(name)!) : undefined;
+    return date && !isNaN(date.getTime()) ? date : undefined;
+  };
+
+  const to = day('to');
+  if (to) to.setUTCDate(to.getUTCDate() + 1);
+
+  return {
+    action: text('action'),
+    actorId: number('actorId'),
+    actor: text('actor'),
+    targetUserId: number('targetUserId'),
+    from: day('from'),
+    to,
+  };
+}
+
+export function setupAuditRoutes(app: express.Express) {
+  app.get('/api/audit-events', requirePermission(Permission.AUDIT_VIEW), async (req, res, next) => {
+    try {
+      const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), MAX_PAGE_SIZE);
+      const offset = Math.max(Number(req.query.offset) || 0, 0);
+      res.json(await listAuditEvents(parseFilters(req.query), limit, offset));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // The same filters as a CSV download, latest first
+  app.get('/api/audit-events/export', requirePermission(Permission.AUDIT_VIEW), async (req, res, next) => {
+    try {
+      const where = filterConditions(parseFilters(req.query));
+      const events = await db.select()
+        .from(auditEvents)
+        .where(where)
+        .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+        .limit(MAX_EXPORT_ROWS);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.send(auditEventsToCsv(events));
+    } catch (err) {
+      next(err);
+    }
+  });
+}
@@ -2,88 +2,64 @@ import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import { Express, Request, Response, NextFunction } from "express";
 import session from "express-session";
-import { scrypt, timingSafeEqual, randomBytes } from "crypto";
-import { promisify } from "util";
-import * as bcryptjs from "bcryptjs";
 import { storage } from "./storage";
-import { User as SelectUser, UserRole } from "@shared/schema";
+import { User as SelectUser, UserRole, UserRoleType, Permission, AuditAction, PlaySessionEndReason } from "@shared/schema";
+import { requirePermission, userParam, can } from "./permissions";
+import { recordAuditEvent } from "./audit";
+import {
+  requireStepUp,
+  requireTwoFactorEnrollment,
+  verifySecondFactor,
+  LOGIN_CODE_WINDOW_MS,
+  MAX_LOGIN_CODE_ATTEMPTS,
+  STEP_UP_WINDOW_MS,
+} from "./two-factor";
+import { getLoginLockRemaining, recordLoginFailure, clearLoginFailures, lockoutMessage } from "./login-throttle";
+import { recordSessionDevice, revokeUserSessions, trackSession, SESSION_IDLE_MS } from "./sessions";
+import { hashPassword, verifyPassword, comparePasswords } from "./passwords";
+import { getActiveSelfExclusion, recordRefusedLogin, selfExclusionMessage } from "./self-exclusion";
+import { startPlaySession, endPlaySession, trackPlaySession } from "./play-sessions";
+import { passwordPolicyProblem } from "@shared/password-policy";
 import { AuthInfo } from "passport";
 
-// Promisify the scrypt function
-const scryptAsync = promisify(scrypt);
-
 declare global {
   namespace Express {
     interface User extends SelectUser {}
   }
 }
 
-export async function hashPassword(password: string) {
-  // Use our native crypto.scrypt function for password hashing
-  const salt = randomBytes(16).toString('hex');
-  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
-  return `${buf.toString('hex')}.${salt}`;
+// Answers 429 while the account or address is locked out after failed logins
+async function rejectIfLockedOut(req: Request, res: Response, username: string): Promise<boolean> {
+  const remainingMs = await getLoginLockRemaining(username, req.ip);
+  if (remainingMs <= 0) return false;
+  res.set("Retry-After", String(Math.ceil(remainingMs / 1000)));
+  res.status(429).json({ message: lockoutMessage(remainingMs) });
+  return true;
 }
 
-export async function comparePasswords(supplied: string, stored: string) {
-  try {
-    // Ensure we have valid inputs
-    if (!supplied || !stored) {
-      console.log("Missing password or stored hash");
-      return false;
+/**
+ * Log the user in and answer with their profile. Signing in counts as having
+ * just re-authenticated for high-risk actions.
+ */
+function completeLogin(req: Request, res: Response, next: NextFunction, user: SelectUser) {
+  req.login(user, async (err: Error | null) => {
+    if (err) {
+      console.log("Login error:", err);
+      return next(err);
     }
-
-    // Check for bcrypt format first
-    if (stored.startsWith('$2a$') || stored.startsWith('$2b$') || stored.startsWith('$2y$')) {
-      try {
-        console.log("Checking bcrypt password format");
-        const result = await bcryptjs.compare(supplied, stored);
-        console.log("Bcrypt comparison result:", result ? "success" : "failed");
-        return result;
-      } catch (err) {
-        console.error('Error comparing bcrypt password:', err);
-        return false;
-      }
-    } 
-    // Check if it's our crypto.scrypt format (hex.salt)
-    else if (stored.includes('.')) {
-      try {
-        console.log("Checking crypto.scrypt password format");
-        const parts = stored.split('.');
-        if (parts.length !== 2) {
-          console.log("Invalid crypto.scrypt format (not hash.salt)");
-          return false;
-        }
-        
-        const [hashedPart, salt] = parts;
-        console.log(`Processing hash: ${hashedPart.substring(0, 10)}... with salt: ${salt.substring(0, 8)}...`);
-        
-        const hashedBuf = Buffer.from(hashedPart, 'hex');
-        const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
-        
-        // Ensure buffers are same length before comparison to avoid error
-        if (hashedBuf.length !== suppliedBuf.length) {
-          console.log(`Buffer length mismatch: stored=${hashedBuf.length}, supplied=${suppliedBuf.length}`);
-          return false;
-        }
-        
-        const result = timingSafeEqual(hashedBuf, suppliedBuf);
-        console.log("Crypto.scrypt comparison result:", result ? "success" : "failed");
-        return result;
-      } catch (err) {
-        console.error('Error comparing crypto.scrypt password:', err);
-        return false;
-      }
-    } 
-    // Unknown format
-    else {
-      console.log(`Unsupported password format: ${stored.substring(0, 4)}...`);
-      return false;
+    try {
+      await clearLoginFailures(user.username);
+      await startPlaySession(req);
+    } catch (loginErr) {
+      return next(loginErr);
     }
-  } catch (error) {
-    console.error("Error in comparePasswords:", error);
-    return false;
-  }
+    recordSessionDevice(req);
+    req.session.stepUpAt = Date.now();
+    // Remove password from the response
+    const { password, ...userWithoutPassword } = user;
+    console.log("Login successful, sending response");
+    res.status(200).json(userWithoutPassword);
+  });
 }
 
 export function setupAuth(app: Express) {
@@ -91,11 +67,13 @@ export function setupAuth(app: Express) {
     secret: process.env.SESSION_SECRET || "coinflip-game-secret",
     resave: false,
     saveUninitialized: false,
+    // Each request renews the cookie, so only idle sessions expire
+    rolling: true,
     store: storage.sessionStore,
     cookie: {
       secure: false, // Set to false for development
       httpOnly: true,
-      maxAge: 24 * 60 * 60 * 1000, // 1 day
+      maxAge: SESSION_IDLE_MS,
       sameSite: 'lax',
     },
   };
@@ -104,28 +82,45 @@ export function setupAuth(app: Express) {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(trackSession);
+  app.use(trackPlaySession);
+  // Admins without two-factor authentication can only set it up
+  app.use(requireTwoFactorEnrollment);
 
   passport.use(
-    new LocalStrategy(async (username, password, done) => {
+    new LocalStrategy({ passReqToCallback: true }, async (req, username, password, done) => {
       try {
         console.log(`Authenticating user: ${username}`);
         const user = await storage.getUserByUsername(username);
         
         if (!user) {
           console.log(`User not found: ${username}`);
+          await recordLoginFailure(username, req.ip);
           return done(null, false, { message: "Invalid username or password" });
         }
         
-        const passwordMatch = await comparePasswords(password, user.password);
-        console.log(`Password verification result: ${passwordMatch ? "success" : "failed"}`);
+        const { valid, needsRehash } = await verifyPassword(password, user.password);
+        console.log(`Password verification result: ${valid ? "success" : "failed"}`);
         
-        if (!passwordMatch) {
+        if (!valid) {
+          await recordLoginFailure(username, req.ip);
           return done(null, false, { message: "Invalid username or password" });
         }
         
         if (user.isBlocked) {
           return done(null, false, { message: "Account is blocked. Please contact support." });
         }
+        
+        const exclusion = await getActiveSelfExclusion(user.id);
+        if (exclusion) {
+          await recordRefusedLogin(req, user, exclusion);
+          return done(null, false, { message: selfExclusionMessage(exclusion) });
+        }
+        
+        // Move the password to the current hash while we have it in plain text
+        if (needsRehash) {
+          await storage.updateUserPassword(user.id, await hashPassword(password));
+        }
 
         return done(null, user);
       } catch (err) {
@@ -139,6 +134,10 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
+      // Blocked users lose the sessions they already have, and so do players
+      // on a break from playing
+      if (!user || user.isBlocked) return done(null, false);
+      if (user.role === UserRole.PLAYER && await getActiveSelfExclusion(user.id)) return done(null, false);
       done(null, user);
     } catch (err) {
       done(err);
@@ -151,22 +150,40 @@ export function setupAuth(app: Express) {
       if (existingUser) {
         return res.status(400).send("Username already exists");
       }
+      
+      const passwordProblem = passwordPolicyProblem(String(req.body.password ?? ""), req.body.username);
+      if (passwordProblem) {
+        return res.status(400).json({ message: passwordProblem });
+      }
 
       // Set default role to player 
-      let role = UserRole.PLAYER;
+      let role: UserRoleType = UserRole.PLAYER;
       
-      // Only admins can create users with different roles
-      if (req.isAuthenticated() && req.user?.role === UserRole.ADMIN) {
+      // Logged-in users create accounts for others; the role decides the permission needed
+      if (req.isAuthenticated()) {
         role = req.body.role || UserRole.PLAYER;
-      } else if (req.isAuthenticated() && req.user?.role === UserRole.SUBADMIN) {
-        // Subadmins can ONLY create players, override any role passed
-        role = UserRole.PLAYER;
+        const required = role === UserRole.ADMIN ? Permission.ROLES_MANAGE
+          : role === UserRole.SUBADMIN ? Permission.AGENTS_CREATE
+          : Permission.USERS_CREATE;
+        if (!Object.values(UserRole).includes(role) || !await can(req, required)) {
+          return res.status(403).json({ message: "You don't have permission to create this user" });
+        }
       }
 
       // Assign users to admins/subadmins by default
       let assignedTo = null;
       if (role === UserRole.PLAYER && req.isAuthenticated()) {
         assignedTo = req.user?.id;
+      } else if (role === UserRole.SUBADMIN && req.user?.role === UserRole.SUBADMIN) {
+        // A sub-agent sits directly below the agent creating it
+        assignedTo = req.user.id;
+      } else if (role === UserRole.SUBADMIN && req.body.parentId) {
+        // Admins can place a new agent below an existing one
+        const parent = await storage.getUser(Number(req.body.parentId));
+        if (!parent || parent.role !== UserRole.SUBADMIN) {
+          return res.status(400).json({ message: "Parent agent not found" });
+        }
+        assignedTo = parent.id;
       }
 
       const user = await storage.createUser({
@@ -182,8 +199,14 @@ export function setupAuth(app: Express) {
       // Only auto-login if this is a self-registration (not initiated by admin/subadmin)
       if (!req.isAuthenticated()) {
         // Normal registration flow - log the user in
-        req.login(user, (err) => {
+        req.login(user, async (err) => {
           if (err) return next(err);
+          recordSessionDevice(req);
+          try {
+            await startPlaySession(req);
+          } catch (startErr) {
+            return next(startErr);
+          }
           res.status(201).json({ ...userWithoutPassword, autoLogin: true });
         });
       } else {
@@ -195,9 +218,15 @@ export function setupAuth(app: Express) {
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
+  app.post("/api/login", async (req, res, next) => {
     console.log("Login attempt:", req.body.username);
     
+    try {
+      if (await rejectIfLockedOut(req, res, String(req.body.username ?? ""))) return;
+    } catch (err) {
+      return next(err);
+    }
+    
     passport.authenticate("local", (err: Error | null, user: Express.User | false, info?: AuthInfo) => {
       if (err) {
         console.log("Authentication error:", err);
@@ -213,38 +242,91 @@ export function setupAuth(app: Express) {
       
       console.log("Authentication successful for:", (user as SelectUser).username);
       
-      req.login(user, (err: Error | null) => {
-        if (err) {
-          console.log("Login error:", err);
-          return next(err);
-        }
-        // Remove password from the response
-        const { password, ...userWithoutPassword } = user as SelectUser;
-        console.log("Login successful, sending response");
-        res.status(200).json(userWithoutPassword);
-      });
+      // The password was right; the login completes once the second factor is too
+      if (user.twoFactorEnabled) {
+        req.session.twoFactorPending = { userId: user.id, expiresAt: Date.now() + LOGIN_CODE_WINDOW_MS, attempts: 0 };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+      
+      completeLogin(req, res, next, user);
     })(req, res, next);
   });
 
-  app.post("/api/logout", (req, res, next) => {
-    req.logout((err) => {
-      if (err) return next(err);
-      res.sendStatus(200);
-    });
+  // Second step of a login with two-factor authentication
+  app.post("/api/login/2fa", async (req, res, next) => {
+    try {
+      const pending = req.session.twoFactorPending;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.twoFactorPending;
+        return res.status(401).json({ message: "Your login has expired. Please sign in again." });
+      }
+      
+      const user = await storage.getUser(pending.userId);
+      if (!user || user.isBlocked) {
+        delete req.session.twoFactorPending;
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      
+      if (await rejectIfLockedOut(req, res, user.username)) return;
+      
+      if (!await verifySecondFactor(user.id, req.body.code)) {
+        await recordLoginFailure(user.username, req.ip);
+        pending.attempts += 1;
+        if (pending.attempts >= MAX_LOGIN_CODE_ATTEMPTS) {
+          delete req.session.twoFactorPending;
+          return res.status(401).json({ message: "Too many invalid codes. Please sign in again." });
+        }
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+      
+      completeLogin(req, res, next, user);
+    } catch (err) {
+      next(err);
+    }
   });
-
-  // Login as subadmin - only available to admin users
-  app.post("/api/admin/login-as/:userId", async (req, res, next) => {
+  
+  // Confirm the logged-in user again before a high-risk action: with an
+  // authenticator or recovery code when two-factor is on, else the password
+  app.post("/api/reauthenticate", async (req, res, next) => {
     try {
-      // Check if user is authenticated and is an admin
       if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Unauthorized: Please login first" });
+        return res.status(401).json({ message: "Unauthorized" });
       }
       
-      if (req.user.role !== UserRole.ADMIN) {
-        return res.status(403).json({ message: "Forbidden: Only admins can use this feature" });
+      // Guesses count against the same lockout as logins
+      if (await rejectIfLockedOut(req, res, req.user.username)) return;
+      
+      const verified = req.user.twoFactorEnabled
+        ? await verifySecondFactor(req.user.id, req.body.code)
+        : await comparePasswords(String(req.body.password ?? ""), req.user.password);
+      if (!verified) {
+        await recordLoginFailure(req.user.username, req.ip);
+        return res.status(401).json({ message: req.user.twoFactorEnabled ? "Invalid authentication code" : "Incorrect password" });
       }
       
+      await clearLoginFailures(req.user.username);
+      req.session.stepUpAt = Date.now();
+      res.json({ verifiedUntil: new Date(req.session.stepUpAt + STEP_UP_WINDOW_MS) });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/logout", async (req, res, next) => {
+    try {
+      await endPlaySession(req, PlaySessionEndReason.LOGOUT);
+    } catch (err) {
+      return next(err);
+    }
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  // Login as subadmin - only available to users with users.impersonate
+  app.post("/api/admin/login-as/:userId", requirePermission(Permission.USERS_IMPERSONATE, { user: userParam("userId") }), requireStepUp, async (req, res, next) => {
+    try {
       const { userId } = req.params;
       
       // Find the user to login as
@@ -284,9 +366,19 @@ export function setupAuth(app: Express) {
           resolve();
         });
       });
+      recordSessionDevice(req);
       
       console.log(`Admin logged in as subadmin: ${targetUser.username}`);
       
+      // The actor is the admin that passed the permission check, not req.user
+      await recordAuditEvent(req, {
+        action: AuditAction.USER_IMPERSONATE,
+        targetType: "user",
+        targetId: targetUser.id,
+        targetUserId: targetUser.id,
+        after: { username: targetUser.username, role: targetUser.role },
+      });
+      
       // Important: Set the response header to JSON to prevent any middleware from changing it
       res.setHeader('Content-Type', 'application/json');
       return res.status(200).json(userWithoutPassword);
@@ -333,6 +425,11 @@ export function setupAuth(app: Express) {
         return res.status(400).json({ message: "Current password is incorrect" });
       }
       
+      const passwordProblem = passwordPolicyProblem(newPassword, user.username);
+      if (passwordProblem) {
+        return res.status(400).json({ message: passwordProblem });
+      }
+      
       // Hash the new password
       const hashedPassword = await hashPassword(newPassword);
       
@@ -343,6 +440,9 @@ export function setupAuth(app: Express) {
         return res.status(500).json({ message: "Failed to update password" });
       }
       
+      // Anyone who knew the old password is signed out elsewhere
+      await revokeUserSessions(req.user.id, req.sessionID);
+      
       // Return success response
       res.status(200).json({ message: "Password updated successfully" });
     } catch (err) {
@@ -352,13 +452,8 @@ export function setupAuth(app: Express) {
   });
   
   // Admin password reset endpoint - allows admins to reset any user's password
-  app.patch("/api/admin/reset-password/:userId", async (req, res, next) => {
+  app.patch("/api/admin/reset-password/:userId", requirePermission(Permission.USERS_RESET_PASSWORD, { user: userParam("userId") }), async (req, res, next) => {
     try {
-      // Check if user is authenticated and is an admin
-      if (!req.isAuthenticated() || req.user.role !== UserRole.ADMIN) {
-        return res.status(403).json({ message: "Forbidden: Only admins can reset passwords" });
-      }
-      
       const { userId } = req.params;
       const { newPassword } = req.body;
       
@@ -372,6 +467,11 @@ export function setupAuth(app: Express) {
         return res.status(404).json({ message: "User not found" });
       }
       
+      const passwordProblem = passwordPolicyProblem(newPassword, user.username);
+      if (passwordProblem) {
+        return res.status(400).json({ message: passwordProblem });
+      }
+      
       // Hash the new password
       const hashedPassword = await hashPassword(newPassword);
       
@@ -382,6 +482,16 @@ export function setupAuth(app: Express) {
         return res.status(500).json({ message: "Failed to reset password" });
       }
       
+      await revokeUserSessions(user.id);
+      
+      await recordAuditEvent(req, {
+        action: AuditAction.USER_PASSWORD_RESET,
+        targetType: "user",
+        targetId: user.id,
+        targetUserId: user.id,
+        after: { username: user.username },
+      });
+      
       // Return success response
       res.status(200).json({ 
         message: `Password for user ${user.username} was reset successfully` 
@@ -393,13 +503,8 @@ export function setupAuth(app: Express) {
   });
   
   // Subadmin password reset endpoint - allows subadmins to reset their players' password
-  app.patch("/api/subadmin/reset-password/:userId", async (req, res, next) => {
+  app.patch("/api/subadmin/reset-password/:userId", requirePermission(Permission.USERS_RESET_PASSWORD, { user: userParam("userId") }), async (req, res, next) => {
     try {
-      // Check if user is authenticated and is a subadmin
-      if (!req.isAuthenticated() || req.user.role !== UserRole.SUBADMIN) {
-        return res.status(403).json({ message: "Forbidden: Only subadmins can access this endpoint" });
-      }
-      
       const { userId } = req.params;
       const { newPassword } = req.body;
       
@@ -413,13 +518,6 @@ export function setupAuth(app: Express) {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Verify that the user belongs to this subadmin
-      if (user.assignedTo !== req.user.id) {
-        return res.status(403).json({ 
-          message: "You can only reset passwords for players assigned to you" 
-        });
-      }
-      
       // Verify that the user is a player (subadmins can only reset player passwords)
       if (user.role !== UserRole.PLAYER) {
         return res.status(403).json({ 
@@ -427,6 +525,11 @@ export function setupAuth(app: Express) {
         });
       }
       
+      const passwordProblem = passwordPolicyProblem(newPassword, user.username);
+      if (passwordProblem) {
+        return res.status(400).json({ message: passwordProblem });
+      }
+      
       // Hash the new password
       const hashedPassword = await hashPassword(newPassword);
       
@@ -437,6 +540,16 @@ export function setupAuth(app: Express) {
         return res.status(500).json({ message: "Failed to reset password" });
       }
       
+      await revokeUserSessions(user.id);
+      
+      await recordAuditEvent(req, {
+        action: AuditAction.USER_PASSWORD_RESET,
+        targetType: "user",
+        targetId: user.id,
+        targetUserId: user.id,
+        after: { username: user.username },
+      });
+      
       // Return success response
       res.status(200).json({ 
         message: `Password for player ${user.username} was reset successfully` 
@@ -447,20 +560,3 @@ export function setupAuth(app: Express) {
     }
   });
 }
-
-// Middleware for role-based access control
-export function requireRole(roles: UserRole | UserRole[]) {
-  const allowedRoles = Array.isArray(roles) ? roles : [roles];
-  
-  return (req: Express.Request, res: Express.Response, next: Express.NextFunction) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-    
-    if (!allowedRoles.includes(req.user!.role as UserRole)) {
-      return res.status(403).json({ message: "Forbidden: Insufficient permissions" });
-    }
-    
-    next();
-  };
-}
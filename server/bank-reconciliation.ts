@@ -0,0 +1,508 @@
+import express from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { parse as parseDate, isValid } from 'date-fns';
+import { db } from './db';
+import { storage } from './storage';
+import { requirePermission } from './permissions';
+import {
+  Permission,
+  RequestStatus,
+  RequestType,
+  StatementLineStatus,
+  users,
+  walletRequests,
+  bankStatementImports,
+  bankStatementLines,
+  type BankStatementImport,
+  type BankStatementLine,
+  type BankStatementProfile,
+  type StatementLineStatusValue,
+} from '@shared/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { normalizeUtr, getDepositUtr, findRequestsByUtr } from './deposit-verification';
+import { reviewWalletRequest } from './wallet-system';
+import { parseRupees, formatPaisa } from '@shared/money';
+
+const PROFILE_SETTING_TYPE = 'bank_statement';
+const PROFILE_SETTING_KEY = 'profiles';
+
+const DEFAULT_PROFILES: BankStatementProfile[] = [{
+  name: 'Generic',
+  utrColumn: 'UTR',
+  amountColumn: 'Amount',
+  dateColumn: 'Date',
+  dateFormat: 'dd/MM/yyyy',
+  descriptionColumn: 'Description',
+  matchWindowHours: 48,
+}];
+
+const MAX_MATCH_WINDOW_HOURS = 24 * 30;
+
+/**
+ * Raised for statements or profiles that cannot be used. `status` is picked
+ * up by the global error handler.
+ */
+export class StatementImportError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'StatementImportError';
+    this.status = status;
+  }
+}
+
+// A credit read from the statement
+type StatementEntry = {
+  lineNumber: number;
+  utr: string | null;
+  amount: number | null; // in paisa
+  transactedAt: Date | null;
+  description: string | null;
+};
+
+type PendingDeposit = {
+  id: number;
+  userId: number;
+  amount: number; // in paisa
+  utr: string | null;
+  createdAt: Date;
+};
+
+type LineMatch = {
+  status: StatementLineStatusValue;
+  walletRequestId: number | null;
+  candidateRequestIds: number[];
+  note: string | null;
+};
+
+export type ReconciliationReport = {
+  statementImport: BankStatementImport;
+  lines: BankStatementLine[];
+  // Pending deposits in the statement's period without a credit on it
+  unmatchedRequests: {
+    id: number;
+    userId: number;
+    username: string;
+    amount: number; // in paisa
+    utr: string | null;
+    createdAt: Date | null;
+  }[];
+};
+
+export async function getStatementProfiles(): Promise<BankStatementProfile[]> {
+  const setting = await storage.getSystemSetting(PROFILE_SETTING_TYPE, PROFILE_SETTING_KEY);
+  if (!setting) return DEFAULT_PROFILES;
+
+  try {
+    return JSON.parse(setting.settingValue);
+  } catch {
+    return DEFAULT_PROFILES;
+  }
+}
+
+const MISSING_COLUMNS = 'Each profile needs a name and the UTR, amount and date columns with a date format';
+const MATCH_WINDOW = `Match window must be 1-${MAX_MATCH_WINDOW_HOURS} hours`;
+
+const requiredText = z.string({ required_error: MISSING_COLUMNS, invalid_type_error: MISSING_COLUMNS })
+  .trim()
+  .min(1, MISSING_COLUMNS);
+// Blank optional columns are left out
+const optionalText = z.string().trim().nullish().transform(value => value || undefined);
+
+const profileSchema = z.object({
+  name: requiredText,
+  utrColumn: requiredText,
+  amountColumn: requiredText,
+  dateColumn: requiredText,
+  dateFormat: requiredText,
+  descriptionColumn: optionalText,
+  typeColumn: optionalText,
+  creditValue: optionalText,
+  matchWindowHours: z.coerce.number({ invalid_type_error: MATCH_WINDOW })
+    .int(MATCH_WINDOW)
+    .min(1, MATCH_WINDOW)
+    .max(MAX_MATCH_WINDOW_HOURS, MATCH_WINDOW),
+}).superRefine((profile, ctx) => {
+  if (profile.typeColumn && !profile.creditValue) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Profile "${profile.name}" needs the credit value of its type column` });
+  }
+});
+
+const profilesSchema = z.array(profileSchema, { invalid_type_error: 'At least one statement profile is required' })
+  .min(1, 'At least one statement profile is required')
+  .refine(
+    profiles => new Set(profiles.map(profile => profile.name.toLowerCase())).size === profiles.length,
+    'Profile names must be unique',
+  );
+
+export async function saveStatementProfiles(input: unknown): Promise<BankStatementProfile[]> {
+  const parsed = profilesSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new StatementImportError(parsed.error.errors[0].message);
+  }
+
+  const profiles: BankStatementProfile[] = parsed.data;
+  await storage.upsertSystemSetting(PROFILE_SETTING_TYPE, PROFILE_SETTING_KEY, JSON.stringify(profiles));
+  return profiles;
+}
+
+/**
+ * Split CSV text into rows of fields, following RFC 4180 quoting.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Statement amounts come as "1,500.00", "₹ 1500" or "1500.00 CR", and debits
+// as "-1,500.00" on statements without a type column
+function parseAmount(value: string | undefined): number | null {
+  const text = (value ?? '').trim();
+  const amount = parseRupees(text.replace(/[^0-9.]/g, ''));
+  if (!amount) return null;
+  return /^[^0-9]*-/.test(text) ? -amount : amount;
+}
+
+function parseStatementDate(value: string | undefined, format: string): Date | null {
+  if (!value?.trim()) return null;
+
+  const parsed = parseDate(value.trim(), format, new Date());
+  if (isValid(parsed)) return parsed;
+
+  const fallback = new Date(value.trim());
+  return isValid(fallback) ? fallback : null;
+}
+
+/**
+ * Read the credit lines of a statement. Banks put a preamble above the
+ * header, so the header is the first row that has the UTR and amount columns.
+ */
+export function readStatement(csv: string, profile: BankStatementProfile): StatementEntry[] {
+  const rows = parseCsv(csv.replace(/^\uFEFF/, ''));
+  const key = (column?: string) => column?.trim().toLowerCase();
+
+  const headerIndex = rows.findIndex(row => {
+    const header = row.map(key);
+    return header.includes(key(profile.utrColumn)) && header.includes(key(profile.amountColumn));
+  });
+  if (headerIndex === -1) {
+    throw new StatementImportError(`No header row with the "${profile.utrColumn}" and "${profile.amountColumn}" columns was found`);
+  }
+
+  const header = rows[headerIndex].map(key);
+  const column = (name?: string) => (name ? header.indexOf(key(name)) : -1);
+  const utrIndex = column(profile.utrColumn);
+  const amountIndex = column(profile.amountColumn);
+  const dateIndex = column(profile.dateColumn);
+  const descriptionIndex = column(profile.descriptionColumn);
+  const typeIndex = column(profile.typeColumn);
+
+  const entries: StatementEntry[] = [];
+  rows.slice(headerIndex + 1).forEach((row, index) => {
+    if (row.every(field => !field.trim())) return;
+    // Debits are not deposits
+    if (typeIndex !== -1 && key(row[typeIndex]) !== key(profile.creditValue)) return;
+    const amount = parseAmount(row[amountIndex]);
+    if (amount !== null && amount < 0) return;
+
+    entries.push({
+      lineNumber: headerIndex + index + 2,
+      utr: normalizeUtr(row[utrIndex]),
+      amount,
+      transactedAt: dateIndex !== -1 ? parseStatementDate(row[dateIndex], profile.dateFormat) : null,
+      description: descriptionIndex !== -1 ? row[descriptionIndex]?.trim() || null : null,
+    });
+  });
+
+  return entries;
+}
+
+function withinWindow(deposit: PendingDeposit, entry: StatementEntry, windowHours: number) {
+  if (!entry.transactedAt) return false;
+  return Math.abs(deposit.createdAt.getTime() - entry.transactedAt.getTime()) <= windowHours * 60 * 60 * 1000;
+}
+
+async function getPendingDeposits(): Promise<PendingDeposit[]> {
+  const pending = await db.select()
+    .from(walletRequests)
+    .where(and(eq(walletRequests.status, RequestStatus.PENDING), eq(walletRequests.requestType, RequestType.DEPOSIT)));
+
+  return pending.map(request => ({
+    id: request.id,
+    userId: request.userId,
+    amount: request.amount,
+    utr: normalizeUtr(request.utrNumber) ?? getDepositUtr(request.paymentDetails),
+    createdAt: request.createdAt ?? new Date(0),
+  }));
+}
+
+/**
+ * Match statement credits to pending deposits. A credit matches exactly when
+ * its UTR, amount and time all agree with one deposit; partial matches are
+ * returned with their candidate deposits for manual review.
+ */
+async function matchEntries(entries: StatementEntry[], windowHours: number): Promise<LineMatch[]> {
+  const pending = await getPendingDeposits();
+  const claimed = new Set<number>();
+
+  const utrs = Array.from(new Set(entries.map(entry => entry.utr).filter((utr): utr is string => !!utr)));
+  const approvedByUtr = new Map(
+    (await findRequestsByUtr(utrs))
+      .filter(request => request.status === RequestStatus.APPROVED)
+      .map(request => [request.utr, request.id])
+  );
+
+  return entries.map((entry): LineMatch => {
+    if (entry.amount === null) {
+      return { status: StatementLineStatus.INVALID, walletRequestId: null, candidateRequestIds: [], note: 'Amount could not be read' };
+    }
+
+    const byUtr = entry.utr ? pending.find(deposit => deposit.utr === entry.utr && !claimed.has(deposit.id)) : undefined;
+    if (byUtr) {
+      if (byUtr.amount === entry.amount && withinWindow(byUtr, entry, windowHours)) {
+        claimed.add(byUtr.id);
+        return { status: StatementLineStatus.MATCHED, walletRequestId: byUtr.id, candidateRequestIds: [byUtr.id], note: null };
+      }
+
+      const note = byUtr.amount !== entry.amount
+        ? `UTR matches, but the request is for ${formatPaisa(byUtr.amount)}`
+        : entry.transactedAt
+          ? `UTR matches, but the request is more than ${windowHours}h from the credit`
+          : 'UTR matches, but the credit date could not be read';
+      return { status: StatementLineStatus.FUZZY, walletRequestId: null, candidateRequestIds: [byUtr.id], note };
+    }
+
+    const creditedRequestId = entry.utr ? approvedByUtr.get(entry.utr) : undefined;
+    if (creditedRequestId) {
+      return { status: StatementLineStatus.ALREADY_CREDITED, walletRequestId: creditedRequestId, candidateRequestIds: [], note: null };
+    }
+
+    const sameAmount = pending.filter(deposit =>
+      !claimed.has(deposit.id) && deposit.amount === entry.amount && withinWindow(deposit, entry, windowHours));
+    if (sameAmount.length > 0) {
+      return {
+        status: StatementLineStatus.FUZZY,
+        walletRequestId: null,
+        candidateRequestIds: sameAmount.map(deposit => deposit.id),
+        note: 'Same amount and time, but no request has this UTR',
+      };
+    }
+
+    return { status: StatementLineStatus.UNMATCHED, walletRequestId: null, candidateRequestIds: [], note: null };
+  });
+}
+
+/**
+ * Import a bank statement: exact matches are approved through the normal
+ * review flow, everything else is recorded for the reconciliation report.
+ */
+export async function importBankStatement(
+  csv: string,
+  fileName: string,
+  profileName: string,
+  adminId: number,
+): Promise<ReconciliationReport> {
+  const profile = (await getStatementProfiles()).find(candidate => candidate.name === profileName);
+  if (!profile) {
+    throw new StatementImportError(`Unknown statement profile "${profileName}"`);
+  }
+
+  const entries = readStatement(csv, profile);
+  if (entries.length === 0) {
+    throw new StatementImportError('The statement has no credit lines');
+  }
+
+  const matches = await matchEntries(entries, profile.matchWindowHours);
+
+  const [statementImport] = await db.insert(bankStatementImports)
+    .values({ fileName, profileName: profile.name, lineCount: entries.length, matchWindowHours: profile.matchWindowHours, importedBy: adminId })
+    .returning();
+
+  for (let index = 0; index < matches.length; index++) {
+    const match = matches[index];
+    if (match.status !== StatementLineStatus.MATCHED) continue;
+
+    try {
+      await reviewWalletRequest(
+        match.walletRequestId!,
+        adminId,
+        RequestStatus.APPROVED,
+        `Matched line ${entries[index].lineNumber} of bank statement ${fileName}`,
+      );
+    } catch (error) {
+      // Reviewed by someone else in the meantime, or the approval failed
+      matches[index] = {
+        status: StatementLineStatus.FUZZY,
+        walletRequestId: null,
+        candidateRequestIds: match.candidateRequestIds,
+        note: `Auto-approval failed: ${(error as Error).message}`,
+      };
+    }
+  }
+
+  await db.insert(bankStatementLines).values(entries.map((entry, index) => ({
+    importId: statementImport.id,
+    ...entry,
+    ...matches[index],
+  })));
+
+  const count = (status: StatementLineStatusValue) => matches.filter(match => match.status === status).length;
+  await db.update(bankStatementImports)
+    .set({
+      matchedCount: count(StatementLineStatus.MATCHED),
+      fuzzyCount: count(StatementLineStatus.FUZZY),
+      unmatchedCount: count(StatementLineStatus.UNMATCHED),
+    })
+    .where(eq(bankStatementImports.id, statementImport.id));
+
+  console.log(`Bank statement ${fileName} imported: ${count(StatementLineStatus.MATCHED)} of ${entries.length} credits auto-approved`);
+
+  return getReconciliationReport(statementImport.id);
+}
+
+/**
+ * Lines of an imported statement, with the pending deposits made in the
+ * statement's period that no credit on it accounts for.
+ */
+export async function getReconciliationReport(importId: number): Promise<ReconciliationReport> {
+  const [statementImport] = await db.select()
+    .from(bankStatementImports)
+    .where(eq(bankStatementImports.id, importId))
+    .limit(1);
+  if (!statementImport) {
+    throw new StatementImportError('Statement import not found', 404);
+  }
+
+  const lines = await db.select()
+    .from(bankStatementLines)
+    .where(eq(bankStatementLines.importId, importId))
+    .orderBy(bankStatementLines.lineNumber);
+
+  const windowMs = statementImport.matchWindowHours * 60 * 60 * 1000;
+  const times = lines.map(line => line.transactedAt?.getTime()).filter((time): time is number => time !== undefined);
+  const from = times.length > 0 ? Math.min(...times) - windowMs : -Infinity;
+  const to = times.length > 0 ? Math.max(...times) + windowMs : Infinity;
+  const accountedFor = new Set(lines.flatMap(line => line.candidateRequestIds));
+
+  const pending = await db.select({ request: walletRequests, username: users.username })
+    .from(walletRequests)
+    .innerJoin(users, eq(walletRequests.userId, users.id))
+    .where(and(eq(walletRequests.status, RequestStatus.PENDING), eq(walletRequests.requestType, RequestType.DEPOSIT)))
+    .orderBy(desc(walletRequests.createdAt));
+
+  const unmatchedRequests = pending
+    .filter(({ request }) => {
+      const createdAt = request.createdAt?.getTime() ?? 0;
+      return !accountedFor.has(request.id) && createdAt >= from && createdAt <= to;
+    })
+    .map(({ request, username }) => ({
+      id: request.id,
+      userId: request.userId,
+      username,
+      amount: request.amount,
+      utr: normalizeUtr(request.utrNumber) ?? getDepositUtr(request.paymentDetails),
+      createdAt: request.createdAt,
+    }));
+
+  return { statementImport, lines, unmatchedRequests };
+}
+
+const statementUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 2 * 1024 * 1024 },
+});
+
+export function setupBankReconciliationRoutes(app: express.Express) {
+  app.get('/api/bank-statements/profiles', requirePermission(Permission.WALLET_RECONCILE), async (req, res, next) => {
+    try {
+      res.json(await getStatementProfiles());
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.put('/api/bank-statements/profiles', requirePermission(Permission.WALLET_RECONCILE), async (req, res, next) => {
+    try {
+      res.json(await saveStatementProfiles(req.body.profiles));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Upload a CSV statement and reconcile it against pending deposits
+  app.post('/api/bank-statements/import', requirePermission(Permission.WALLET_RECONCILE), statementUpload.single('statement'), async (req, res, next) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: 'No statement file uploaded' });
+      }
+
+      const report = await importBankStatement(
+        req.file.buffer.toString('utf8'),
+        req.file.originalname,
+        req.body.profile,
+        req.user!.id,
+      );
+      res.status(201).json(report);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get('/api/bank-statements', requirePermission(Permission.WALLET_RECONCILE), async (req, res, next) => {
+    try {
+      const imports = await db.select()
+        .from(bankStatementImports)
+        .orderBy(desc(bankStatementImports.createdAt))
+        .limit(50);
+      res.json(imports);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get('/api/bank-statements/:id', requirePermission(Permission.WALLET_RECONCILE), async (req, res, next) => {
+    try {
+      res.json(await getReconciliationReport(Number(req.params.id)));
+    } catch (err) {
+      next(err);
+    }
+  });
+}
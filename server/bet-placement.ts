@@ -0,0 +1,265 @@
+import type { Request } from 'express';
+import crypto from 'crypto';
+import { db } from './db';
+import {
+  users,
+  games,
+  betRequests,
+  HouseAccount,
+  LedgerEntryType,
+  MarketSession,
+  type Game,
+  type User,
+  type SatamatkaMarket,
+  type MarketSessionValue,
+} from '@shared/schema';
+import type { PlacedBet, SatamatkaBetType } from '@shared/bet-types';
+import { isMarketSession, isOpenSessionLocked, isTwoSessionMarket } from '@shared/market-sessions';
+import { eq, and, inArray } from 'drizzle-orm';
+import { postUserBalanceChange } from './ledger';
+import { getActiveSelfExclusion } from './self-exclusion';
+import { betLimitProblem } from './player-limits';
+
+export type BetInput = {
+  gameType: string;
+  betAmount: number; // in paisa
+  prediction: string;
+  marketId?: number;
+  matchId?: number;
+  gameMode?: string;
+  gameData?: unknown;
+  session?: MarketSessionValue | null; // Session of a two-session market the bet is on
+  result?: string | null;
+  payout?: number;
+  // Instant games (coin flip) are resolved before placement; their payout is
+  // credited in the same transaction as the stake
+  creditPayout?: boolean;
+  description: string; // Ledger description for the stake
+  payoutDescription?: string; // Ledger description for an instant payout
+};
+
+export type PlaceBetsInput = {
+  userId: number;
+  endpoint: string;
+  idempotencyKey?: string | null;
+  bets: BetInput[];
+};
+
+export type PlaceBetsResult = {
+  games: Game[];
+  user: User;
+  balance: number;
+  // True when the response is a replay of an earlier request with the same key
+  replayed: boolean;
+};
+
+/**
+ * Raised when a bet cannot be placed. `status` is picked up by the global
+ * error handler and by routers that answer errors themselves.
+ */
+export class BetPlacementError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'BetPlacementError';
+    this.status = status;
+  }
+}
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * Read the Idempotency-Key header of a bet request. Returns null when the
+ * client did not send one.
+ */
+export function getIdempotencyKey(req: Request): string | null {
+  const key = req.get('Idempotency-Key')?.trim();
+  if (!key) return null;
+
+  if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    throw new BetPlacementError(`Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`);
+  }
+  return key;
+}
+
+/**
+ * Session a Satamatka bet is placed on. Session bets (single, panna) need the
+ * open or close session of a two-session market, and the open session only
+ * until it locks. Other bets have no session, but on a two-session market
+ * they lock with the open session as well.
+ */
+export function getSatamatkaBetSession(
+  market: SatamatkaMarket,
+  betType: SatamatkaBetType,
+  session: unknown,
+  now: Date = new Date(),
+): MarketSessionValue | null {
+  if (!betType.sessionBet) {
+    if (isOpenSessionLocked(market, now)) {
+      throw new BetPlacementError(`${betType.label} betting closed with the open session of this market`);
+    }
+    return null;
+  }
+
+  if (!isTwoSessionMarket(market.type)) {
+    throw new BetPlacementError(`${betType.label} bets are only available on Mumbai and Kalyan markets`);
+  }
+  if (!isMarketSession(session)) {
+    throw new BetPlacementError('Choose the open or close session for this bet');
+  }
+  if (session === MarketSession.OPEN && isOpenSessionLocked(market, now)) {
+    throw new BetPlacementError('Open session betting has closed for this market');
+  }
+  return session;
+}
+
+/**
+ * Game data stored with a Satamatka bet: the player's agent, whose odds the
+ * bet is settled at, and what the bet type keeps beyond the prediction.
+ */
+export function getSatamatkaGameData(user: Pick<User, 'assignedTo'>, bet: PlacedBet) {
+  return {
+    assignedSubadminId: user.assignedTo || null,
+    ...(bet.gameData as object | undefined),
+  };
+}
+
+// Fingerprint of what was asked for, excluding server-side outcomes such as
+// the coin flip result which differ between attempts
+function hashBets(bets: BetInput[]) {
+  const summary = bets.map(bet => [bet.gameType, bet.betAmount, bet.prediction, bet.marketId ?? null, bet.matchId ?? null, bet.gameMode ?? null, bet.session ?? null]);
+  return crypto.createHash('sha256').update(JSON.stringify(summary)).digest('hex');
+}
+
+/**
+ * Place one or more bets for a user. The user row is locked for the whole
+ * transaction, so the balance check, the debit and the games rows are
+ * committed together or not at all, and concurrent bets from the same user
+ * are applied one after the other.
+ *
+ * When an idempotency key is given and a request with that key has already
+ * been placed, the original games are returned and nothing is debited.
+ */
+export async function placeBets(input: PlaceBetsInput): Promise<PlaceBetsResult> {
+  const { userId, endpoint, idempotencyKey, bets } = input;
+
+  if (bets.length === 0) {
+    throw new BetPlacementError('No bets to place');
+  }
+  if (bets.some(bet => !Number.isInteger(bet.betAmount) || bet.betAmount <= 0)) {
+    throw new BetPlacementError('Invalid bet amount');
+  }
+
+  const requestHash = hashBets(bets);
+
+  return db.transaction(async (tx) => {
+    const [user] = await tx.select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .for('update')
+      .limit(1);
+
+    if (!user) {
+      throw new BetPlacementError('User not found', 404);
+    }
+    if (user.isBlocked) {
+      throw new BetPlacementError('Your account is blocked', 403);
+    }
+    if (await getActiveSelfExclusion(userId, tx)) {
+      throw new BetPlacementError('You are on a break from playing', 403);
+    }
+
+    if (idempotencyKey) {
+      const [previous] = await tx.select()
+        .from(betRequests)
+        .where(and(eq(betRequests.userId, userId), eq(betRequests.idempotencyKey, idempotencyKey)))
+        .limit(1);
+
+      if (previous) {
+        if (previous.endpoint !== endpoint || previous.requestHash !== requestHash) {
+          throw new BetPlacementError('Idempotency-Key was already used for a different bet', 422);
+        }
+
+        const placedGames = previous.gameIds.length > 0
+          ? await tx.select().from(games).where(inArray(games.id, previous.gameIds)).orderBy(games.id)
+          : [];
+
+        return { games: placedGames, user, balance: user.balance, replayed: true };
+      }
+    }
+
+    const totalAmount = bets.reduce((sum, bet) => sum + bet.betAmount, 0);
+    if (user.balance < totalAmount) {
+      throw new BetPlacementError('Insufficient balance');
+    }
+    const limitProblem = await betLimitProblem(userId, totalAmount, tx);
+    if (limitProblem) {
+      throw new BetPlacementError(limitProblem, 403);
+    }
+
+    const placedGames: Game[] = [];
+    let balance = user.balance;
+
+    for (const bet of bets) {
+      const payout = bet.payout ?? 0;
+
+      const [createdGame] = await tx.insert(games).values({
+        userId,
+        gameType: bet.gameType,
+        betAmount: bet.betAmount,
+        prediction: bet.prediction,
+        result: bet.result ?? null,
+        payout,
+        marketId: bet.marketId,
+        matchId: bet.matchId,
+        gameMode: bet.gameMode,
+        gameData: bet.gameData,
+        session: bet.session ?? null,
+      }).returning();
+
+      balance = await postUserBalanceChange({
+        userId,
+        amount: -bet.betAmount,
+        house: HouseAccount.GAMES,
+        entryType: LedgerEntryType.BET,
+        description: bet.description,
+        referenceType: 'game',
+        referenceId: createdGame.id,
+      }, tx);
+
+      if (bet.creditPayout && payout > 0) {
+        balance = await postUserBalanceChange({
+          userId,
+          amount: payout,
+          house: HouseAccount.GAMES,
+          entryType: LedgerEntryType.PAYOUT,
+          description: bet.payoutDescription ?? bet.description,
+          referenceType: 'game',
+          referenceId: createdGame.id,
+        }, tx);
+      }
+
+      // Track the balance after each bet
+      const [game] = await tx.update(games)
+        .set({ balanceAfter: balance })
+        .where(eq(games.id, createdGame.id))
+        .returning();
+
+      placedGames.push(game);
+    }
+
+    if (idempotencyKey) {
+      await tx.insert(betRequests).values({
+        userId,
+        idempotencyKey,
+        endpoint,
+        requestHash,
+        gameIds: placedGames.map(game => game.id),
+        balanceAfter: balance,
+      });
+    }
+
+    return { games: placedGames, user: { ...user, balance }, balance, replayed: false };
+  });
+}
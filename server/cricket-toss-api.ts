@@ -7,10 +7,19 @@ import {
   users, 
   games, 
   teamMatches,
+  HouseAccount,
+  LedgerEntryType,
+  Permission,
+  AuditAction,
   type TeamMatch
 } from "../shared/schema";
-import { eq, and, desc } from "drizzle-orm";
-import { requireRole } from "./auth";
+import { eq, and, desc, isNull } from "drizzle-orm";
+import { requirePermission } from "./permissions";
+import { recordAuditEvent } from "./audit";
+import { requireStepUp } from "./two-factor";
+import { postUserBalanceChange, LedgerError } from "./ledger";
+import { placeBets, getIdempotencyKey, BetPlacementError } from "./bet-placement";
+import { positivePaisaSchema, rupeesToPaisa } from "@shared/money";
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
@@ -67,14 +76,20 @@ const createCricketTossMatchSchema = z.object({
 });
 
 // Schema for placing a bet
+// Bet amounts are in paisa
 const placeBetSchema = z.object({
   matchId: z.number(),
-  betAmount: z.number().positive("Bet amount must be positive"),
+  betAmount: positivePaisaSchema,
   prediction: z.enum(["team_a", "team_b"], { 
     errorMap: () => ({ message: "Prediction must be either team_a or team_b" })
   }),
 });
 
+// Bets placed from the match page, with the match in the URL
+const playSchema = placeBetSchema.omit({ matchId: true }).extend({
+  betAmount: positivePaisaSchema.refine(amount => amount >= rupeesToPaisa(10), "Bet amount must be at least ₹10"),
+});
+
 // Schema for declaring a result
 const declareResultSchema = z.object({
   result: z.enum(["team_a", "team_b"], { 
@@ -83,7 +98,7 @@ const declareResultSchema = z.object({
 });
 
 // Get all cricket toss matches
-router.get("/matches", requireRole(["admin", "subadmin"]), async (req, res) => {
+router.get("/matches", requirePermission(Permission.CRICKET_TOSS_MANAGE), async (req, res) => {
   try {
     const matches = await db.select()
       .from(teamMatches)
@@ -119,7 +134,7 @@ router.get("/open-matches", async (req, res) => {
 });
 
 // Get cricket match betting statistics
-router.get("/match-stats", requireRole(["admin", "subadmin"]), async (req, res) => {
+router.get("/match-stats", requirePermission(Permission.REPORTS_VIEW), async (req, res) => {
   try {
     const matches = await db.select()
       .from(teamMatches)
@@ -169,7 +184,7 @@ router.get("/match-stats", requireRole(["admin", "subadmin"]), async (req, res)
 });
 
 // Update an existing cricket toss match
-router.put("/matches/:id", requireRole(["admin", "subadmin"]), upload.single('coverImage'), async (req, res) => {
+router.put("/matches/:id", requirePermission(Permission.CRICKET_TOSS_MANAGE), upload.single('coverImage'), async (req, res) => {
   try {
     const matchId = parseInt(req.params.id);
     if (isNaN(matchId)) {
@@ -244,7 +259,7 @@ router.put("/matches/:id", requireRole(["admin", "subadmin"]), upload.single('co
 });
 
 // Create a new cricket toss match
-router.post("/matches", requireRole(["admin", "subadmin"]), upload.single('coverImage'), async (req, res) => {
+router.post("/matches", requirePermission(Permission.CRICKET_TOSS_MANAGE), upload.single('coverImage'), async (req, res) => {
   try {
     // Handle form-data
     const teamA = req.body.teamA;
@@ -306,7 +321,7 @@ router.post("/matches", requireRole(["admin", "subadmin"]), upload.single('cover
 });
 
 // Close betting for a match
-router.post("/matches/:id/close", requireRole(["admin", "subadmin"]), async (req, res) => {
+router.post("/matches/:id/close", requirePermission(Permission.CRICKET_TOSS_MANAGE), async (req, res) => {
   try {
     const matchId = parseInt(req.params.id);
     if (isNaN(matchId)) {
@@ -345,7 +360,7 @@ router.post("/matches/:id/close", requireRole(["admin", "subadmin"]), async (req
 });
 
 // Declare result for a match
-router.post("/matches/:id/result", requireRole(["admin", "subadmin"]), async (req, res) => {
+router.post("/matches/:id/result", requirePermission(Permission.CRICKET_TOSS_DECLARE_RESULT), requireStepUp, async (req, res) => {
   try {
     const matchId = parseInt(req.params.id);
     if (isNaN(matchId)) {
@@ -374,69 +389,87 @@ router.post("/matches/:id/result", requireRole(["admin", "subadmin"]), async (re
     
     const matchData = match[0];
     
-    // Update the match with the result
+    // Update the match with the result. Only one of two concurrent
+    // declarations finds the match still closed.
     const updatedMatch = await db.update(teamMatches)
       .set({ 
         status: "resulted",
         result: validatedData.result
       })
-      .where(eq(teamMatches.id, matchId))
+      .where(and(eq(teamMatches.id, matchId), eq(teamMatches.status, "closed")))
       .returning();
+    if (updatedMatch.length === 0) {
+      return res.status(409).json({ message: "The result of this match has already been declared" });
+    }
+    await recordAuditEvent(req, {
+      action: AuditAction.MATCH_DECLARE_RESULT,
+      targetType: "match",
+      targetId: matchId,
+      before: { status: matchData.status, result: matchData.result },
+      after: { status: "resulted", result: validatedData.result },
+    });
     
     // Process all bets for this match
-    const bets = await db.select()
+    const bets = await db.select({ id: games.id })
       .from(games)
       .where(
         and(
           eq(games.matchId, matchId),
-          eq(games.gameType, GameType.CRICKET_TOSS)
-          // We'll filter unresolved bets after the query
+          eq(games.gameType, GameType.CRICKET_TOSS),
+          isNull(games.result)
         )
       );
     
-    // For each bet, determine win/loss and update user balance
-    for (const bet of bets) {
-      // Skip bets that already have a result
-      if (bet.result !== null) continue;
-      
-      let payout = 0;
-      const win = bet.prediction === validatedData.result;
-      
-      if (win) {
-        // Calculate payout based on which team was predicted
-        const odds = bet.prediction === "team_a" ? matchData.oddTeamA : matchData.oddTeamB;
-        payout = Math.floor(bet.betAmount * (odds / 100));
-      }
-      
-      // Get current user balance
-      const userResult = await db.select({ balance: users.balance })
-        .from(users)
-        .where(eq(users.id, bet.userId))
-        .limit(1);
-      
-      if (userResult.length === 0) {
-        console.error(`User ${bet.userId} not found when processing bet ${bet.id}`);
-        continue;
-      }
-      
-      const currentBalance = userResult[0].balance;
-      const newBalance = currentBalance + payout;
-      
-      // Update user balance
-      if (payout > 0) {
-        await db.update(users)
-          .set({ balance: newBalance })
-          .where(eq(users.id, bet.userId));
-      }
-      
-      // Update bet with result and payout
-      await db.update(games)
-        .set({
-          result: validatedData.result,
-          payout: payout,
-          balanceAfter: newBalance
-        })
-        .where(eq(games.id, bet.id));
+    // Settle each bet in its own transaction, re-reading it under a lock so
+    // a bet is never paid twice
+    for (const { id } of bets) {
+      await db.transaction(async (tx) => {
+        const [bet] = await tx.select()
+          .from(games)
+          .where(eq(games.id, id))
+          .for('update')
+          .limit(1);
+        if (!bet || bet.result !== null) return;
+        
+        let payout = 0;
+        if (bet.prediction === validatedData.result) {
+          // Calculate payout based on which team was predicted
+          const odds = bet.prediction === "team_a" ? matchData.oddTeamA : matchData.oddTeamB;
+          payout = Math.floor(bet.betAmount * (odds / 100));
+        }
+        
+        const [user] = await tx.select({ balance: users.balance })
+          .from(users)
+          .where(eq(users.id, bet.userId))
+          .limit(1);
+        if (!user) {
+          console.error(`User ${bet.userId} not found when processing bet ${bet.id}`);
+          return;
+        }
+        let newBalance = user.balance;
+        
+        // Credit winnings to the user through the ledger
+        if (payout > 0) {
+          newBalance = await postUserBalanceChange({
+            userId: bet.userId,
+            amount: payout,
+            house: HouseAccount.GAMES,
+            entryType: LedgerEntryType.PAYOUT,
+            description: `Cricket toss win: ${matchData.teamA} vs ${matchData.teamB}`,
+            referenceType: 'game',
+            referenceId: String(bet.id),
+          }, tx);
+        }
+        
+        // Update bet with result and payout
+        await tx.update(games)
+          .set({
+            result: validatedData.result,
+            payout: payout,
+            balanceAfter: newBalance
+          })
+          .where(eq(games.id, bet.id));
+      });
     }
     
     res.json({
@@ -483,42 +516,18 @@ router.post("/bet", async (req, res) => {
     
     const matchData = match[0] as TeamMatch;
     
-    // Check if the user has enough balance
-    const userResult = await db.select({ balance: users.balance })
-      .from(users)
-      .where(eq(users.id, req.user.id))
-      .limit(1);
-    
-    if (userResult.length === 0) {
-      return res.status(404).json({ message: "User not found" });
-    }
-    
-    const currentBalance = userResult[0].balance;
-    
-    if (currentBalance < validatedData.betAmount) {
-      return res.status(400).json({ 
-        message: "Insufficient balance to place this bet" 
-      });
-    }
+    // The balance is checked when the bet is placed
+    const idempotencyKey = getIdempotencyKey(req);
     
     // Calculate potential payout
     const odds = validatedData.prediction === "team_a" 
       ? matchData.oddTeamA 
       : matchData.oddTeamB;
     
-    // Ensure bet amount is a number and correctly scaled
-    // Convert to paisa (multiply by 100) as the system stores amounts in paisa
-    const betAmount = parseInt(validatedData.betAmount.toString()) * 100;
+    const betAmount = validatedData.betAmount;
     
     const potentialWin = Math.floor(betAmount * (odds / 100));
     
-    // Deduct bet amount from user balance
-    const newBalance = currentBalance - betAmount;
-    
-    await db.update(users)
-      .set({ balance: newBalance })
-      .where(eq(users.id, req.user.id));
-    
     // Create the bet record
     const gameData = {
       teamA: matchData.teamA,
@@ -531,17 +540,22 @@ router.post("/bet", async (req, res) => {
       status: matchData.status,
     };
     
-    const createdBet = await db.insert(games)
-      .values({
-        userId: req.user.id,
+    // Record the bet and deduct the stake from the user's balance in one transaction
+    const placement = await placeBets({
+      userId: req.user.id,
+      endpoint: "/api/cricket-toss/bet",
+      idempotencyKey,
+      bets: [{
         gameType: GameType.CRICKET_TOSS,
         matchId: validatedData.matchId,
         betAmount: betAmount,
         prediction: validatedData.prediction,
         gameData: gameData,
-        balanceAfter: newBalance,
-      })
-      .returning();
+        description: `Cricket toss bet: ${matchData.teamA} vs ${matchData.teamB}`,
+      }],
+    });
+    const createdBet = placement.games;
+    const newBalance = placement.balance;
     
     res.status(201).json({
       bet: createdBet[0],
@@ -551,6 +565,8 @@ router.post("/bet", async (req, res) => {
   } catch (error) {
     if (error instanceof z.ZodError) {
       res.status(400).json({ message: error.errors[0].message });
+    } else if (error instanceof BetPlacementError || error instanceof LedgerError) {
+      res.status(error.status).json({ message: error.message });
     } else {
       console.error("Error placing cricket toss bet:", error);
       res.status(500).json({ message: "Failed to place bet" });
@@ -596,52 +612,11 @@ router.post("/:id/play", async (req, res) => {
       return res.status(400).json({ message: "Invalid match ID" });
     }
     
-    // Log the request body and headers for debugging
-    console.log("Cricket toss play request:", {
-      body: req.body,
-      headers: req.headers,
-      contentType: req.headers['content-type']
-    });
-    
-    // For simplicity, extract data directly from the request
-    // This bypasses the schema validation temporarily until we understand the data format
-    let betAmount = 0;
-    let betOn = "";
-    
-    // Try to extract values from the request body based on different possible formats
-    if (req.body) {
-      if (typeof req.body === 'string') {
-        try {
-          // Try to parse JSON string
-          const parsedBody = JSON.parse(req.body);
-          betAmount = parsedBody.betAmount || parsedBody.amount || 0;
-          betOn = parsedBody.betOn || parsedBody.prediction || "";
-        } catch (e) {
-          console.error("Error parsing JSON body:", e);
-          // Handle form-urlencoded format
-          const params = new URLSearchParams(req.body);
-          betAmount = parseInt(params.get('betAmount') || params.get('amount') || '0');
-          betOn = params.get('betOn') || params.get('prediction') || '';
-        }
-      } else {
-        // Object format
-        betAmount = parseInt(req.body.betAmount) || parseInt(req.body.amount) || 0;
-        betOn = req.body.betOn || req.body.prediction || "";
-      }
+    const parsed = playSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
     }
-    
-    // Simple validation
-    if (!betAmount || betAmount < 10) {
-      return res.status(400).json({ message: "Bet amount must be at least 10" });
-    }
-    
-    if (!betOn || (betOn !== "team_a" && betOn !== "team_b" && betOn !== "TeamA" && betOn !== "TeamB")) {
-      return res.status(400).json({ message: "Invalid team selection" });
-    }
-    
-    // Normalize betOn value
-    if (betOn === "TeamA") betOn = "team_a";
-    if (betOn === "TeamB") betOn = "team_b";
+    const { betAmount, prediction: betOn } = parsed.data;
     
     // Check if the match exists and is open for betting
     const match = await db.select()
@@ -663,42 +638,16 @@ router.post("/:id/play", async (req, res) => {
     
     const matchData = match[0] as TeamMatch;
     
-    // Check if the user has enough balance
-    const userResult = await db.select({ balance: users.balance })
-      .from(users)
-      .where(eq(users.id, req.user.id))
-      .limit(1);
-    
-    if (userResult.length === 0) {
-      return res.status(404).json({ message: "User not found" });
-    }
-    
-    const currentBalance = userResult[0].balance;
-    
-    if (currentBalance < betAmount) {
-      return res.status(400).json({ 
-        message: "Insufficient balance to place this bet" 
-      });
-    }
+    // The balance is checked when the bet is placed
+    const idempotencyKey = getIdempotencyKey(req);
     
     // Calculate potential payout
     const odds = betOn === "team_a" 
       ? matchData.oddTeamA 
       : matchData.oddTeamB;
     
-    // Ensure bet amount is a number and correctly scaled
-    // Convert to paisa (multiply by 100) as the system stores amounts in paisa
-    betAmount = parseInt(betAmount.toString()) * 100;
-    
     const potentialWin = Math.floor(betAmount * (odds / 100));
     
-    // Deduct bet amount from user balance
-    const newBalance = currentBalance - betAmount;
-    
-    await db.update(users)
-      .set({ balance: newBalance })
-      .where(eq(users.id, req.user.id));
-    
     // Create the bet record
     const gameData = {
       teamA: matchData.teamA,
@@ -711,17 +660,22 @@ router.post("/:id/play", async (req, res) => {
       status: matchData.status,
     };
     
-    const createdBet = await db.insert(games)
-      .values({
-        userId: req.user.id,
+    // Record the bet and deduct the stake from the user's balance in one transaction
+    const placement = await placeBets({
+      userId: req.user.id,
+      endpoint: `/api/cricket-toss/${matchId}/play`,
+      idempotencyKey,
+      bets: [{
         gameType: GameType.CRICKET_TOSS,
         matchId: matchId,
         betAmount: betAmount,
         prediction: betOn,
         gameData: gameData,
-        balanceAfter: newBalance,
-      })
-      .returning();
+        description: `Cricket toss bet: ${matchData.teamA} vs ${matchData.teamB}`,
+      }],
+    });
+    const createdBet = placement.games;
+    const newBalance = placement.balance;
     
     res.status(200).json({
       game: createdBet[0],
@@ -734,6 +688,8 @@ router.post("/:id/play", async (req, res) => {
   } catch (error) {
     if (error instanceof z.ZodError) {
       res.status(400).json({ message: error.errors[0].message });
+    } else if (error instanceof BetPlacementError || error instanceof LedgerError) {
+      res.status(error.status).json({ message: error.message });
     } else {
       console.error("Error placing cricket toss bet:", error);
       res.status(500).json({ message: "Failed to place bet" });
@@ -742,7 +698,7 @@ router.post("/:id/play", async (req, res) => {
 });
 
 // Get all bets for a specific match (admin/subadmin only)
-router.get("/bets/:matchId", requireRole(["admin", "subadmin"]), async (req, res) => {
+router.get("/bets/:matchId", requirePermission(Permission.REPORTS_VIEW), async (req, res) => {
   try {
     const matchId = parseInt(req.params.matchId);
     if (isNaN(matchId)) {
@@ -0,0 +1,120 @@
+import express from 'express';
+import { db } from './db';
+import { dataMigrations, Permission, UserRole } from '@shared/schema';
+import { requirePermission } from './permissions';
+import type { DbTransaction } from './ledger';
+import { desc, eq, sql } from 'drizzle-orm';
+
+// One-off fixes to existing rows. They run at startup, before any request is
+// served, since the code that reads the rows already expects them fixed. A
+// migration's name is recorded in the same transaction as its changes, so it
+// runs exactly once, with a report of what it changed and what the checks
+// made afterwards found.
+
+type DataMigrationSpec = {
+  name: string;
+  run: (tx: DbTransaction) => Promise<Record<string, unknown>>;
+};
+
+type Executor = typeof db | DbTransaction;
+
+/**
+ * Check wallet request amounts against the paisa recorded elsewhere for the
+ * same request: the hold on a withdrawal and the transaction of an approved
+ * request. Returns the ids of requests that disagree.
+ */
+export async function verifyWalletRequestAmounts(executor: Executor = db) {
+  const heldAmount = await executor.execute(sql`
+    SELECT id FROM wallet_requests
+    WHERE held_amount IS NOT NULL AND held_amount <> amount
+    ORDER BY id
+  `);
+  const transaction = await executor.execute(sql`
+    SELECT DISTINCT r.id FROM wallet_requests r
+    JOIN transactions t ON t.request_id = r.id
+    WHERE r.status = 'approved' AND abs(t.amount) <> r.amount
+    ORDER BY r.id
+  `);
+
+  return {
+    heldAmountMismatches: heldAmount.rows.map(row => Number(row.id)),
+    transactionMismatches: transaction.rows.map(row => Number(row.id)),
+  };
+}
+
+async function walletRequestAmountsToPaisa(tx: DbTransaction) {
+  const requests = await tx.execute(sql`UPDATE wallet_requests SET amount = amount * 100`);
+  // Archived rows are restored as they were saved
+  const archived = await tx.execute(sql`
+    UPDATE archive_records
+    SET data = jsonb_set(data, '{amount}', to_jsonb((data->>'amount')::bigint * 100))
+    WHERE table_name = 'wallet_requests' AND data ? 'amount'
+  `);
+
+  return {
+    updatedRequests: requests.rowCount ?? 0,
+    updatedArchivedRequests: archived.rowCount ?? 0,
+    ...await verifyWalletRequestAmounts(tx),
+  };
+}
+
+// Subadmin templates saved while the cricket toss routes were guarded by the
+// team match permissions. Subadmins could only ever run cricket toss matches.
+async function subadminCricketTossPermissions(tx: DbTransaction) {
+  const result = await tx.execute(sql`
+    UPDATE role_permissions
+    SET permissions = (
+      SELECT coalesce(jsonb_agg(DISTINCT CASE value
+        WHEN ${Permission.MATCHES_MANAGE} THEN ${Permission.CRICKET_TOSS_MANAGE}
+        WHEN ${Permission.MATCHES_DECLARE_RESULT} THEN ${Permission.CRICKET_TOSS_DECLARE_RESULT}
+        ELSE value END), '[]'::jsonb)
+      FROM jsonb_array_elements_text(permissions) AS value
+    )
+    WHERE role = ${UserRole.SUBADMIN}
+      AND permissions ?| array[${Permission.MATCHES_MANAGE}, ${Permission.MATCHES_DECLARE_RESULT}]
+  `);
+
+  return { updatedRoles: result.rowCount ?? 0 };
+}
+
+const MIGRATIONS: DataMigrationSpec[] = [
+  // Wallet requests kept the rupees typed into the form; every other amount is paisa
+  { name: 'wallet-request-amounts-in-paisa', run: walletRequestAmountsToPaisa },
+  { name: 'subadmin-cricket-toss-permissions', run: subadminCricketTossPermissions },
+];
+
+export async function runDataMigrations() {
+  for (const migration of MIGRATIONS) {
+    const report = await db.transaction(async (tx) => {
+      // Another server starting at the same time waits here, then skips it
+      const [claimed] = await tx.insert(dataMigrations)
+        .values({ name: migration.name })
+        .onConflictDoNothing()
+        .returning();
+      if (!claimed) return null;
+
+      const report = await migration.run(tx);
+      await tx.update(dataMigrations).set({ report }).where(eq(dataMigrations.name, migration.name));
+      return report;
+    });
+
+    if (report) {
+      console.log(`Applied data migration ${migration.name}:`, JSON.stringify(report));
+    }
+  }
+}
+
+export function setupDataMigrationRoutes(app: express.Express) {
+  // Applied migrations with their reports, and the checks as they stand now
+  app.get('/api/admin/data-migrations', requirePermission(Permission.SYSTEM_MAINTENANCE), async (req, res, next) => {
+    try {
+      const migrations = await db.select().from(dataMigrations).orderBy(desc(dataMigrations.appliedAt));
+      res.json({
+        migrations,
+        checks: { walletRequests: await verifyWalletRequestAmounts() },
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+}
@@ -1,7 +1,9 @@
 import { db } from './db';
 import express, { Request, Response, NextFunction } from 'express';
-import { UserRole, depositCommissions, users, systemSettings } from '@shared/schema';
+import { UserRole, Permission, depositCommissions, users, systemSettings } from '@shared/schema';
 import { eq, and } from 'drizzle-orm';
+import { requirePermission, userParam, can } from './permissions';
+import { getAncestorAgentIds } from './agent-hierarchy';
 
 // Helper function to get deposit commission for a subadmin
 export async function getSubadminDepositCommission(subadminId: number): Promise<number> {
@@ -38,28 +40,41 @@ export async function getSubadminDepositCommission(subadminId: number): Promise<
   }
 }
 
+export type CommissionShare = {
+  agentId: number;
+  amount: number; // in paisa
+};
+
+/**
+ * Per-level split of the commission on an amount credited to an agent. Each
+ * agent above it keeps the difference between the rate of the agent directly
+ * below it and its own rate, nearest first. Rates only rise down the tree, so
+ * a level whose child is on the same rate keeps nothing.
+ */
+export async function getAncestorCommissionShares(agentId: number, amount: number): Promise<CommissionShare[]> {
+  const shares: CommissionShare[] = [];
+  let childRate = await getSubadminDepositCommission(agentId);
+
+  for (const ancestorId of await getAncestorAgentIds(agentId)) {
+    const rate = await getSubadminDepositCommission(ancestorId);
+    const share = Math.floor((amount * Math.max(childRate - rate, 0)) / 10000);
+    if (share > 0) {
+      shares.push({ agentId: ancestorId, amount: share });
+    }
+    childRate = rate;
+  }
+  return shares;
+}
+
 // Set up all deposit commission endpoints
 export function setupDepositCommissionEndpoints(app: express.Express) {
   // Additional endpoint to handle the specific API path for subadmin deposit commission
   // GET endpoint to retrieve a specific subadmin's deposit commission rate
-  app.get('/api/subadmin/:subadminId/deposit-commission', async (req: Request, res: Response, next: NextFunction) => {
+  // Only admins, the subadmin themselves or the agents above them can access their commission info
+  app.get('/api/subadmin/:subadminId/deposit-commission', requirePermission(Permission.COMMISSIONS_VIEW, { user: userParam('subadminId'), allowSelf: true }), async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: 'Unauthorized' });
-      }
-      
       const subadminId = parseInt(req.params.subadminId);
       
-      if (isNaN(subadminId)) {
-        return res.status(400).json({ message: 'Invalid subadmin ID' });
-      }
-      
-      // Only admins or the subadmin themselves can access their commission info
-      if (req.user?.role !== UserRole.ADMIN && 
-          (req.user?.role !== UserRole.SUBADMIN || req.user?.id !== subadminId)) {
-        return res.status(403).json({ message: 'Forbidden - Insufficient permissions' });
-      }
-      
       // Get commission rate using the helper function
       const commissionRate = await getSubadminDepositCommission(subadminId);
       
@@ -73,17 +88,9 @@ export function setupDepositCommissionEndpoints(app: express.Express) {
   });
   
   // POST endpoint to set/update a specific subadmin's deposit commission rate
-  app.post('/api/subadmin/:subadminId/deposit-commission', async (req: Request, res: Response, next: NextFunction) => {
+  // commissions.manage sets the commission of any subadmin, agents.manage that of the agents directly below
+  app.post('/api/subadmin/:subadminId/deposit-commission', requirePermission([Permission.COMMISSIONS_MANAGE, Permission.AGENTS_MANAGE], { user: userParam('subadminId') }), async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: 'Unauthorized' });
-      }
-      
-      // Only admin can set deposit commission
-      if (req.user?.role !== UserRole.ADMIN) {
-        return res.status(403).json({ message: 'Forbidden - Only admins can set deposit commission' });
-      }
-      
       const subadminId = parseInt(req.params.subadminId);
       const { commissionRate } = req.body;
       
@@ -103,6 +110,21 @@ export function setupDepositCommissionEndpoints(app: express.Express) {
         return res.status(404).json({ message: 'Subadmin not found' });
       }
       
+      if (!await can(req, Permission.COMMISSIONS_MANAGE)) {
+        if (userResult[0].assignedTo !== req.user!.id) {
+          return res.status(403).json({ message: 'Forbidden - You can only set the commission of agents directly below you' });
+        }
+        
+        // Rates can only rise down the tree: an agent never gets its children
+        // credit on better terms than its own
+        const parentRate = await getSubadminDepositCommission(req.user!.id);
+        if (commissionRate < parentRate) {
+          return res.status(400).json({ 
+            message: `Commission rate cannot be below your own rate of ${parentRate / 100}%` 
+          });
+        }
+      }
+      
       // Check if a commission already exists
       const existingCommission = await db.select()
         .from(depositCommissions)
@@ -177,17 +199,8 @@ export function setupDepositCommissionEndpoints(app: express.Express) {
   });
   
   // Admin endpoint to get all deposit commissions
-  app.get('/api/admin/deposit-commissions', async (req: Request, res: Response, next: NextFunction) => {
+  app.get('/api/admin/deposit-commissions', requirePermission(Permission.COMMISSIONS_MANAGE), async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: 'Unauthorized' });
-      }
-      
-      // Only admin can access this endpoint
-      if (req.user.role !== UserRole.ADMIN) {
-        return res.status(403).json({ message: 'Forbidden - Only admins can view all deposit commissions' });
-      }
-      
       // Get all subadmins with their deposit commissions
       const commissions = await db.select({
         commission: depositCommissions,
@@ -207,17 +220,8 @@ export function setupDepositCommissionEndpoints(app: express.Express) {
   });
   
   // GET endpoint to retrieve a specific subadmin's deposit commission rate
-  app.get('/api/admin/deposit-commissions/:subadminId', async (req: Request, res: Response, next: NextFunction) => {
+  app.get('/api/admin/deposit-commissions/:subadminId', requirePermission(Permission.COMMISSIONS_MANAGE), async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: 'Unauthorized' });
-      }
-      
-      // Only admin can access this endpoint
-      if (req.user?.role !== UserRole.ADMIN) {
-        return res.status(403).json({ message: 'Forbidden - Only admins can view deposit commissions' });
-      }
-      
       const subadminId = parseInt(req.params.subadminId);
       
       if (isNaN(subadminId)) {
@@ -255,17 +259,8 @@ export function setupDepositCommissionEndpoints(app: express.Express) {
   });
 
   // POST endpoint to set/update a deposit commission for a specific subadmin
-  app.post('/api/admin/deposit-commissions/:subadminId', async (req: Request, res: Response, next: NextFunction) => {
+  app.post('/api/admin/deposit-commissions/:subadminId', requirePermission(Permission.COMMISSIONS_MANAGE), async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: 'Unauthorized' });
-      }
-      
-      // Only admin can access this endpoint
-      if (req.user?.role !== UserRole.ADMIN) {
-        return res.status(403).json({ message: 'Forbidden - Only admins can manage deposit commissions' });
-      }
-      
       const subadminId = parseInt(req.params.subadminId);
       const { commissionRate } = req.body;
       
@@ -324,17 +319,8 @@ export function setupDepositCommissionEndpoints(app: express.Express) {
   });
   
   // Generic POST endpoint for deposit commission (using request body for subadmin ID)
-  app.post('/api/admin/deposit-commissions', async (req: Request, res: Response, next: NextFunction) => {
+  app.post('/api/admin/deposit-commissions', requirePermission(Permission.COMMISSIONS_MANAGE), async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: 'Unauthorized' });
-      }
-      
-      // Only admin can access this endpoint
-      if (req.user.role !== UserRole.ADMIN) {
-        return res.status(403).json({ message: 'Forbidden - Only admins can manage deposit commissions' });
-      }
-      
       const { subadminId, commissionRate } = req.body;
       
       if (!subadminId || typeof commissionRate !== 'number' || commissionRate < 0 || commissionRate > 10000) {
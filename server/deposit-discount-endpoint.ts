@@ -1,25 +1,17 @@
 import { Router } from 'express';
 import { storage } from './storage';
 import { z } from 'zod';
-import { UserRole } from '@shared/schema';
+import { UserRole, Permission } from '@shared/schema';
+import { requirePermission, userParam } from './permissions';
 
 const router = Router();
 
-// Middleware to check if user is a subadmin
-const isSubadmin = (req, res, next) => {
-  if (!req.user) {
-    return res.status(401).json({ error: 'Unauthorized' });
-  }
-  
-  if (req.user.role !== UserRole.SUBADMIN) {
-    return res.status(403).json({ error: 'Only subadmins can manage deposit discounts' });
-  }
-  
-  next();
-};
+// Discounts are managed by the agent that pays them, for players below it
+const canManageDiscounts = requirePermission(Permission.DISCOUNTS_MANAGE);
+const canManagePlayerDiscount = requirePermission(Permission.DISCOUNTS_MANAGE, { user: userParam('userId') });
 
 // Get deposit discount for a specific player
-router.get('/deposit-discount/:userId', isSubadmin, async (req, res) => {
+router.get('/deposit-discount/:userId', canManagePlayerDiscount, async (req, res) => {
   try {
     const userId = parseInt(req.params.userId);
     const subadminId = req.user.id;
@@ -37,7 +29,7 @@ router.get('/deposit-discount/:userId', isSubadmin, async (req, res) => {
 });
 
 // Set or update deposit discount for a player
-router.post('/deposit-discount/:userId', isSubadmin, async (req, res) => {
+router.post('/deposit-discount/:userId', canManagePlayerDiscount, async (req, res) => {
   try {
     const userId = parseInt(req.params.userId);
     const subadminId = req.user.id;
@@ -63,6 +55,7 @@ router.post('/deposit-discount/:userId', isSubadmin, async (req, res) => {
       return res.status(400).json({ error: 'User is not a player' });
     }
     
+    // The discount is paid by the agent transferring the funds, so only the player's own agent sets it
     if (player.assignedTo !== subadminId) {
       return res.status(403).json({ error: 'Player is not assigned to this subadmin' });
     }
@@ -76,7 +69,7 @@ router.post('/deposit-discount/:userId', isSubadmin, async (req, res) => {
 });
 
 // Get all deposit discounts for this subadmin's players
-router.get('/deposit-discounts', isSubadmin, async (req, res) => {
+router.get('/deposit-discounts', canManageDiscounts, async (req, res) => {
   try {
     const subadminId = req.user.id;
     
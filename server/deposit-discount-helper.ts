@@ -7,7 +7,7 @@ import { storage } from './storage';
  * Helper function to get player deposit discount from a subadmin
  * @param playerId The ID of the player
  * @param subadminId The ID of the subadmin
- * @returns Discount rate as an integer (0-10000)
+ * @returns Discount rate as a whole percentage (0-100)
  */
 export async function getPlayerDepositDiscount(playerId: number, subadminId: number): Promise<number> {
   try {
@@ -36,14 +36,14 @@ export async function getPlayerDepositDiscount(playerId: number, subadminId: num
 
 /**
  * Calculate the bonus amount based on deposit amount and discount rate
- * @param depositAmount The amount being deposited (in rupees)
- * @param discountRate The discount rate (0-100%)
- * @returns The bonus amount to add
+ * @param depositAmount The amount being deposited (in paisa)
+ * @param discountRate The discount rate as a whole percentage (0-100)
+ * @returns The bonus amount to add, in paisa
  */
 export function calculateDepositBonus(depositAmount: number, discountRate: number): number {
   if (discountRate <= 0) return 0;
   
   // Calculate bonus amount
-  // Example: 1000 rupees * 10% / 100 = 100 rupees
+  // Example: 100000 paisa (₹1000) * 10% / 100 = 10000 paisa (₹100)
   return Math.floor((depositAmount * discountRate) / 100);
 }
\ No newline at end of file
@@ -0,0 +1,179 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { db } from './db';
+import { archiveRecords, archives, walletRequests, ArchiveStatus, RequestType, RequestStatus } from '@shared/schema';
+import { and, eq, inArray, ne, sql } from 'drizzle-orm';
+
+// Checks that keep one bank payment from being credited twice: a UTR can back
+// a single deposit request, and reused proof screenshots are flagged for review.
+
+export type VerificationFlags = {
+  duplicateUtr: number[]; // Other requests carrying the same UTR
+  reusedProof: number[];  // Other requests with the same proof image
+  otherPlayer: boolean;   // One of those requests belongs to another player
+  missingUtr: boolean;
+  missingProof: boolean;
+  suspect: boolean;       // Any of the above
+};
+
+type VerifiableRequest = {
+  id: number;
+  userId: number;
+  requestType: string;
+  paymentDetails: unknown;
+  proofImageUrl?: string | null;
+  utrNumber?: string | null;
+  proofHash?: string | null;
+};
+
+const PROOF_URL_PREFIX = '/uploads/proofs/';
+const proofUploadsDir = path.join(process.cwd(), 'uploads', 'proofs');
+
+/**
+ * UTRs are compared without whitespace and case, as players copy them from
+ * different banking apps.
+ */
+export function normalizeUtr(value?: string | null): string | null {
+  const utr = value?.replace(/\s+/g, '').toUpperCase();
+  return utr || null;
+}
+
+// UTR of a deposit: the UTR number, or the transaction ID for UPI payments
+export function getDepositUtr(paymentDetails: unknown): string | null {
+  const details = (paymentDetails ?? {}) as { utrNumber?: string; transactionId?: string };
+  return normalizeUtr(details.utrNumber) ?? normalizeUtr(details.transactionId);
+}
+
+/**
+ * SHA-256 of an uploaded proof image. Returns null for images that are not
+ * in the proof uploads directory or can no longer be read.
+ */
+export async function fingerprintProof(proofImageUrl?: string | null): Promise<string | null> {
+  if (!proofImageUrl?.startsWith(PROOF_URL_PREFIX)) return null;
+
+  const fileName = path.basename(proofImageUrl);
+  try {
+    const image = await fs.readFile(path.join(proofUploadsDir, fileName));
+    return crypto.createHash('sha256').update(image).digest('hex');
+  } catch {
+    return null;
+  }
+}
+
+// UTR of a stored request, read from the payment details for requests made
+// before UTRs were stored in their own column
+const storedUtr = sql<string | null>`nullif(upper(regexp_replace(coalesce(
+  ${walletRequests.utrNumber},
+  ${walletRequests.paymentDetails}->>'utrNumber',
+  ${walletRequests.paymentDetails}->>'transactionId'
+), '\\s', '', 'g')), '')`;
+
+// The same for a wallet request kept in an archive, matching IDX_archive_records_utr
+const archivedUtr = sql<string | null>`nullif(upper(regexp_replace(coalesce(${archiveRecords.data}->>'utr_number', ${archiveRecords.data}->'payment_details'->>'utrNumber', ${archiveRecords.data}->'payment_details'->>'transactionId'), '\\s', '', 'g')), '')`;
+
+/**
+ * Wallet requests carrying any of the given (normalised) UTRs, whatever their
+ * status.
+ */
+export async function findRequestsByUtr(utrs: string[]) {
+  if (utrs.length === 0) return [];
+
+  return db.select({
+    id: walletRequests.id,
+    userId: walletRequests.userId,
+    status: walletRequests.status,
+    utr: storedUtr,
+  })
+    .from(walletRequests)
+    .where(sql`${storedUtr} in (${sql.join(utrs.map(utr => sql`${utr}`), sql`, `)})`);
+}
+
+/**
+ * Id of a deposit request that already claims the UTR, ignoring rejected
+ * requests. Requests moved into a period archive still hold their claim;
+ * the unique index only sees the live table.
+ */
+export async function findClaimedUtr(utr: string): Promise<number | undefined> {
+  const [claimed] = await db.select({ id: walletRequests.id })
+    .from(walletRequests)
+    .where(and(
+      sql`${storedUtr} = ${utr}`,
+      ne(walletRequests.status, RequestStatus.REJECTED),
+    ))
+    .limit(1);
+  if (claimed) return claimed.id;
+
+  const [archived] = await db.select({ id: archiveRecords.recordId })
+    .from(archiveRecords)
+    .innerJoin(archives, eq(archiveRecords.archiveId, archives.id))
+    .where(and(
+      sql`${archiveRecords.tableName} = 'wallet_requests'`,
+      sql`${archivedUtr} = ${utr}`,
+      sql`${archiveRecords.data}->>'status' <> ${RequestStatus.REJECTED}`,
+      eq(archives.status, ArchiveStatus.ARCHIVED),
+    ))
+    .limit(1);
+  return archived?.id;
+}
+
+// Unique violation of the UTR index, raised when two requests race for a UTR
+export function isUtrConflict(error: unknown): boolean {
+  const pgError = error as { code?: string; constraint?: string };
+  return pgError?.code === '23505' && pgError.constraint === 'IDX_wallet_requests_utr';
+}
+
+/**
+ * Duplicate and suspect flags for deposit requests, keyed by request id.
+ * Matches are looked up across all wallet requests, whatever their status.
+ */
+export async function getVerificationFlags(requests: VerifiableRequest[]): Promise<Map<number, VerificationFlags>> {
+  const deposits = requests.filter(request => request.requestType === RequestType.DEPOSIT);
+  const utrs = new Map(deposits.map(request => [request.id, normalizeUtr(request.utrNumber) ?? getDepositUtr(request.paymentDetails)]));
+
+  const utrValues = Array.from(new Set(Array.from(utrs.values()).filter((utr): utr is string => !!utr)));
+  const proofHashes = Array.from(new Set(deposits.map(request => request.proofHash).filter((hash): hash is string => !!hash)));
+
+  const utrMatches = await findRequestsByUtr(utrValues);
+
+  const proofMatches = proofHashes.length > 0
+    ? await db.select({ id: walletRequests.id, userId: walletRequests.userId, proofHash: walletRequests.proofHash })
+        .from(walletRequests)
+        .where(inArray(walletRequests.proofHash, proofHashes))
+    : [];
+
+  const flags = new Map<number, VerificationFlags>();
+  for (const request of deposits) {
+    const utr = utrs.get(request.id);
+    const sameUtr = utr ? utrMatches.filter(match => match.utr === utr && match.id !== request.id) : [];
+    const sameProof = request.proofHash
+      ? proofMatches.filter(match => match.proofHash === request.proofHash && match.id !== request.id)
+      : [];
+
+    const duplicateUtr = sameUtr.map(match => match.id);
+    const reusedProof = sameProof.map(match => match.id);
+    const otherPlayer = [...sameUtr, ...sameProof].some(match => match.userId !== request.userId);
+    const missingUtr = !utr;
+    const missingProof = !request.proofImageUrl;
+
+    flags.set(request.id, {
+      duplicateUtr,
+      reusedProof,
+      otherPlayer,
+      missingUtr,
+      missingProof,
+      suspect: duplicateUtr.length > 0 || reusedProof.length > 0 || missingUtr || missingProof,
+    });
+  }
+
+  return flags;
+}
+
+/**
+ * Attach verification flags to wallet requests for the review queue;
+ * withdrawals get `verification: null`.
+ */
+export async function withVerificationFlags<T extends VerifiableRequest>(requests: T[]) {
+  const flags = await getVerificationFlags(requests);
+  return requests.map(request => ({ ...request, verification: flags.get(request.id) ?? null }));
+}
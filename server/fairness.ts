@@ -0,0 +1,246 @@
+import express from 'express';
+import crypto from 'crypto';
+import { db } from './db';
+import {
+  Permission,
+  GameType,
+  GameOutcome,
+  games,
+  fairnessSeeds,
+  type FairnessProof,
+  type FairnessSeed,
+} from '@shared/schema';
+import { eq, and, sql } from 'drizzle-orm';
+import { can, canAccessUser } from './permissions';
+
+// Published odds of the provably fair coin flip: a roll below this is heads.
+// No per-player adjustment is applied on top.
+export const COIN_FLIP_HEADS_PROBABILITY = 0.5;
+
+const MAX_CLIENT_SEED_LENGTH = 64;
+
+/**
+ * Raised for invalid fairness requests. `status` is picked up by the global
+ * error handler.
+ */
+export class FairnessError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'FairnessError';
+    this.status = status;
+  }
+}
+
+export function hashServerSeed(serverSeed: string): string {
+  return crypto.createHash('sha256').update(serverSeed).digest('hex');
+}
+
+/**
+ * Roll in [0, 1) for one flip: the first 32 bits of
+ * HMAC-SHA256(serverSeed, "clientSeed:nonce").
+ */
+export function fairRoll(serverSeed: string, clientSeed: string, nonce: number): number {
+  const hmac = crypto.createHmac('sha256', serverSeed).update(`${clientSeed}:${nonce}`).digest();
+  return hmac.readUInt32BE(0) / 2 ** 32;
+}
+
+export function coinFlipOutcome(roll: number): string {
+  return roll < COIN_FLIP_HEADS_PROBABILITY ? GameOutcome.HEADS : GameOutcome.TAILS;
+}
+
+function randomSeed(bytes: number) {
+  return crypto.randomBytes(bytes).toString('hex');
+}
+
+// What the player may see of a seed: the server seed only once revealed
+function publicSeed(seed: FairnessSeed) {
+  return {
+    id: seed.id,
+    serverSeedHash: seed.serverSeedHash,
+    serverSeed: seed.revealedAt ? seed.serverSeed : null,
+    clientSeed: seed.clientSeed,
+    nonce: seed.nonce,
+    createdAt: seed.createdAt,
+    revealedAt: seed.revealedAt,
+  };
+}
+
+type Executor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
+// Returns undefined when the player already has an active seed pair
+async function createSeed(userId: number, clientSeed: string, executor: Executor = db): Promise<FairnessSeed | undefined> {
+  const serverSeed = randomSeed(32);
+  const [seed] = await executor.insert(fairnessSeeds)
+    .values({ userId, serverSeed, serverSeedHash: hashServerSeed(serverSeed), clientSeed })
+    .onConflictDoNothing()
+    .returning();
+  return seed;
+}
+
+async function findActiveSeed(userId: number): Promise<FairnessSeed | undefined> {
+  const [seed] = await db.select()
+    .from(fairnessSeeds)
+    .where(and(eq(fairnessSeeds.userId, userId), eq(fairnessSeeds.active, true)))
+    .limit(1);
+  return seed;
+}
+
+/**
+ * The player's active seed pair, created on first use.
+ */
+export async function getActiveSeed(userId: number): Promise<FairnessSeed> {
+  const seed = await findActiveSeed(userId)
+    ?? await createSeed(userId, randomSeed(8))
+    // Created by a concurrent request in the meantime
+    ?? await findActiveSeed(userId);
+
+  if (!seed) {
+    throw new Error(`Could not create a fairness seed for user ${userId}`);
+  }
+  return seed;
+}
+
+/**
+ * Draw the outcome of a coin flip from the player's active seed pair. The
+ * nonce is taken atomically, so concurrent flips never share one.
+ */
+export async function drawCoinFlip(userId: number): Promise<{ outcome: string; proof: FairnessProof }> {
+  await getActiveSeed(userId);
+
+  const [seed] = await db.update(fairnessSeeds)
+    .set({ nonce: sql`${fairnessSeeds.nonce} + 1` })
+    .where(and(eq(fairnessSeeds.userId, userId), eq(fairnessSeeds.active, true)))
+    .returning();
+
+  if (!seed) {
+    throw new FairnessError('Your seed was rotated while flipping, please flip again', 409);
+  }
+
+  const nonce = seed.nonce - 1;
+  const outcome = coinFlipOutcome(fairRoll(seed.serverSeed, seed.clientSeed, nonce));
+
+  return {
+    outcome,
+    proof: { seedId: seed.id, serverSeedHash: seed.serverSeedHash, clientSeed: seed.clientSeed, nonce },
+  };
+}
+
+/**
+ * Reveal the active server seed and commit to a new one, optionally with a
+ * new client seed. Flips made with the revealed seed can then be verified.
+ */
+export async function rotateSeed(userId: number, clientSeed?: string) {
+  if (clientSeed !== undefined) {
+    if (typeof clientSeed !== 'string' || !clientSeed.trim() || clientSeed.length > MAX_CLIENT_SEED_LENGTH) {
+      throw new FairnessError(`Client seed must be 1-${MAX_CLIENT_SEED_LENGTH} characters`);
+    }
+  }
+
+  return db.transaction(async (tx) => {
+    const [revealed] = await tx.update(fairnessSeeds)
+      .set({ active: false, revealedAt: new Date() })
+      .where(and(eq(fairnessSeeds.userId, userId), eq(fairnessSeeds.active, true)))
+      .returning();
+
+    const seed = await createSeed(userId, clientSeed?.trim() || randomSeed(8), tx);
+    if (!seed) {
+      throw new FairnessError('Seed was rotated by another request, please try again', 409);
+    }
+
+    return {
+      revealedSeed: revealed ? publicSeed(revealed) : null,
+      seed: publicSeed(seed),
+    };
+  });
+}
+
+export function setupFairnessRoutes(app: express.Express) {
+  // Current seed pair: the committed server seed hash, client seed and next nonce
+  app.get('/api/fairness/seed', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const seed = await getActiveSeed(req.user!.id);
+      res.json({ ...publicSeed(seed), headsProbability: COIN_FLIP_HEADS_PROBABILITY });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post('/api/fairness/rotate', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      res.json(await rotateSeed(req.user!.id, req.body.clientSeed));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Proof of a past coin flip, with its server seed once that is revealed
+  app.get('/api/fairness/games/:id', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const [game] = await db.select()
+        .from(games)
+        .where(and(eq(games.id, Number(req.params.id)), eq(games.gameType, GameType.COIN_FLIP)))
+        .limit(1);
+
+      const proof = (game?.gameData as { fairness?: FairnessProof } | null)?.fairness;
+      // Players see their own flips; others need reports.view and access to the player
+      const canView = game && (game.userId === req.user!.id
+        || (await can(req, Permission.REPORTS_VIEW) && await canAccessUser(req.user!, game.userId)));
+      if (!game || !canView) {
+        return res.status(404).json({ message: 'Coin flip not found' });
+      }
+      if (!proof) {
+        return res.status(404).json({ message: 'This coin flip was made before provably fair flips' });
+      }
+
+      const [seed] = await db.select()
+        .from(fairnessSeeds)
+        .where(eq(fairnessSeeds.id, proof.seedId))
+        .limit(1);
+
+      res.json({
+        gameId: game.id,
+        prediction: game.prediction,
+        result: game.result,
+        ...proof,
+        serverSeed: seed?.revealedAt ? seed.serverSeed : null,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Recompute a flip from its seeds; open to anyone
+  app.post('/api/fairness/verify', (req, res) => {
+    const { serverSeed, clientSeed } = req.body;
+    const nonce = Number(req.body.nonce);
+
+    if (typeof serverSeed !== 'string' || !serverSeed || typeof clientSeed !== 'string' || !clientSeed) {
+      return res.status(400).json({ message: 'Server seed and client seed are required' });
+    }
+    if (!Number.isInteger(nonce) || nonce < 0) {
+      return res.status(400).json({ message: 'Nonce must be a non-negative integer' });
+    }
+
+    const roll = fairRoll(serverSeed, clientSeed, nonce);
+    res.json({
+      serverSeedHash: hashServerSeed(serverSeed),
+      roll,
+      outcome: coinFlipOutcome(roll),
+      headsProbability: COIN_FLIP_HEADS_PROBABILITY,
+    });
+  });
+}
@@ -1,11 +1,11 @@
 import express from 'express';
-import { requireRole } from './auth';
-import { UserRole } from '../shared/schema';
+import { requirePermission } from './permissions';
+import { Permission } from '../shared/schema';
 import { fixCrossingBets } from './fix-crossing-bets';
 
 const router = express.Router();
 
 // Route to fix crossing bets for a specific market
-router.post('/fix-crossing-bets/:marketId', requireRole([UserRole.ADMIN]), fixCrossingBets);
+router.post('/fix-crossing-bets/:marketId', requirePermission(Permission.SYSTEM_MAINTENANCE), fixCrossingBets);
 
 export default router;
\ No newline at end of file
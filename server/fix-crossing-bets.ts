@@ -1,6 +1,7 @@
 import { db } from './db';
 import { eq, and, like } from 'drizzle-orm';
-import { games, users, SatamatkaGameMode } from '../shared/schema';
+import { games, users, SatamatkaGameMode, HouseAccount, LedgerEntryType } from '../shared/schema';
+import { postUserBalanceChange } from './ledger';
 
 // Endpoint to fix specific crossing bets that should be wins
 export async function fixCrossingBets(req: any, res: any) {
@@ -111,10 +112,15 @@ export async function fixCrossingBets(req: any, res: any) {
         // Update user balance
         const user = await db.select().from(users).where(eq(users.id, game.userId)).limit(1);
         if (user && user.length > 0) {
-          const newBalance = user[0].balance + payout;
-          await db.update(users)
-            .set({ balance: newBalance })
-            .where(eq(users.id, game.userId));
+          const newBalance = await postUserBalanceChange({
+            userId: game.userId,
+            amount: payout,
+            house: HouseAccount.GAMES,
+            entryType: LedgerEntryType.PAYOUT,
+            description: `Crossing bet correction for game #${game.id}`,
+            referenceType: 'game',
+            referenceId: String(game.id),
+          });
             
           console.log(`Updated user ${user[0].username} balance: ${user[0].balance/100} → ${newBalance/100}`);
         }
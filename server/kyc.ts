@@ -0,0 +1,364 @@
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { db } from './db';
+import { storage } from './storage';
+import {
+  kycDocuments,
+  users,
+  AuditAction,
+  KycDocumentType,
+  KycStatus,
+  Permission,
+  RequestStatus,
+  RequestType,
+  UserRole,
+  type KycDocument,
+  type KycStatusValue,
+} from '@shared/schema';
+import { DEFAULT_KYC_RULES, type KycRules } from '@shared/kyc';
+import { formatPaisa, paisaSchema } from '@shared/money';
+import { requirePermission, userParam, can, canAccessUser } from './permissions';
+import { getSubtreeUserIds } from './agent-hierarchy';
+import { recordAuditEvent } from './audit';
+import { kycUpload, kycUploadsDir } from './upload-routes';
+import type { DbTransaction } from './ledger';
+import { and, asc, desc, eq, inArray } from 'drizzle-orm';
+
+// Players verify their identity (KYC) by uploading documents, which admins
+// and agents with users.kyc_review approve or reject, agents only for the
+// users below them. Sending documents puts the player under review; a
+// review decides all of their pending documents. Configurable rules refuse
+// deposits and withdrawals above a threshold until the player is verified.
+
+const RULES_SETTING_TYPE = 'kyc';
+const RULES_SETTING_KEY = 'rules';
+
+type Executor = typeof db | DbTransaction;
+
+type KycQueueEntry = {
+  userId: number;
+  username: string;
+  submittedAt: Date; // Of the longest waiting document
+  documents: KycDocument[];
+};
+
+/**
+ * Raised for documents, reviews or rules that cannot be accepted. `status`
+ * is picked up by the global error handler.
+ */
+export class KycError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'KycError';
+    this.status = status;
+  }
+}
+
+const rulesSchema = z.object({
+  withdrawalThreshold: paisaSchema.refine(amount => amount >= 0, 'Thresholds cannot be negative').nullable(),
+  depositThreshold: paisaSchema.refine(amount => amount >= 0, 'Thresholds cannot be negative').nullable(),
+});
+
+const documentSchema = z.object({
+  documentType: z.enum([
+    KycDocumentType.AADHAAR,
+    KycDocumentType.PAN,
+    KycDocumentType.PASSPORT,
+    KycDocumentType.DRIVING_LICENCE,
+    KycDocumentType.VOTER_ID,
+  ], { errorMap: () => ({ message: 'Choose the type of document' }) }),
+  documentNumber: z.string().trim().max(50, 'Document number is too long').optional()
+    .transform(value => value || null),
+});
+
+const reviewSchema = z.discriminatedUnion('decision', [
+  z.object({ decision: z.literal('approve'), reason: z.string().trim().max(500).optional() }),
+  z.object({ decision: z.literal('reject'), reason: z.string().trim().min(1, 'Give the player a reason for the rejection').max(500) }),
+]);
+
+export async function getKycRules(): Promise<KycRules> {
+  const setting = await storage.getSystemSetting(RULES_SETTING_TYPE, RULES_SETTING_KEY);
+  if (!setting) return DEFAULT_KYC_RULES;
+
+  try {
+    return { ...DEFAULT_KYC_RULES, ...JSON.parse(setting.settingValue) };
+  } catch {
+    return DEFAULT_KYC_RULES;
+  }
+}
+
+export async function saveKycRules(input: unknown): Promise<KycRules> {
+  const parsed = rulesSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new KycError(parsed.error.errors[0].message);
+  }
+
+  await storage.upsertSystemSetting(RULES_SETTING_TYPE, RULES_SETTING_KEY, JSON.stringify(parsed.data));
+  return parsed.data;
+}
+
+/**
+ * Why a player's wallet request needs a verified identity first, or null
+ * when it does not. Agents and admins are never asked for documents.
+ */
+export async function walletKycProblem(userId: number, requestType: string, amount: number, executor: Executor = db): Promise<string | null> {
+  const rules = await getKycRules();
+  const threshold = requestType === RequestType.WITHDRAWAL ? rules.withdrawalThreshold
+    : requestType === RequestType.DEPOSIT ? rules.depositThreshold
+    : null;
+  if (threshold === null || amount <= threshold) return null;
+
+  const [user] = await executor.select({ role: users.role, kycStatus: users.kycStatus })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  if (!user || user.role !== UserRole.PLAYER || user.kycStatus === KycStatus.VERIFIED) return null;
+
+  const what = requestType === RequestType.WITHDRAWAL ? 'Withdrawals' : 'Deposits';
+  const over = threshold === 0 ? '' : ` over ${formatPaisa(threshold)}`;
+  return user.kycStatus === KycStatus.PENDING
+    ? `${what}${over} need a verified identity. Your documents are waiting for review.`
+    : `${what}${over} need a verified identity. Upload your documents on your profile page.`;
+}
+
+function removeUploadedFile(fileName: string) {
+  fs.promises.unlink(path.join(kycUploadsDir, fileName)).catch(() => {});
+}
+
+/**
+ * Add an uploaded document to the player's KYC and put them under review.
+ */
+export async function submitKycDocument(userId: number, file: Express.Multer.File, input: unknown): Promise<KycDocument> {
+  try {
+    const parsed = documentSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new KycError(parsed.error.errors[0].message);
+    }
+
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.select({ kycStatus: users.kycStatus })
+        .from(users)
+        .where(eq(users.id, userId))
+        .for('update');
+      if (user?.kycStatus === KycStatus.VERIFIED) {
+        throw new KycError('Your identity is already verified', 409);
+      }
+
+      const [document] = await tx.insert(kycDocuments).values({
+        userId,
+        documentType: parsed.data.documentType,
+        documentNumber: parsed.data.documentNumber,
+        fileName: file.filename,
+        originalName: file.originalname,
+        mimeType: file.mimetype,
+      }).returning();
+      await tx.update(users).set({ kycStatus: KycStatus.PENDING }).where(eq(users.id, userId));
+      return document;
+    });
+  } catch (error) {
+    removeUploadedFile(file.filename);
+    throw error;
+  }
+}
+
+/**
+ * Approve or reject every pending document of a player.
+ */
+export async function reviewKyc(userId: number, reviewerId: number, input: unknown) {
+  const parsed = reviewSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new KycError(parsed.error.errors[0].message);
+  }
+  const approved = parsed.data.decision === 'approve';
+
+  return db.transaction(async (tx) => {
+    const [user] = await tx.select({ kycStatus: users.kycStatus })
+      .from(users)
+      .where(eq(users.id, userId))
+      .for('update');
+    if (!user) {
+      throw new KycError('User not found', 404);
+    }
+
+    const reviewed = await tx.update(kycDocuments)
+      .set({
+        status: approved ? RequestStatus.APPROVED : RequestStatus.REJECTED,
+        reviewedBy: reviewerId,
+        reviewedAt: new Date(),
+        reviewReason: parsed.data.reason || null,
+      })
+      .where(and(eq(kycDocuments.userId, userId), eq(kycDocuments.status, RequestStatus.PENDING)))
+      .returning();
+    if (reviewed.length === 0) {
+      throw new KycError('This player has no documents waiting for review', 409);
+    }
+
+    const kycStatus: KycStatusValue = approved ? KycStatus.VERIFIED : KycStatus.REJECTED;
+    await tx.update(users).set({ kycStatus }).where(eq(users.id, userId));
+    return { before: user.kycStatus, after: kycStatus, reason: parsed.data.reason || null, documents: reviewed };
+  });
+}
+
+/**
+ * Players with documents waiting for review, longest waiting first. Agents
+ * see only the players below them.
+ */
+async function getKycQueue(actor: { id: number; role: string }): Promise<KycQueueEntry[]> {
+  const scope = actor.role === UserRole.ADMIN ? null : await getSubtreeUserIds(actor.id);
+  if (scope?.length === 0) return [];
+
+  const rows = await db.select({ document: kycDocuments, username: users.username })
+    .from(kycDocuments)
+    .innerJoin(users, eq(kycDocuments.userId, users.id))
+    .where(and(
+      eq(kycDocuments.status, RequestStatus.PENDING),
+      scope ? inArray(kycDocuments.userId, scope) : undefined,
+    ))
+    .orderBy(asc(kycDocuments.createdAt));
+
+  const queue = new Map<number, KycQueueEntry>();
+  for (const { document, username } of rows) {
+    const entry: KycQueueEntry = queue.get(document.userId)
+      ?? { userId: document.userId, username, submittedAt: document.createdAt, documents: [] };
+    entry.documents.push(document);
+    queue.set(document.userId, entry);
+  }
+  return Array.from(queue.values());
+}
+
+async function getUserKyc(userId: number) {
+  const [user] = await db.select({ kycStatus: users.kycStatus }).from(users).where(eq(users.id, userId)).limit(1);
+  const documents = await db.select()
+    .from(kycDocuments)
+    .where(eq(kycDocuments.userId, userId))
+    .orderBy(desc(kycDocuments.createdAt));
+  return { status: user?.kycStatus ?? KycStatus.UNVERIFIED, documents };
+}
+
+// Upload errors, e.g. a file that is too large, are the player's to fix
+function receiveDocument(req: express.Request, res: express.Response, next: express.NextFunction) {
+  kycUpload.single('document')(req, res, (err: unknown) => {
+    next(err ? new KycError(err instanceof Error ? err.message : 'File upload failed') : undefined);
+  });
+}
+
+export function setupKycRoutes(app: express.Express) {
+  app.get('/api/kyc', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      res.json({ ...await getUserKyc(req.user.id), rules: await getKycRules() });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post('/api/kyc/documents', (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+    if (req.user.role !== UserRole.PLAYER) {
+      return res.status(403).json({ message: 'Only players verify their identity' });
+    }
+    next();
+  }, receiveDocument, async (req, res, next) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: 'No file uploaded' });
+      }
+      const document = await submitKycDocument(req.user!.id, req.file, req.body);
+      res.status(201).json(document);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // The file of a document, for the player who sent it and their reviewers
+  app.get('/api/kyc/documents/:id/file', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const [document] = await db.select()
+        .from(kycDocuments)
+        .where(eq(kycDocuments.id, Number(req.params.id)))
+        .limit(1);
+      if (!document) {
+        return res.status(404).json({ message: 'Document not found' });
+      }
+      if (document.userId !== req.user.id
+        && !(await can(req, Permission.USERS_KYC_REVIEW) && await canAccessUser(req.user, document.userId))) {
+        return res.status(403).json({ message: "You don't have permission to view this document" });
+      }
+
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.type(document.mimeType);
+      res.sendFile(path.join(kycUploadsDir, document.fileName), (err) => {
+        if (err && !res.headersSent) res.status(404).json({ message: 'Document file not found' });
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get('/api/kyc/queue', requirePermission(Permission.USERS_KYC_REVIEW), async (req, res, next) => {
+    try {
+      res.json(await getKycQueue(req.user!));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get('/api/kyc/rules', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      res.json(await getKycRules());
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.put('/api/kyc/rules', requirePermission(Permission.SETTINGS_MANAGE), async (req, res, next) => {
+    try {
+      res.json(await saveKycRules(req.body));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get('/api/users/:id/kyc', requirePermission([Permission.USERS_VIEW, Permission.USERS_KYC_REVIEW], { user: userParam('id') }), async (req, res, next) => {
+    try {
+      res.json(await getUserKyc(Number(req.params.id)));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post('/api/users/:id/kyc/review', requirePermission(Permission.USERS_KYC_REVIEW, { user: userParam('id') }), async (req, res, next) => {
+    try {
+      const userId = Number(req.params.id);
+      const review = await reviewKyc(userId, req.user!.id, req.body);
+
+      await recordAuditEvent(req, {
+        action: AuditAction.USER_KYC_REVIEW,
+        targetType: 'user',
+        targetId: userId,
+        targetUserId: userId,
+        before: { kycStatus: review.before },
+        after: { kycStatus: review.after, reason: review.reason, documentIds: review.documents.map(document => document.id) },
+      });
+
+      res.json(await getUserKyc(userId));
+    } catch (err) {
+      next(err);
+    }
+  });
+}
@@ -0,0 +1,520 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { db } from './db';
+import {
+  UserRole,
+  users,
+  Permission,
+  ledgerAccounts,
+  ledgerEntries,
+  ledgerPostings,
+  LedgerAccountType,
+  LedgerEntryType,
+  HouseAccount,
+  type HouseAccountCode,
+  type LedgerAccount,
+  type LedgerEntryTypeValue,
+} from '@shared/schema';
+import { requirePermission, can, canAccessUser } from './permissions';
+import { requireStepUp } from './two-factor';
+import { eq, and, desc, inArray, sql } from 'drizzle-orm';
+
+// A drizzle transaction handle, as passed to the db.transaction() callback
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// A posting target: either a user's wallet or one of the house accounts
+export type LedgerAccountRef = { userId: number } | { house: HouseAccountCode };
+
+export type LedgerPostingInput = {
+  account: LedgerAccountRef;
+  amount: number; // in paisa, positive credits the account, negative debits it
+};
+
+export type LedgerEntryInput = {
+  entryType: LedgerEntryTypeValue;
+  description?: string;
+  performedBy?: number | null;
+  referenceType?: string;
+  referenceId?: string | number;
+  postings: LedgerPostingInput[];
+  // Allow user wallets to go below zero (only used for corrections)
+  allowNegative?: boolean;
+};
+
+/**
+ * Raised when a ledger entry cannot be posted. `status` is picked up by the
+ * route handlers (and the global error handler) to answer with a 400.
+ */
+export class LedgerError extends Error {
+  status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+export const userAccount = (userId: number): LedgerAccountRef => ({ userId });
+export const houseAccount = (code: HouseAccountCode): LedgerAccountRef => ({ house: code });
+
+function accountTypeForRole(role: string) {
+  if (role === UserRole.ADMIN) return LedgerAccountType.PLATFORM;
+  if (role === UserRole.SUBADMIN) return LedgerAccountType.SUBADMIN;
+  return LedgerAccountType.PLAYER;
+}
+
+async function getOrCreateHouseAccount(tx: DbTransaction, code: HouseAccountCode): Promise<LedgerAccount> {
+  await tx.insert(ledgerAccounts)
+    .values({ code, accountType: LedgerAccountType.HOUSE })
+    .onConflictDoNothing();
+
+  const [account] = await tx.select()
+    .from(ledgerAccounts)
+    .where(eq(ledgerAccounts.code, code))
+    .limit(1);
+  return account;
+}
+
+/**
+ * Get the ledger account of a user, creating it on first use. When the user
+ * already has a balance from before the ledger existed, an opening balance
+ * entry is posted so that the account history explains the full balance.
+ */
+async function getOrCreateUserAccount(tx: DbTransaction, userId: number): Promise<LedgerAccount> {
+  const [existing] = await tx.select()
+    .from(ledgerAccounts)
+    .where(eq(ledgerAccounts.userId, userId))
+    .limit(1);
+  if (existing) return existing;
+
+  // Lock the user row so the opening balance cannot race with another posting
+  const [user] = await tx.select()
+    .from(users)
+    .where(eq(users.id, userId))
+    .for('update')
+    .limit(1);
+  if (!user) {
+    throw new LedgerError(`User ${userId} not found`);
+  }
+
+  const [created] = await tx.insert(ledgerAccounts)
+    .values({ code: `user:${userId}`, accountType: accountTypeForRole(user.role), userId })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!created) {
+    // Another transaction created the account first
+    const [account] = await tx.select()
+      .from(ledgerAccounts)
+      .where(eq(ledgerAccounts.userId, userId))
+      .limit(1);
+    return account;
+  }
+
+  if (user.balance !== 0) {
+    const adjustments = await getOrCreateHouseAccount(tx, HouseAccount.ADJUSTMENTS);
+    const [entry] = await tx.insert(ledgerEntries)
+      .values({
+        entryType: LedgerEntryType.OPENING_BALANCE,
+        description: `Opening balance for ${user.username}`,
+        referenceType: 'user',
+        referenceId: String(userId),
+      })
+      .returning();
+
+    await tx.insert(ledgerPostings).values([
+      { entryId: entry.id, accountId: created.id, amount: user.balance, balanceAfter: user.balance },
+      { entryId: entry.id, accountId: adjustments.id, amount: -user.balance },
+    ]);
+  }
+
+  return created;
+}
+
+async function postEntry(tx: DbTransaction, input: LedgerEntryInput) {
+  const postings = input.postings.filter(posting => posting.amount !== 0);
+
+  if (postings.some(posting => !Number.isInteger(posting.amount))) {
+    throw new LedgerError('Ledger amounts must be whole paisa');
+  }
+
+  const total = postings.reduce((sum, posting) => sum + posting.amount, 0);
+  if (total !== 0) {
+    throw new LedgerError(`Ledger entry does not balance (off by ${total})`);
+  }
+
+  const [entry] = await tx.insert(ledgerEntries)
+    .values({
+      entryType: input.entryType,
+      description: input.description ?? null,
+      performedBy: input.performedBy ?? null,
+      referenceType: input.referenceType ?? null,
+      referenceId: input.referenceId !== undefined ? String(input.referenceId) : null,
+    })
+    .returning();
+
+  // Resulting wallet balance per user touched by this entry
+  const balances: Record<number, number> = {};
+
+  for (const posting of postings) {
+    let accountId: number;
+    let balanceAfter: number | null = null;
+
+    if ('userId' in posting.account) {
+      const { userId } = posting.account;
+      const account = await getOrCreateUserAccount(tx, userId);
+      accountId = account.id;
+
+      // users.balance is the running projection of the account; update it in
+      // place so concurrent postings serialise on the row lock
+      const conditions = [eq(users.id, userId)];
+      if (!input.allowNegative && posting.amount < 0) {
+        conditions.push(sql`${users.balance} + ${posting.amount} >= 0`);
+      }
+
+      const [updated] = await tx.update(users)
+        .set({ balance: sql`${users.balance} + ${posting.amount}` })
+        .where(and(...conditions))
+        .returning({ balance: users.balance });
+
+      if (!updated) {
+        throw new LedgerError('Insufficient balance');
+      }
+
+      balanceAfter = updated.balance;
+      balances[userId] = updated.balance;
+    } else {
+      const account = await getOrCreateHouseAccount(tx, posting.account.house);
+      accountId = account.id;
+    }
+
+    await tx.insert(ledgerPostings).values({
+      entryId: entry.id,
+      accountId,
+      amount: posting.amount,
+      balanceAfter,
+    });
+  }
+
+  return { entry, balances };
+}
+
+/**
+ * Post a balanced ledger entry and apply it to the affected wallets.
+ * Pass `tx` to make the entry part of a wider database transaction;
+ * otherwise the entry runs in its own transaction.
+ */
+export async function postLedgerEntry(input: LedgerEntryInput, tx?: DbTransaction) {
+  if (tx) {
+    return postEntry(tx, input);
+  }
+  return db.transaction(async (ownTx) => postEntry(ownTx, input));
+}
+
+/**
+ * Record a change to a single user's balance against a house account
+ * (bets, payouts, deposits, withdrawals, corrections).
+ * Returns the user's balance after the change.
+ */
+export async function postUserBalanceChange(
+  params: {
+    userId: number;
+    amount: number;
+    house: HouseAccountCode;
+    entryType: LedgerEntryTypeValue;
+    description?: string;
+    performedBy?: number | null;
+    referenceType?: string;
+    referenceId?: string | number;
+    allowNegative?: boolean;
+  },
+  tx?: DbTransaction
+): Promise<number> {
+  const { userId, amount, house, ...rest } = params;
+
+  const { balances } = await postLedgerEntry({
+    ...rest,
+    postings: [
+      { account: userAccount(userId), amount },
+      { account: houseAccount(house), amount: -amount },
+    ],
+  }, tx);
+
+  if (balances[userId] === undefined) {
+    // Zero-amount change, nothing was posted
+    const [user] = await (tx ?? db).select({ balance: users.balance })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    return user?.balance ?? 0;
+  }
+
+  return balances[userId];
+}
+
+/**
+ * Bring a user's balance back to zero with an adjustment entry, used by the
+ * account and system reset tools instead of overwriting the balance
+ */
+export async function postBalanceReset(userId: number, description: string, performedBy: number | null, tx: DbTransaction) {
+  const [user] = await tx.select({ balance: users.balance })
+    .from(users)
+    .where(eq(users.id, userId))
+    .for('update')
+    .limit(1);
+
+  if (!user || user.balance === 0) return;
+
+  await postUserBalanceChange({
+    userId,
+    amount: -user.balance,
+    house: HouseAccount.ADJUSTMENTS,
+    entryType: LedgerEntryType.ADJUSTMENT,
+    description,
+    performedBy,
+    allowNegative: true,
+  }, tx);
+}
+
+export type CarriedForwardBalance = {
+  accountId: number;
+  amount: number; // in paisa
+  isUserAccount: boolean;
+};
+
+/**
+ * Post account balances as a single opening balance entry, leaving wallet
+ * balances alone. Used when a period's entries are archived: the new entry
+ * stands in for them, so every account keeps its balance.
+ */
+export async function postCarriedForwardBalances(
+  balances: CarriedForwardBalance[],
+  entry: { description: string; referenceType: string; referenceId: string | number; performedBy: number | null; createdAt: Date },
+  tx: DbTransaction,
+): Promise<number | null> {
+  const postings = balances.filter(balance => balance.amount !== 0);
+  if (postings.length === 0) return null;
+
+  const total = postings.reduce((sum, posting) => sum + posting.amount, 0);
+  if (total !== 0) {
+    throw new LedgerError(`Carried forward balances do not balance (off by ${total})`);
+  }
+
+  const [created] = await tx.insert(ledgerEntries)
+    .values({
+      entryType: LedgerEntryType.OPENING_BALANCE,
+      description: entry.description,
+      performedBy: entry.performedBy,
+      referenceType: entry.referenceType,
+      referenceId: String(entry.referenceId),
+      createdAt: entry.createdAt,
+    })
+    .returning();
+
+  await tx.insert(ledgerPostings).values(postings.map(posting => ({
+    entryId: created.id,
+    accountId: posting.accountId,
+    amount: posting.amount,
+    balanceAfter: posting.isUserAccount ? posting.amount : null,
+    createdAt: entry.createdAt,
+  })));
+
+  return created.id;
+}
+
+/**
+ * Remove a carried forward entry once the entries it stood in for are back
+ */
+export async function removeCarriedForwardBalances(entryId: number, tx: DbTransaction) {
+  const [entry] = await tx.select()
+    .from(ledgerEntries)
+    .where(and(eq(ledgerEntries.id, entryId), eq(ledgerEntries.entryType, LedgerEntryType.OPENING_BALANCE)))
+    .limit(1);
+  if (!entry) return;
+
+  await tx.delete(ledgerPostings).where(eq(ledgerPostings.entryId, entryId));
+  await tx.delete(ledgerEntries).where(eq(ledgerEntries.id, entryId));
+}
+
+/**
+ * Get ledger entries (with their postings) that touch a user's wallet
+ */
+export async function getUserLedger(userId: number, limit = 100) {
+  const [account] = await db.select()
+    .from(ledgerAccounts)
+    .where(eq(ledgerAccounts.userId, userId))
+    .limit(1);
+
+  if (!account) {
+    return { account: null, ledgerBalance: 0, entries: [] };
+  }
+
+  const userPostings = await db.select({
+    entry: ledgerEntries,
+    amount: ledgerPostings.amount,
+    balanceAfter: ledgerPostings.balanceAfter,
+  })
+    .from(ledgerPostings)
+    .innerJoin(ledgerEntries, eq(ledgerPostings.entryId, ledgerEntries.id))
+    .where(eq(ledgerPostings.accountId, account.id))
+    // Balances carried forward by an archive are dated at the end of its period
+    .orderBy(desc(ledgerPostings.createdAt), desc(ledgerPostings.id))
+    .limit(limit);
+
+  const [{ total }] = await db.select({ total: sql<number>`coalesce(sum(${ledgerPostings.amount}), 0)::int` })
+    .from(ledgerPostings)
+    .where(eq(ledgerPostings.accountId, account.id));
+
+  // Load the counter-postings so each entry shows where the money went
+  const entryIds = userPostings.map(p => p.entry.id);
+  const allPostings = entryIds.length
+    ? await db.select({
+        entryId: ledgerPostings.entryId,
+        amount: ledgerPostings.amount,
+        accountCode: ledgerAccounts.code,
+        accountType: ledgerAccounts.accountType,
+      })
+        .from(ledgerPostings)
+        .innerJoin(ledgerAccounts, eq(ledgerPostings.accountId, ledgerAccounts.id))
+        .where(inArray(ledgerPostings.entryId, entryIds))
+    : [];
+
+  return {
+    account,
+    ledgerBalance: total,
+    entries: userPostings.map(p => ({
+      ...p.entry,
+      amount: p.amount,
+      balanceAfter: p.balanceAfter,
+      postings: allPostings.filter(posting => posting.entryId === p.entry.id),
+    })),
+  };
+}
+
+/**
+ * Open a ledger account for every user that does not have one yet, posting
+ * their current balance as the opening balance
+ */
+export async function openMissingLedgerAccounts(): Promise<number> {
+  const missing = await db.select({ id: users.id })
+    .from(users)
+    .leftJoin(ledgerAccounts, eq(ledgerAccounts.userId, users.id))
+    .where(sql`${ledgerAccounts.id} IS NULL`);
+
+  for (const user of missing) {
+    await db.transaction(async (tx) => {
+      await getOrCreateUserAccount(tx, user.id);
+    });
+  }
+
+  return missing.length;
+}
+
+/**
+ * Compare every wallet balance with the sum of its ledger postings.
+ * Users without a ledger account are expected to have a zero balance.
+ */
+export async function reconcileLedger() {
+  const ledgerTotals = await db.select({
+    accountId: ledgerAccounts.id,
+    code: ledgerAccounts.code,
+    accountType: ledgerAccounts.accountType,
+    userId: ledgerAccounts.userId,
+    total: sql<number>`coalesce(sum(${ledgerPostings.amount}), 0)::int`,
+  })
+    .from(ledgerAccounts)
+    .leftJoin(ledgerPostings, eq(ledgerPostings.accountId, ledgerAccounts.id))
+    .groupBy(ledgerAccounts.id);
+
+  const allUsers = await db.select({
+    id: users.id,
+    username: users.username,
+    role: users.role,
+    balance: users.balance,
+    heldBalance: users.heldBalance,
+  }).from(users);
+
+  const totalsByUser = new Map(
+    ledgerTotals.filter(t => t.userId !== null).map(t => [t.userId as number, t.total])
+  );
+
+  const mismatches = allUsers
+    .map(user => ({
+      userId: user.id,
+      username: user.username,
+      role: user.role,
+      balance: user.balance,
+      ledgerBalance: totalsByUser.get(user.id) ?? 0,
+      hasAccount: totalsByUser.has(user.id),
+    }))
+    .filter(row => row.balance !== row.ledgerBalance);
+
+  const houseAccounts = ledgerTotals
+    .filter(t => t.accountType === LedgerAccountType.HOUSE)
+    .map(t => ({ code: t.code, balance: t.total }));
+
+  // Every entry balances, so the sum over all accounts must be zero
+  const grandTotal = ledgerTotals.reduce((sum, t) => sum + t.total, 0);
+
+  // The withdrawal holds account is the sum of the users' held balances
+  const withdrawalHolds = {
+    heldBalances: allUsers.reduce((sum, user) => sum + user.heldBalance, 0),
+    ledgerBalance: houseAccounts.find(account => account.code === HouseAccount.WITHDRAWAL_HOLDS)?.balance ?? 0,
+  };
+
+  return {
+    checkedUsers: allUsers.length,
+    mismatches,
+    houseAccounts,
+    withdrawalHolds,
+    grandTotal,
+    balanced: grandTotal === 0 && mismatches.length === 0 && withdrawalHolds.heldBalances === withdrawalHolds.ledgerBalance,
+  };
+}
+
+export function setupLedgerRoutes(app: express.Express) {
+  // Ledger history for a user's wallet
+  app.get('/api/ledger/users/:userId', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const userId = Number(req.params.userId);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: 'Invalid user ID' });
+      }
+
+      // Everyone sees their own ledger; other users' ledgers take reports.view and access to the user
+      if (req.user.id !== userId && (!await can(req, Permission.REPORTS_VIEW) || !await canAccessUser(req.user, userId))) {
+        return res.status(403).json({ message: 'You can only view the ledger of your assigned users' });
+      }
+
+      const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit < 1) {
+        return res.status(400).json({ message: 'Limit must be a positive whole number' });
+      }
+      res.json(await getUserLedger(userId, Math.min(limit, 500)));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Reconcile wallet balances against the ledger (admin only)
+  app.get('/api/ledger/reconciliation', requirePermission(Permission.WALLET_RECONCILE), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(await reconcileLedger());
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Open ledger accounts (with opening balances) for users created before the ledger
+  app.post('/api/ledger/opening-balances', requirePermission(Permission.WALLET_RECONCILE), requireStepUp, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const opened = await openMissingLedgerAccounts();
+      res.json({ opened, reconciliation: await reconcileLedger() });
+    } catch (err) {
+      next(err);
+    }
+  });
+}
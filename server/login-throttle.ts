@@ -0,0 +1,80 @@
+import { db } from './db';
+import { loginThrottles } from '@shared/schema';
+import { eq, inArray, sql } from 'drizzle-orm';
+
+// Failed logins are counted per account and per IP address. Past a number of
+// free attempts each further failure locks the key for twice as long as the
+// last one, up to an hour. Failures are forgotten after a quiet day, and an
+// account's count is cleared by a successful login.
+
+type ThrottlePolicy = {
+  freeAttempts: number;
+  baseLockMs: number;
+  maxLockMs: number;
+};
+
+const ACCOUNT_POLICY: ThrottlePolicy = { freeAttempts: 5, baseLockMs: 60 * 1000, maxLockMs: 60 * 60 * 1000 };
+// Higher, as many players can share an address behind a mobile carrier
+const IP_POLICY: ThrottlePolicy = { freeAttempts: 20, baseLockMs: 60 * 1000, maxLockMs: 60 * 60 * 1000 };
+const FAILURE_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+const accountKey = (username: string) => `account:${username.trim().toLowerCase()}`;
+const ipKey = (ipAddress: string) => `ip:${ipAddress}`;
+
+function lockDuration(failures: number, policy: ThrottlePolicy): number {
+  if (failures < policy.freeAttempts) return 0;
+  return Math.min(policy.baseLockMs * 2 ** (failures - policy.freeAttempts), policy.maxLockMs);
+}
+
+/**
+ * Milliseconds until the account or address may try again, 0 when neither
+ * is locked.
+ */
+export async function getLoginLockRemaining(username: string, ipAddress: string | undefined): Promise<number> {
+  const keys = [accountKey(username), ...(ipAddress ? [ipKey(ipAddress)] : [])];
+  const rows = await db.select().from(loginThrottles).where(inArray(loginThrottles.key, keys));
+  const now = Date.now();
+  return Math.max(0, ...rows.map(row => (row.lockedUntil ? row.lockedUntil.getTime() - now : 0)));
+}
+
+async function recordFailure(key: string, policy: ThrottlePolicy) {
+  // Timestamps are stored as UTC without a zone
+  const forgetBefore = new Date(Date.now() - FAILURE_MEMORY_MS).toISOString();
+  const [row] = await db.insert(loginThrottles)
+    .values({ key, failures: 1, lastFailureAt: new Date() })
+    .onConflictDoUpdate({
+      target: loginThrottles.key,
+      set: {
+        failures: sql`CASE WHEN ${loginThrottles.lastFailureAt} < ${forgetBefore}::timestamp THEN 1 ELSE ${loginThrottles.failures} + 1 END`,
+        lastFailureAt: new Date(),
+      },
+    })
+    .returning();
+
+  const lockMs = lockDuration(row.failures, policy);
+  if (lockMs > 0) {
+    await db.update(loginThrottles)
+      .set({ lockedUntil: new Date(Date.now() + lockMs) })
+      .where(eq(loginThrottles.key, key));
+  }
+}
+
+/**
+ * Count a wrong password or second-factor code against the account and the
+ * address it came from.
+ */
+export async function recordLoginFailure(username: string, ipAddress: string | undefined) {
+  await recordFailure(accountKey(username), ACCOUNT_POLICY);
+  if (ipAddress) {
+    await recordFailure(ipKey(ipAddress), IP_POLICY);
+  }
+}
+
+export async function clearLoginFailures(username: string) {
+  await db.delete(loginThrottles).where(eq(loginThrottles.key, accountKey(username)));
+}
+
+export function lockoutMessage(remainingMs: number): string {
+  const minutes = Math.ceil(remainingMs / 60000);
+  return `Too many failed login attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+}
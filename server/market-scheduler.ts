@@ -0,0 +1,378 @@
+import express from 'express';
+import { db } from './db';
+import { requirePermission } from './permissions';
+import {
+  Permission,
+  satamatkaMarkets,
+  marketHolidays,
+  marketScheduleEvents,
+  insertMarketHolidaySchema,
+  MarketStatus,
+  MarketScheduleAction,
+  RecurrencePattern,
+  type SatamatkaMarket,
+  type MarketHoliday,
+  type MarketScheduleActionValue,
+} from '@shared/schema';
+import { eq, and, lte, gte, isNull, desc, asc } from 'drizzle-orm';
+import { z } from 'zod';
+
+// Markets run on Indian time; holidays and weekdays are evaluated there
+const MARKET_TIME_ZONE = 'Asia/Kolkata';
+
+// How often the scheduler looks for markets to open, close or roll
+const SCHEDULER_INTERVAL_MS = 30 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on days searched for the next cycle (skips over long holiday runs)
+const MAX_CYCLE_SEARCH_DAYS = 400;
+
+type MarketTimes = Pick<SatamatkaMarket, 'openTime' | 'closeTime' | 'resultTime' | 'openResultTime'>;
+
+export type MarketCycle = {
+  openTime: Date;
+  closeTime: Date;
+  resultTime: Date | null;
+  openResultTime: Date | null;
+  skippedDates: string[]; // Holiday dates passed over
+};
+
+/**
+ * Calendar date (YYYY-MM-DD) of a moment in market time.
+ */
+export function marketDateKey(date: Date): string {
+  return date.toLocaleDateString('en-CA', { timeZone: MARKET_TIME_ZONE });
+}
+
+function isWeekend(date: Date) {
+  const weekday = new Intl.DateTimeFormat('en-US', { weekday: 'short', timeZone: MARKET_TIME_ZONE }).format(date);
+  return weekday === 'Sat' || weekday === 'Sun';
+}
+
+/**
+ * Whether a market type is closed on a given date. Holidays without a market
+ * type apply to every market.
+ */
+function isHoliday(holidays: MarketHoliday[], marketType: string, date: Date) {
+  const key = marketDateKey(date);
+  return holidays.some(holiday =>
+    holiday.holidayDate === key && (holiday.marketType === null || holiday.marketType === marketType)
+  );
+}
+
+/**
+ * Next cycle of a recurring market after `after`: the market's open, close and
+ * result times (and open result time) moved forward by whole days (or weeks) until the cycle is still
+ * ahead, matches the recurrence pattern and is not a holiday.
+ *
+ * Returns null for custom patterns, which are rolled by hand.
+ */
+export function getNextMarketCycle(
+  market: MarketTimes & Pick<SatamatkaMarket, 'type' | 'recurrencePattern'>,
+  holidays: MarketHoliday[] = [],
+  after: Date = new Date(),
+): MarketCycle | null {
+  const pattern = market.recurrencePattern ?? RecurrencePattern.DAILY;
+  if (pattern === RecurrencePattern.CUSTOM) {
+    return null;
+  }
+
+  const stepDays = pattern === RecurrencePattern.WEEKLY ? 7 : 1;
+  const skippedDates: string[] = [];
+
+  for (let days = stepDays; days <= MAX_CYCLE_SEARCH_DAYS; days += stepDays) {
+    const shift = days * DAY_MS;
+    const openTime = new Date(market.openTime.getTime() + shift);
+    const closeTime = new Date(market.closeTime.getTime() + shift);
+
+    if (closeTime <= after) continue;
+    if (pattern === RecurrencePattern.WEEKDAYS && isWeekend(openTime)) continue;
+
+    if (isHoliday(holidays, market.type, openTime)) {
+      skippedDates.push(marketDateKey(openTime));
+      continue;
+    }
+
+    return {
+      openTime,
+      closeTime,
+      resultTime: market.resultTime ? new Date(market.resultTime.getTime() + shift) : null,
+      openResultTime: market.openResultTime ? new Date(market.openResultTime.getTime() + shift) : null,
+      skippedDates,
+    };
+  }
+
+  return null;
+}
+
+async function getUpcomingHolidays(): Promise<MarketHoliday[]> {
+  // Include yesterday so markets opening just after midnight UTC are covered
+  const from = marketDateKey(new Date(Date.now() - DAY_MS));
+  return db.select()
+    .from(marketHolidays)
+    .where(gte(marketHolidays.holidayDate, from));
+}
+
+async function logScheduleEvent(
+  marketId: number,
+  action: MarketScheduleActionValue,
+  fromStatus: string | null,
+  toStatus: string | null,
+  details: string,
+  performedBy: number | null = null,
+) {
+  await db.insert(marketScheduleEvents).values({
+    marketId,
+    action,
+    fromStatus,
+    toStatus,
+    details,
+    performedBy,
+  });
+}
+
+/**
+ * Record a status change an admin made by hand, so the market's schedule log
+ * covers every transition.
+ */
+export async function logManualMarketTransition(marketId: number, fromStatus: string, toStatus: string, performedBy: number) {
+  if (fromStatus === toStatus) return;
+  await logScheduleEvent(marketId, MarketScheduleAction.MANUAL, fromStatus, toStatus, 'Status changed by admin', performedBy);
+}
+
+/**
+ * Move a market from one status to another, only if it is still in the
+ * expected status (an admin may have changed it meanwhile).
+ */
+async function transitionMarket(market: SatamatkaMarket, toStatus: string, action: MarketScheduleActionValue, details: string) {
+  const [updated] = await db.update(satamatkaMarkets)
+    .set({ status: toStatus })
+    .where(and(eq(satamatkaMarkets.id, market.id), eq(satamatkaMarkets.status, market.status)))
+    .returning({ id: satamatkaMarkets.id });
+
+  if (updated) {
+    await logScheduleEvent(market.id, action, market.status, toStatus, details);
+    console.log(`Market scheduler: ${market.name} (#${market.id}) ${market.status} → ${toStatus}`);
+  }
+}
+
+// Push a waiting recurring market to its next cycle (holiday or missed window)
+async function skipToNextCycle(market: SatamatkaMarket, holidays: MarketHoliday[], now: Date, reason: string) {
+  const cycle = getNextMarketCycle(market, holidays, now);
+  if (!cycle) return;
+
+  await db.update(satamatkaMarkets)
+    .set({
+      openTime: cycle.openTime,
+      closeTime: cycle.closeTime,
+      resultTime: cycle.resultTime,
+      openResultTime: cycle.openResultTime,
+      nextOpenTime: cycle.openTime,
+      nextCloseTime: cycle.closeTime,
+    })
+    .where(and(eq(satamatkaMarkets.id, market.id), eq(satamatkaMarkets.status, MarketStatus.WAITING)));
+
+  await logScheduleEvent(
+    market.id,
+    MarketScheduleAction.SKIP,
+    market.status,
+    market.status,
+    `${reason}; moved to ${cycle.openTime.toISOString()}`,
+  );
+}
+
+async function openDueMarkets(now: Date, holidays: MarketHoliday[]) {
+  const due = await db.select()
+    .from(satamatkaMarkets)
+    .where(and(eq(satamatkaMarkets.status, MarketStatus.WAITING), lte(satamatkaMarkets.openTime, now)));
+
+  for (const market of due) {
+    if (market.closeTime <= now) {
+      // The whole betting window passed while the market was waiting
+      if (market.isRecurring) {
+        await skipToNextCycle(market, holidays, now, `Missed cycle of ${marketDateKey(market.openTime)}`);
+      }
+      continue;
+    }
+
+    if (isHoliday(holidays, market.type, market.openTime)) {
+      // Non-recurring markets simply stay waiting on a holiday
+      if (market.isRecurring) {
+        await skipToNextCycle(market, holidays, now, `Holiday on ${marketDateKey(market.openTime)}`);
+      }
+      continue;
+    }
+
+    await transitionMarket(market, MarketStatus.OPEN, MarketScheduleAction.OPEN, 'Opened at scheduled open time');
+  }
+}
+
+async function closeDueMarkets(now: Date) {
+  const due = await db.select()
+    .from(satamatkaMarkets)
+    .where(and(eq(satamatkaMarkets.status, MarketStatus.OPEN), lte(satamatkaMarkets.closeTime, now)));
+
+  for (const market of due) {
+    await transitionMarket(market, MarketStatus.CLOSED, MarketScheduleAction.CLOSE, 'Closed at scheduled close time');
+  }
+}
+
+/**
+ * Create the next cycle of every settled recurring market that has not been
+ * rolled yet. The settled market keeps its results as history.
+ */
+async function rollSettledMarkets(now: Date, holidays: MarketHoliday[]) {
+  const settled = await db.select()
+    .from(satamatkaMarkets)
+    .where(and(
+      eq(satamatkaMarkets.status, MarketStatus.SETTLED),
+      eq(satamatkaMarkets.isRecurring, true),
+      isNull(satamatkaMarkets.rolledIntoMarketId),
+    ));
+
+  for (const market of settled) {
+    const cycle = getNextMarketCycle(market, holidays, now);
+    if (!cycle) continue;
+
+    const next = await db.transaction(async (tx) => {
+      // Lock and re-check so two scheduler runs cannot roll the same market
+      const [locked] = await tx.select()
+        .from(satamatkaMarkets)
+        .where(eq(satamatkaMarkets.id, market.id))
+        .for('update')
+        .limit(1);
+      if (!locked || locked.rolledIntoMarketId !== null) return null;
+
+      const [created] = await tx.insert(satamatkaMarkets)
+        .values({
+          name: market.name,
+          type: market.type,
+          coverImage: market.coverImage,
+          openTime: cycle.openTime,
+          closeTime: cycle.closeTime,
+          resultTime: cycle.resultTime,
+          openResultTime: cycle.openResultTime,
+          status: MarketStatus.WAITING,
+          isRecurring: true,
+          recurrencePattern: market.recurrencePattern,
+        })
+        .returning();
+
+      await tx.update(satamatkaMarkets)
+        .set({ rolledIntoMarketId: created.id, nextOpenTime: cycle.openTime, nextCloseTime: cycle.closeTime })
+        .where(eq(satamatkaMarkets.id, market.id));
+
+      return created;
+    });
+
+    if (!next) continue;
+
+    const skipped = cycle.skippedDates.length > 0 ? ` (skipped holidays: ${cycle.skippedDates.join(', ')})` : '';
+    await logScheduleEvent(market.id, MarketScheduleAction.ROLL, market.status, MarketStatus.WAITING,
+      `Next cycle #${next.id} opens at ${cycle.openTime.toISOString()}${skipped}`);
+    console.log(`Market scheduler: rolled ${market.name} (#${market.id}) into #${next.id}`);
+  }
+}
+
+let schedulerRunning = false;
+
+/**
+ * One pass of the scheduler: close markets past their close time, open
+ * markets that reached their open time and roll settled recurring markets.
+ */
+export async function runMarketSchedule(now: Date = new Date()) {
+  if (schedulerRunning) return;
+  schedulerRunning = true;
+
+  try {
+    const holidays = await getUpcomingHolidays();
+    await closeDueMarkets(now);
+    await openDueMarkets(now, holidays);
+    await rollSettledMarkets(now, holidays);
+  } catch (err) {
+    console.error('Market scheduler run failed:', err);
+  } finally {
+    schedulerRunning = false;
+  }
+}
+
+export function startMarketScheduler() {
+  const timer = setInterval(() => runMarketSchedule(), SCHEDULER_INTERVAL_MS);
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+  runMarketSchedule();
+}
+
+export function setupMarketSchedulerRoutes(app: express.Express) {
+  startMarketScheduler();
+
+  // Holiday / skip calendar
+  app.get('/api/market-holidays', requirePermission(Permission.MARKETS_MANAGE), async (req, res, next) => {
+    try {
+      const holidays = await db.select()
+        .from(marketHolidays)
+        .where(gte(marketHolidays.holidayDate, marketDateKey(new Date())))
+        .orderBy(asc(marketHolidays.holidayDate));
+      res.json(holidays);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post('/api/market-holidays', requirePermission(Permission.MARKETS_MANAGE), async (req, res, next) => {
+    try {
+      const data = insertMarketHolidaySchema.parse(req.body);
+      const [holiday] = await db.insert(marketHolidays)
+        .values({ ...data, marketType: data.marketType ?? null, createdBy: req.user!.id })
+        .returning();
+      res.status(201).json(holiday);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      next(err);
+    }
+  });
+
+  app.delete('/api/market-holidays/:id', requirePermission(Permission.MARKETS_MANAGE), async (req, res, next) => {
+    try {
+      const [deleted] = await db.delete(marketHolidays)
+        .where(eq(marketHolidays.id, Number(req.params.id)))
+        .returning();
+      if (!deleted) {
+        return res.status(404).json({ message: 'Holiday not found' });
+      }
+      res.json(deleted);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Schedule log of one market, latest first
+  app.get('/api/satamatka/markets/:id/schedule-events', requirePermission(Permission.MARKETS_MANAGE), async (req, res, next) => {
+    try {
+      const events = await db.select()
+        .from(marketScheduleEvents)
+        .where(eq(marketScheduleEvents.marketId, Number(req.params.id)))
+        .orderBy(desc(marketScheduleEvents.createdAt));
+      res.json(events);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Recent schedule log across all markets
+  app.get('/api/market-schedule/events', requirePermission(Permission.MARKETS_MANAGE), async (req, res, next) => {
+    try {
+      const limit = Math.min(Number(req.query.limit) || 100, 500);
+      const events = await db.select()
+        .from(marketScheduleEvents)
+        .orderBy(desc(marketScheduleEvents.createdAt))
+        .limit(limit);
+      res.json(events);
+    } catch (err) {
+      next(err);
+    }
+  });
+}
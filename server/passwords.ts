@@ -0,0 +1,124 @@
+import express from 'express';
+import { scrypt, timingSafeEqual, randomBytes, type ScryptOptions } from 'crypto';
+import * as bcryptjs from 'bcryptjs';
+import { db } from './db';
+import { users, Permission } from '@shared/schema';
+import { requirePermission } from './permissions';
+import { asc } from 'drizzle-orm';
+
+// Passwords are hashed with scrypt, stored as scrypt$<version>$<salt>$<hash>.
+// The version names the cost parameters, so they can be raised by adding a
+// version: a hash made with an older version, or with one of the formats
+// used before this one (bcrypt, and scrypt as hash.salt), is replaced on the
+// user's next login.
+
+type ScryptParams = { N: number; r: number; p: number; keyLength: number };
+
+const HASH_VERSIONS: Record<number, ScryptParams> = {
+  1: { N: 2 ** 15, r: 8, p: 1, keyLength: 64 },
+};
+const CURRENT_VERSION = 1;
+
+export const PasswordHashScheme = {
+  CURRENT: 'current',
+  OUTDATED_SCRYPT: 'outdated_scrypt',
+  LEGACY_SCRYPT: 'legacy_scrypt',
+  BCRYPT: 'bcrypt',
+  UNKNOWN: 'unknown',
+} as const;
+
+export type PasswordHashSchemeValue = typeof PasswordHashScheme[keyof typeof PasswordHashScheme];
+
+function scryptHash(password: string, salt: Buffer | string, params: ScryptParams): Promise<Buffer> {
+  const options: ScryptOptions = { N: params.N, r: params.r, p: params.p, maxmem: 256 * params.N * params.r };
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, params.keyLength, options, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptHash(password, salt, HASH_VERSIONS[CURRENT_VERSION]);
+  return `scrypt$${CURRENT_VERSION}$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+export function passwordHashScheme(stored: string): PasswordHashSchemeValue {
+  const versioned = /^scrypt\$(\d+)\$[0-9a-f]+\$[0-9a-f]+$/.exec(stored);
+  if (versioned) {
+    const version = Number(versioned[1]);
+    if (version === CURRENT_VERSION) return PasswordHashScheme.CURRENT;
+    return HASH_VERSIONS[version] ? PasswordHashScheme.OUTDATED_SCRYPT : PasswordHashScheme.UNKNOWN;
+  }
+  if (/^\$2[aby]\$/.test(stored)) return PasswordHashScheme.BCRYPT;
+  if (/^[0-9a-f]+\.[0-9a-f]+$/.test(stored)) return PasswordHashScheme.LEGACY_SCRYPT;
+  return PasswordHashScheme.UNKNOWN;
+}
+
+async function matchesHash(supplied: string, stored: string): Promise<boolean> {
+  switch (passwordHashScheme(stored)) {
+    case PasswordHashScheme.CURRENT:
+    case PasswordHashScheme.OUTDATED_SCRYPT: {
+      const [, version, salt, hash] = stored.split('$');
+      const expected = Buffer.from(hash, 'hex');
+      const actual = await scryptHash(supplied, Buffer.from(salt, 'hex'), HASH_VERSIONS[Number(version)]);
+      return expected.length === actual.length && timingSafeEqual(expected, actual);
+    }
+    case PasswordHashScheme.LEGACY_SCRYPT: {
+      // Node's default cost, with the hex salt used as text
+      const [hash, salt] = stored.split('.');
+      const expected = Buffer.from(hash, 'hex');
+      const actual = await scryptHash(supplied, salt, { N: 16384, r: 8, p: 1, keyLength: 64 });
+      return expected.length === actual.length && timingSafeEqual(expected, actual);
+    }
+    case PasswordHashScheme.BCRYPT:
+      return bcryptjs.compare(supplied, stored).catch(() => false);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check a password against a stored hash of any supported format.
+ * needsRehash is set when the password matched a hash that is not in the
+ * current format, which the caller should replace with hashPassword.
+ */
+export async function verifyPassword(supplied: string, stored: string): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (!supplied || !stored) return { valid: false, needsRehash: false };
+
+  const valid = await matchesHash(supplied, stored);
+  return { valid, needsRehash: valid && passwordHashScheme(stored) !== PasswordHashScheme.CURRENT };
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  return (await verifyPassword(supplied, stored)).valid;
+}
+
+export function setupPasswordRoutes(app: express.Express) {
+  // Accounts whose password is not yet hashed the current way. They are
+  // upgraded when the user next logs in; a password reset also upgrades them.
+  app.get('/api/admin/password-hashes', requirePermission(Permission.SYSTEM_MAINTENANCE), async (req, res, next) => {
+    try {
+      const rows = await db.select({
+        id: users.id,
+        username: users.username,
+        role: users.role,
+        isBlocked: users.isBlocked,
+        password: users.password,
+      }).from(users).orderBy(asc(users.id));
+
+      const counts: Record<string, number> = {};
+      const legacyAccounts = [];
+      for (const { password, ...user } of rows) {
+        const scheme = passwordHashScheme(password);
+        counts[scheme] = (counts[scheme] ?? 0) + 1;
+        if (scheme !== PasswordHashScheme.CURRENT) {
+          legacyAccounts.push({ ...user, scheme });
+        }
+      }
+
+      res.json({ total: rows.length, counts, legacyAccounts });
+    } catch (err) {
+      next(err);
+    }
+  });
+}
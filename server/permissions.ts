@@ -0,0 +1,297 @@
+import express from 'express';
+import { db } from './db';
+import {
+  UserRole,
+  Permission,
+  AgentPermission,
+  rolePermissions,
+  userPermissionOverrides,
+  users,
+  type PermissionValue,
+  type AgentPermissionValue,
+  type UserRoleType,
+} from '@shared/schema';
+import { ALL_PERMISSIONS, DEFAULT_ROLE_PERMISSIONS, isPermission } from '@shared/permissions';
+import { canManageUser, getEffectivePermissions } from './agent-hierarchy';
+import { trackAuditedRequest } from './audit';
+import { eq } from 'drizzle-orm';
+
+// A user's permissions are their role template, plus permissions granted to
+// them and minus permissions denied to them. Agents also lose what the agent
+// tree does not give them.
+
+type Actor = { id: number; role: string };
+
+// Picks the user a request acts on, undefined when it acts on the caller
+export type UserScope = (req: express.Request) => number | undefined;
+
+export type PermissionOverride = { permission: PermissionValue; granted: boolean };
+
+/**
+ * Raised for invalid role or override changes. `status` is picked up by the
+ * global error handler.
+ */
+export class PermissionError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'PermissionError';
+    this.status = status;
+  }
+}
+
+// Permissions that agents also need from the agent tree
+const AGENT_TREE_PERMISSIONS: [PermissionValue, AgentPermissionValue][] = [
+  [Permission.AGENTS_CREATE, AgentPermission.CREATE_AGENTS],
+  [Permission.ODDS_SET, AgentPermission.SET_ODDS],
+  [Permission.WALLET_ADJUST_BALANCE, AgentPermission.MANAGE_FUNDS],
+];
+
+const EDITABLE_ROLES: string[] = [UserRole.SUBADMIN, UserRole.PLAYER];
+
+/**
+ * Permissions of a role template. The admin template always holds every
+ * permission, so the platform cannot be locked out of its own settings.
+ */
+export async function getRolePermissions(role: string): Promise<PermissionValue[]> {
+  if (role === UserRole.ADMIN) return ALL_PERMISSIONS;
+
+  const [template] = await db.select()
+    .from(rolePermissions)
+    .where(eq(rolePermissions.role, role))
+    .limit(1);
+  return template
+    ? template.permissions.filter(isPermission)
+    : DEFAULT_ROLE_PERMISSIONS[role as UserRoleType] ?? [];
+}
+
+export async function getUserOverrides(userId: number): Promise<PermissionOverride[]> {
+  const rows = await db.select()
+    .from(userPermissionOverrides)
+    .where(eq(userPermissionOverrides.userId, userId));
+  return rows
+    .filter(row => isPermission(row.permission))
+    .map(row => ({ permission: row.permission, granted: row.granted }));
+}
+
+export async function getUserPermissions(actor: Actor): Promise<Set<PermissionValue>> {
+  const permissions = new Set(await getRolePermissions(actor.role));
+
+  for (const override of await getUserOverrides(actor.id)) {
+    if (override.granted) {
+      permissions.add(override.permission);
+    } else {
+      permissions.delete(override.permission);
+    }
+  }
+
+  if (actor.role === UserRole.SUBADMIN) {
+    const agentPermissions = await getEffectivePermissions(actor.id);
+    for (const [permission, agentPermission] of AGENT_TREE_PERMISSIONS) {
+      if (!agentPermissions.includes(agentPermission)) {
+        permissions.delete(permission);
+      }
+    }
+  }
+
+  return permissions;
+}
+
+// Permissions are looked up once per request, however many checks it makes
+const requestPermissions = new WeakMap<express.Request, Promise<Set<PermissionValue>>>();
+
+function getRequestPermissions(req: express.Request): Promise<Set<PermissionValue>> {
+  let permissions = requestPermissions.get(req);
+  if (!permissions) {
+    permissions = getUserPermissions(req.user!);
+    requestPermissions.set(req, permissions);
+  }
+  return permissions;
+}
+
+export async function hasPermission(actor: Actor, permission: PermissionValue): Promise<boolean> {
+  return (await getUserPermissions(actor)).has(permission);
+}
+
+/**
+ * Whether the request's user has a permission, using the per-request cache.
+ */
+export async function can(req: express.Request, permission: PermissionValue): Promise<boolean> {
+  if (!req.isAuthenticated()) return false;
+  return (await getRequestPermissions(req)).has(permission);
+}
+
+/**
+ * Resource scope of every user-facing check: admins reach every user,
+ * agents the users below them in the agent tree, and others only
+ * themselves (when `allowSelf` is set).
+ */
+export async function canAccessUser(actor: Actor, userId: number, allowSelf = false): Promise<boolean> {
+  if (actor.id === userId) return allowSelf || actor.role === UserRole.ADMIN;
+  return canManageUser(actor, userId);
+}
+
+// Scope on a user id route parameter; a missing optional parameter means the caller
+export const userParam = (name = 'id'): UserScope => (req) =>
+  req.params[name] === undefined ? undefined : Number(req.params[name]);
+
+/**
+ * Require any of the given permissions and, with a `user` scope, access to
+ * the user the request acts on. Allowed requests are audited.
+ */
+export function requirePermission(
+  permissions: PermissionValue | PermissionValue[],
+  options: { user?: UserScope; allowSelf?: boolean } = {},
+) {
+  const required = Array.isArray(permissions) ? permissions : [permissions];
+
+  return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const granted = await getRequestPermissions(req);
+      if (!required.some(permission => granted.has(permission))) {
+        return res.status(403).json({ message: "Forbidden: Insufficient permissions" });
+      }
+
+      const userId = options.user?.(req);
+      if (userId !== undefined) {
+        if (isNaN(userId)) {
+          return res.status(400).json({ message: "Invalid user ID" });
+        }
+        if (!await canAccessUser(req.user!, userId, options.allowSelf)) {
+          return res.status(403).json({ message: "You don't have permission to access this user" });
+        }
+      }
+
+      trackAuditedRequest(req, res, userId);
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
+
+function parsePermissions(value: unknown): PermissionValue[] {
+  if (!Array.isArray(value) || !value.every(isPermission)) {
+    throw new PermissionError('Permissions must be a list of known permissions');
+  }
+  return Array.from(new Set(value));
+}
+
+export async function setRolePermissions(role: string, permissions: unknown, updatedBy: number): Promise<PermissionValue[]> {
+  if (!EDITABLE_ROLES.includes(role)) {
+    throw new PermissionError(role === UserRole.ADMIN ? 'The admin role always has every permission' : 'Unknown role', role === UserRole.ADMIN ? 400 : 404);
+  }
+
+  const granted = parsePermissions(permissions);
+  await db.insert(rolePermissions)
+    .values({ role, permissions: granted, updatedBy })
+    .onConflictDoUpdate({
+      target: rolePermissions.role,
+      set: { permissions: granted, updatedBy, updatedAt: new Date() },
+    });
+  return granted;
+}
+
+/**
+ * Replace a user's overrides. Users cannot change their own, so no one can
+ * take the role editor away from themselves.
+ */
+export async function setUserOverrides(userId: number, overrides: unknown, updatedBy: number): Promise<PermissionOverride[]> {
+  if (userId === updatedBy) {
+    throw new PermissionError('You cannot change your own permissions');
+  }
+  if (!Array.isArray(overrides) || overrides.some(override => !isPermission(override?.permission) || typeof override.granted !== 'boolean')) {
+    throw new PermissionError('Overrides must be a list of { permission, granted }');
+  }
+
+  const [user] = await db.select({ id: users.id }).from(users).where(eq(users.id, userId)).limit(1);
+  if (!user) {
+    throw new PermissionError('User not found', 404);
+  }
+
+  // The last override of a permission wins
+  const byPermission = new Map<PermissionValue, boolean>();
+  for (const override of overrides as PermissionOverride[]) {
+    byPermission.set(override.permission, override.granted);
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.delete(userPermissionOverrides).where(eq(userPermissionOverrides.userId, userId));
+    if (byPermission.size > 0) {
+      await tx.insert(userPermissionOverrides).values(
+        Array.from(byPermission, ([permission, granted]) => ({ userId, permission, granted, updatedBy })),
+      );
+    }
+  });
+
+  return getUserOverrides(userId);
+}
+
+export function setupPermissionRoutes(app: express.Express) {
+  // Permissions of the logged-in user, for showing and hiding actions
+  app.get('/api/permissions/me', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      res.json(Array.from(await getRequestPermissions(req)));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get('/api/permissions/roles', requirePermission(Permission.ROLES_MANAGE), async (req, res, next) => {
+    try {
+      const roles = await Promise.all(Object.values(UserRole).map(async (role) => ({
+        role,
+        permissions: await getRolePermissions(role),
+        editable: EDITABLE_ROLES.includes(role),
+      })));
+      res.json(roles);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.put('/api/permissions/roles/:role', requirePermission(Permission.ROLES_MANAGE), async (req, res, next) => {
+    try {
+      const permissions = await setRolePermissions(req.params.role, req.body.permissions, req.user!.id);
+      res.json({ role: req.params.role, permissions });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get('/api/users/:id/permissions', requirePermission(Permission.ROLES_MANAGE, { user: userParam('id'), allowSelf: true }), async (req, res, next) => {
+    try {
+      const [user] = await db.select().from(users).where(eq(users.id, Number(req.params.id))).limit(1);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      res.json({
+        userId: user.id,
+        role: user.role,
+        rolePermissions: await getRolePermissions(user.role),
+        overrides: await getUserOverrides(user.id),
+        permissions: Array.from(await getUserPermissions({ id: user.id, role: user.role })),
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.put('/api/users/:id/permissions', requirePermission(Permission.ROLES_MANAGE, { user: userParam('id') }), async (req, res, next) => {
+    try {
+      const overrides = await setUserOverrides(Number(req.params.id), req.body.overrides, req.user!.id);
+      res.json({ userId: Number(req.params.id), overrides });
+    } catch (err) {
+      next(err);
+    }
+  });
+}
@@ -0,0 +1,235 @@
+import express from 'express';
+import { z } from 'zod';
+import { db } from './db';
+import {
+  playSessions,
+  playSessionSettings,
+  PlaySessionEndReason,
+  UserRole,
+  type PlaySessionEndReasonValue,
+} from '@shared/schema';
+import {
+  DEFAULT_REALITY_CHECK_MINUTES,
+  PLAY_SESSION_IDLE_MS,
+  REALITY_CHECK_MINUTES,
+  SESSION_LIMIT_MINUTES,
+  type PlaySessionSettingsValues,
+  type PlaySessionStatus,
+} from '@shared/play-sessions';
+import { and, eq, isNull, sql } from 'drizzle-orm';
+
+// Play sessions are kept for players only. One starts at login, or with the
+// first activity after going idle, and ends at logout, after half an hour
+// without activity, or when the session length the player chose is up.
+// Activity is any request that changes something, which includes the pings
+// the client sends while the player is using the page.
+
+declare module 'express-session' {
+  interface SessionData {
+    playSession?: {
+      id: number;
+      startedAt: number;
+      lastActivityAt: number;
+      limitMs: number | null; // From the player's settings when it started
+    };
+  }
+}
+
+// Writing the activity time on every request would write to the database each time
+const ACTIVITY_RESOLUTION_MS = 60 * 1000;
+
+const settingsSchema = z.object({
+  realityCheckMinutes: z.number().refine(minutes => REALITY_CHECK_MINUTES.includes(minutes), 'Choose one of the reminder intervals').nullable(),
+  sessionLimitMinutes: z.number().refine(minutes => SESSION_LIMIT_MINUTES.includes(minutes), 'Choose one of the session lengths').nullable(),
+});
+
+export async function getPlaySessionSettings(userId: number): Promise<PlaySessionSettingsValues> {
+  const [settings] = await db.select().from(playSessionSettings).where(eq(playSessionSettings.userId, userId)).limit(1);
+  return settings
+    ? { realityCheckMinutes: settings.realityCheckMinutes, sessionLimitMinutes: settings.sessionLimitMinutes }
+    : { realityCheckMinutes: DEFAULT_REALITY_CHECK_MINUTES, sessionLimitMinutes: null };
+}
+
+const limitMs = (settings: PlaySessionSettingsValues) =>
+  settings.sessionLimitMinutes === null ? null : settings.sessionLimitMinutes * 60 * 1000;
+
+/**
+ * Start a play session for the logged-in player. Their sessions on other
+ * devices that went idle without logging out are ended first.
+ */
+export async function startPlaySession(req: express.Request) {
+  if (req.user?.role !== UserRole.PLAYER) return;
+
+  const userId = req.user.id;
+  // Timestamps are stored as UTC without a zone
+  const idleSince = new Date(Date.now() - PLAY_SESSION_IDLE_MS).toISOString();
+  await db.update(playSessions)
+    .set({ endedAt: sql`${playSessions.lastActivityAt}`, endReason: PlaySessionEndReason.IDLE })
+    .where(and(
+      eq(playSessions.userId, userId),
+      isNull(playSessions.endedAt),
+      sql`${playSessions.lastActivityAt} < ${idleSince}::timestamp`,
+    ));
+
+  const now = new Date();
+  const [session] = await db.insert(playSessions)
+    .values({ userId, startedAt: now, lastActivityAt: now })
+    .returning();
+  req.session.playSession = {
+    id: session.id,
+    startedAt: now.getTime(),
+    lastActivityAt: now.getTime(),
+    limitMs: limitMs(await getPlaySessionSettings(userId)),
+  };
+}
+
+/**
+ * End the request's play session, at `endedAt` (idle sessions end at their
+ * last activity).
+ */
+export async function endPlaySession(req: express.Request, reason: PlaySessionEndReasonValue, endedAt = new Date()) {
+  const play = req.session?.playSession;
+  if (!play) return;
+
+  delete req.session.playSession;
+  await db.update(playSessions)
+    .set({ endedAt, endReason: reason })
+    .where(and(eq(playSessions.id, play.id), isNull(playSessions.endedAt)));
+}
+
+/**
+ * Keeps the player's play session: ends it when idle or out of time, starts
+ * one on the first activity without one, and records activity.
+ */
+export async function trackPlaySession(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (!req.isAuthenticated() || req.user.role !== UserRole.PLAYER) return next();
+
+  try {
+    const now = Date.now();
+    const isActivity = req.method !== 'GET';
+    let play = req.session.playSession;
+
+    if (play && now - play.lastActivityAt > PLAY_SESSION_IDLE_MS) {
+      await endPlaySession(req, PlaySessionEndReason.IDLE, new Date(play.lastActivityAt));
+      play = undefined;
+    }
+
+    if (play && play.limitMs !== null && now - play.startedAt >= play.limitMs) {
+      await endPlaySession(req, PlaySessionEndReason.TIME_LIMIT);
+      return req.logout((err) => {
+        if (err) return next(err);
+        res.status(401).json({ message: 'You have reached the session length you chose. Log in again to keep playing.' });
+      });
+    }
+
+    if (!play) {
+      if (isActivity) await startPlaySession(req);
+    } else if (isActivity && now - play.lastActivityAt > ACTIVITY_RESOLUTION_MS) {
+      play.lastActivityAt = now;
+      await db.update(playSessions).set({ lastActivityAt: new Date(now) }).where(eq(playSessions.id, play.id));
+    }
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+async function getPlaySessionStatus(req: express.Request): Promise<PlaySessionStatus> {
+  const settings = await getPlaySessionSettings(req.user!.id);
+  const play = req.session.playSession;
+  const [session] = play
+    ? await db.select().from(playSessions).where(eq(playSessions.id, play.id)).limit(1)
+    : [];
+  if (!session) {
+    return { session: null, net: 0, staked: 0, bets: 0, settings };
+  }
+
+  // Stakes still waiting for a result count as lost
+  const result = await db.execute(sql`
+    SELECT coalesce(sum(payout - bet_amount), 0) AS net, coalesce(sum(bet_amount), 0) AS staked, count(*) AS bets
+    FROM games
+    WHERE user_id = ${session.userId} AND created_at >= ${session.startedAt.toISOString()}::timestamp
+  `);
+
+  return {
+    session: {
+      id: session.id,
+      startedAt: session.startedAt.toISOString(),
+      lastRealityCheckAt: session.lastRealityCheckAt?.toISOString() ?? null,
+      realityChecks: session.realityChecks,
+    },
+    net: Number(result.rows[0].net),
+    staked: Number(result.rows[0].staked),
+    bets: Number(result.rows[0].bets),
+    settings,
+  };
+}
+
+export function setupPlaySessionRoutes(app: express.Express) {
+  app.get('/api/play-session', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      res.json(await getPlaySessionStatus(req));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Sent while the player is using the page; trackPlaySession records it
+  app.post('/api/play-session/activity', (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+    res.sendStatus(204);
+  });
+
+  // The player has seen a reality check; the next one is due an interval later
+  app.post('/api/play-session/reality-check', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const play = req.session.playSession;
+      if (play) {
+        await db.update(playSessions)
+          .set({ lastRealityCheckAt: new Date(), realityChecks: sql`${playSessions.realityChecks} + 1` })
+          .where(eq(playSessions.id, play.id));
+      }
+      res.json(await getPlaySessionStatus(req));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.put('/api/play-session/settings', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      if (req.user.role !== UserRole.PLAYER) {
+        return res.status(403).json({ message: 'Only players have play sessions' });
+      }
+
+      const parsed = settingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const values = { ...parsed.data, updatedAt: new Date() };
+      await db.insert(playSessionSettings)
+        .values({ userId: req.user.id, ...values })
+        .onConflictDoUpdate({ target: playSessionSettings.userId, set: values });
+
+      // A new session length applies to the session under way
+      if (req.session.playSession) {
+        req.session.playSession.limitMs = limitMs(parsed.data);
+      }
+      res.json(await getPlaySessionStatus(req));
+    } catch (err) {
+      next(err);
+    }
+  });
+}
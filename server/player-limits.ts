@@ -0,0 +1,208 @@
+import express from 'express';
+import { z } from 'zod';
+import { db } from './db';
+import {
+  playerLimits,
+  Permission,
+  PlayerLimitPeriod,
+  PlayerLimitType,
+  UserRole,
+  type PlayerLimit,
+  type PlayerLimitPeriodValue,
+  type PlayerLimitTypeValue,
+} from '@shared/schema';
+import {
+  LIMIT_INCREASE_DELAY_MS,
+  PLAYER_LIMIT_PERIODS,
+  PLAYER_LIMIT_TYPES,
+  type PlayerLimitStatus,
+} from '@shared/player-limits';
+import { formatPaisa, positivePaisaSchema } from '@shared/money';
+import { requirePermission, userParam } from './permissions';
+import type { DbTransaction } from './ledger';
+import { eq, sql, type SQL } from 'drizzle-orm';
+
+// Players can limit what they deposit, lose and stake over a rolling day,
+// week and month. Losses are stakes less payouts, so a stake still waiting
+// for its result counts as lost until it is settled. A lower limit applies
+// at once; a higher one, or removing a limit, only after a day.
+
+type Executor = typeof db | DbTransaction;
+
+type Usage = Record<PlayerLimitTypeValue, Record<PlayerLimitPeriodValue, number>>;
+
+export const limitUpdateSchema = z.object({
+  type: z.enum([PlayerLimitType.DEPOSIT, PlayerLimitType.LOSS, PlayerLimitType.WAGER]),
+  period: z.enum([PlayerLimitPeriod.DAY, PlayerLimitPeriod.WEEK, PlayerLimitPeriod.MONTH]),
+  amount: positivePaisaSchema.nullable(), // Null removes the limit
+});
+
+// The limit with any pending change that has come due applied
+function currentLimit(row: PlayerLimit, now: Date) {
+  if (row.pendingFrom && row.pendingFrom <= now) {
+    return { amount: row.pendingAmount, pendingAmount: null, pendingFrom: null };
+  }
+  return { amount: row.amount, pendingAmount: row.pendingAmount, pendingFrom: row.pendingFrom };
+}
+
+async function getLimitRows(userId: number, executor: Executor): Promise<PlayerLimit[]> {
+  return executor.select().from(playerLimits).where(eq(playerLimits.userId, userId));
+}
+
+/**
+ * Deposits, losses and stakes of the user in each period up to now.
+ */
+async function getUsage(userId: number, executor: Executor, now: Date): Promise<Usage> {
+  // Timestamps are stored as UTC without a zone
+  const since = Object.fromEntries(PLAYER_LIMIT_PERIODS.map(({ period, ms }) =>
+    [period, new Date(now.getTime() - ms).toISOString()])) as Record<PlayerLimitPeriodValue, string>;
+
+  // One column per period, e.g. staked_week
+  const sums = (expression: SQL, name: string) => sql.join(PLAYER_LIMIT_PERIODS.map(({ period }) =>
+    sql`coalesce(sum(${expression}) FILTER (WHERE created_at > ${since[period]}::timestamp), 0) AS ${sql.raw(`${name}_${period}`)}`), sql`, `);
+
+  const played = await executor.execute(sql`
+    SELECT ${sums(sql`bet_amount`, 'staked')}, ${sums(sql`bet_amount - payout`, 'lost')}
+    FROM games
+    WHERE user_id = ${userId} AND created_at > ${since[PlayerLimitPeriod.MONTH]}::timestamp
+  `);
+  const deposited = await executor.execute(sql`
+    SELECT ${sums(sql`amount`, 'deposited')}
+    FROM wallet_requests
+    WHERE user_id = ${userId} AND request_type = 'deposit' AND status <> 'rejected'
+      AND created_at > ${since[PlayerLimitPeriod.MONTH]}::timestamp
+  `);
+
+  const usage = {} as Usage;
+  for (const { type } of PLAYER_LIMIT_TYPES) usage[type] = {} as Record<PlayerLimitPeriodValue, number>;
+  for (const { period } of PLAYER_LIMIT_PERIODS) {
+    usage[PlayerLimitType.WAGER][period] = Number(played.rows[0][`staked_${period}`]);
+    usage[PlayerLimitType.LOSS][period] = Math.max(0, Number(played.rows[0][`lost_${period}`]));
+    usage[PlayerLimitType.DEPOSIT][period] = Number(deposited.rows[0][`deposited_${period}`]);
+  }
+  return usage;
+}
+
+/**
+ * Every limit the user could set, with what has been used of it.
+ */
+export async function getPlayerLimitStatuses(userId: number, executor: Executor = db): Promise<PlayerLimitStatus[]> {
+  const now = new Date();
+  const rows = await getLimitRows(userId, executor);
+  const usage = await getUsage(userId, executor, now);
+
+  return PLAYER_LIMIT_TYPES.flatMap(({ type }) => PLAYER_LIMIT_PERIODS.map(({ period }) => {
+    const row = rows.find(row => row.type === type && row.period === period);
+    const limit = row ? currentLimit(row, now) : { amount: null, pendingAmount: null, pendingFrom: null };
+    return {
+      type,
+      period,
+      amount: limit.amount,
+      used: usage[type][period],
+      pendingAmount: limit.pendingAmount,
+      pendingFrom: limit.pendingFrom?.toISOString() ?? null,
+    };
+  }));
+}
+
+/**
+ * Why adding `amount` to the given kinds of usage would break one of the
+ * user's limits, or null when it would not.
+ */
+async function limitProblem(userId: number, types: PlayerLimitTypeValue[], amount: number, executor: Executor): Promise<string | null> {
+  const now = new Date();
+  const limits = (await getLimitRows(userId, executor))
+    .filter(row => types.includes(row.type))
+    .map(row => ({ type: row.type, period: row.period, amount: currentLimit(row, now).amount }))
+    .filter((limit): limit is { type: PlayerLimitTypeValue; period: PlayerLimitPeriodValue; amount: number } => limit.amount !== null);
+  if (limits.length === 0) return null;
+
+  const usage = await getUsage(userId, executor, now);
+  for (const limit of limits) {
+    const used = usage[limit.type][limit.period];
+    if (used + amount > limit.amount) {
+      const period = PLAYER_LIMIT_PERIODS.find(({ period }) => period === limit.period)!.adjective;
+      const type = PLAYER_LIMIT_TYPES.find(({ type }) => type === limit.type)!.label.toLowerCase();
+      const left = Math.max(0, limit.amount - used);
+      return `This would go over your ${period} ${type} limit of ${formatPaisa(limit.amount)}. You have ${formatPaisa(left)} left.`;
+    }
+  }
+  return null;
+}
+
+export function betLimitProblem(userId: number, stake: number, executor: Executor = db) {
+  return limitProblem(userId, [PlayerLimitType.WAGER, PlayerLimitType.LOSS], stake, executor);
+}
+
+export function depositLimitProblem(userId: number, amount: number, executor: Executor = db) {
+  return limitProblem(userId, [PlayerLimitType.DEPOSIT], amount, executor);
+}
+
+/**
+ * Set or remove one of the user's limits. Lowering (or adding) a limit
+ * applies now and cancels any waiting change; raising or removing it waits.
+ */
+export async function setPlayerLimit(userId: number, update: z.infer<typeof limitUpdateSchema>) {
+  const now = new Date();
+  const [existing] = (await getLimitRows(userId, db))
+    .filter(row => row.type === update.type && row.period === update.period);
+  const current = existing ? currentLimit(existing, now).amount : null;
+
+  const immediate = update.amount === null
+    ? current === null
+    : current === null || update.amount <= current;
+  const values = immediate
+    ? { amount: update.amount, pendingAmount: null, pendingFrom: null }
+    : { amount: current, pendingAmount: update.amount, pendingFrom: new Date(now.getTime() + LIMIT_INCREASE_DELAY_MS) };
+
+  await db.insert(playerLimits)
+    .values({ userId, type: update.type, period: update.period, ...values, updatedAt: now })
+    .onConflictDoUpdate({
+      target: [playerLimits.userId, playerLimits.type, playerLimits.period],
+      set: { ...values, updatedAt: now },
+    });
+}
+
+export function setupPlayerLimitRoutes(app: express.Express) {
+  app.get('/api/limits', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      res.json(await getPlayerLimitStatuses(req.user.id));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.put('/api/limits', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      if (req.user.role !== UserRole.PLAYER) {
+        return res.status(403).json({ message: 'Only players can set limits' });
+      }
+
+      const parsed = limitUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      await setPlayerLimit(req.user.id, parsed.data);
+      res.json(await getPlayerLimitStatuses(req.user.id));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Limit status of a player, for their agents and admins. Nobody but the
+  // player can change it.
+  app.get('/api/users/:id/limits', requirePermission(Permission.USERS_VIEW, { user: userParam('id') }), async (req, res, next) => {
+    try {
+      res.json(await getPlayerLimitStatuses(Number(req.params.id)));
+    } catch (err) {
+      next(err);
+    }
+  });
+}
@@ -0,0 +1,323 @@
+import express from 'express';
+import { db } from './db';
+import { requirePermission } from './permissions';
+import { recordAuditEvent } from './audit';
+import { requireStepUp } from './two-factor';
+import {
+  Permission,
+  AuditAction,
+  games,
+  users,
+  satamatkaMarkets,
+  resultCorrections,
+  MarketStatus,
+  HouseAccount,
+  LedgerEntryType,
+  type Game,
+  type ResultCorrection,
+  type SatamatkaMarket,
+  type SettlementJob,
+} from '@shared/schema';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import type { MarketResults } from '@shared/bet-types';
+import { formatMarketResult, isTwoSessionMarket, parseSessionResult, pannaDigit } from '@shared/market-sessions';
+import { postUserBalanceChange } from './ledger';
+import {
+  SettlementError,
+  calculateSatamatkaPayout,
+  getRunningSettlementJob,
+  startMarketSettlement,
+} from './settlement';
+
+// Effect of a correction on one player
+export type PlayerCorrectionDiff = {
+  userId: number;
+  username: string;
+  bets: number;
+  currentPayout: number;   // Paid against the current result, in paisa
+  correctedPayout: number; // Due against the corrected result, in paisa
+  balanceChange: number;   // correctedPayout - currentPayout
+  currentBalance: number;
+  balanceAfter: number;
+};
+
+export type ResultCorrectionPreview = {
+  marketId: number;
+  marketName: string;
+  previousResult: string;
+  correctedResult: string;
+  players: PlayerCorrectionDiff[];
+  totalCurrentPayout: number;
+  totalCorrectedPayout: number;
+  netChange: number;
+};
+
+// Bets that take part in settlement (pending ones were never settled)
+const SETTLEABLE_RESULTS = ['win', 'loss', 'pending'];
+
+type CorrectableMarket = {
+  market: SatamatkaMarket;
+  previousResult: string;
+  correctedResult: string;
+  // Market fields for the corrected result
+  corrected: Required<MarketResults> & { openResult: string | null };
+};
+
+/**
+ * Read the corrected result for a market: a two-digit result, or for
+ * two-session markets both pannas (128-358 or 128-16-358).
+ */
+function parseCorrectedResult(market: SatamatkaMarket, value: string): CorrectableMarket['corrected'] {
+  if (isTwoSessionMarket(market.type)) {
+    const sessionResult = parseSessionResult(value);
+    if (!sessionResult) {
+      throw new SettlementError('Result must be the open and close panna, e.g. 128-358');
+    }
+    const openResult = pannaDigit(sessionResult.openPanna);
+    return {
+      ...sessionResult,
+      openResult,
+      closeResult: openResult + pannaDigit(sessionResult.closePanna),
+    };
+  }
+
+  if (!/^[0-9]{2}$/.test(value ?? '')) {
+    throw new SettlementError('Result must be a two-digit number (00-99)');
+  }
+  return { closeResult: value, openResult: market.openResult, openPanna: null, closePanna: null };
+}
+
+async function getCorrectableMarket(marketId: number, correctedResult: string): Promise<CorrectableMarket> {
+  const [market] = await db.select()
+    .from(satamatkaMarkets)
+    .where(eq(satamatkaMarkets.id, marketId))
+    .limit(1);
+
+  if (!market) {
+    throw new SettlementError('Market not found', 404);
+  }
+  if (market.status !== MarketStatus.RESULTED && market.status !== MarketStatus.SETTLED) {
+    throw new SettlementError('Only resulted or settled markets can have their result corrected');
+  }
+  if (!market.closeResult) {
+    throw new SettlementError('Market has no close result to correct');
+  }
+
+  const corrected = parseCorrectedResult(market, correctedResult);
+  const previousResult = formatMarketResult(market)!;
+  const correctedLabel = formatMarketResult(corrected)!;
+  if (previousResult === correctedLabel) {
+    throw new SettlementError('Corrected result is the same as the current result');
+  }
+  if (await getRunningSettlementJob(marketId)) {
+    throw new SettlementError('Market is being settled, try again when settlement has finished', 409);
+  }
+
+  return { market, previousResult, correctedResult: correctedLabel, corrected };
+}
+
+function paidOut(game: Game) {
+  return game.result === 'win' ? game.payout : 0;
+}
+
+/**
+ * Work out, per player, how balances would change if the market's close
+ * result were corrected. Nothing is written.
+ */
+export async function previewResultCorrection(marketId: number, correctedResult: string): Promise<ResultCorrectionPreview> {
+  const { market, previousResult, correctedResult: correctedLabel, corrected } = await getCorrectableMarket(marketId, correctedResult);
+
+  const marketGames = await db.select()
+    .from(games)
+    .where(and(eq(games.marketId, marketId), inArray(games.result, SETTLEABLE_RESULTS)));
+
+  const diffs = new Map<number, Omit<PlayerCorrectionDiff, 'username' | 'currentBalance' | 'balanceAfter'>>();
+  for (const game of marketGames) {
+    const diff = diffs.get(game.userId) ?? { userId: game.userId, bets: 0, currentPayout: 0, correctedPayout: 0, balanceChange: 0 };
+    diff.bets++;
+    diff.currentPayout += paidOut(game);
+    diff.correctedPayout += await calculateSatamatkaPayout(game, corrected) ?? 0;
+    diff.balanceChange = diff.correctedPayout - diff.currentPayout;
+    diffs.set(game.userId, diff);
+  }
+
+  const players = diffs.size > 0
+    ? await db.select({ id: users.id, username: users.username, balance: users.balance })
+        .from(users)
+        .where(inArray(users.id, Array.from(diffs.keys())))
+    : [];
+  const playersById = new Map(players.map(player => [player.id, player]));
+
+  const playerDiffs = Array.from(diffs.values())
+    .map(diff => {
+      const player = playersById.get(diff.userId);
+      const currentBalance = player?.balance ?? 0;
+      return {
+        ...diff,
+        username: player?.username ?? `User ${diff.userId}`,
+        currentBalance,
+        balanceAfter: currentBalance + diff.balanceChange,
+      };
+    })
+    .sort((a, b) => a.balanceChange - b.balanceChange);
+
+  const totalCurrentPayout = playerDiffs.reduce((sum, diff) => sum + diff.currentPayout, 0);
+  const totalCorrectedPayout = playerDiffs.reduce((sum, diff) => sum + diff.correctedPayout, 0);
+
+  return {
+    marketId,
+    marketName: market.name,
+    previousResult,
+    correctedResult: correctedLabel,
+    players: playerDiffs,
+    totalCurrentPayout,
+    totalCorrectedPayout,
+    netChange: totalCorrectedPayout - totalCurrentPayout,
+  };
+}
+
+/**
+ * Correct the close result of a resulted or settled market, or both pannas of
+ * a two-session market. Every payout made against the previous result is
+ * reversed with a compensating ledger entry and the market's bets are put back
+ * to pending, all in one transaction. The market is then settled again
+ * against the corrected result.
+ *
+ * Reversals may take a player below zero when the winnings were already spent.
+ */
+export async function correctMarketResult(
+  marketId: number,
+  correctedResult: string,
+  performedBy: number,
+  reason?: string,
+): Promise<{ correction: ResultCorrection; settlementJob: SettlementJob }> {
+  const { market, previousResult, correctedResult: correctedLabel, corrected } = await getCorrectableMarket(marketId, correctedResult);
+
+  const correction = await db.transaction(async (tx) => {
+    // Lock the market so two corrections cannot interleave
+    const [locked] = await tx.select()
+      .from(satamatkaMarkets)
+      .where(eq(satamatkaMarkets.id, marketId))
+      .for('update')
+      .limit(1);
+
+    if (!locked || formatMarketResult(locked) !== previousResult) {
+      throw new SettlementError('Market result changed while correcting, please review again', 409);
+    }
+
+    const settledGames = await tx.select()
+      .from(games)
+      .where(and(eq(games.marketId, marketId), inArray(games.result, ['win', 'loss'])))
+      .for('update');
+
+    let reversedBets = 0;
+    let reversedPayout = 0;
+
+    for (const game of settledGames) {
+      const payout = paidOut(game);
+
+      if (payout > 0) {
+        await postUserBalanceChange({
+          userId: game.userId,
+          amount: -payout,
+          house: HouseAccount.GAMES,
+          entryType: LedgerEntryType.PAYOUT_REVERSAL,
+          description: `Reversed ${market.name} payout (result corrected ${previousResult} → ${correctedLabel})`,
+          performedBy,
+          referenceType: 'game',
+          referenceId: game.id,
+          allowNegative: true,
+        }, tx);
+
+        reversedPayout += payout;
+      }
+
+      // Back to pending so the settlement run picks the bet up again
+      await tx.update(games)
+        .set({
+          result: 'pending',
+          payout: 0,
+          balanceAfter: game.balanceAfter !== null ? game.balanceAfter - payout : null,
+        })
+        .where(eq(games.id, game.id));
+
+      reversedBets++;
+    }
+
+    await tx.update(satamatkaMarkets)
+      .set({ ...corrected, status: MarketStatus.RESULTED })
+      .where(eq(satamatkaMarkets.id, marketId));
+
+    const [created] = await tx.insert(resultCorrections)
+      .values({
+        marketId,
+        previousResult,
+        correctedResult: correctedLabel,
+        reason: reason || null,
+        reversedBets,
+        reversedPayout,
+        performedBy,
+      })
+      .returning();
+
+    return created;
+  });
+
+  const settlementJob = await startMarketSettlement(marketId, performedBy);
+
+  const [updated] = await db.update(resultCorrections)
+    .set({ settlementJobId: settlementJob.id })
+    .where(eq(resultCorrections.id, correction.id))
+    .returning();
+
+  console.log(`Market ${marketId} result corrected ${correction.previousResult} → ${correction.correctedResult}: reversed ${correction.reversedBets} bets (${correction.reversedPayout} paisa)`);
+
+  return { correction: updated, settlementJob };
+}
+
+export function setupResultCorrectionRoutes(app: express.Express) {
+  // Per-player diff of balance changes, shown before the admin confirms
+  app.post('/api/satamatka/markets/:id/correct-result/preview', requirePermission(Permission.MARKETS_CORRECT_RESULT), async (req, res, next) => {
+    try {
+      const preview = await previewResultCorrection(Number(req.params.id), req.body.closeResult);
+      res.json(preview);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post('/api/satamatka/markets/:id/correct-result', requirePermission(Permission.MARKETS_CORRECT_RESULT), requireStepUp, async (req, res, next) => {
+    try {
+      const { closeResult, reason } = req.body;
+      const result = await correctMarketResult(Number(req.params.id), closeResult, req.user!.id, reason);
+      await recordAuditEvent(req, {
+        action: AuditAction.MARKET_CORRECT_RESULT,
+        targetType: 'market',
+        targetId: result.correction.marketId,
+        before: { result: result.correction.previousResult },
+        after: {
+          result: result.correction.correctedResult,
+          reason: result.correction.reason,
+          reversedBets: result.correction.reversedBets,
+          reversedPayout: result.correction.reversedPayout,
+        },
+      });
+      res.json(result);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Past corrections of a market, latest first
+  app.get('/api/satamatka/markets/:id/corrections', requirePermission(Permission.MARKETS_CORRECT_RESULT), async (req, res, next) => {
+    try {
+      const corrections = await db.select()
+        .from(resultCorrections)
+        .where(eq(resultCorrections.marketId, Number(req.params.id)))
+        .orderBy(desc(resultCorrections.createdAt));
+      res.json(corrections);
+    } catch (err) {
+      next(err);
+    }
+  });
+}
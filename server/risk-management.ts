@@ -1,6 +1,7 @@
 import { Request, Response } from "express";
 import { storage } from "./storage";
-import { UserRole, GameType } from "../shared/schema";
+import { UserRole, GameType, SatamatkaGameMode } from "../shared/schema";
+import { getCrossingBet } from "../shared/bet-types";
 
 /**
  * Types for risk management data
@@ -513,7 +514,11 @@ function calculateRiskData(games: any[], oddValue: number) {
         default: multiplier = oddValue / 100; // Fallback to admin setting
       }
       
-      const potentialPayout = betAmount * multiplier;
+      // Only one jodi of a crossing bet can win, so it is paid on one jodi's stake
+      const winningStake = game.gameMode === SatamatkaGameMode.CROSSING
+        ? getCrossingBet(game).stakePerJodi
+        : betAmount;
+      const potentialPayout = winningStake * multiplier;
       
       totalBetAmount += betAmount;
       potentialLiability += potentialPayout;
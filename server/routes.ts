@@ -1,53 +1,137 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { setupAuth, requireRole } from "./auth";
+import { setupAuth } from "./auth";
 import { storage } from "./storage";
 import { db } from "./db";
 import { z } from "zod";
 import { getAdminRiskManagement, getSubadminRiskManagement } from "./risk-management";
 import { fixCrossingBets } from "./fix-crossing-bets";
+import { postLedgerEntry, postUserBalanceChange, postBalanceReset, userAccount, houseAccount, setupLedgerRoutes } from "./ledger";
+import { placeBets, getIdempotencyKey, getSatamatkaBetSession, getSatamatkaGameData } from "./bet-placement";
+import { setupFairnessRoutes, drawCoinFlip } from "./fairness";
+import { setupRtpRoutes, getCoinFlipRtpPolicy, hasRtpPolicy } from "./rtp";
+import { setupBankReconciliationRoutes } from "./bank-reconciliation";
+import { setupAgentHierarchyRoutes, getSubtreeUserIds, getNearestAgentOdds } from "./agent-hierarchy";
+import { setupPermissionRoutes, requirePermission, userParam, can, canAccessUser } from "./permissions";
+import { setupAuditRoutes, recordAuditEvent } from "./audit";
+import { setupArchiveRoutes, archiveAccountHistory } from "./archives";
+import { setupTwoFactorRoutes, requireStepUp } from "./two-factor";
+import { setupSessionRoutes, revokeUserSessions } from "./sessions";
+import { setupSelfExclusionRoutes } from "./self-exclusion";
+import { setupPlayerLimitRoutes } from "./player-limits";
+import { setupPlaySessionRoutes } from "./play-sessions";
+import { setupKycRoutes } from "./kyc";
+import { setupPasswordRoutes, hashPassword } from "./passwords";
+import { runDataMigrations, setupDataMigrationRoutes } from "./data-migrations";
+import { passwordPolicyProblem } from "@shared/password-policy";
+import { positivePaisaSchema, paisaSchema, rupeesToPaisa, formatPaisa } from "@shared/money";
+import { startMarketSettlement, setupSettlementRoutes } from "./settlement";
+import { setupResultCorrectionRoutes } from "./result-correction";
+import { setupMarketSchedulerRoutes, logManualMarketTransition } from "./market-scheduler";
 
 import { 
   GameOutcome, 
   GameType,
   MarketType, 
-  SatamatkaGameMode,
+  MarketStatus,
+  MarketSession,
   TeamMatchResult,
   MatchCategory,
-  insertGameSchema, 
   insertTransactionSchema, 
   insertSatamatkaMarketSchema,
   insertTeamMatchSchema,
   UserRole,
+  Permission,
+  AuditAction,
+  HouseAccount,
+  LedgerEntryType,
   games,
   transactions,
   users
 } from "@shared/schema";
-import { eq, and, gte, desc, ne } from "drizzle-orm";
+import { eq, and, gte, desc, ne, inArray } from "drizzle-orm";
 import * as schema from "@shared/schema";
+import { getBetType, type PlacedBet } from "@shared/bet-types";
+import { isTwoSessionMarket, isValidPanna } from "@shared/market-sessions";
 import { setupWalletRoutes } from "./wallet-system";
 import { setupUploadRoutes } from "./upload-routes";
-import { setupDepositCommissionEndpoints } from "./deposit-commission-endpoint";
+import { setupDepositCommissionEndpoints, type CommissionShare } from "./deposit-commission-endpoint";
 import depositDiscountRouter from "./deposit-discount-endpoint";
 import cricketTossRoutes from "./cricket-toss-api";
-import resetSystemRoutes from "./reset-system";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Bring existing rows up to date before any request is served
+  await runDataMigrations();
+  
   // Setup authentication routes
   setupAuth(app);
   
   // Setup wallet routes for deposits and withdrawals
   setupWalletRoutes(app);
   
+  // Setup ledger history and reconciliation routes
+  setupLedgerRoutes(app);
+  
+  // Setup bank statement import and deposit reconciliation routes
+  setupBankReconciliationRoutes(app);
+  
+  // Setup market settlement job routes
+  setupSettlementRoutes(app);
+  
+  // Setup result correction and re-settlement routes
+  setupResultCorrectionRoutes(app);
+  
+  // Start the market scheduler and its holiday calendar routes
+  setupMarketSchedulerRoutes(app);
+  
+  // Setup provably fair seed and verification routes
+  setupFairnessRoutes(app);
+  
+  // Setup published RTP policy and report routes
+  setupRtpRoutes(app);
+  
+  // Setup agent tree and agent permission routes
+  setupAgentHierarchyRoutes(app);
+  
+  // Setup role template and user permission routes
+  setupPermissionRoutes(app);
+  
+  // Setup audit log routes
+  setupAuditRoutes(app);
+  
+  // Setup archive routes
+  setupArchiveRoutes(app);
+  
+  // Setup two-factor authentication routes
+  setupTwoFactorRoutes(app);
+  
+  // Setup login session listing and revocation routes
+  setupSessionRoutes(app);
+  
+  // Setup cooling-off and self-exclusion routes
+  setupSelfExclusionRoutes(app);
+  
+  // Setup player deposit, loss and wager limit routes
+  setupPlayerLimitRoutes(app);
+  
+  // Setup play session and reality check routes
+  setupPlaySessionRoutes(app);
+  
+  // Setup KYC document upload, review queue and rule routes
+  setupKycRoutes(app);
+  
+  // Setup password hash report routes
+  setupPasswordRoutes(app);
+  
+  // Setup data migration report routes
+  setupDataMigrationRoutes(app);
+  
   // Setup deposit commission management endpoints (consolidated implementation)
   setupDepositCommissionEndpoints(app);
   
   // Setup file upload routes
   setupUploadRoutes(app);
   
-  // Setup reset system routes
-  app.use("/api/admin", resetSystemRoutes);
-  
   // Public API endpoints (no authentication required)
   
   // Get public market results (accessible without authentication)
@@ -125,14 +209,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Setup risk management routes
-  app.get('/api/risk/admin', requireRole(UserRole.ADMIN), getAdminRiskManagement);
-  app.get('/api/risk/subadmin', requireRole(UserRole.SUBADMIN), getSubadminRiskManagement);
+  app.get('/api/risk/admin', requirePermission(Permission.REPORTS_VIEW_PLATFORM), getAdminRiskManagement);
+  app.get('/api/risk/subadmin', requirePermission(Permission.REPORTS_VIEW), getSubadminRiskManagement);
   
   // Setup cricket toss routes - registered later in the file
   // (see line ~3277 where it's properly registered)
   
   // Endpoint to manually seed demo Satamatka markets
-  app.post("/api/admin/seed-satamatka-markets", requireRole(UserRole.ADMIN), async (req, res, next) => {
+  app.post("/api/admin/seed-satamatka-markets", requirePermission(Permission.SYSTEM_MAINTENANCE), async (req, res, next) => {
     try {
       await storage.seedDemoSatamatkaMarkets();
       res.status(200).json({ message: "Demo Satamatka markets seeded successfully" });
@@ -141,46 +225,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Game routes
-  app.post("/api/games", async (req, res, next) => {
-    try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Unauthorized" });
-      }
-
-      if (req.user!.isBlocked) {
-        return res.status(403).json({ message: "Your account is blocked" });
-      }
-
-      const gameData = insertGameSchema.parse({
-        userId: req.user!.id,
-        gameType: req.body.gameType || GameType.COIN_FLIP,
-        betAmount: req.body.betAmount,
-        prediction: req.body.prediction,
-        result: req.body.result,
-        payout: req.body.payout,
-        marketId: req.body.marketId,
-        gameMode: req.body.gameMode,
-      });
-
-      // Verify user has enough balance
-      const user = await storage.getUser(req.user!.id);
-      if (!user || user.balance < gameData.betAmount) {
-        return res.status(400).json({ message: "Insufficient balance" });
-      }
-
-      // Update user balance based on the payout
-      const newBalance = user.balance - gameData.betAmount + gameData.payout;
-      await storage.updateUserBalance(user.id, newBalance);
-
-      // Record the game
-      const game = await storage.createGame(gameData);
-      res.status(201).json(game);
-    } catch (err) {
-      next(err);
-    }
-  });
-
   // Helper function to format game type for display
 function formatGameType(gameType: string): string {
   switch(gameType) {
@@ -371,172 +415,59 @@ app.get("/api/games/my-history", async (req, res, next) => {
         return res.status(403).json({ message: "Your account is blocked" });
       }
 
-      const { betAmount, prediction } = req.body;
+      const { prediction } = req.body;
       
       // Validate input
-      if (!betAmount || betAmount <= 0) {
+      const parsedAmount = positivePaisaSchema.safeParse(req.body.betAmount);
+      if (!parsedAmount.success) {
         return res.status(400).json({ message: "Invalid bet amount" });
       }
+      const betAmount = parsedAmount.data;
 
       if (!prediction || (prediction !== GameOutcome.HEADS && prediction !== GameOutcome.TAILS)) {
         return res.status(400).json({ message: "Invalid prediction" });
       }
 
-      // Check user balance
+      const idempotencyKey = getIdempotencyKey(req);
+
+      // The balance itself is checked when the bet is placed
       const user = await storage.getUser(req.user!.id);
-      if (!user || user.balance < betAmount) {
-        return res.status(400).json({ message: "Insufficient balance" });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      // Import our dynamic probability system
-      const { calculateWinProbability, updateUserSessionStats, DEFAULT_HOUSE_EDGE_WIN_RATE } = await import('./game-probability');
-      
-      // Calculate win probability based on user's history and session stats
-      let userWinProbability = await calculateWinProbability(user.id);
-      
-      // Critical adjustment: Force house edge after seeing game logs
-      // This is a temporary adjustment to ensure the house maintains an edge
-      // The user has been winning too frequently, so we'll lower the probability temporarily
-      // The player has won too many times in a row, adjust probability downward
-      const MAX_WIN_PROBABILITY = 0.35; // Limit maximum win probability to 35% temporarily
-      
-      // Get user's recent games to check winning streak
-      const recentGames = await storage.getRecentGames(user.id, 5);
-      let winStreak = 0;
-      
-      // Count consecutive wins
-      for (const game of recentGames) {
-        if (game.payout > 0) {
-          winStreak++;
-        } else {
-          break; // Stop counting at first loss
-        }
-      }
+      // Outcome derived from the player's committed seed pair, at fixed odds
+      const { outcome: result, proof } = await drawCoinFlip(user.id);
+      const userWins = result === prediction;
       
-      // Apply stricter probability if user is on a winning streak
-      if (winStreak >= 3) {
-        // Cap at a much lower probability for users on a win streak
-        userWinProbability = Math.min(userWinProbability, 0.25);
-        console.log(`Win streak detected (${winStreak}), applying stricter probability: ${userWinProbability.toFixed(2)}`);
-      } else {
-        // Standard adjustment - cap at MAX_WIN_PROBABILITY
-        userWinProbability = Math.min(userWinProbability, MAX_WIN_PROBABILITY);
-      }
-      
-      // Check if user has less than 5 games and is betting high amounts
-      const coinFlipGames = await db.query.games.findMany({
-        where: and(
-          eq(games.userId, user.id),
-          eq(games.gameType, GameType.COIN_FLIP)
-        ),
-        orderBy: [desc(games.createdAt)]
-      });
-      
-      // Check if this is one of the user's first 5 games
-      const isInFirstFiveGames = coinFlipGames.length < 5;
-      
-      // Calculate total bet amount in first games (including current bet)
-      let totalBetAmount = betAmount;
-      if (isInFirstFiveGames) {
-        totalBetAmount += coinFlipGames.reduce((sum, game) => sum + game.betAmount, 0);
-      }
-      
-      // Force loss if betting more than 1000 Rs in first 5 games
-      let forceHighBetLoss = false;
-      if (isInFirstFiveGames && totalBetAmount > 100000) { // 1000 Rs in cents
-        forceHighBetLoss = true;
-        console.log(`High bet detected in first 5 games: ${totalBetAmount/100} Rs - Forcing loss for user ${user.username}`);
-        userWinProbability = 0; // Set win probability to 0 for logging purposes
-      }
-      
-      // Determine if user wins based on dynamic probability (unless we're forcing a loss)
-      const userWins = forceHighBetLoss ? false : Math.random() < userWinProbability;
-      
-      // Set result based on user's prediction and whether they win
-      // If user prediction is HEADS and they win, result is HEADS
-      // If user prediction is HEADS and they lose, result is TAILS
-      // And vice versa
-      const result = userWins ? prediction : 
-                    (prediction === GameOutcome.HEADS ? GameOutcome.TAILS : GameOutcome.HEADS);
-      
-      // Get appropriate multiplier from game odds settings
-      // First check if user is assigned to a subadmin
-      let multiplier = 1.95; // Default fallback if no odds are configured
-      
-      // Try to get user's assigned subadmin
-      const userData = await storage.getUser(user.id);
-      const subadminId = userData?.assignedTo;
-      
-      try {
-        if (subadminId) {
-          // User is assigned to a subadmin, check for subadmin-specific odds
-          // Get custom odds for this subadmin - we need to explicitly filter by setByAdmin=false to get custom odds
-          const subadminOdds = await db.select()
-            .from(schema.gameOdds)
-            .where(
-              and(
-                eq(schema.gameOdds.gameType, 'coin_flip'),
-                eq(schema.gameOdds.subadminId, subadminId),
-                eq(schema.gameOdds.setByAdmin, false)
-              )
-            );
-            
-          console.log(`Direct DB query for coin_flip odds for subadmin ${subadminId}:`, subadminOdds);
-            
-          if (subadminOdds && subadminOdds.length > 0) {
-            // Use subadmin odds
-            multiplier = subadminOdds[0].oddValue / 10000; // Convert from stored integer (70000) to decimal (7.00)
-            console.log(`Using custom subadmin odds for player ${user.id}: ${multiplier}x`)
-          } else {
-            // No subadmin-specific odds, check admin odds
-            const adminOdds = await storage.getGameOdds('coin_flip');
-            const adminOdd = adminOdds.find(odd => odd.setByAdmin === true);
-            if (adminOdd) {
-              multiplier = adminOdd.oddValue / 10000;
-            }
-          }
-        } else {
-          // User not assigned to a subadmin, use admin odds directly
-          const adminOdds = await storage.getGameOdds('coin_flip');
-          const adminOdd = adminOdds.find(odd => odd.setByAdmin === true);
-          if (adminOdd) {
-            multiplier = adminOdd.oddValue / 10000;
-          }
-        }
-      } catch (error) {
-        console.error("Error getting odds settings:", error);
-        // Use default multiplier if there's an error
-      }
+      // Payout multiplier of the published RTP policy, the same for every player
+      const { payoutMultiplier: multiplier } = await getCoinFlipRtpPolicy();
       
       const payout = userWins ? Math.floor(betAmount * multiplier) : 0;
       
-      // Update user balance
-      const newBalance = user.balance - betAmount + payout;
-      await storage.updateUserBalance(user.id, newBalance);
-      
-      // Update user session stats for future probability calculations
-      updateUserSessionStats(user.id, userWins);
-
-      // Log internal game stats (only visible in server logs, not to clients)
-      console.log(`Coin Flip: User=${user.username}, WinProb=${userWinProbability.toFixed(2)}, Wins=${userWins}, Payout=${payout}`);
-
-      // Record the game
-      const game = await storage.createGame({
+      const placement = await placeBets({
         userId: user.id,
-        gameType: GameType.COIN_FLIP,
-        betAmount,
-        prediction,
-        result,
-        payout,
-        balanceAfter: newBalance, // Track the balance after this game
+        endpoint: "/api/games/play",
+        idempotencyKey,
+        bets: [{
+          gameType: GameType.COIN_FLIP,
+          betAmount,
+          prediction,
+          result,
+          payout,
+          gameData: { fairness: proof },
+          creditPayout: true,
+          description: `Coin flip bet on ${prediction}`,
+          payoutDescription: `Coin flip win on ${result}`,
+        }],
       });
-
+      const [game] = placement.games;
+      
       // Return game result with updated user info
       res.json({
         game,
         user: {
-          ...user,
-          balance: newBalance,
+          ...placement.user,
           password: undefined,
         },
       });
@@ -546,22 +477,25 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
 
   // User management routes
-  app.get("/api/users", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.get("/api/users", requirePermission(Permission.USERS_VIEW), async (req, res, next) => {
     try {
       let users;
       
       // If the assignedTo query param is provided, filter by this parameter (for showing users of a specific subadmin)
       const assignedToId = req.query.assignedTo ? parseInt(req.query.assignedTo as string) : null;
       
-      if (assignedToId && req.user!.role === UserRole.ADMIN) {
-        // Admin can request players assigned to a specific subadmin
+      if (assignedToId && await canAccessUser(req.user!, assignedToId)) {
+        // Admins and agents above a subadmin can request the users assigned to it
         users = await storage.getUsersByAssignedTo(assignedToId);
       } else if (req.user!.role === UserRole.ADMIN) {
         // Admins can see all users by default
         users = await storage.getAllUsers();
       } else {
-        // Subadmins can only see users assigned to them
-        users = await storage.getUsersByAssignedTo(req.user!.id);
+        // Agents see every user below them in the agent tree
+        const subtreeIds = await getSubtreeUserIds(req.user!.id);
+        users = subtreeIds.length > 0
+          ? await db.select().from(schema.users).where(inArray(schema.users.id, subtreeIds))
+          : [];
       }
 
       // Remove passwords from response
@@ -577,7 +511,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
   
   // Get a single user by ID
-  app.get("/api/users/:id", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.get("/api/users/:id", requirePermission(Permission.USERS_VIEW, { user: userParam("id"), allowSelf: true }), async (req, res, next) => {
     try {
       const userId = parseInt(req.params.id);
       
@@ -594,20 +528,6 @@ app.get("/api/games/my-history", async (req, res, next) => {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Check if current user has permission to view this user
-      // Admins can view any user, subadmins can only view users assigned to them
-      if (req.user!.role === UserRole.SUBADMIN && 
-          user.role !== UserRole.PLAYER && 
-          user.id !== req.user!.id) {
-        return res.status(403).json({ message: "You don't have permission to view this user" });
-      }
-      
-      if (req.user!.role === UserRole.SUBADMIN && 
-          user.role === UserRole.PLAYER && 
-          user.assignedTo !== req.user!.id) {
-        return res.status(403).json({ message: "You don't have permission to view this user" });
-      }
-      
       // Remove password from response
       const { password, ...userWithoutPassword } = user;
       
@@ -619,7 +539,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
   
   // Delete a user
-  app.delete("/api/users/:id", requireRole([UserRole.ADMIN]), async (req, res, next) => {
+  app.delete("/api/users/:id", requirePermission(Permission.USERS_DELETE, { user: userParam("id") }), async (req, res, next) => {
     try {
       const userId = parseInt(req.params.id);
       
@@ -636,30 +556,26 @@ app.get("/api/games/my-history", async (req, res, next) => {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Only admin can delete users
-      if (req.user!.role !== UserRole.ADMIN) {
-        return res.status(403).json({ message: "Only administrators can delete users" });
-      }
-      
       // Don't allow deleting self
       if (user.id === req.user!.id) {
         return res.status(403).json({ message: "Cannot delete your own account" });
       }
       
-      // Delete the user
-      const result = await storage.deleteUser(userId);
-      
-      if (result) {
-        return res.status(200).json({ message: "User deleted successfully" });
-      } else {
-        return res.status(500).json({ message: "Failed to delete user" });
+      // Financial records are never destroyed; such accounts are blocked instead
+      if (await storage.hasFinancialHistory(userId)) {
+        return res.status(409).json({
+          message: `${user.username} has balances, bets or transactions on record and cannot be deleted. Block the account instead.`
+        });
       }
+      
+      await storage.deleteUser(userId);
+      res.status(200).json({ message: "User deleted successfully" });
     } catch (err) {
       next(err);
     }
   });
 
-  app.patch("/api/users/:id/block", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.patch("/api/users/:id/block", requirePermission(Permission.USERS_BLOCK, { user: userParam("id") }), async (req, res, next) => {
     try {
       const userId = Number(req.params.id);
       const user = await storage.getUser(userId);
@@ -668,16 +584,13 @@ app.get("/api/games/my-history", async (req, res, next) => {
         return res.status(404).json({ message: "User not found" });
       }
 
-      // Check permissions
-      if (req.user!.role === UserRole.SUBADMIN && user.assignedTo !== req.user!.id) {
-        return res.status(403).json({ message: "You don't have permission to modify this user" });
-      }
-
       // Block user and store who blocked them
       const updatedUser = await storage.blockUser(userId, req.user!.id);
       if (!updatedUser) {
         return res.status(404).json({ message: "User not found" });
       }
+      // Log them out wherever they are signed in
+      await revokeUserSessions(userId);
 
       // Remove password from response
       const { password, ...userWithoutPassword } = updatedUser;
@@ -687,7 +600,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
     }
   });
 
-  app.patch("/api/users/:id/unblock", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.patch("/api/users/:id/unblock", requirePermission(Permission.USERS_BLOCK, { user: userParam("id") }), async (req, res, next) => {
     try {
       const userId = Number(req.params.id);
       const user = await storage.getUser(userId);
@@ -696,21 +609,11 @@ app.get("/api/games/my-history", async (req, res, next) => {
         return res.status(404).json({ message: "User not found" });
       }
 
-      // Check if user was blocked by an admin when a subadmin is trying to unblock
-      if (req.user!.role === UserRole.SUBADMIN) {
-        if (user.blockedBy) {
-          const blockedByUser = await storage.getUser(user.blockedBy);
-          if (blockedByUser && blockedByUser.role === UserRole.ADMIN) {
-            return res.status(403).json({ 
-              message: "This user was blocked by an admin. Please contact your admin to unblock this user." 
-            });
-          }
-        }
-        
-        // Also check assignments for subadmins
-        if (user.assignedTo !== req.user!.id) {
-          return res.status(403).json({ message: "You don't have permission to modify this user" });
-        }
+      // A block can only be lifted by whoever set it or someone above them
+      if (user.blockedBy && user.blockedBy !== req.user!.id && !await canAccessUser(req.user!, user.blockedBy)) {
+        return res.status(403).json({ 
+          message: "This user was blocked by an admin or an agent above you. Please contact them to unblock this user." 
+        });
       }
 
       // Unblock user
@@ -727,236 +630,275 @@ app.get("/api/games/my-history", async (req, res, next) => {
     }
   });
 
-  app.patch("/api/users/:id/balance", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.patch("/api/users/:id/balance", requirePermission(Permission.WALLET_ADJUST_BALANCE, { user: userParam("id") }), requireStepUp, async (req, res, next) => {
     // Initialize this variable at function level to avoid duplicate declarations
     let discountBonusAmount = 0;
     
     try {
       const userId = Number(req.params.id);
-      const { amount, description } = req.body;
+      const { description } = req.body;
 
-      if (typeof amount !== 'number') {
+      // Paisa, positive to add funds and negative to remove them
+      const parsedAmount = paisaSchema.safeParse(req.body.amount);
+      if (!parsedAmount.success || parsedAmount.data === 0) {
         return res.status(400).json({ message: "Invalid amount" });
       }
+      const amount = parsedAmount.data;
 
       const user = await storage.getUser(userId);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
 
-      // Check permissions
+      // Agents only transfer funds to and from the users directly below them
       if (req.user!.role === UserRole.SUBADMIN && user.assignedTo !== req.user!.id) {
         return res.status(403).json({ message: "You don't have permission to modify this user" });
       }
 
-      // For admins and subadmins interacting with user funds
-      if (req.user!.role === UserRole.ADMIN || req.user!.role === UserRole.SUBADMIN) {
-        const adminOrSubadmin = await storage.getUser(req.user!.id);
+      const adminOrSubadmin = await storage.getUser(req.user!.id);
+      if (!adminOrSubadmin) {
+        return res.status(404).json({ message: `${req.user!.role} account not found` });
+      }
+
+      // Admin funding or debiting their own wallet (platform investment / withdrawal)
+      const isAdminSelf = req.user!.role === UserRole.ADMIN && userId === req.user!.id;
+      
+      // Amount that actually moves between the acting admin/subadmin and the user.
+      // It differs from `amount` when a subadmin commission applies.
+      let counterpartAmount = Math.abs(amount);
+      let counterpartDescription = '';
+      // Commission kept by each agent above a subadmin recipient
+      let ancestorShares: CommissionShare[] = [];
+
+      // When adding funds, check if admin/subadmin has enough balance
+      if (amount > 0 && !isAdminSelf) {
+        // Check if the recipient is a subadmin - we need to apply commission logic
+        const isRecipientSubadmin = user.role === UserRole.SUBADMIN;
+        // Check if the recipient is a player - we need to apply deposit discount logic
+        const isRecipientPlayer = user.role === UserRole.PLAYER;
         
-        if (!adminOrSubadmin) {
-          return res.status(404).json({ message: `${req.user!.role} account not found` });
+        // Applies at every level of the agent tree: from the admin to a top
+        // agent and from any agent to a sub-agent directly below it
+        if (isRecipientSubadmin) {
+          try {
+            const { getSubadminDepositCommission, getAncestorCommissionShares } = await import('./deposit-commission-endpoint');
+            
+            // Get the commission rate for this subadmin (e.g., 50% = 5000)
+            const commissionRate = await getSubadminDepositCommission(userId);
+            
+            // Only deduct the commission percentage from the sender's wallet, not the full amount
+            counterpartAmount = Math.floor((amount * commissionRate) / 10000);
+            ancestorShares = await getAncestorCommissionShares(userId, amount);
+            
+            console.log(`Transfer to subadmin ${userId}: Total: ${amount}, Commission rate: ${commissionRate/100}%, Sender deduction: ${counterpartAmount}, Commission saved: ${amount - counterpartAmount}`);
+          } catch (error) {
+            console.error('Error calculating commission rate:', error);
+            // If there's an error, use default behavior (deduct full amount)
+            counterpartAmount = amount;
+            ancestorShares = [];
+          }
         }
         
-        // When adding funds, check if admin/subadmin has enough balance
-        if (amount > 0) {
-          // For admin self-funding, don't check balance
-          const isAdminSelfFunding = req.user!.role === UserRole.ADMIN && userId === req.user!.id;
-          
-          // Check if the recipient is a subadmin - we need to apply commission logic
-          const isRecipientSubadmin = user.role === UserRole.SUBADMIN;
-          // Check if the recipient is a player - we need to apply deposit discount logic
-          const isRecipientPlayer = user.role === UserRole.PLAYER;
-          
-          // Calculate deduction amount based on commission (if target is subadmin)
-          let deductionAmount = amount;
-          
-          if (req.user!.role === UserRole.ADMIN && isRecipientSubadmin) {
-            try {
-              // Import the function from wallet-system.ts
-              const { getSubadminDepositCommission } = await import('./deposit-commission-endpoint');
-              
-              // Get the commission rate for this subadmin (e.g., 50% = 5000)
-              const commissionRate = await getSubadminDepositCommission(userId);
-              
-              // Calculate the amount to deduct from admin (only the commission percentage)
-              // Only deduct the commission percentage from admin's wallet, not the full amount
-              deductionAmount = Math.floor((amount * commissionRate) / 10000);
-              
-              // Calculate the commission amount (the difference between full amount and what admin pays)
-              const commissionAmount = amount - deductionAmount;
-              
-              console.log(`Transfer to subadmin ${userId}: Total: ${amount}, Commission rate: ${commissionRate/100}%, Admin deduction: ${deductionAmount}, Commission saved: ${commissionAmount}`);
-            } catch (error) {
-              console.error('Error calculating commission rate:', error);
-              // If there's an error, use default behavior (deduct full amount)
-              deductionAmount = amount;
-            }
-          }
-          
-          // Apply deposit discount if user is a player and transferrer is a subadmin
-          if (req.user!.role === UserRole.SUBADMIN && isRecipientPlayer) {
-            try {
-              // Import deposit discount helper functions
-              const { getPlayerDepositDiscount, calculateDepositBonus } = await import('./deposit-discount-helper');
-              
-              // Get the discount rate for this player
-              const discountRate = await getPlayerDepositDiscount(userId, req.user!.id);
-              
-              if (discountRate > 0) {
-                // Calculate bonus amount based on discount rate
-                discountBonusAmount = calculateDepositBonus(amount, discountRate);
-                
-                console.log(`Transfer to player ${userId}: Amount: ${amount}, Discount rate: ${discountRate/100}%, Bonus amount: ${discountBonusAmount}`);
-                
-                // Add the bonus amount to the deduction amount
-                // This ensures the subadmin pays for both the base amount and the bonus
-                deductionAmount += discountBonusAmount;
-              }
-            } catch (error) {
-              console.error('Error calculating deposit discount:', error);
-              // If there's an error, no bonus will be added
-              discountBonusAmount = 0;
-            }
-          }
-          
-          if (!isAdminSelfFunding && adminOrSubadmin.balance < deductionAmount) {
-            return res.status(400).json({ 
-              message: "Insufficient balance in your account. Please add funds to your wallet first."
-            });
-          }
-          
-          // Skip deduction if it's admin self-funding
-          if (!isAdminSelfFunding) {
-            // Deduct the calculated amount from admin/subadmin's balance
-            await storage.updateUserBalance(adminOrSubadmin.id, adminOrSubadmin.balance - deductionAmount);
+        // Apply deposit discount if user is a player and transferrer is a subadmin
+        if (req.user!.role === UserRole.SUBADMIN && isRecipientPlayer) {
+          try {
+            const { getPlayerDepositDiscount, calculateDepositBonus } = await import('./deposit-discount-helper');
             
-            // Record transaction for admin/subadmin (negative amount = deduction)
-            let description = '';
-            if (isRecipientSubadmin) {
-              const commissionAmount = amount - deductionAmount;
-              description = `Funds transferred to ${user.username} (${deductionAmount} of ${amount} - commission rate applied, commission: ${commissionAmount})`;
-            } else if (discountBonusAmount > 0) {
-              description = `Funds transferred to ${user.username} (Deposit discount applied: +${discountBonusAmount}, total deducted: ${deductionAmount})`;
-            } else {
-              description = `Funds transferred to ${user.username}`;
-            }
-                
-            await storage.createTransaction({
-              userId: adminOrSubadmin.id,
-              amount: -deductionAmount,
-              performedBy: adminOrSubadmin.id,
-              description,
-            });
-          }
-        } 
-        // When deducting funds, add to admin/subadmin's balance
-        else if (amount < 0) {
-          // Skip addition if it's admin self-deduction
-          const isAdminSelfDeduction = req.user!.role === UserRole.ADMIN && userId === req.user!.id;
-          
-          // Check if the source is a subadmin - we need to apply commission logic
-          const isSourceSubadmin = user.role === UserRole.SUBADMIN;
-          
-          // Calculate addition amount based on commission (if source is subadmin)
-          let additionAmount = Math.abs(amount);
-          
-          if (req.user!.role === UserRole.ADMIN && isSourceSubadmin) {
-            try {
-              // Import the function from wallet-system.ts
-              const { getSubadminDepositCommission } = await import('./deposit-commission-endpoint');
-              
-              // Get the commission rate for this subadmin (e.g., 50% = 5000)
-              const commissionRate = await getSubadminDepositCommission(userId);
-              
-              // Calculate the amount to add to admin (only the commission percentage)
-              // Only add the commission percentage to admin's wallet, not the full amount
-              additionAmount = Math.floor((Math.abs(amount) * commissionRate) / 10000);
+            // Get the discount rate for this player
+            const discountRate = await getPlayerDepositDiscount(userId, req.user!.id);
+            
+            if (discountRate > 0) {
+              // Calculate bonus amount based on discount rate
+              discountBonusAmount = calculateDepositBonus(amount, discountRate);
               
-              console.log(`Withdrawal from subadmin ${userId}: Total: ${Math.abs(amount)}, Commission rate: ${commissionRate/100}%, Admin addition: ${additionAmount}`);
-            } catch (error) {
-              console.error('Error calculating commission rate:', error);
-              // If there's an error, use default behavior (add full amount)
-              additionAmount = Math.abs(amount);
+              console.log(`Transfer to player ${userId}: Amount: ${amount}, Discount rate: ${discountRate}%, Bonus amount: ${discountBonusAmount}`);
             }
+          } catch (error) {
+            console.error('Error calculating deposit discount:', error);
+            // If there's an error, no bonus will be added
+            discountBonusAmount = 0;
           }
-          
-          if (!isAdminSelfDeduction) {
-            // Add the calculated amount to admin/subadmin's balance
-            await storage.updateUserBalance(adminOrSubadmin.id, adminOrSubadmin.balance + additionAmount);
+        }
+        
+        // The subadmin pays for both the base amount and the bonus
+        const deductionAmount = counterpartAmount + discountBonusAmount;
+        
+        if (adminOrSubadmin.balance < deductionAmount) {
+          return res.status(400).json({ 
+            message: "Insufficient balance in your account. Please add funds to your wallet first."
+          });
+        }
+        
+        if (isRecipientSubadmin) {
+          const commissionAmount = amount - counterpartAmount;
+          counterpartDescription = `Funds transferred to ${user.username} (${formatPaisa(counterpartAmount)} of ${formatPaisa(amount)} - commission rate applied, commission: ${formatPaisa(commissionAmount)})`;
+        } else if (discountBonusAmount > 0) {
+          counterpartDescription = `Funds transferred to ${user.username} (Deposit discount applied: +${formatPaisa(discountBonusAmount)}, total deducted: ${formatPaisa(deductionAmount)})`;
+        } else {
+          counterpartDescription = `Funds transferred to ${user.username}`;
+        }
+      } 
+      // When deducting funds, add to admin/subadmin's balance
+      else if (amount < 0 && !isAdminSelf) {
+        // Check if the source is a subadmin - we need to apply commission logic
+        const isSourceSubadmin = user.role === UserRole.SUBADMIN;
+        
+        if (isSourceSubadmin) {
+          try {
+            const { getSubadminDepositCommission, getAncestorCommissionShares } = await import('./deposit-commission-endpoint');
             
-            // Record transaction for admin/subadmin (positive amount = addition)
-            let description = '';
-            if (isSourceSubadmin) {
-              const commissionAmount = additionAmount - Math.abs(amount);
-              description = `Funds recovered from ${user.username} (${additionAmount} of ${Math.abs(amount)} - commission rate applied, commission: ${commissionAmount})`;
-            } else {
-              description = `Funds recovered from ${user.username}`;
-            }
-              
-            await storage.createTransaction({
-              userId: adminOrSubadmin.id,
-              amount: additionAmount,
-              performedBy: adminOrSubadmin.id,
-              description,
-            });
+            // Get the commission rate for this subadmin (e.g., 50% = 5000)
+            const commissionRate = await getSubadminDepositCommission(userId);
+            
+            // Only add the commission percentage to the sender's wallet, not the full amount
+            counterpartAmount = Math.floor((Math.abs(amount) * commissionRate) / 10000);
+            ancestorShares = await getAncestorCommissionShares(userId, Math.abs(amount));
+            
+            console.log(`Withdrawal from subadmin ${userId}: Total: ${Math.abs(amount)}, Commission rate: ${commissionRate/100}%, Sender addition: ${counterpartAmount}`);
+          } catch (error) {
+            console.error('Error calculating commission rate:', error);
+            // If there's an error, use default behavior (add full amount)
+            counterpartAmount = Math.abs(amount);
+            ancestorShares = [];
           }
         }
+        
+        if (isSourceSubadmin) {
+          const commissionAmount = counterpartAmount - Math.abs(amount);
+          counterpartDescription = `Funds recovered from ${user.username} (${formatPaisa(counterpartAmount)} of ${formatPaisa(Math.abs(amount))} - commission rate applied, commission: ${formatPaisa(commissionAmount)})`;
+        } else {
+          counterpartDescription = `Funds recovered from ${user.username}`;
+        }
       }
 
-      // Add bonus amount from deposit discount if applicable
-      let totalAmount = amount;
-      let bonusDescription = "";
-      
-      // Apply bonus only if it's a deposit (positive amount) and there's a bonus to add
-      if (amount > 0 && discountBonusAmount > 0) {
-        totalAmount += discountBonusAmount;
-        bonusDescription = ` (includes ${discountBonusAmount} bonus)`;
-      }
-      
       // Prevent negative balance for the player
-      const newBalance = user.balance + totalAmount;
-      if (newBalance < 0) {
+      if (user.balance + amount < 0) {
         return res.status(400).json({ message: "Cannot reduce balance below zero" });
       }
 
-      // Update player's balance
-      const updatedUser = await storage.updateUserBalance(userId, newBalance);
-      if (!updatedUser) {
-        return res.status(404).json({ message: "User not found" });
-      }
-
       // Determine a default description if none provided
       const transactionDesc = description || (amount > 0 
         ? `Funds added by ${req.user!.username}` 
         : `Funds deducted by ${req.user!.username}`);
-        
-      // If a bonus was added, create two separate transaction records
-      if (amount > 0 && discountBonusAmount > 0) {
+
+      await db.transaction(async (tx) => {
+        const performedBy = req.user!.id;
+        const commissionDifference = Math.abs(amount) - counterpartAmount;
+
+        if (isAdminSelf) {
+          // Platform investment or withdrawal of platform funds
+          await postUserBalanceChange({
+            userId,
+            amount,
+            house: HouseAccount.CASH,
+            entryType: amount > 0 ? LedgerEntryType.DEPOSIT : LedgerEntryType.WITHDRAWAL,
+            description: transactionDesc,
+            performedBy,
+          }, tx);
+        } else if (amount !== 0) {
+          const direction = amount > 0 ? 1 : -1;
+
+          // Funds moving between the acting admin/subadmin and the user
+          await postLedgerEntry({
+            entryType: LedgerEntryType.TRANSFER,
+            description: transactionDesc,
+            performedBy,
+            postings: [
+              { account: userAccount(adminOrSubadmin.id), amount: -direction * counterpartAmount },
+              { account: userAccount(userId), amount: direction * counterpartAmount },
+            ],
+          }, tx);
+
+          // Part of the amount covered by the subadmin commission
+          if (commissionDifference !== 0) {
+            await postLedgerEntry({
+              entryType: LedgerEntryType.COMMISSION,
+              description: `Subadmin commission on transfer ${amount > 0 ? 'to' : 'from'} ${user.username}`,
+              performedBy,
+              postings: [
+                { account: houseAccount(HouseAccount.COMMISSIONS), amount: -direction * commissionDifference },
+                { account: userAccount(userId), amount: direction * commissionDifference },
+              ],
+            }, tx);
+          }
+
+          // Each agent above the subadmin keeps its part of the commission;
+          // recovering funds takes it back, even from an agent that spent it
+          if (ancestorShares.length > 0) {
+            await postLedgerEntry({
+              entryType: LedgerEntryType.COMMISSION,
+              description: `Agent commission on transfer ${amount > 0 ? 'to' : 'from'} ${user.username}`,
+              performedBy,
+              allowNegative: direction < 0,
+              postings: [
+                { account: houseAccount(HouseAccount.COMMISSIONS), amount: -direction * ancestorShares.reduce((sum, share) => sum + share.amount, 0) },
+                ...ancestorShares.map(share => ({ account: userAccount(share.agentId), amount: direction * share.amount })),
+              ],
+            }, tx);
+
+            await tx.insert(transactions).values(ancestorShares.map(share => ({
+              userId: share.agentId,
+              amount: direction * share.amount,
+              performedBy,
+              description: `Commission on transfer ${amount > 0 ? 'to' : 'from'} ${user.username}`,
+            })));
+          }
+
+          // Record transaction for admin/subadmin (negative amount = deduction)
+          await tx.insert(transactions).values({
+            userId: adminOrSubadmin.id,
+            amount: -direction * (counterpartAmount + discountBonusAmount),
+            performedBy: adminOrSubadmin.id,
+            description: counterpartDescription,
+          });
+        }
+
+        // Deposit bonus paid by the subadmin on top of the transferred amount
+        if (amount > 0 && discountBonusAmount > 0) {
+          await postLedgerEntry({
+            entryType: LedgerEntryType.BONUS,
+            description: `Deposit bonus for ${user.username}`,
+            performedBy,
+            postings: [
+              { account: userAccount(adminOrSubadmin.id), amount: -discountBonusAmount },
+              { account: userAccount(userId), amount: discountBonusAmount },
+            ],
+          }, tx);
+        }
+
         // First transaction for the original deposit
-        await storage.createTransaction({
+        await tx.insert(transactions).values({
           userId,
           amount,
-          performedBy: req.user!.id,
+          performedBy,
           description: transactionDesc
         });
         
         // Second transaction for the bonus amount
-        await storage.createTransaction({
-          userId,
-          amount: discountBonusAmount,
-          performedBy: req.user!.id,
-          description: `Deposit bonus (${(discountBonusAmount * 100 / amount).toFixed(2)}% of ${amount})`
-        });
-      } else {
-        // Regular transaction (no bonus or withdrawal)
-        await storage.createTransaction({
-          userId,
-          amount,
-          performedBy: req.user!.id,
-          description: transactionDesc
-        });
+        if (amount > 0 && discountBonusAmount > 0) {
+          await tx.insert(transactions).values({
+            userId,
+            amount: discountBonusAmount,
+            performedBy,
+            description: `Deposit bonus (${(discountBonusAmount * 100 / amount).toFixed(2)}% of ${formatPaisa(amount)})`
+          });
+        }
+      });
+
+      const updatedUser = await storage.getUser(userId);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
       }
 
+      await recordAuditEvent(req, {
+        action: AuditAction.USER_BALANCE_ADJUST,
+        targetType: "user",
+        targetId: userId,
+        targetUserId: userId,
+        before: { balance: user.balance },
+        after: { balance: updatedUser.balance, amount, description, bonus: discountBonusAmount },
+      });
+
       // Remove password from response
       const { password, ...userWithoutPassword } = updatedUser;
       res.json(userWithoutPassword);
@@ -965,7 +907,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
     }
   });
 
-  app.patch("/api/users/:id/assign", requireRole(UserRole.ADMIN), async (req, res, next) => {
+  app.patch("/api/users/:id/assign", requirePermission(Permission.USERS_ASSIGN, { user: userParam("id") }), async (req, res, next) => {
     try {
       const userId = Number(req.params.id);
       const { adminId } = req.body;
@@ -1001,14 +943,17 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
   
   // Edit user (username/password)
-  app.patch("/api/users/:id/edit", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.patch("/api/users/:id/edit", requirePermission([Permission.USERS_EDIT, Permission.USERS_RESET_PASSWORD], { user: userParam("id") }), async (req, res, next) => {
     try {
       const userId = Number(req.params.id);
       const { username, password } = req.body;
       
-      // Subadmins can only change passwords, not usernames
-      if (req.user!.role === UserRole.SUBADMIN && username) {
-        return res.status(403).json({ message: "Subadmins can only change passwords, not usernames" });
+      // Usernames take users.edit, passwords users.reset_password
+      if (username && !await can(req, Permission.USERS_EDIT)) {
+        return res.status(403).json({ message: "You can only change passwords, not usernames" });
+      }
+      if (password && !await can(req, Permission.USERS_RESET_PASSWORD)) {
+        return res.status(403).json({ message: "You don't have permission to reset passwords" });
       }
       
       // Verify at least one field is provided
@@ -1022,11 +967,6 @@ app.get("/api/games/my-history", async (req, res, next) => {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Check permissions - subadmins can only update their assigned users
-      if (req.user!.role === UserRole.SUBADMIN && user.assignedTo !== req.user!.id) {
-        return res.status(403).json({ message: "You don't have permission to modify this user" });
-      }
-      
       // If username is provided, check if it's already taken
       if (username) {
         const existingUser = await storage.getUserByUsername(username);
@@ -1038,14 +978,17 @@ app.get("/api/games/my-history", async (req, res, next) => {
       // Prepare the update data
       const updateData: { username?: string; password?: string } = {};
       
-      // Only include username if provided (and user is admin)
-      if (username && req.user!.role === UserRole.ADMIN) {
+      // Only include username if provided
+      if (username) {
         updateData.username = username;
       }
       
       // Only include password if provided - hash it first
       if (password) {
-        const { hashPassword } = await import('./auth');
+        const passwordProblem = passwordPolicyProblem(password, username || user.username);
+        if (passwordProblem) {
+          return res.status(400).json({ message: passwordProblem });
+        }
         updateData.password = await hashPassword(password);
       }
       
@@ -1055,6 +998,18 @@ app.get("/api/games/my-history", async (req, res, next) => {
       if (!updatedUser) {
         return res.status(404).json({ message: "User not found" });
       }
+      if (password) {
+        await revokeUserSessions(userId);
+      }
+      
+      await recordAuditEvent(req, {
+        action: password ? AuditAction.USER_PASSWORD_RESET : AuditAction.ADMIN_REQUEST,
+        targetType: "user",
+        targetId: userId,
+        targetUserId: userId,
+        before: { username: user.username },
+        after: { username: updatedUser.username, passwordChanged: !!password },
+      });
       
       // Remove password from response
       const { password: pwd, ...userWithoutPassword } = updatedUser;
@@ -1066,7 +1021,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
 
   // Reset user account
-  app.post("/api/users/reset-account", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.post("/api/users/reset-account", requirePermission(Permission.USERS_RESET_ACCOUNT, { user: (req) => Number(req.body.userId) }), requireStepUp, async (req, res, next) => {
     try {
       const { userId, resetType } = req.body;
       
@@ -1088,76 +1043,42 @@ app.get("/api/games/my-history", async (req, res, next) => {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Permissions check based on role
-      if (req.user!.role === UserRole.ADMIN) {
-        // Admins can reset any user except another admin
-        if (userToReset.role === UserRole.ADMIN) {
-          return res.status(403).json({ message: "Cannot reset admin accounts" });
-        }
-      } else if (req.user!.role === UserRole.SUBADMIN) {
-        // Subadmins can only reset players assigned to them
-        if (userToReset.role !== UserRole.PLAYER || userToReset.assignedTo !== req.user!.id) {
-          return res.status(403).json({ message: "You don't have permission to reset this user" });
-        }
-        
-        // Subadmins can only reset players, not other subadmins
-        if (resetType === "subadmin") {
-          return res.status(403).json({ message: "Subadmins can only reset player accounts" });
-        }
+      // Admin accounts are never reset
+      if (userToReset.role === UserRole.ADMIN) {
+        return res.status(403).json({ message: "Cannot reset admin accounts" });
+      }
+      
+      // Resetting a subadmin also wipes all their players, so it takes the right to delete users
+      if (resetType === "subadmin" && !await can(req, Permission.USERS_DELETE)) {
+        return res.status(403).json({ message: "You can only reset player accounts" });
       }
       
       // Start a transaction to perform reset operations
-      await db.transaction(async (tx) => {
-        if (resetType === "subadmin" && userToReset.role === UserRole.SUBADMIN) {
-          // For subadmin reset: Reset the subadmin and all their players
-          
-          // 1. Get all players assigned to this subadmin
-          const assignedPlayers = await storage.getUsersByAssignedTo(userId);
-          
-          // 2. Delete all transactions for subadmin and their players
-          await tx.delete(transactions)
-            .where(eq(transactions.userId, userId));
-          
-          for (const player of assignedPlayers) {
-            await tx.delete(transactions)
-              .where(eq(transactions.userId, player.id));
-              
-            // Delete all games for each player
-            await tx.delete(games)
-              .where(eq(games.userId, player.id));
-              
-            // Reset player balance to 0
-            await tx.update(users)
-              .set({ balance: 0 })
-              .where(eq(users.id, player.id));
-          }
-          
-          // 3. Reset subadmin balance to 0
-          await tx.update(users)
-            .set({ balance: 0 })
-            .where(eq(users.id, userId));
-            
-        } else if (resetType === "player" && userToReset.role === UserRole.PLAYER) {
-          // For player reset: Reset just the player's data
-          
-          // 1. Delete all transactions for this player
-          await tx.delete(transactions)
-            .where(eq(transactions.userId, userId));
-            
-          // 2. Delete all games for this player
-          await tx.delete(games)
-            .where(eq(games.userId, userId));
-            
-          // 3. Reset player balance to 0
-          await tx.update(users)
-            .set({ balance: 0 })
-            .where(eq(users.id, userId));
+      const archive = await db.transaction(async (tx) => {
+        // For subadmin reset: Reset the subadmin and all their players
+        const resetUserIds = resetType === "subadmin" && userToReset.role === UserRole.SUBADMIN
+          ? [userToReset.id, ...(await storage.getUsersByAssignedTo(userToReset.id)).map(player => player.id)]
+          : resetType === "player" && userToReset.role === UserRole.PLAYER ? [userToReset.id] : [];
+        if (resetUserIds.length === 0) return null;
+
+        // Games and transactions move into an archive that can be restored
+        const archive = await archiveAccountHistory(resetUserIds, {
+          userId: userToReset.id,
+          label: `Account reset of ${userToReset.username}`,
+          createdBy: req.user!.id,
+        }, tx);
+
+        // Reset balances to 0
+        for (const resetUserId of resetUserIds) {
+          await postBalanceReset(resetUserId, `Account reset by ${req.user!.username}`, req.user!.id, tx);
         }
+        return archive;
       });
       
       res.json({ 
         success: true, 
-        message: `Account reset successful for ${userToReset.username}` 
+        message: `Account reset successful for ${userToReset.username}`,
+        archiveId: archive?.id ?? null,
       });
     } catch (err) {
       console.error("Error resetting account:", err);
@@ -1250,22 +1171,13 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
   
   // API endpoint for subadmin dashboard statistics
-  app.get("/api/subadmin/stats", async (req, res, next) => {
+  app.get("/api/subadmin/stats", requirePermission(Permission.REPORTS_VIEW), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Unauthorized" });
-      }
-      
-      // Only allow admin and subadmin to access this endpoint
-      if (req.user!.role !== UserRole.SUBADMIN && req.user!.role !== UserRole.ADMIN) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
       const subadminId = req.user!.id;
       let assignedTo = subadminId;
       
-      // If admin is viewing a specific subadmin's stats
-      if (req.user!.role === UserRole.ADMIN && req.query.subadminId) {
+      // If admin or a higher agent is viewing a specific subadmin's stats
+      if (req.query.subadminId && await canAccessUser(req.user!, Number(req.query.subadminId))) {
         assignedTo = Number(req.query.subadminId);
       }
       
@@ -1342,7 +1254,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
 
   // Recent games across all users (for admin dashboard)
-  app.get("/api/games/recent", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.get("/api/games/recent", requirePermission(Permission.REPORTS_VIEW), async (req, res, next) => {
     try {
       // Get recent games limited to 10
       const games = await storage.getAllGames(10);
@@ -1387,7 +1299,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
   
   // Get games for a specific user (admin/subadmin only)
-  app.get("/api/games/:userId", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.get("/api/games/:userId", requirePermission(Permission.REPORTS_VIEW, { user: userParam("userId") }), async (req, res, next) => {
     try {
       const userId = Number(req.params.userId);
       
@@ -1397,11 +1309,6 @@ app.get("/api/games/my-history", async (req, res, next) => {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Check permissions - subadmins can only view their assigned users
-      if (req.user!.role === UserRole.SUBADMIN && targetUser.assignedTo !== req.user!.id) {
-        return res.status(403).json({ message: "You don't have permission to view this user's data" });
-      }
-      
       const games = await storage.getGamesByUserId(userId);
       res.json(games);
     } catch (err) {
@@ -1444,7 +1351,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
   
   // Get transactions for a specific user (admin/subadmin only)
-  app.get("/api/transactions/:userId", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.get("/api/transactions/:userId", requirePermission(Permission.REPORTS_VIEW, { user: userParam("userId") }), async (req, res, next) => {
     try {
       const userId = Number(req.params.userId);
       
@@ -1454,11 +1361,6 @@ app.get("/api/games/my-history", async (req, res, next) => {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Check permissions - subadmins can only view their assigned users
-      if (req.user!.role === UserRole.SUBADMIN && targetUser.assignedTo !== req.user!.id) {
-        return res.status(403).json({ message: "You don't have permission to view this user's data" });
-      }
-      
       const transactions = await storage.getTransactionsByUserId(userId);
       res.json(transactions);
     } catch (err) {
@@ -1538,7 +1440,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
 
   // Admin routes for managing markets
-  app.post("/api/satamatka/markets", requireRole([UserRole.ADMIN]), async (req, res, next) => {
+  app.post("/api/satamatka/markets", requirePermission(Permission.MARKETS_MANAGE), async (req, res, next) => {
     try {
       // Add proper date handling for string timestamps
       const formData = req.body;
@@ -1556,6 +1458,10 @@ app.get("/api/games/my-history", async (req, res, next) => {
         formData.resultTime = new Date(formData.resultTime);
       }
       
+      if (formData.openResultTime && typeof formData.openResultTime === 'string') {
+        formData.openResultTime = new Date(formData.openResultTime);
+      }
+      
       // Parse with schema validation after date conversion
       const marketData = insertSatamatkaMarketSchema.parse(formData);
       
@@ -1581,7 +1487,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
   
   // Create a recurring market (new API endpoint)
-  app.post("/api/satamatka/markets/recurring", requireRole([UserRole.ADMIN]), async (req, res, next) => {
+  app.post("/api/satamatka/markets/recurring", requirePermission(Permission.MARKETS_MANAGE), async (req, res, next) => {
     try {
       // Add proper date handling for string timestamps
       const formData = req.body;
@@ -1599,6 +1505,10 @@ app.get("/api/games/my-history", async (req, res, next) => {
         formData.resultTime = new Date(formData.resultTime);
       }
       
+      if (formData.openResultTime && typeof formData.openResultTime === 'string') {
+        formData.openResultTime = new Date(formData.openResultTime);
+      }
+      
       // Parse with schema validation
       const marketData = insertSatamatkaMarketSchema.parse(formData);
       
@@ -1621,7 +1531,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
 
   // Update market status
-  app.patch("/api/satamatka/markets/:id/status", requireRole([UserRole.ADMIN]), async (req, res, next) => {
+  app.patch("/api/satamatka/markets/:id/status", requirePermission(Permission.MARKETS_MANAGE), async (req, res, next) => {
     try {
       const marketId = Number(req.params.id);
       const { status } = req.body;
@@ -1652,6 +1562,8 @@ app.get("/api/games/my-history", async (req, res, next) => {
         return res.status(404).json({ message: "Market not found" });
       }
       
+      await logManualMarketTransition(marketId, existingMarket.status, status, req.user!.id);
+      
       res.json(market);
     } catch (err) {
       next(err);
@@ -1659,7 +1571,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
   
   // Update market details (without changing status)
-  app.patch("/api/satamatka/markets/:id", requireRole([UserRole.ADMIN]), async (req, res, next) => {
+  app.patch("/api/satamatka/markets/:id", requirePermission(Permission.MARKETS_MANAGE), async (req, res, next) => {
     try {
       const marketId = Number(req.params.id);
       const formData = req.body;
@@ -1690,6 +1602,10 @@ app.get("/api/games/my-history", async (req, res, next) => {
         formData.resultTime = new Date(formData.resultTime);
       }
       
+      if (formData.openResultTime && typeof formData.openResultTime === 'string') {
+        formData.openResultTime = new Date(formData.openResultTime);
+      }
+      
       // Update the market details (this method explicitly excludes status to maintain workflow)
       const market = await storage.updateSatamatkaMarket(marketId, formData);
       
@@ -1705,16 +1621,71 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
 
   // Update market results
-  app.patch("/api/satamatka/markets/:id/results", requireRole([UserRole.ADMIN]), async (req, res, next) => {
+  // Result fields of a market, as kept in the audit log
+  const marketResultState = (market: schema.SatamatkaMarket) => ({
+    status: market.status,
+    openResult: market.openResult,
+    closeResult: market.closeResult,
+    openPanna: market.openPanna,
+    closePanna: market.closePanna,
+  });
+
+  app.patch("/api/satamatka/markets/:id/results", requirePermission(Permission.MARKETS_DECLARE_RESULT), requireStepUp, async (req, res, next) => {
     try {
       const marketId = Number(req.params.id);
-      const { openResult, closeResult } = req.body;
+      const { openResult, closeResult, openPanna, closePanna } = req.body;
       
       // Get the current market to check its status
       const existingMarket = await storage.getSatamatkaMarket(marketId);
       if (!existingMarket) {
         return res.status(404).json({ message: "Market not found" });
       }
+
+      // Mumbai/Kalyan markets are declared one panna at a time: the open panna
+      // while the market is still taking close-session bets, then the close
+      // panna once it has closed. Each declaration settles the bets it decides.
+      if (isTwoSessionMarket(existingMarket.type)) {
+        if ((openPanna === undefined) === (closePanna === undefined)) {
+          return res.status(400).json({ message: "Declare either the open panna or the close panna" });
+        }
+
+        const session = openPanna !== undefined ? MarketSession.OPEN : MarketSession.CLOSE;
+        const panna = String(openPanna ?? closePanna);
+
+        if (!isValidPanna(panna)) {
+          return res.status(400).json({ message: "Panna must be three digits in ascending order, e.g. 128" });
+        }
+        if (session === MarketSession.OPEN) {
+          if (existingMarket.status !== MarketStatus.OPEN && existingMarket.status !== MarketStatus.CLOSED) {
+            return res.status(400).json({ message: "The open result can only be declared for open or closed markets" });
+          }
+          if (existingMarket.openPanna) {
+            return res.status(400).json({ message: "The open result has already been declared" });
+          }
+        } else {
+          if (existingMarket.status !== MarketStatus.CLOSED) {
+            return res.status(400).json({ message: "The close result can only be declared for markets in 'closed' status" });
+          }
+          if (!existingMarket.openPanna) {
+            return res.status(400).json({ message: "Declare the open result before the close result" });
+          }
+        }
+
+        const market = await storage.declareSatamatkaSessionResult(marketId, session, panna);
+        if (!market) {
+          return res.status(409).json({ message: "Market result changed meanwhile, please reload" });
+        }
+        await recordAuditEvent(req, {
+          action: AuditAction.MARKET_DECLARE_RESULT,
+          targetType: "market",
+          targetId: marketId,
+          before: marketResultState(existingMarket),
+          after: marketResultState(market),
+        });
+
+        const settlementJob = await startMarketSettlement(marketId, req.user!.id);
+        return res.json({ ...market, settlementJob });
+      }
       
       // Ensure the market is in the correct status before allowing result declaration
       if (existingMarket.status !== "closed") {
@@ -1744,181 +1715,21 @@ app.get("/api/games/my-history", async (req, res, next) => {
         return res.status(404).json({ message: "Failed to update market results" });
       }
       
-      // Process all bets for this market if closeResult is provided (final result)
+      // The close result is final: mark the market resulted and settle its bets
+      const resultedMarket = closeResult
+        ? await storage.updateSatamatkaMarketStatus(marketId, MarketStatus.RESULTED)
+        : undefined;
+      await recordAuditEvent(req, {
+        action: AuditAction.MARKET_DECLARE_RESULT,
+        targetType: "market",
+        targetId: marketId,
+        before: marketResultState(existingMarket),
+        after: marketResultState(resultedMarket ?? market),
+      });
+      
       if (closeResult) {
-        try {
-          // Get all games for this market
-          const marketGames = await storage.getSatamatkaGamesByMarketId(marketId);
-          
-          // Process each game
-          for (const game of marketGames) {
-            // Skip already processed games
-            if (game.result !== "pending") continue;
-            
-            // Get user info
-            const user = await storage.getUser(game.userId);
-            if (!user) continue;
-            
-            // Determine if the bet won based on game mode and prediction
-            let isWinner = false;
-            let payout = 0;
-            
-            // Get appropriate odds for this player and game mode from the database
-            const getOddsValue = async (gameMode: string): Promise<number> => {
-              const gameTypeMap = {
-                [SatamatkaGameMode.JODI]: 'satamatka_jodi',
-                [SatamatkaGameMode.HARF]: 'satamatka_harf',
-                [SatamatkaGameMode.CROSSING]: 'satamatka_crossing',
-                [SatamatkaGameMode.ODD_EVEN]: 'satamatka_odd_even'
-              };
-              
-              const gameType = gameTypeMap[gameMode as keyof typeof gameTypeMap];
-              if (!gameType) {
-                console.warn(`Unknown game mode: ${gameMode}, using default odds`);
-                return 0;
-              }
-              
-              // Get odds configured in the database based on player's relation to subadmins
-              return await storage.getOddsForPlayer(game.userId, gameType);
-            };
-            
-            // Game mode specific win conditions
-            if (game.gameMode === SatamatkaGameMode.JODI && game.prediction === closeResult) {
-              // For Jodi mode, prediction must match closeResult exactly
-              isWinner = true;
-              const oddValue = await getOddsValue(game.gameMode);
-              payout = game.betAmount * (oddValue / 10000); // Apply configured odds
-            } 
-            else if (game.gameMode === SatamatkaGameMode.HARF) {
-              // For Harf, check if digit matches position
-              const firstDigit = closeResult[0]; 
-              const secondDigit = closeResult[1];
-              
-              // Handle different Harf prediction formats (A0, B1, etc.)
-              let harfDigit = game.prediction;
-              let isLeftDigit = false;
-              let isRightDigit = false;
-              
-              // Handle formatted predictions like A0, A1, B0, B1
-              if (game.prediction.startsWith('A')) {
-                harfDigit = game.prediction.substring(1);
-                isLeftDigit = true;
-              } else if (game.prediction.startsWith('B')) {
-                harfDigit = game.prediction.substring(1);
-                isRightDigit = true;
-              } else if (game.prediction.startsWith('L')) {
-                harfDigit = game.prediction.substring(1);
-                isLeftDigit = true;
-              } else if (game.prediction.startsWith('R')) {
-                harfDigit = game.prediction.substring(1);
-                isRightDigit = true;
-              }
-              
-              // Check if the prediction matches the appropriate position
-              if (
-                (isLeftDigit && harfDigit === firstDigit) || 
-                (isRightDigit && harfDigit === secondDigit) ||
-                // For single digit predictions without position indicator
-                (!isLeftDigit && !isRightDigit && (game.prediction === firstDigit || game.prediction === secondDigit))
-              ) {
-                isWinner = true;
-                const oddValue = await getOddsValue(game.gameMode);
-                payout = game.betAmount * (oddValue / 10000); // Apply configured odds
-              }
-            }
-            else if (game.gameMode === SatamatkaGameMode.CROSSING) {
-              // For Crossing, check if the prediction matches the result in any order
-              // Clean and prepare prediction digits - handle different prediction formats
-              let digits = [];
-              if (game.prediction.includes(',')) {
-                // Format: "0,1,2"
-                digits = game.prediction.replace(/[^0-9,]/g, '').split(',').map(d => d.trim());
-              } else {
-                // Format: "012" or other formats without commas
-                digits = game.prediction.replace(/[^0-9]/g, '').split('');
-              }
-              
-              // Extract the actual crossing combinations from the digits
-              // Crossing means any combination of the digits in any order
-              const crossingCombinations = [];
-              for (let i = 0; i < digits.length; i++) {
-                for (let j = 0; j < digits.length; j++) {
-                  if (i !== j) {
-                    crossingCombinations.push(digits[i] + digits[j]);
-                  }
-                }
-              }
-              
-              // Crossing bet with EXACT match or from comma-separated digit list
-              const resultToCheck = closeResult;
-              
-              // For crossing bets, ONLY EXACT MATCHES win with the following exceptions:
-              // 1. If prediction is exactly "01", it must match result "01" (not "10")
-              // 2. If prediction is a comma-separated list like "0,1,2", we generate all combinations
-              //    and check if the result is one of those combinations
-              
-              // Check if the prediction exactly matches the result
-              if (game.prediction === resultToCheck) {
-                isWinner = true;
-              } 
-              // Check if the prediction is a comma-separated list and if so, check combinations
-              else if (game.prediction.includes(',') && crossingCombinations.includes(resultToCheck)) {
-                isWinner = true;
-              }
-              
-              // For debugging
-              console.log(`Crossing game ID ${game.id}:`);
-              console.log(`  Prediction: ${game.prediction}`);
-              console.log(`  Parsed digits: ${JSON.stringify(digits)}`);
-              console.log(`  Generated combinations: ${JSON.stringify(crossingCombinations)}`);
-              console.log(`  Result: ${resultToCheck}`);
-              console.log(`  Is winner: ${isWinner}`);
-              
-              if (isWinner) {
-                const oddValue = await getOddsValue(game.gameMode);
-                payout = game.betAmount * (oddValue / 10000); // Apply configured odds
-                console.log(`  Payout amount: ${payout / 100} rupees`);
-              }
-            }
-            else if (game.gameMode === SatamatkaGameMode.ODD_EVEN) {
-              // For Odd-Even, check if prediction matches the result's parity
-              const resultNumber = parseInt(closeResult, 10);
-              const isResultOdd = resultNumber % 2 !== 0;
-              
-              if ((game.prediction === "odd" && isResultOdd) || 
-                  (game.prediction === "even" && !isResultOdd)) {
-                isWinner = true;
-                const oddValue = await getOddsValue(game.gameMode);
-                payout = game.betAmount * (oddValue / 10000); // Apply configured odds
-              }
-            }
-            
-            // Set game result
-            const result = isWinner ? "win" : "loss";
-            
-            // We do NOT need to update the balanceAfter field for each game individually
-            // as it was already correctly set when the bet was placed.
-            // We only need to add the payout to the running balance for win cases.
-            
-            // Update game result and payout in database
-            await storage.updateGameResult(game.id, result, payout);
-            
-            // Only update user balance if they won
-            if (isWinner) {
-              // Update user's actual balance in the database
-              const updatedBalance = user.balance + payout;
-              await storage.updateUserBalance(user.id, updatedBalance);
-              
-              // For winning games, update the balanceAfter to reflect the addition of the payout
-              await db.update(games)
-                .set({ balanceAfter: game.balanceAfter! + payout })
-                .where(eq(games.id, game.id));
-            }
-          }
-        } catch (err) {
-          console.error("Error processing market bets:", err);
-          // Don't return error as the market result update was successful
-        }
+        const settlementJob = await startMarketSettlement(marketId, req.user!.id);
+        return res.json({ ...resultedMarket, settlementJob });
       }
       
       res.json(market);
@@ -1928,7 +1739,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
   
   // Delete a market (used for removing market templates)
-  app.delete("/api/satamatka/markets/:id", requireRole([UserRole.ADMIN]), async (req, res, next) => {
+  app.delete("/api/satamatka/markets/:id", requirePermission(Permission.MARKETS_MANAGE), async (req, res, next) => {
     try {
       const marketId = Number(req.params.id);
       
@@ -1968,15 +1779,18 @@ app.get("/api/games/my-history", async (req, res, next) => {
         return res.status(403).json({ message: "Your account is blocked" });
       }
 
-      const { marketId, betAmount, gameMode, prediction } = req.body;
+      const { marketId, gameMode, prediction, session, includeDoubles } = req.body;
+      const parsedAmount = positivePaisaSchema.safeParse(req.body.betAmount);
       
       // Validate input
-      if (!marketId || !betAmount || betAmount <= 0 || !gameMode || !prediction) {
+      if (!marketId || !parsedAmount.success || !gameMode || !prediction) {
         return res.status(400).json({ message: "Invalid input parameters" });
       }
+      const betAmount = parsedAmount.data;
 
       // Validate game mode
-      if (!Object.values(SatamatkaGameMode).includes(gameMode)) {
+      const betType = getBetType(gameMode);
+      if (!betType) {
         return res.status(400).json({ message: "Invalid game mode" });
       }
 
@@ -2001,53 +1815,26 @@ app.get("/api/games/my-history", async (req, res, next) => {
         return res.status(400).json({ message });
       }
 
-      // Validate prediction based on game mode
-      const validatePrediction = () => {
-        switch (gameMode) {
-          case SatamatkaGameMode.JODI:
-            // For Jodi, prediction should be a two-digit number
-            return /^[0-9]{2}$/.test(prediction);
-          case SatamatkaGameMode.HARF:
-            // For Harf, prediction can be:
-            // - A single digit (original implementation)
-            // - L followed by a digit (left/first position)
-            // - R followed by a digit (right/second position)
-            // - A followed by a digit (Ander/left position - new format)
-            // - B followed by a digit (Bahar/right position - new format)
-            return /^[0-9]$/.test(prediction) || // Original format
-                   /^L[0-9]$/.test(prediction) || // Old left digit format
-                   /^R[0-9]$/.test(prediction) || // Old right digit format
-                   /^A[0-9]$/.test(prediction) || // New Ander (left) digit format
-                   /^B[0-9]$/.test(prediction);   // New Bahar (right) digit format
-          case SatamatkaGameMode.CROSSING:
-            // For Crossing, prediction can now be:
-            // - A single digit (original implementation)
-            // - A string representing multiple digits to create combinations
-            // - A format like "2,3,5" indicating selected digits for combination
-            return /^[0-9]$/.test(prediction) || // Original format (single digit)
-                   /^[0-9]+(,[0-9]+)+$/.test(prediction) || // Comma-separated digits
-                   /^Combinations of [0-9,]+$/.test(prediction) || // Text description format
-                   /^[0-9]+ digits \([0-9]+ combinations\)$/.test(prediction); // Summary format
-          case SatamatkaGameMode.ODD_EVEN:
-            // For Odd-Even, prediction should be "odd" or "even"
-            return prediction === "odd" || prediction === "even";
-          default:
-            return false;
-        }
-      };
-
-      if (!validatePrediction()) {
+      if (!betType.validatePrediction(prediction)) {
         return res.status(400).json({ message: "Invalid prediction for selected game mode" });
       }
 
-      // Check user balance
+      // Session bets go on the open or close session of a Mumbai/Kalyan market
+      const betSession = getSatamatkaBetSession(market, betType, session);
+
+      const idempotencyKey = getIdempotencyKey(req);
+
+      // The balance itself is checked when the bet is placed
       const user = await storage.getUser(req.user!.id);
-      
-      // Convert bet amount to paisa for balance comparison (user.balance is in paisa)
-      const betAmountInPaisa = betAmount * 100;
-      if (!user || user.balance < betAmountInPaisa) {
-        return res.status(400).json({ message: "Insufficient balance" });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
+      
+      const placedBet = betType.toPlacedBet({
+        prediction,
+        betAmount,
+        includeDoubles: includeDoubles === true,
+      });
 
       // For now, we'll record the game but not determine the result yet
       // Results will be determined when the market results are published
@@ -2055,40 +1842,30 @@ app.get("/api/games/my-history", async (req, res, next) => {
       const result = "pending";
       const payout = 0; // Will be calculated when results are published
       
-      // Update user balance (deduct bet amount in paisa)
-      const newBalance = user.balance - betAmountInPaisa;
-      await storage.updateUserBalance(user.id, newBalance);
-
-      // Store the player's assigned subadmin ID in the game data for odds calculation later
-      // This will be used when processing results to apply the correct subadmin-specific odds
-      let gameData = {
-        assignedSubadminId: user.assignedTo || null
-      };
-      
-      // Record the game, storing the bet amount in paisa for consistency
-      const game = await storage.createGame({
+      const placement = await placeBets({
         userId: user.id,
-        gameType: GameType.SATAMATKA,
-        betAmount: betAmountInPaisa,  // Store in paisa like other game types
-        prediction,
-        result,
-        payout,
-        marketId,
-        gameMode,
-        balanceAfter: newBalance, // Track balance after this bet
-        gameData  // Store the assigned subadmin ID for odds calculation during result processing
+        endpoint: "/api/satamatka/play",
+        idempotencyKey,
+        bets: [{
+          gameType: GameType.SATAMATKA,
+          betAmount: placedBet.betAmount,
+          prediction: placedBet.prediction,
+          result,
+          payout,
+          marketId,
+          gameMode,
+          gameData: getSatamatkaGameData(user, placedBet),
+          session: betSession,
+          description: `Satamatka ${gameMode} bet on ${placedBet.prediction}${betSession ? ` (${betSession})` : ""} in ${market.name}`,
+        }],
       });
+      const [game] = placement.games;
 
       // Return game info with updated user balance
       res.json({
-        game: {
-          ...game,
-          // For frontend display, return the bet amount in rupees
-          betAmount: betAmount
-        },
+        game,
         user: {
-          ...user,
-          balance: newBalance,
+          ...placement.user,
           password: undefined,
         },
       });
@@ -2108,7 +1885,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
         return res.status(403).json({ message: "Your account is blocked" });
       }
 
-      const { marketId, gameMode, bets } = req.body;
+      const { marketId, gameMode, bets, session } = req.body;
       
       // Validate input
       if (!marketId || !gameMode || !bets || !Array.isArray(bets) || bets.length === 0) {
@@ -2116,7 +1893,8 @@ app.get("/api/games/my-history", async (req, res, next) => {
       }
 
       // Validate game mode
-      if (!Object.values(SatamatkaGameMode).includes(gameMode)) {
+      const betType = getBetType(gameMode);
+      if (!betType) {
         return res.status(400).json({ message: "Invalid game mode" });
       }
 
@@ -2140,114 +1918,76 @@ app.get("/api/games/my-history", async (req, res, next) => {
         
         return res.status(400).json({ message });
       }
+
+      // All bets of one request go on the same session
+      const betSession = getSatamatkaBetSession(market, betType, session);
       
       // Validate each bet and calculate total amount
       let totalBetAmount = 0;
-      const validatedBets = [];
+      const validatedBets: PlacedBet[] = [];
       
       for (const bet of bets) {
-        const { prediction, betAmount } = bet;
+        const { prediction, includeDoubles } = bet;
+        const parsedAmount = positivePaisaSchema.safeParse(bet.betAmount);
         
-        if (!prediction || !betAmount || betAmount <= 0) {
+        if (!prediction || !parsedAmount.success) {
           return res.status(400).json({ 
             message: "Invalid bet parameters", 
-            detail: `Bet on ${prediction} with amount ${betAmount} is invalid`
+            detail: `Bet on ${prediction} with amount ${bet.betAmount} is invalid`
           });
         }
+        const betAmount = parsedAmount.data;
         
         // Validate prediction based on game mode
-        const isValidPrediction = (() => {
-          switch (gameMode) {
-            case SatamatkaGameMode.JODI:
-              return /^[0-9]{2}$/.test(prediction);
-            case SatamatkaGameMode.HARF:
-              return /^[0-9]$/.test(prediction) || 
-                     /^L[0-9]$/.test(prediction) || 
-                     /^R[0-9]$/.test(prediction) ||
-                     /^A[0-9]$/.test(prediction) || // New format: Ander (A) digit
-                     /^B[0-9]$/.test(prediction);   // New format: Bahar (B) digit
-            case SatamatkaGameMode.CROSSING:
-              return /^[0-9]$/.test(prediction) || 
-                     /^[0-9][0-9]$/.test(prediction) ||
-                     /^[0-9]+(,[0-9]+)+$/.test(prediction) || 
-                     /^Combinations of [0-9,]+$/.test(prediction) || 
-                     /^[0-9]+ digits \([0-9]+ combinations\)$/.test(prediction);
-            case SatamatkaGameMode.ODD_EVEN:
-              return prediction === "odd" || prediction === "even";
-            default:
-              return false;
-          }
-        })();
-        
-        if (!isValidPrediction) {
+        if (!betType.validatePrediction(prediction)) {
           return res.status(400).json({ 
             message: "Invalid prediction for selected game mode",
             detail: `Prediction '${prediction}' is not valid for game mode '${gameMode}'`
           });
         }
         
-        // Add bet amount to total (ensuring all amounts are in paisa)
-        totalBetAmount += betAmount;
-        validatedBets.push({ prediction, betAmount });
+        // Crossing digits are stored with the jodis they cover
+        const placedBet = betType.toPlacedBet({ prediction, betAmount, includeDoubles: includeDoubles === true });
+
+        totalBetAmount += placedBet.betAmount;
+        validatedBets.push(placedBet);
       }
       
-      // For total bet amount, we need to make sure we're using paisa consistently
-      const totalBetAmountInPaisa = totalBetAmount;
-      
-      // Check user balance against the TOTAL amount for all bets
+      const idempotencyKey = getIdempotencyKey(req);
+
+      // The balance is checked against the TOTAL amount for all bets when they are placed
       const user = await storage.getUser(req.user!.id);
-      if (!user || user.balance < totalBetAmountInPaisa) {
-        return res.status(400).json({ 
-          message: "Insufficient balance",
-          detail: `Total bet amount ₹${totalBetAmountInPaisa / 100} exceeds available balance ₹${user?.balance ? user.balance / 100 : 0}`
-        });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
       
-      // Update user balance (deduct TOTAL bet amount in paisa)
-      const newBalance = user.balance - totalBetAmountInPaisa;
-      await storage.updateUserBalance(user.id, newBalance);
-      
-      // Record each game
-      const createdGames = [];
-      
-      // Track decreasing balance for each individual bet
-      let currentBalance = user.balance;
-      
-      for (const bet of validatedBets) {
-        // Bet amounts are already in paisa from the client side
-        const betAmountInPaisa = bet.betAmount;
-        
-        // Deduct this specific bet from the running balance
-        currentBalance -= betAmountInPaisa;
-        
-        const game = await storage.createGame({
-          userId: user.id,
+      // All bets are placed together or not at all
+      const placement = await placeBets({
+        userId: user.id,
+        endpoint: "/api/satamatka/play-multiple",
+        idempotencyKey,
+        bets: validatedBets.map(bet => ({
           gameType: GameType.SATAMATKA,
-          betAmount: betAmountInPaisa,  // Store in paisa like other game types
+          betAmount: bet.betAmount,
           prediction: bet.prediction,
           result: "pending",
           payout: 0,  // Will be calculated when results are published
           marketId,
           gameMode,
-          balanceAfter: currentBalance, // Track balance after EACH bet is placed
-        });
-        
-        // Add to list of created games (for response)
-        createdGames.push({
-          ...game,
-          betAmount: betAmountInPaisa  // Return bet amount in paisa for consistency
-        });
-      }
+          gameData: getSatamatkaGameData(user, bet),
+          session: betSession,
+          description: `Satamatka ${gameMode} bet on ${bet.prediction}${betSession ? ` (${betSession})` : ""} in ${market.name}`,
+        })),
+      });
       
       // Return all games with updated user balance
       res.json({
-        games: createdGames,
+        games: placement.games,
         user: {
-          ...user,
-          balance: newBalance,
+          ...placement.user,
           password: undefined,
         },
-        totalBetAmount: totalBetAmountInPaisa  // In paisa for consistency
+        totalBetAmount,
       });
     } catch (err) {
       next(err);
@@ -2308,7 +2048,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
 
   // Create a new team match (admin only)
-  app.post("/api/team-matches", requireRole(UserRole.ADMIN), async (req, res, next) => {
+  app.post("/api/team-matches", requirePermission(Permission.MATCHES_MANAGE), async (req, res, next) => {
     try {
       console.log("Received match data:", JSON.stringify(req.body));
       
@@ -2325,7 +2065,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
 
   // Update match status
-  app.patch("/api/team-matches/:id/status", requireRole(UserRole.ADMIN), async (req, res, next) => {
+  app.patch("/api/team-matches/:id/status", requirePermission(Permission.MATCHES_MANAGE), async (req, res, next) => {
     try {
       const matchId = Number(req.params.id);
       const { status } = req.body;
@@ -2347,7 +2087,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
 
   // Update match result
-  app.patch("/api/team-matches/:id/result", requireRole(UserRole.ADMIN), async (req, res, next) => {
+  app.patch("/api/team-matches/:id/result", requirePermission(Permission.MATCHES_DECLARE_RESULT), requireStepUp, async (req, res, next) => {
     try {
       const matchId = Number(req.params.id);
       const { result } = req.body;
@@ -2369,6 +2109,13 @@ app.get("/api/games/my-history", async (req, res, next) => {
       
       // Update match result
       const updatedMatch = await storage.updateTeamMatchResult(matchId, result);
+      await recordAuditEvent(req, {
+        action: AuditAction.MATCH_DECLARE_RESULT,
+        targetType: "match",
+        targetId: matchId,
+        before: { status: match.status, result: match.result },
+        after: { status: updatedMatch?.status, result: updatedMatch?.result },
+      });
       
       // Process all bets on this match
       const matchGames = await storage.getTeamMatchGamesByMatchId(matchId);
@@ -2425,9 +2172,6 @@ app.get("/api/games/my-history", async (req, res, next) => {
         
         // Only add payout to user balance if they won (payout > 0)
         if (payout > 0) {
-          // Calculate new user balance after applying payout
-          const updatedBalance = user.balance + payout;
-          
           // Update game payout, result, and balanceAfter in the games table
           await db.update(games)
             .set({ 
@@ -2437,8 +2181,16 @@ app.get("/api/games/my-history", async (req, res, next) => {
             })
             .where(eq(games.id, game.id));
           
-          // Update user balance
-          await storage.updateUserBalance(user.id, updatedBalance);
+          // Credit the payout through the ledger
+          await postUserBalanceChange({
+            userId: user.id,
+            amount: payout,
+            house: HouseAccount.GAMES,
+            entryType: LedgerEntryType.PAYOUT,
+            description: `Team match win: ${match.teamA} vs ${match.teamB}`,
+            referenceType: "game",
+            referenceId: game.id,
+          });
         } else {
           // Just update the game result and payout, keep the original balanceAfter
           await db.update(games)
@@ -2457,7 +2209,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
 
   // Update a team match
-  app.patch("/api/team-matches/:id", requireRole(UserRole.ADMIN), async (req, res, next) => {
+  app.patch("/api/team-matches/:id", requirePermission(Permission.MATCHES_MANAGE), async (req, res, next) => {
     try {
       const matchId = Number(req.params.id);
       
@@ -2494,12 +2246,14 @@ app.get("/api/games/my-history", async (req, res, next) => {
       }
       
       const matchId = Number(req.params.id);
-      const { prediction, betAmount } = req.body;
+      const { prediction } = req.body;
       
       // Validate input
-      if (!betAmount || betAmount <= 0) {
+      const parsedAmount = positivePaisaSchema.safeParse(req.body.betAmount);
+      if (!parsedAmount.success) {
         return res.status(400).json({ message: "Invalid bet amount" });
       }
+      const betAmount = parsedAmount.data;
       
       if (!prediction || !["team_a", "team_b", "draw"].includes(prediction)) {
         return res.status(400).json({ message: "Invalid prediction" });
@@ -2532,35 +2286,30 @@ app.get("/api/games/my-history", async (req, res, next) => {
         return res.status(400).json({ message: "Match has already started" });
       }
       
-      // Check user balance
-      const user = await storage.getUser(req.user!.id);
-      if (!user || user.balance < betAmount) {
-        return res.status(400).json({ message: "Insufficient balance" });
-      }
-      
-      // Deduct bet amount from user balance
-      const newBalance = user.balance - betAmount;
-      await storage.updateUserBalance(user.id, newBalance);
+      const idempotencyKey = getIdempotencyKey(req);
       
-      // Record the game (payout will be processed when result is set)
-      const game = await storage.createGame({
-        userId: user.id,
-        gameType: GameType.TEAM_MATCH,
-        betAmount,
-        prediction,
-        result: TeamMatchResult.PENDING, // Result will be updated when match ends
-        payout: 0, // Payout will be updated when result is set
-        matchId,
-        balanceAfter: newBalance, // Track balance after this bet
+      // Record the game and deduct the stake (payout will be processed when result is set)
+      const placement = await placeBets({
+        userId: req.user!.id,
+        endpoint: `/api/team-matches/${matchId}/play`,
+        idempotencyKey,
+        bets: [{
+          gameType: GameType.TEAM_MATCH,
+          betAmount,
+          prediction,
+          result: TeamMatchResult.PENDING, // Result will be updated when match ends
+          payout: 0, // Payout will be updated when result is set
+          matchId,
+          description: `Team match bet: ${match.teamA} vs ${match.teamB}`,
+        }],
       });
       
       // Return game info with updated user balance
       res.json({
-        game,
+        game: placement.games[0],
         match,
         user: {
-          ...user,
-          balance: newBalance,
+          ...placement.user,
           password: undefined,
         },
       });
@@ -2570,7 +2319,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
 
   // Get games for a specific match
-  app.get("/api/team-matches/:id/games", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.get("/api/team-matches/:id/games", requirePermission(Permission.REPORTS_VIEW), async (req, res, next) => {
     try {
       const matchId = Number(req.params.id);
       
@@ -2602,21 +2351,13 @@ app.get("/api/games/my-history", async (req, res, next) => {
       
       // Validate request body
       const playSchema = z.object({
-        betAmount: z.number().min(10, "Minimum bet amount is 10"),
+        betAmount: positivePaisaSchema.refine(amount => amount >= rupeesToPaisa(10), "Minimum bet amount is ₹10"),
         betOn: z.enum([TeamMatchResult.TEAM_A, TeamMatchResult.TEAM_B], {
           errorMap: () => ({ message: "Bet must be on either team_a or team_b" })
         })
       });
       
-      // Handle potential parsing errors (client may send string instead of number)
-      const parsedBody = {
-        ...req.body,
-        betAmount: typeof req.body.betAmount === 'string' 
-          ? parseInt(req.body.betAmount, 10)
-          : req.body.betAmount
-      };
-      
-      const validationResult = playSchema.safeParse(parsedBody);
+      const validationResult = playSchema.safeParse(req.body);
       
       if (!validationResult.success) {
         return res.status(400).json({ 
@@ -2647,56 +2388,42 @@ app.get("/api/games/my-history", async (req, res, next) => {
         return res.status(400).json({ message });
       }
       
-      // Check if user has sufficient balance
-      const user = await storage.getUser(req.user!.id);
-      
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
-      
-      if (user.balance < betAmount) {
-        return res.status(400).json({ message: "Insufficient balance" });
-      }
-      
-      // Deduct the bet amount from user's balance
-      await storage.updateUserBalance(user.id, user.balance - betAmount);
+      const idempotencyKey = getIdempotencyKey(req);
       
       // Calculate potential payout based on odds
       const odds = betOn === TeamMatchResult.TEAM_A ? match.oddTeamA : match.oddTeamB;
       const potentialPayout = Math.floor((betAmount * odds) / 100);
       
-      // Calculate the new balance
-      const newBalance = user.balance - betAmount;
-      
-      // Create a new game entry for this user's bet
-      const userBet = {
-        userId: user.id,
-        gameType: GameType.CRICKET_TOSS,
-        matchId: match.id,
-        betAmount,
-        prediction: betOn,
-        gameData: {
-          teamA: match.teamA,
-          teamB: match.teamB,
+      // Create a new game entry for this user's bet and deduct the stake
+      const placement = await placeBets({
+        userId: req.user!.id,
+        endpoint: `/api/team-matches/${matchId}/play-toss`,
+        idempotencyKey,
+        bets: [{
+          gameType: GameType.CRICKET_TOSS,
           matchId: match.id,
-          oddTeamA: match.oddTeamA,
-          oddTeamB: match.oddTeamB,
-          matchTime: match.matchTime,
-          status: 'pending'
-        },
-        result: "pending",
-        payout: potentialPayout,
-        balanceAfter: newBalance // Track balance after this bet
-      };
-      
-      const createdBet = await storage.createGame(userBet);
+          betAmount,
+          prediction: betOn,
+          gameData: {
+            teamA: match.teamA,
+            teamB: match.teamB,
+            matchId: match.id,
+            oddTeamA: match.oddTeamA,
+            oddTeamB: match.oddTeamB,
+            matchTime: match.matchTime,
+            status: 'pending'
+          },
+          result: "pending",
+          payout: potentialPayout,
+          description: `Toss bet: ${match.teamA} vs ${match.teamB}`,
+        }],
+      });
       
       res.status(201).json({
         message: "Bet placed successfully",
-        game: createdBet,
+        game: placement.games[0],
         user: {
-          ...user,
-          balance: newBalance,
+          ...placement.user,
           password: undefined,
         }
       });
@@ -2706,7 +2433,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
   
   // Cricket Toss Betting Statistics
-  app.get("/api/cricket-toss-stats", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res) => {
+  app.get("/api/cricket-toss-stats", requirePermission(Permission.REPORTS_VIEW), async (req, res) => {
     // Get the requesting user's role and ID
     const requestingUserId = req.user!.id;
     const requestingUserRole = req.user!.role;
@@ -2929,7 +2656,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
   
   // Sports Match Betting Statistics
-  app.get("/api/sports/stats", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.get("/api/sports/stats", requirePermission(Permission.REPORTS_VIEW), async (req, res, next) => {
     try {
       // Get active team matches for sports
       const matches = await storage.getActiveTeamMatches();
@@ -3006,7 +2733,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
 
   // Settings routes
   // System Settings
-  app.get("/api/settings", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.get("/api/settings", requirePermission([Permission.SETTINGS_MANAGE, Permission.ODDS_VIEW]), async (req, res, next) => {
     try {
       const settingType = req.query.type as string;
       
@@ -3021,7 +2748,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
     }
   });
   
-  app.post("/api/settings", requireRole([UserRole.ADMIN]), async (req, res, next) => {
+  app.post("/api/settings", requirePermission(Permission.SETTINGS_MANAGE), async (req, res, next) => {
     try {
       const { settingType, settingKey, settingValue } = req.body;
       
@@ -3037,7 +2764,7 @@ app.get("/api/games/my-history", async (req, res, next) => {
   });
   
   // Game Odds Settings
-  app.get("/api/game-odds", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.get("/api/game-odds", requirePermission(Permission.ODDS_VIEW), async (req, res, next) => {
     try {
       const gameType = req.query.gameType as string;
       
@@ -3082,26 +2809,16 @@ app.get("/api/games/my-history", async (req, res, next) => {
       // If player is assigned to a subadmin, check for custom odds first
       if (user.assignedTo) {
         try {
-          // Get all custom odds for this specific subadmin ID and game type directly from DB
-          console.log(`Checking for custom odds for subadmin ${user.assignedTo} and gameType ${gameType}`);
+          // Get the custom odds of the nearest agent above the player that set any for this game type
+          console.log(`Checking for custom odds for the agents above player ${userId} and gameType ${gameType}`);
           
-          // Query to find custom odds for this subadmin and game type
-          const customOdds = await db.select()
-            .from(schema.gameOdds)
-            .where(
-              and(
-                eq(schema.gameOdds.gameType, gameType),
-                eq(schema.gameOdds.subadminId, user.assignedTo)
-                // Removed filter for setByAdmin=false to ensure we get any odds
-                // associated with this subadmin, regardless of how they were set
-              )
-            );
+          const customOdds = await getNearestAgentOdds(userId, gameType);
           
-          console.log(`Direct DB query for subadmin ${user.assignedTo} odds returned:`, customOdds);
+          console.log(`Nearest agent odds for player ${userId} returned:`, customOdds);
           
-          // If custom odds exist for this subadmin, use them
+          // If an agent above the player set custom odds, use them
           if (customOdds && customOdds.length > 0) {
-            console.log(`Found custom odds for subadmin ${user.assignedTo}, using these for player ${userId}:`, customOdds);
+            console.log(`Found custom odds for subadmin ${customOdds[0].subadminId}, using these for player ${userId}:`, customOdds);
             resultOdds = customOdds;
           } else {
             // No custom odds found, use admin default odds
@@ -3164,7 +2881,7 @@ const DEFAULT_GAME_TYPES = [
   'satamatka_crossing'
 ];
 
-app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+app.get("/api/odds/admin", requirePermission(Permission.ODDS_VIEW), async (req, res, next) => {
     try {
       // Fetch all admin odds
       const adminOdds = [];
@@ -3195,8 +2912,11 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
     }
   });
   
+  // Odds by game type, as kept in the audit log
+  const oddsState = (odds: schema.GameOdd[]) => Object.fromEntries(odds.map(odd => [odd.gameType, odd.oddValue]));
+  
   // Post endpoint for subadmin odds - ADMIN ONLY
-  app.post("/api/odds/subadmin/:subadminId", requireRole([UserRole.ADMIN]), async (req, res, next) => {
+  app.post("/api/odds/subadmin/:subadminId", requirePermission(Permission.ODDS_SET_PLATFORM), async (req, res, next) => {
     try {
       const subadminId = parseInt(req.params.subadminId);
       const { odds } = req.body;
@@ -3211,12 +2931,18 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
         return res.status(400).json({ message: "Invalid subadmin ID" });
       }
       
+      const previousOdds = await storage.getGameOddsBySubadmin(subadminId);
       const results = await Promise.all(
         odds.map(async (odd) => {
           if (!odd.gameType || odd.oddValue === undefined) {
             return { error: "gameType and oddValue are required", gameType: odd.gameType };
           }
           
+          // Games with a published RTP policy pay the same odds to every player
+          if (hasRtpPolicy(odd.gameType)) {
+            return { error: "Odds of this game are fixed by its RTP policy", gameType: odd.gameType };
+          }
+          
           // We need to ensure the odd value is stored properly
           // When setting for player view, the format should be:
           // Team match, cricket toss, coin flip: 1.9 admin → 0.02 player
@@ -3235,6 +2961,15 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
         })
       );
       
+      await recordAuditEvent(req, {
+        action: AuditAction.ODDS_UPDATE,
+        targetType: "agent_odds",
+        targetId: subadminId,
+        targetUserId: subadminId,
+        before: oddsState(previousOdds),
+        after: oddsState(await storage.getGameOddsBySubadmin(subadminId)),
+      });
+      
       // Invalidate any cached odds values for this subadmin
       console.log(`Updated odds for subadmin ${subadminId}, invalidating cache`);
       
@@ -3249,7 +2984,7 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
   });
   
   // Get subadmin odds endpoint
-  app.get("/api/odds/subadmin/:subadminId?", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.get("/api/odds/subadmin/:subadminId?", requirePermission(Permission.ODDS_VIEW, { user: userParam("subadminId"), allowSelf: true }), async (req, res, next) => {
     try {
       // If subadminId is not provided in path, use the current user's ID (if subadmin)
       let subadminId = req.params.subadminId ? Number(req.params.subadminId) : 
@@ -3259,11 +2994,6 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
         return res.status(400).json({ message: "Subadmin ID is required" });
       }
       
-      // Check if the user is authorized to access this resource
-      if (req.user.role === UserRole.SUBADMIN && req.user.id !== subadminId) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-      
       // Define default game types
       const gameTypes = [
         'team_match',
@@ -3329,16 +3059,11 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
     }
   });
   
-  app.get("/api/game-odds/subadmin/:subadminId", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.get("/api/game-odds/subadmin/:subadminId", requirePermission(Permission.ODDS_VIEW, { user: userParam("subadminId"), allowSelf: true }), async (req, res, next) => {
     try {
       const subadminId = Number(req.params.subadminId);
       const gameType = req.query.gameType as string;
       
-      // Check if the user is authorized to access this resource
-      if (req.user.role === UserRole.SUBADMIN && req.user.id !== subadminId) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-      
       // Define default game types
       const DEFAULT_GAME_TYPES = [
         'team_match',
@@ -3403,7 +3128,7 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
   });
   
   // POST endpoint for updating game odds for a specific subadmin
-  app.post("/api/game-odds/subadmin/:subadminId", requireRole([UserRole.ADMIN]), async (req, res, next) => {
+  app.post("/api/game-odds/subadmin/:subadminId", requirePermission(Permission.ODDS_SET_PLATFORM), async (req, res, next) => {
     try {
       const subadminId = Number(req.params.subadminId);
       const { odds } = req.body;
@@ -3418,12 +3143,18 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
         return res.status(400).json({ message: "Invalid subadmin ID" });
       }
       
+      const previousOdds = await storage.getGameOddsBySubadmin(subadminId);
       const results = await Promise.all(
         odds.map(async (odd) => {
           if (!odd.gameType || odd.oddValue === undefined) {
             return { error: "gameType and oddValue are required", gameType: odd.gameType };
           }
           
+          // Games with a published RTP policy pay the same odds to every player
+          if (hasRtpPolicy(odd.gameType)) {
+            return { error: "Odds of this game are fixed by its RTP policy", gameType: odd.gameType };
+          }
+          
           // Convert decimal odds to integer by multiplying by 10000 for storage
           return storage.upsertGameOdd(
             odd.gameType,
@@ -3434,6 +3165,15 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
         })
       );
       
+      await recordAuditEvent(req, {
+        action: AuditAction.ODDS_UPDATE,
+        targetType: "agent_odds",
+        targetId: subadminId,
+        targetUserId: subadminId,
+        before: oddsState(previousOdds),
+        after: oddsState(await storage.getGameOddsBySubadmin(subadminId)),
+      });
+      
       res.json({ 
         success: true, 
         message: "Game odds settings updated successfully",
@@ -3444,7 +3184,7 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
     }
   });
   
-  app.post("/api/game-odds", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.post("/api/game-odds", requirePermission([Permission.ODDS_SET, Permission.ODDS_SET_PLATFORM]), async (req, res, next) => {
     try {
       const { gameType, oddValue, setByAdmin, subadminId } = req.body;
       
@@ -3452,28 +3192,47 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
         return res.status(400).json({ message: "gameType and oddValue are required" });
       }
       
-      // Admin can set odds for anyone, subadmin can only set their own odds
-      if (req.user.role === UserRole.SUBADMIN) {
+      // Platform odds and other agents' odds take odds.set_platform; otherwise users set their own odds
+      const setsPlatformOdds = await can(req, Permission.ODDS_SET_PLATFORM);
+      if (!setsPlatformOdds) {
         if (setByAdmin === true) {
-          return res.status(403).json({ message: "Subadmins cannot set admin odds" });
+          return res.status(403).json({ message: "You cannot set admin odds" });
         }
         
-        if (subadminId && subadminId !== req.user.id) {
-          return res.status(403).json({ message: "Subadmins can only set their own odds" });
+        if (subadminId && subadminId !== req.user!.id) {
+          return res.status(403).json({ message: "You can only set your own odds" });
         }
       }
       
+      // Games with a published RTP policy pay the same odds to every player
+      const setsSubadminOdds = !setsPlatformOdds || setByAdmin === false || !!subadminId;
+      if (hasRtpPolicy(gameType) && setsSubadminOdds) {
+        return res.status(400).json({ message: "Odds of this game are fixed by its RTP policy and cannot be set per subadmin" });
+      }
+      
       // Multiply the value by 10000 for storage to allow decimal values like 1.95 to be stored accurately
       // This will be divided by 10000 when retrieving for display
       const storedValue = parseFloat(oddValue) * 10000;
       
+      const previousOdds = setsPlatformOdds
+        ? await storage.getGameOdds(gameType, false)
+        : await storage.getGameOddsBySubadmin(req.user!.id, gameType);
       const odds = await storage.upsertGameOdd(
         gameType, 
         storedValue, // Store the value multiplied by 10000
-        req.user.role === UserRole.ADMIN ? (setByAdmin || true) : false,
-        req.user.role === UserRole.ADMIN ? subadminId : req.user.id
+        setsPlatformOdds ? (setByAdmin || true) : false,
+        setsPlatformOdds ? subadminId : req.user!.id
       );
       
+      await recordAuditEvent(req, {
+        action: AuditAction.ODDS_UPDATE,
+        targetType: setsPlatformOdds ? "platform_odds" : "agent_odds",
+        targetId: setsPlatformOdds ? gameType : req.user!.id,
+        targetUserId: setsPlatformOdds ? null : req.user!.id,
+        before: oddsState(previousOdds),
+        after: oddsState([odds]),
+      });
+      
       res.json(odds);
     } catch (err) {
       next(err);
@@ -3481,7 +3240,7 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
   });
   
   // Subadmin Commission routes
-  app.get("/api/commissions/subadmin/:subadminId?", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.get("/api/commissions/subadmin/:subadminId?", requirePermission(Permission.COMMISSIONS_VIEW, { user: userParam("subadminId"), allowSelf: true }), async (req, res, next) => {
     try {
       // If subadminId is not provided in path, use the current user's ID (if subadmin)
       let subadminId = req.params.subadminId ? Number(req.params.subadminId) : 
@@ -3491,11 +3250,6 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
         return res.status(400).json({ message: "Subadmin ID is required" });
       }
       
-      // Check if the user is authorized to access this resource
-      if (req.user.role === UserRole.SUBADMIN && req.user.id !== subadminId) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-      
       // Define default game types
       const gameTypes = [
         'team_match',
@@ -3568,7 +3322,7 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
   });
   
   // Create a subadmin with commission settings in one operation
-  app.post("/api/subadmin/create-with-commissions", requireRole([UserRole.ADMIN]), async (req, res, next) => {
+  app.post("/api/subadmin/create-with-commissions", requirePermission(Permission.COMMISSIONS_MANAGE), async (req, res, next) => {
     try {
       const { username, password, commissions } = req.body;
       
@@ -3576,8 +3330,12 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
         return res.status(400).json({ message: "Username and password are required" });
       }
       
+      const passwordProblem = passwordPolicyProblem(password, username);
+      if (passwordProblem) {
+        return res.status(400).json({ message: passwordProblem });
+      }
+      
       // First create the subadmin
-      const hashPassword = require('./auth').hashPassword;
       const hashedPassword = await hashPassword(password);
       
       const newSubadmin = await storage.createUser({
@@ -3649,7 +3407,7 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
   });
   
   // Set individual subadmin commission
-  app.post("/api/commissions/subadmin", requireRole([UserRole.ADMIN]), async (req, res, next) => {
+  app.post("/api/commissions/subadmin", requirePermission(Permission.COMMISSIONS_MANAGE), async (req, res, next) => {
     try {
       const { subadminId, gameType, commissionRate } = req.body;
       
@@ -3671,7 +3429,7 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
   });
   
   // Get platform-wide default commission rates
-  app.get("/api/commissions/default", requireRole([UserRole.ADMIN]), async (req, res, next) => {
+  app.get("/api/commissions/default", requirePermission(Permission.COMMISSIONS_MANAGE), async (req, res, next) => {
     try {
       // Define default game types
       const gameTypes = [
@@ -3717,7 +3475,7 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
   });
   
   // Set platform-wide default commission rates for all subadmins
-  app.post("/api/commissions/default", requireRole([UserRole.ADMIN]), async (req, res, next) => {
+  app.post("/api/commissions/default", requirePermission(Permission.COMMISSIONS_MANAGE), async (req, res, next) => {
     try {
       const { defaultRates } = req.body;
       
@@ -3758,7 +3516,7 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
   });
   
   // Update multiple commission settings for a subadmin at once
-  app.post("/api/commissions/subadmin/:subadminId", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req, res, next) => {
+  app.post("/api/commissions/subadmin/:subadminId", requirePermission(Permission.COMMISSIONS_MANAGE, { user: userParam("subadminId") }), async (req, res, next) => {
     try {
       const subadminId = parseInt(req.params.subadminId);
       const { commissions } = req.body;
@@ -3767,11 +3525,6 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
         return res.status(400).json({ message: "commissions must be an array of commission settings" });
       }
 
-      // Check if the user is authorized to access this resource
-      if (req.user.role === UserRole.SUBADMIN && req.user.id !== subadminId) {
-        return res.status(403).json({ message: "Unauthorized: You can only update your own commission settings" });
-      }
-      
       // Verify the subadmin exists and is actually a subadmin
       const subadmin = await storage.getUser(subadminId);
       if (!subadmin || subadmin.role !== UserRole.SUBADMIN) {
@@ -3806,7 +3559,7 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
   });
   
   // User Discount routes
-  app.get("/api/discounts/user/:userId", requireRole([UserRole.SUBADMIN]), async (req, res, next) => {
+  app.get("/api/discounts/user/:userId", requirePermission(Permission.DISCOUNTS_MANAGE, { user: userParam("userId") }), async (req, res, next) => {
     try {
       const userId = Number(req.params.userId);
       const subadminId = req.user.id;
@@ -3824,7 +3577,7 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
     }
   });
   
-  app.post("/api/discounts/user", requireRole([UserRole.SUBADMIN]), async (req, res, next) => {
+  app.post("/api/discounts/user", requirePermission(Permission.DISCOUNTS_MANAGE, { user: (req) => Number(req.body.userId) }), async (req, res, next) => {
     try {
       const { userId, gameType, discountRate } = req.body;
       const subadminId = req.user.id;
@@ -3847,7 +3600,7 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
   });
   
   // Admin endpoint to manually seed cricket toss games
-  app.post("/api/admin/seed-cricket-toss", requireRole([UserRole.ADMIN]), async (req, res, next) => {
+  app.post("/api/admin/seed-cricket-toss", requirePermission(Permission.SYSTEM_MAINTENANCE), async (req, res, next) => {
     try {
       // Call seedCricketTossGames directly from storage
       await storage.seedCricketTossGames();
@@ -3875,85 +3628,8 @@ app.get("/api/odds/admin", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), asy
     res.sendFile("login-test.html", { root: process.cwd() });
   });
   
-  // System reset endpoint (admin only)
-  app.post("/api/admin/reset-system", requireRole([UserRole.ADMIN]), async (req, res) => {
-    try {
-      const { resetType, confirmationCode } = req.body;
-      
-      // Verify confirmation code
-      if (confirmationCode !== "RESET_CONFIRM") {
-        return res.status(400).json({ message: "Invalid confirmation code. Type RESET_CONFIRM to proceed." });
-      }
-      
-      // Execute system reset based on type
-      if (resetType === "all") {
-        // Reset all data including balances
-        await db.delete(schema.transactions);
-        await db.delete(schema.games);
-        await db.delete(schema.satamatkaMarkets);
-        await db.delete(schema.teamMatches);
-        await db.delete(schema.walletRequests);
-        await db.delete(schema.gameOdds);
-        
-        // Reset user balances to 0 except admin
-        const allUsers = await storage.getAllUsers();
-        for (const user of allUsers) {
-          if (user.role !== UserRole.ADMIN) {
-            await storage.updateUserBalance(user.id, 0);
-          }
-        }
-        
-        console.log("Full system reset completed");
-        return res.json({ message: "Full system reset completed successfully" });
-      } 
-      else if (resetType === "games") {
-        // Reset only game data
-        await db.delete(schema.games);
-        await db.delete(schema.satamatkaMarkets);
-        await db.delete(schema.teamMatches);
-        
-        console.log("Game data reset completed");
-        return res.json({ message: "Game data reset completed successfully" });
-      }
-      else if (resetType === "transactions") {
-        // Reset only transactions
-        await db.delete(schema.transactions);
-        await db.delete(schema.walletRequests);
-        
-        // Reset user balances to 0 except admin
-        const allUsers = await storage.getAllUsers();
-        for (const user of allUsers) {
-          if (user.role !== UserRole.ADMIN) {
-            await storage.updateUserBalance(user.id, 0);
-          }
-        }
-        
-        console.log("Transactions reset completed");
-        return res.json({ message: "Transactions reset completed successfully" });
-      }
-      else if (resetType === "balance") {
-        // Reset only balances
-        const allUsers = await storage.getAllUsers();
-        for (const user of allUsers) {
-          if (user.role !== UserRole.ADMIN) {
-            await storage.updateUserBalance(user.id, 0);
-          }
-        }
-        
-        console.log("User balances reset completed");
-        return res.json({ message: "User balances reset completed successfully" });
-      }
-      else {
-        return res.status(400).json({ message: "Invalid reset type" });
-      }
-    } catch (err) {
-      console.error("Error during system reset:", err);
-      return res.status(500).json({ message: "An error occurred during system reset" });
-    }
-  });
-  
   // Admin dashboard statistics
-  app.get("/api/admin/stats", requireRole(UserRole.ADMIN), async (req, res) => {
+  app.get("/api/admin/stats", requirePermission(Permission.REPORTS_VIEW_PLATFORM), async (req, res) => {
     try {
       let totalProfitLoss = 0;
       
@@ -0,0 +1,116 @@
+import express from 'express';
+import { db } from './db';
+import { storage } from './storage';
+import { requirePermission } from './permissions';
+import { Permission, GameType, games } from '@shared/schema';
+import { and, isNotNull, ne, sql } from 'drizzle-orm';
+import { COIN_FLIP_HEADS_PROBABILITY } from './fairness';
+
+/**
+ * Return-to-player policy of a game whose outcome the server draws. The win
+ * probability is fixed and the payout multiplier is the admin's, so the
+ * policy is the same for every player.
+ */
+export type RtpPolicy = {
+  gameType: string;
+  label: string;
+  winProbability: number;
+  payoutMultiplier: number;
+  rtp: number; // winProbability × payoutMultiplier, 0.975 = 97.5%
+};
+
+export type RtpReportRow = {
+  gameType: string;
+  gameMode: string | null;
+  bets: number;
+  totalStake: number;  // in paisa
+  totalPayout: number; // in paisa
+  observedRtp: number | null; // totalPayout / totalStake, null without stakes
+  theoreticalRtp: number | null; // From the policy; null for games without one
+};
+
+// Game types with a published RTP policy. Subadmin odds do not apply to them.
+const RTP_GAME_TYPES: string[] = [GameType.COIN_FLIP];
+
+const DEFAULT_COIN_FLIP_MULTIPLIER = 1.95;
+
+export function hasRtpPolicy(gameType: string): boolean {
+  return RTP_GAME_TYPES.includes(gameType);
+}
+
+// Multiplier the admin set for a game type (odds are stored × 10000)
+async function getAdminMultiplier(gameType: string): Promise<number | null> {
+  const adminOdd = (await storage.getGameOdds(gameType)).find(odd => odd.setByAdmin === true);
+  return adminOdd ? adminOdd.oddValue / 10000 : null;
+}
+
+export async function getCoinFlipRtpPolicy(): Promise<RtpPolicy> {
+  const payoutMultiplier = await getAdminMultiplier(GameType.COIN_FLIP) ?? DEFAULT_COIN_FLIP_MULTIPLIER;
+  // Heads and tails are equally likely, so either pick wins with this chance
+  const winProbability = COIN_FLIP_HEADS_PROBABILITY;
+
+  return {
+    gameType: GameType.COIN_FLIP,
+    label: 'Coin Flip',
+    winProbability,
+    payoutMultiplier,
+    rtp: winProbability * payoutMultiplier,
+  };
+}
+
+export async function getRtpPolicies(): Promise<RtpPolicy[]> {
+  return [await getCoinFlipRtpPolicy()];
+}
+
+/**
+ * Observed RTP of every game (and Satamatka game mode) over its resolved
+ * bets, next to the theoretical RTP where the game has a policy.
+ */
+export async function getRtpReport(): Promise<RtpReportRow[]> {
+  const rows = await db.select({
+    gameType: games.gameType,
+    gameMode: games.gameMode,
+    bets: sql<number>`count(*)::int`,
+    totalStake: sql<number>`coalesce(sum(${games.betAmount}), 0)::bigint`,
+    totalPayout: sql<number>`coalesce(sum(${games.payout}), 0)::bigint`,
+  })
+    .from(games)
+    .where(and(isNotNull(games.result), ne(games.result, 'pending')))
+    .groupBy(games.gameType, games.gameMode)
+    .orderBy(games.gameType, games.gameMode);
+
+  const policies = new Map((await getRtpPolicies()).map(policy => [policy.gameType, policy]));
+
+  return rows.map(row => {
+    const totalStake = Number(row.totalStake);
+    const totalPayout = Number(row.totalPayout);
+    return {
+      gameType: row.gameType,
+      gameMode: row.gameMode,
+      bets: row.bets,
+      totalStake,
+      totalPayout,
+      observedRtp: totalStake > 0 ? totalPayout / totalStake : null,
+      theoreticalRtp: policies.get(row.gameType)?.rtp ?? null,
+    };
+  });
+}
+
+export function setupRtpRoutes(app: express.Express) {
+  // Published RTP policies; public so they can be shown before logging in
+  app.get('/api/rtp', async (req, res, next) => {
+    try {
+      res.json(await getRtpPolicies());
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get('/api/rtp/report', requirePermission(Permission.REPORTS_VIEW_PLATFORM), async (req, res, next) => {
+    try {
+      res.json(await getRtpReport());
+    } catch (err) {
+      next(err);
+    }
+  });
+}
@@ -0,0 +1,139 @@
+import express from 'express';
+import { db } from './db';
+import {
+  selfExclusions,
+  AuditAction,
+  Permission,
+  PlaySessionEndReason,
+  SelfExclusionKind,
+  UserRole,
+  type SelfExclusion,
+  type User,
+} from '@shared/schema';
+import { getSelfExclusionOption, selfExclusionEnd } from '@shared/self-exclusion';
+import { requirePermission, userParam } from './permissions';
+import { recordAuditEvent, listAuditEvents } from './audit';
+import { revokeUserSessions } from './sessions';
+import { endPlaySession } from './play-sessions';
+import type { DbTransaction } from './ledger';
+import { and, desc, eq, isNull, or, sql } from 'drizzle-orm';
+
+// Players can take a break from playing: a cooling-off of a day to a month,
+// or a self-exclusion of six months or for good. Starting one signs them out
+// everywhere, and until it ends they can neither log in nor bet. There is no
+// way to end a break early, for agents and admins included. Starts and
+// refused logins are recorded in the audit log for compliance review.
+
+type Executor = typeof db | DbTransaction;
+
+/**
+ * The user's break that is running now, if any. A permanent one comes first.
+ */
+export async function getActiveSelfExclusion(userId: number, executor: Executor = db): Promise<SelfExclusion | undefined> {
+  // Timestamps are stored as UTC without a zone
+  const now = new Date().toISOString();
+  const [exclusion] = await executor.select()
+    .from(selfExclusions)
+    .where(and(
+      eq(selfExclusions.userId, userId),
+      or(isNull(selfExclusions.endsAt), sql`${selfExclusions.endsAt} > ${now}::timestamp`),
+    ))
+    // Descending puts nulls first
+    .orderBy(desc(selfExclusions.endsAt))
+    .limit(1);
+  return exclusion;
+}
+
+export function selfExclusionMessage(exclusion: SelfExclusion): string {
+  if (!exclusion.endsAt) {
+    return 'You have excluded yourself from playing permanently.';
+  }
+
+  const hours = Math.ceil((exclusion.endsAt.getTime() - Date.now()) / (60 * 60 * 1000));
+  const remaining = hours > 48 ? `${Math.ceil(hours / 24)} days` : `${hours} hour${hours === 1 ? '' : 's'}`;
+  return exclusion.kind === SelfExclusionKind.COOLING_OFF
+    ? `You are on a cooling-off break for another ${remaining}.`
+    : `You have excluded yourself from playing for another ${remaining}.`;
+}
+
+/**
+ * Record a login refused because of a break. Called with the password
+ * already checked, so only the account holder's own attempts are counted.
+ */
+export async function recordRefusedLogin(req: express.Request, user: User, exclusion: SelfExclusion) {
+  await recordAuditEvent(req, {
+    action: AuditAction.USER_SELF_EXCLUSION_LOGIN,
+    targetType: 'self_exclusion',
+    targetId: exclusion.id,
+    targetUserId: user.id,
+    after: { username: user.username, period: exclusion.period, endsAt: exclusion.endsAt },
+  });
+}
+
+export function setupSelfExclusionRoutes(app: express.Express) {
+  // Start a break. The player is signed out everywhere, this session included.
+  app.post('/api/self-exclusion', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      if (req.user.role !== UserRole.PLAYER) {
+        return res.status(403).json({ message: 'Only players can take a break from playing' });
+      }
+
+      const option = getSelfExclusionOption(req.body.period);
+      if (!option) {
+        return res.status(400).json({ message: 'Choose how long the break should last' });
+      }
+
+      const startedAt = new Date();
+      const [exclusion] = await db.insert(selfExclusions).values({
+        userId: req.user.id,
+        kind: option.kind,
+        period: option.period,
+        startedAt,
+        endsAt: selfExclusionEnd(option.period, startedAt),
+      }).returning();
+
+      await recordAuditEvent(req, {
+        action: AuditAction.USER_SELF_EXCLUSION_START,
+        targetType: 'self_exclusion',
+        targetId: exclusion.id,
+        targetUserId: req.user.id,
+        after: { kind: exclusion.kind, period: exclusion.period, startedAt: exclusion.startedAt, endsAt: exclusion.endsAt },
+      });
+
+      await revokeUserSessions(req.user.id, req.sessionID);
+      await endPlaySession(req, PlaySessionEndReason.LOGOUT);
+      req.logout((err) => {
+        if (err) return next(err);
+        res.status(201).json({ ...exclusion, message: selfExclusionMessage(exclusion) });
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // A player's breaks and the logins refused during them
+  app.get('/api/users/:id/self-exclusions', requirePermission(Permission.USERS_VIEW, { user: userParam('id') }), async (req, res, next) => {
+    try {
+      const userId = Number(req.params.id);
+      const active = await getActiveSelfExclusion(userId);
+      const exclusions = await db.select()
+        .from(selfExclusions)
+        .where(eq(selfExclusions.userId, userId))
+        .orderBy(desc(selfExclusions.startedAt));
+      const { events: refusedLogins } = await listAuditEvents({
+        action: AuditAction.USER_SELF_EXCLUSION_LOGIN,
+        targetUserId: userId,
+      });
+
+      res.json({
+        exclusions: exclusions.map(exclusion => ({ ...exclusion, active: exclusion.id === active?.id })),
+        refusedLogins,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+}
@@ -0,0 +1,188 @@
+import express from 'express';
+import { createHash } from 'crypto';
+import { db } from './db';
+import { Permission } from '@shared/schema';
+import { requirePermission, userParam } from './permissions';
+import { sql } from 'drizzle-orm';
+
+// Login sessions live in the sessions table kept by connect-pg-simple, keyed
+// by the session id in the cookie. Each records the device it was started
+// from so users can see where they are logged in and end any of it. Session
+// ids are never sent to the client; a hash of them identifies a session.
+
+declare module 'express-session' {
+  interface SessionData {
+    device?: {
+      userAgent: string | null;
+      ipAddress: string | null;
+      createdAt: number;
+      lastSeenAt: number;
+    };
+  }
+}
+
+// Idle sessions expire a day after their last request; none lasts past 30 days
+export const SESSION_IDLE_MS = 24 * 60 * 60 * 1000;
+export const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+// Saving the session on every request would write to the store each time
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+export type SessionInfo = {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date | null;
+  lastSeenAt: Date | null;
+  expiresAt: Date;
+  current: boolean;
+};
+
+const publicSessionId = (sid: string) => createHash('sha256').update(sid).digest('hex').slice(0, 16);
+
+/**
+ * Remember the device of a session that was just logged in. Called after
+ * req.login, which starts a new session.
+ */
+export function recordSessionDevice(req: express.Request) {
+  const now = Date.now();
+  req.session.device = {
+    userAgent: req.get('user-agent') ?? null,
+    ipAddress: req.ip ?? null,
+    createdAt: now,
+    lastSeenAt: now,
+  };
+}
+
+/**
+ * Keeps the last-seen time of logged-in sessions and ends sessions older
+ * than the maximum age.
+ */
+export function trackSession(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (!req.isAuthenticated()) return next();
+
+  const device = req.session.device;
+  const now = Date.now();
+  if (!device) {
+    // Logged in before devices were recorded
+    recordSessionDevice(req);
+    return next();
+  }
+  if (now - device.createdAt > SESSION_MAX_AGE_MS) {
+    return req.logout((err) => next(err));
+  }
+  if (now - device.lastSeenAt > LAST_SEEN_RESOLUTION_MS) {
+    device.lastSeenAt = now;
+  }
+  next();
+}
+
+export async function listUserSessions(userId: number, currentSid?: string): Promise<SessionInfo[]> {
+  const result = await db.execute(sql`
+    SELECT sid, sess, expire FROM sessions
+    WHERE sess->'passport'->>'user' = ${String(userId)} AND expire > now()
+    ORDER BY expire DESC
+  `);
+
+  return result.rows.map(row => {
+    const sess = (typeof row.sess === 'string' ? JSON.parse(row.sess) : row.sess) as { device?: express.Request['session']['device'] };
+    const device = sess.device;
+    return {
+      id: publicSessionId(String(row.sid)),
+      userAgent: device?.userAgent ?? null,
+      ipAddress: device?.ipAddress ?? null,
+      createdAt: device ? new Date(device.createdAt) : null,
+      lastSeenAt: device ? new Date(device.lastSeenAt) : null,
+      expiresAt: new Date(row.expire as string),
+      current: row.sid === currentSid,
+    };
+  });
+}
+
+/**
+ * Log a user out everywhere, or everywhere but the given session. Returns
+ * how many sessions ended.
+ */
+export async function revokeUserSessions(userId: number, exceptSid?: string): Promise<number> {
+  const result = await db.execute(sql`
+    DELETE FROM sessions
+    WHERE sess->'passport'->>'user' = ${String(userId)}
+    ${exceptSid ? sql`AND sid <> ${exceptSid}` : sql``}
+  `);
+  return result.rowCount ?? 0;
+}
+
+async function revokeUserSession(userId: number, id: string): Promise<boolean> {
+  const result = await db.execute(sql`
+    SELECT sid FROM sessions WHERE sess->'passport'->>'user' = ${String(userId)}
+  `);
+  const sid = result.rows.map(row => String(row.sid)).find(candidate => publicSessionId(candidate) === id);
+  if (!sid) return false;
+
+  await db.execute(sql`DELETE FROM sessions WHERE sid = ${sid}`);
+  return true;
+}
+
+export function setupSessionRoutes(app: express.Express) {
+  // Devices the logged-in user is signed in on
+  app.get('/api/sessions', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      res.json(await listUserSessions(req.user.id, req.sessionID));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Sign out every other device
+  app.delete('/api/sessions', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      res.json({ revoked: await revokeUserSessions(req.user.id, req.sessionID) });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.delete('/api/sessions/:id', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      if (req.params.id === publicSessionId(req.sessionID)) {
+        return req.logout((err) => {
+          if (err) return next(err);
+          res.json({ revoked: 1, current: true });
+        });
+      }
+
+      if (!await revokeUserSession(req.user.id, req.params.id)) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
+      res.json({ revoked: 1, current: false });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get('/api/users/:id/sessions', requirePermission(Permission.USERS_BLOCK, { user: userParam('id') }), async (req, res, next) => {
+    try {
+      res.json(await listUserSessions(Number(req.params.id), req.sessionID));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Force a user to log in again on every device
+  app.delete('/api/users/:id/sessions', requirePermission(Permission.USERS_BLOCK, { user: userParam('id') }), async (req, res, next) => {
+    try {
+      res.json({ revoked: await revokeUserSessions(Number(req.params.id)) });
+    } catch (err) {
+      next(err);
+    }
+  });
+}
@@ -0,0 +1,323 @@
+import express from 'express';
+import { db } from './db';
+import { storage } from './storage';
+import { requirePermission } from './permissions';
+import {
+  Permission,
+  games,
+  satamatkaMarkets,
+  settlementJobs,
+  MarketStatus,
+  MarketSession,
+  SettlementJobStatus,
+  HouseAccount,
+  LedgerEntryType,
+  type Game,
+  type SatamatkaMarket,
+  type SettlementJob,
+  type SettlementFailure,
+  type MarketSessionValue,
+} from '@shared/schema';
+import { getBetType, getBetResult, type MarketResults } from '@shared/bet-types';
+import { formatSessionResult, isTwoSessionMarket } from '@shared/market-sessions';
+import { eq, and, desc, count } from 'drizzle-orm';
+import { postUserBalanceChange } from './ledger';
+
+/**
+ * Raised when a settlement cannot be started. `status` is picked up by the
+ * global error handler.
+ */
+export class SettlementError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'SettlementError';
+    this.status = status;
+  }
+}
+
+/**
+ * Payout of a Satamatka bet against a market's declared results, in paisa (0
+ * for a loss), using the odds that apply to the player. Returns null when the
+ * result the bet is judged on has not been declared yet.
+ */
+export async function calculateSatamatkaPayout(game: Game, results: MarketResults): Promise<number | null> {
+  const betType = getBetType(game.gameMode);
+  if (!betType) {
+    throw new Error(`Unknown game mode: ${game.gameMode}`);
+  }
+
+  const result = getBetResult(betType, game.session, results);
+  if (result === null) {
+    return null;
+  }
+  const stake = betType.winningStake(game, result);
+  if (stake === 0) {
+    return 0;
+  }
+
+  // Odds configured for the player's subadmin, or the admin defaults
+  const oddValue = await storage.getOddsForPlayer(game.userId, betType.oddsKey);
+  return Math.floor(stake * (oddValue / 10000));
+}
+
+/**
+ * Settle a single pending bet. The game row is locked and re-checked inside
+ * the transaction, so a bet that was already settled (by an earlier run or a
+ * concurrent one) is skipped instead of paid twice.
+ *
+ * Returns the payout, or null when the bet was not pending any more or its
+ * result is not declared yet.
+ */
+async function settleGame(gameId: number, market: SatamatkaMarket, resultLabel: string): Promise<number | null> {
+  return db.transaction(async (tx) => {
+    const [game] = await tx.select()
+      .from(games)
+      .where(eq(games.id, gameId))
+      .for('update')
+      .limit(1);
+
+    if (!game || game.result !== 'pending') {
+      return null;
+    }
+
+    const payout = await calculateSatamatkaPayout(game, market);
+    if (payout === null) {
+      return null;
+    }
+
+    if (payout > 0) {
+      await postUserBalanceChange({
+        userId: game.userId,
+        amount: payout,
+        house: HouseAccount.GAMES,
+        entryType: LedgerEntryType.PAYOUT,
+        description: `Satamatka ${game.gameMode} win in ${market.name} (${resultLabel})`,
+        referenceType: 'game',
+        referenceId: game.id,
+      }, tx);
+    }
+
+    await tx.update(games)
+      .set({
+        result: payout > 0 ? 'win' : 'loss',
+        payout,
+        // balanceAfter was set when the bet was placed; winners get the payout on top
+        balanceAfter: payout > 0 && game.balanceAfter !== null ? game.balanceAfter + payout : game.balanceAfter,
+      })
+      .where(eq(games.id, game.id));
+
+    return payout;
+  });
+}
+
+// Pending bets a settlement of the given session covers: an open-session
+// settlement only takes open-session bets, a close settlement takes all
+function pendingBetsFilter(marketId: number, session: string) {
+  const pending = and(eq(games.marketId, marketId), eq(games.result, 'pending'));
+  return session === MarketSession.OPEN ? and(pending, eq(games.session, MarketSession.OPEN)) : pending;
+}
+
+async function countPendingBets(marketId: number, session: string = MarketSession.CLOSE) {
+  const [row] = await db.select({ value: count() })
+    .from(games)
+    .where(pendingBetsFilter(marketId, session));
+  return Number(row?.value ?? 0);
+}
+
+/**
+ * Work through every pending bet the job covers, recording progress and
+ * failures on the job as it goes. A failed bet does not stop the run. The
+ * market is moved to SETTLED only by a close settlement that leaves no
+ * pending bet.
+ */
+async function runSettlementJob(job: SettlementJob, market: SatamatkaMarket) {
+  const pendingGames = await db.select({ id: games.id, userId: games.userId })
+    .from(games)
+    .where(pendingBetsFilter(market.id, job.session))
+    .orderBy(games.id);
+
+  let settledBets = 0;
+  let winningBets = 0;
+  let totalPayout = 0;
+  const failures: SettlementFailure[] = [];
+
+  for (const pending of pendingGames) {
+    try {
+      const payout = await settleGame(pending.id, market, job.closeResult);
+      if (payout !== null) {
+        settledBets++;
+        if (payout > 0) {
+          winningBets++;
+          totalPayout += payout;
+        }
+      }
+    } catch (err) {
+      console.error(`Settlement job ${job.id}: failed to settle game ${pending.id}:`, err);
+      failures.push({
+        gameId: pending.id,
+        userId: pending.userId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    await db.update(settlementJobs)
+      .set({ settledBets, winningBets, totalPayout, failures })
+      .where(eq(settlementJobs.id, job.id));
+  }
+
+  const remaining = await countPendingBets(market.id, job.session);
+  const status = remaining === 0 ? SettlementJobStatus.COMPLETED : SettlementJobStatus.FAILED;
+
+  if (status === SettlementJobStatus.COMPLETED && job.session === MarketSession.CLOSE) {
+    await db.update(satamatkaMarkets)
+      .set({ status: MarketStatus.SETTLED })
+      .where(eq(satamatkaMarkets.id, market.id));
+  }
+
+  await db.update(settlementJobs)
+    .set({ status, finishedAt: new Date() })
+    .where(eq(settlementJobs.id, job.id));
+
+  console.log(`Settlement job ${job.id} for market ${market.id} (${job.session}) ${status}: ${settledBets}/${job.totalBets} settled, ${failures.length} failed, ${remaining} pending`);
+}
+
+/**
+ * Session a market can be settled for: the close session once the final
+ * result is declared, the open session of a two-session market once only its
+ * open panna is.
+ */
+function getSettleableSession(market: SatamatkaMarket): MarketSessionValue {
+  if (market.closeResult) {
+    if (market.status !== MarketStatus.RESULTED && market.status !== MarketStatus.SETTLED) {
+      throw new SettlementError("Only markets in 'resulted' status can be settled");
+    }
+    return MarketSession.CLOSE;
+  }
+  if (isTwoSessionMarket(market.type) && market.openPanna) {
+    return MarketSession.OPEN;
+  }
+  throw new SettlementError('Market has no result to settle against');
+}
+
+/**
+ * Start settling a market against its declared result. Once the close result
+ * is declared every pending bet is settled; before that, a two-session market
+ * settles its open-session bets against the open panna. Only one job runs per
+ * market at a time; starting again while one is running returns the running
+ * job. Re-running after a failed job only touches bets that are still
+ * pending, so nothing is paid twice.
+ *
+ * The job runs in the background; poll it with getSettlementJob().
+ */
+export async function startMarketSettlement(marketId: number, startedBy: number | null): Promise<SettlementJob> {
+  const market = await storage.getSatamatkaMarket(marketId);
+  if (!market) {
+    throw new SettlementError('Market not found', 404);
+  }
+  const session = getSettleableSession(market);
+
+  const running = await getRunningSettlementJob(marketId);
+  if (running) {
+    return running;
+  }
+
+  const [job] = await db.insert(settlementJobs)
+    .values({
+      marketId,
+      session,
+      closeResult: market.openPanna
+        ? formatSessionResult(market.openPanna, session === MarketSession.CLOSE ? market.closePanna : null)
+        : market.closeResult!,
+      totalBets: await countPendingBets(marketId, session),
+      startedBy,
+    })
+    .returning();
+
+  runSettlementJob(job, market).catch(async (err) => {
+    console.error(`Settlement job ${job.id} stopped:`, err);
+    await db.update(settlementJobs)
+      .set({ status: SettlementJobStatus.FAILED, finishedAt: new Date() })
+      .where(eq(settlementJobs.id, job.id));
+  });
+
+  return job;
+}
+
+export async function getRunningSettlementJob(marketId: number): Promise<SettlementJob | undefined> {
+  const [running] = await db.select()
+    .from(settlementJobs)
+    .where(and(eq(settlementJobs.marketId, marketId), eq(settlementJobs.status, SettlementJobStatus.RUNNING)))
+    .limit(1);
+  return running;
+}
+
+export async function getSettlementJob(jobId: number): Promise<SettlementJob | undefined> {
+  const [job] = await db.select()
+    .from(settlementJobs)
+    .where(eq(settlementJobs.id, jobId))
+    .limit(1);
+  return job;
+}
+
+export async function getSettlementJobsForMarket(marketId: number): Promise<SettlementJob[]> {
+  return db.select()
+    .from(settlementJobs)
+    .where(eq(settlementJobs.marketId, marketId))
+    .orderBy(desc(settlementJobs.startedAt));
+}
+
+/**
+ * Jobs still marked as running when the server starts were interrupted by a
+ * restart. Mark them failed so they can be re-run.
+ */
+export async function recoverInterruptedSettlements() {
+  const interrupted = await db.update(settlementJobs)
+    .set({ status: SettlementJobStatus.FAILED, finishedAt: new Date() })
+    .where(eq(settlementJobs.status, SettlementJobStatus.RUNNING))
+    .returning({ id: settlementJobs.id });
+
+  if (interrupted.length > 0) {
+    console.log(`Marked ${interrupted.length} interrupted settlement job(s) as failed`);
+  }
+}
+
+export function setupSettlementRoutes(app: express.Express) {
+  recoverInterruptedSettlements().catch(err => {
+    console.error('Error recovering interrupted settlement jobs:', err);
+  });
+
+  // Start (or re-run) settlement of a market
+  app.post('/api/satamatka/markets/:id/settle', requirePermission(Permission.MARKETS_DECLARE_RESULT), async (req, res, next) => {
+    try {
+      const marketId = Number(req.params.id);
+      const job = await startMarketSettlement(marketId, req.user!.id);
+      res.status(202).json(job);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Settlement history of a market, latest first
+  app.get('/api/satamatka/markets/:id/settlement-jobs', requirePermission(Permission.MARKETS_DECLARE_RESULT), async (req, res, next) => {
+    try {
+      const marketId = Number(req.params.id);
+      res.json(await getSettlementJobsForMarket(marketId));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get('/api/settlement-jobs/:id', requirePermission(Permission.MARKETS_DECLARE_RESULT), async (req, res, next) => {
+    try {
+      const job = await getSettlementJob(Number(req.params.id));
+      if (!job) {
+        return res.status(404).json({ message: 'Settlement job not found' });
+      }
+      res.json(job);
+    } catch (err) {
+      next(err);
+    }
+  });
+}
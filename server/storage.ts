@@ -23,6 +23,7 @@ import {
   InsertTeamMatch,
   SystemSetting,
   MarketStatus,
+  MarketSession,
   RecurrencePattern,
   InsertSystemSetting,
   SubadminCommission,
@@ -40,12 +41,18 @@ import {
   InsertWalletRequest,
   WalletRequest,
   PaymentMode,
-  GameType
+  GameType,
+  HouseAccount,
+  LedgerEntryType,
+  type MarketSessionValue,
 } from "@shared/schema";
+import { pannaDigit } from "@shared/market-sessions";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { eq, desc, and, lt, gt, gte, lte, ne, isNotNull, or, sql, asc, count, isNull, like, not } from 'drizzle-orm';
 import { pool } from "./db";
+import { postUserBalanceChange } from "./ledger";
+import { getNextMarketCycle } from "./market-scheduler";
 
 /**
  * Storage interface for database operations
@@ -65,7 +72,8 @@ export interface IStorage {
   unblockUser(userId: number): Promise<User | undefined>;
   getBlockedByUser(userId: number): Promise<number | null>;
   assignUserToAdmin(userId: number, adminId: number): Promise<User | undefined>;
-  deleteUser(userId: number): Promise<boolean>;
+  hasFinancialHistory(userId: number): Promise<boolean>;
+  deleteUser(userId: number): Promise<void>;
   
   // Game methods
   createGame(game: InsertGame): Promise<Game>;
@@ -80,11 +88,13 @@ export interface IStorage {
 
   // Satamatka Market methods
   createSatamatkaMarket(market: InsertSatamatkaMarket): Promise<SatamatkaMarket>;
+  createRecurringSatamatkaMarket(market: InsertSatamatkaMarket): Promise<SatamatkaMarket>;
   getSatamatkaMarket(id: number): Promise<SatamatkaMarket | undefined>;
   getAllSatamatkaMarkets(): Promise<SatamatkaMarket[]>;
   getActiveSatamatkaMarkets(): Promise<SatamatkaMarket[]>;
   updateSatamatkaMarket(id: number, data: Partial<InsertSatamatkaMarket>): Promise<SatamatkaMarket | undefined>;
   updateSatamatkaMarketResults(id: number, openResult?: string, closeResult?: string): Promise<SatamatkaMarket | undefined>;
+  declareSatamatkaSessionResult(id: number, marketSession: MarketSessionValue, panna: string): Promise<SatamatkaMarket | undefined>;
   updateSatamatkaMarketStatus(id: number, status: string): Promise<SatamatkaMarket | undefined>;
   getSatamatkaGamesByMarketId(marketId: number): Promise<Game[]>;
   getRecentMarketResults(limit?: number): Promise<SatamatkaMarket[]>;
@@ -209,11 +219,26 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateUserBalance(userId: number, newBalance: number): Promise<User | undefined> {
-    const [user] = await db.update(users)
-      .set({ balance: newBalance })
-      .where(eq(users.id, userId))
-      .returning();
-    return user;
+    // Balances only change through the ledger; record the difference as an adjustment
+    await db.transaction(async (tx) => {
+      const [current] = await tx.select({ balance: users.balance })
+        .from(users)
+        .where(eq(users.id, userId))
+        .for('update')
+        .limit(1);
+      if (!current) return;
+
+      await postUserBalanceChange({
+        userId,
+        amount: newBalance - current.balance,
+        house: HouseAccount.ADJUSTMENTS,
+        entryType: LedgerEntryType.ADJUSTMENT,
+        description: 'Balance set directly',
+        allowNegative: true,
+      }, tx);
+    });
+
+    return this.getUser(userId);
   }
 
   async updateUser(userId: number, data: {username?: string; password?: string}): Promise<User | undefined> {
@@ -271,33 +296,36 @@ export class DatabaseStorage implements IStorage {
     return assignedUser;
   }
   
-  async deleteUser(userId: number): Promise<boolean> {
-    try {
-      // Execute each deletion separately to avoid multiple command issues
-      
-      // Delete from deposit_commissions first
-      await db.execute(sql`DELETE FROM deposit_commissions WHERE subadmin_id = ${userId}`);
-      
-      // Delete from game_odds  
-      await db.execute(sql`DELETE FROM game_odds WHERE subadmin_id = ${userId}`);
-      
-      // Delete transactions
-      await db.execute(sql`DELETE FROM transactions WHERE user_id = ${userId}`);
+  // Money held or moved by the user, bets, wallet requests, breaks from
+  // play, or records of what they did to other accounts. Such users are kept
+  // (and blocked instead), as their history must not be destroyed.
+  async hasFinancialHistory(userId: number): Promise<boolean> {
+    const result = await db.execute(sql`
+      SELECT
+        EXISTS (SELECT 1 FROM users WHERE id = ${userId} AND (balance <> 0 OR held_balance <> 0))
+        OR EXISTS (SELECT 1 FROM ledger_postings p JOIN ledger_accounts a ON a.id = p.account_id WHERE a.user_id = ${userId})
+        OR EXISTS (SELECT 1 FROM ledger_entries WHERE performed_by = ${userId})
+        OR EXISTS (SELECT 1 FROM transactions WHERE user_id = ${userId} OR performed_by = ${userId})
+        OR EXISTS (SELECT 1 FROM games WHERE user_id = ${userId})
+        OR EXISTS (SELECT 1 FROM wallet_requests WHERE user_id = ${userId} OR reviewed_by = ${userId})
+        OR EXISTS (SELECT 1 FROM self_exclusions WHERE user_id = ${userId})
+        AS has_history
+    `);
+    return result.rows[0]?.has_history === true;
+  }
+
+  // Only for users without financial history, see hasFinancialHistory
+  async deleteUser(userId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`DELETE FROM deposit_commissions WHERE subadmin_id = ${userId}`);
+      await tx.execute(sql`DELETE FROM game_odds WHERE subadmin_id = ${userId}`);
       
-      // Delete games
-      await db.execute(sql`DELETE FROM games WHERE user_id = ${userId}`);
+      // Move assigned users up to the deleted user's parent in the agent tree
+      await tx.execute(sql`UPDATE users SET assigned_to = (SELECT assigned_to FROM users WHERE id = ${userId}) WHERE assigned_to = ${userId}`);
       
-      // Update assigned users
-      await db.execute(sql`UPDATE users SET assigned_to = NULL WHERE assigned_to = ${userId}`);
-      
-      // Finally delete the user
-      await db.execute(sql`DELETE FROM users WHERE id = ${userId}`);
-      
-      return true;
-    } catch (error) {
-      console.error("Error deleting user:", error);
-      return false;
-    }
+      await tx.execute(sql`DELETE FROM agent_settings WHERE agent_id = ${userId}`);
+      await tx.execute(sql`DELETE FROM users WHERE id = ${userId}`);
+    });
   }
 
   // Game methods
@@ -398,6 +426,28 @@ export class DatabaseStorage implements IStorage {
     return createdMarket;
   }
 
+  async createRecurringSatamatkaMarket(market: InsertSatamatkaMarket): Promise<SatamatkaMarket> {
+    // The scheduler rolls the market into this cycle once the current one is settled
+    const nextCycle = getNextMarketCycle({
+      type: market.type,
+      recurrencePattern: market.recurrencePattern ?? RecurrencePattern.DAILY,
+      openTime: market.openTime,
+      closeTime: market.closeTime,
+      resultTime: market.resultTime ?? null,
+      openResultTime: market.openResultTime ?? null,
+    }, [], market.closeTime);
+
+    const [createdMarket] = await db.insert(satamatkaMarkets)
+      .values({
+        ...market,
+        isRecurring: true,
+        nextOpenTime: nextCycle?.openTime,
+        nextCloseTime: nextCycle?.closeTime,
+      })
+      .returning();
+    return createdMarket;
+  }
+
   async getSatamatkaMarket(id: number): Promise<SatamatkaMarket | undefined> {
     const [market] = await db.select()
       .from(satamatkaMarkets)
@@ -454,6 +504,32 @@ export class DatabaseStorage implements IStorage {
     return updatedMarket;
   }
 
+  async declareSatamatkaSessionResult(id: number, marketSession: MarketSessionValue, panna: string): Promise<SatamatkaMarket | undefined> {
+    // The open digit is the open result; the close panna completes the jodi
+    // and makes the market resulted. Each panna can only be declared once.
+    if (marketSession === MarketSession.OPEN) {
+      const [updatedMarket] = await db.update(satamatkaMarkets)
+        .set({ openPanna: panna, openResult: pannaDigit(panna) })
+        .where(and(eq(satamatkaMarkets.id, id), isNull(satamatkaMarkets.openPanna)))
+        .returning();
+      return updatedMarket;
+    }
+
+    const [updatedMarket] = await db.update(satamatkaMarkets)
+      .set({
+        closePanna: panna,
+        closeResult: sql`${satamatkaMarkets.openResult} || ${pannaDigit(panna)}`,
+        status: MarketStatus.RESULTED,
+      })
+      .where(and(
+        eq(satamatkaMarkets.id, id),
+        isNotNull(satamatkaMarkets.openPanna),
+        isNull(satamatkaMarkets.closePanna),
+      ))
+      .returning();
+    return updatedMarket;
+  }
+
   async updateSatamatkaMarketStatus(id: number, status: string): Promise<SatamatkaMarket | undefined> {
     const [updatedMarket] = await db.update(satamatkaMarkets)
       .set({ status })
@@ -973,15 +1049,9 @@ export class DatabaseStorage implements IStorage {
       return adminOdd?.oddValue || 200; // Default to 2.00 odds (stored as integer: 200)
     }
     
-    // Check if subadmin has custom odds for this game type
-    const [subadminOdd] = await db.select()
-      .from(gameOdds)
-      .where(
-        and(
-          eq(gameOdds.gameType, gameType),
-          eq(gameOdds.subadminId, user.assignedTo)
-        )
-      );
+    // Check if the nearest agent above the player has custom odds for this game type
+    const { getNearestAgentOdds } = await import('./agent-hierarchy');
+    const [subadminOdd] = await getNearestAgentOdds(userId, gameType);
     
     if (subadminOdd) {
       return subadminOdd.oddValue;
@@ -0,0 +1,378 @@
+import express from 'express';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { db } from './db';
+import {
+  AuditAction,
+  Permission,
+  UserRole,
+  userTwoFactor,
+  users,
+  type UserTwoFactor,
+} from '@shared/schema';
+import { requirePermission, userParam } from './permissions';
+import { recordAuditEvent } from './audit';
+import { and, eq, isNull, lt, or, sql } from 'drizzle-orm';
+
+// Time-based one-time passwords (RFC 6238) as used by Google Authenticator,
+// Authy and similar apps: six digits from HMAC-SHA1 over 30 second steps.
+// Admin accounts must enroll before they can use the API; anyone else can.
+
+declare module 'express-session' {
+  interface SessionData {
+    // Between a correct password and the second factor of a login
+    twoFactorPending?: { userId: number; expiresAt: number; attempts: number };
+    // When the user last proved it was them, for high-risk actions
+    stepUpAt?: number;
+  }
+}
+
+/**
+ * Raised for invalid enrollment changes and codes. `status` is picked up by
+ * the global error handler.
+ */
+export class TwoFactorError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'TwoFactorError';
+    this.status = status;
+  }
+}
+
+const ISSUER = 'KingGames';
+const STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+const ALLOWED_DRIFT_STEPS = 1; // Codes from the previous and next step still count
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const STEP_UP_WINDOW_MS = 5 * 60 * 1000;
+export const LOGIN_CODE_WINDOW_MS = 5 * 60 * 1000;
+export const MAX_LOGIN_CODE_ATTEMPTS = 5;
+
+// What an admin who has not enrolled yet can still reach
+const ENROLLMENT_PATHS = ['/api/user', '/api/logout', '/api/permissions/me', '/api/2fa', '/api/2fa/setup', '/api/2fa/enable'];
+
+export function isTwoFactorRequired(role: string): boolean {
+  return role === UserRole.ADMIN;
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (let i = 0; i < buffer.length; i++) {
+    const byte = buffer[i];
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(text: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of text.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function codeAt(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** CODE_DIGITS;
+  return code.toString().padStart(CODE_DIGITS, '0');
+}
+
+function currentStep(): number {
+  return Math.floor(Date.now() / 1000 / STEP_SECONDS);
+}
+
+// The time step a code belongs to, or null when it matches none near now
+function matchingStep(secret: string, code: string, lastUsedStep: number | null): number | null {
+  const supplied = Buffer.from(code);
+  const now = currentStep();
+  for (let step = now - ALLOWED_DRIFT_STEPS; step <= now + ALLOWED_DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    const expected = Buffer.from(codeAt(secret, step));
+    if (expected.length === supplied.length && timingSafeEqual(expected, supplied)) return step;
+  }
+  return null;
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+export async function getTwoFactor(userId: number): Promise<UserTwoFactor | undefined> {
+  const [row] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId)).limit(1);
+  return row;
+}
+
+/**
+ * Start (or restart) enrollment with a new secret. Nothing changes for the
+ * user until a code from the authenticator is confirmed.
+ */
+export async function startEnrollment(user: { id: number; username: string; twoFactorEnabled: boolean }) {
+  if (user.twoFactorEnabled) {
+    throw new TwoFactorError('Two-factor authentication is already enabled', 409);
+  }
+
+  const secret = base32Encode(randomBytes(20));
+  await db.insert(userTwoFactor)
+    .values({ userId: user.id, secret })
+    .onConflictDoUpdate({
+      target: userTwoFactor.userId,
+      set: { secret, enabledAt: null, recoveryCodeHashes: [], lastUsedStep: null, updatedAt: new Date() },
+    });
+
+  const label = encodeURIComponent(`${ISSUER}:${user.username}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${ISSUER}&algorithm=SHA1&digits=${CODE_DIGITS}&period=${STEP_SECONDS}`;
+  return { secret, otpauthUrl };
+}
+
+/**
+ * Turn two-factor authentication on once the user proves their
+ * authenticator works. Returns recovery codes, shown only this once.
+ */
+export async function confirmEnrollment(userId: number, code: string): Promise<string[]> {
+  const row = await getTwoFactor(userId);
+  if (!row || row.enabledAt) {
+    throw new TwoFactorError('Start two-factor setup first');
+  }
+
+  const step = matchingStep(row.secret, String(code ?? '').trim(), null);
+  if (step === null) {
+    throw new TwoFactorError('The code is not valid. Check the time on your device and try again');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await db.transaction(async (tx) => {
+    await tx.update(userTwoFactor)
+      .set({ enabledAt: new Date(), recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode), lastUsedStep: step, updatedAt: new Date() })
+      .where(eq(userTwoFactor.userId, userId));
+    await tx.update(users).set({ twoFactorEnabled: true }).where(eq(users.id, userId));
+  });
+  return recoveryCodes;
+}
+
+/**
+ * Check an authenticator or recovery code of a user with two-factor
+ * authentication enabled. Each code is accepted only once.
+ */
+export async function verifySecondFactor(userId: number, code: unknown): Promise<boolean> {
+  const supplied = typeof code === 'string' ? code.trim() : '';
+  const row = await getTwoFactor(userId);
+  if (!row?.enabledAt || !supplied) return false;
+
+  if (supplied.length === CODE_DIGITS && /^\d+$/.test(supplied)) {
+    const step = matchingStep(row.secret, supplied, row.lastUsedStep);
+    if (step === null) return false;
+
+    // Only one request can use a given step
+    const updated = await db.update(userTwoFactor)
+      .set({ lastUsedStep: step, updatedAt: new Date() })
+      .where(and(
+        eq(userTwoFactor.userId, userId),
+        or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step)),
+      ))
+      .returning();
+    return updated.length > 0;
+  }
+
+  const hash = hashRecoveryCode(supplied);
+  if (!row.recoveryCodeHashes.includes(hash)) return false;
+  // Remove the code in the same statement that checks it is still there
+  const updated = await db.update(userTwoFactor)
+    .set({ recoveryCodeHashes: sql`${userTwoFactor.recoveryCodeHashes} - ${hash}::text`, updatedAt: new Date() })
+    .where(and(
+      eq(userTwoFactor.userId, userId),
+      sql`${userTwoFactor.recoveryCodeHashes} @> ${JSON.stringify([hash])}::jsonb`,
+    ))
+    .returning();
+  return updated.length > 0;
+}
+
+async function removeTwoFactor(userId: number) {
+  await db.transaction(async (tx) => {
+    await tx.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    await tx.update(users).set({ twoFactorEnabled: false }).where(eq(users.id, userId));
+  });
+}
+
+export async function disableTwoFactor(user: { id: number; role: string }, code: unknown) {
+  if (isTwoFactorRequired(user.role)) {
+    throw new TwoFactorError('Two-factor authentication is required for admin accounts');
+  }
+  if (!await verifySecondFactor(user.id, code)) {
+    throw new TwoFactorError('The code is not valid');
+  }
+  await removeTwoFactor(user.id);
+}
+
+export async function regenerateRecoveryCodes(userId: number, code: unknown): Promise<string[]> {
+  if (!await verifySecondFactor(userId, code)) {
+    throw new TwoFactorError('The code is not valid');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await db.update(userTwoFactor)
+    .set({ recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode), updatedAt: new Date() })
+    .where(eq(userTwoFactor.userId, userId));
+  return recoveryCodes;
+}
+
+/**
+ * Keep admins who have not set up two-factor authentication to the
+ * enrollment routes.
+ */
+export function requireTwoFactorEnrollment(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (!req.path.startsWith('/api/') || !req.isAuthenticated() || ENROLLMENT_PATHS.includes(req.path)) {
+    return next();
+  }
+  if (isTwoFactorRequired(req.user.role) && !req.user.twoFactorEnabled) {
+    return res.status(403).json({
+      message: 'Set up two-factor authentication to continue',
+      code: 'TWO_FACTOR_SETUP_REQUIRED',
+    });
+  }
+  next();
+}
+
+/**
+ * Require the user to have re-authenticated in the last few minutes. Goes
+ * after requirePermission on high-risk routes.
+ */
+export function requireStepUp(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const verifiedAt = req.session.stepUpAt;
+  if (verifiedAt && Date.now() - verifiedAt < STEP_UP_WINDOW_MS) {
+    return next();
+  }
+  res.status(403).json({ message: 'Confirm it is you to continue', code: 'STEP_UP_REQUIRED' });
+}
+
+export function setupTwoFactorRoutes(app: express.Express) {
+  app.get('/api/2fa', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      const row = await getTwoFactor(req.user.id);
+      res.json({
+        enabled: req.user.twoFactorEnabled,
+        required: isTwoFactorRequired(req.user.role),
+        recoveryCodesLeft: row?.enabledAt ? row.recoveryCodeHashes.length : 0,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post('/api/2fa/setup', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      res.json(await startEnrollment(req.user));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post('/api/2fa/enable', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      const recoveryCodes = await confirmEnrollment(req.user.id, req.body.code);
+      await recordAuditEvent(req, {
+        action: AuditAction.USER_TWO_FACTOR_CHANGE,
+        targetType: 'user',
+        targetId: req.user.id,
+        targetUserId: req.user.id,
+        before: { enabled: false },
+        after: { enabled: true },
+      });
+      res.json({ recoveryCodes });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post('/api/2fa/disable', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      await disableTwoFactor(req.user, req.body.code);
+      await recordAuditEvent(req, {
+        action: AuditAction.USER_TWO_FACTOR_CHANGE,
+        targetType: 'user',
+        targetId: req.user.id,
+        targetUserId: req.user.id,
+        before: { enabled: true },
+        after: { enabled: false },
+      });
+      res.json({ enabled: false });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post('/api/2fa/recovery-codes', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      res.json({ recoveryCodes: await regenerateRecoveryCodes(req.user.id, req.body.code) });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // For users who lost their authenticator and recovery codes; they enroll again
+  app.delete('/api/users/:id/2fa', requirePermission(Permission.USERS_RESET_PASSWORD, { user: userParam('id') }), requireStepUp, async (req, res, next) => {
+    try {
+      const userId = Number(req.params.id);
+      if (!await getTwoFactor(userId)) {
+        return res.status(404).json({ message: 'Two-factor authentication is not set up for this user' });
+      }
+
+      await removeTwoFactor(userId);
+      await recordAuditEvent(req, {
+        action: AuditAction.USER_TWO_FACTOR_CHANGE,
+        targetType: 'user',
+        targetId: userId,
+        targetUserId: userId,
+        after: { enabled: false, reset: true },
+      });
+      res.json({ enabled: false });
+    } catch (err) {
+      next(err);
+    }
+  });
+}
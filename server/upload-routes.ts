@@ -2,7 +2,9 @@ import express, { Request, Response, NextFunction } from 'express';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
-import { UserRole } from '@shared/schema';
+import { Permission } from '@shared/schema';
+import { KYC_FILE_TYPES, KYC_MAX_FILE_SIZE } from '@shared/kyc';
+import { requirePermission } from './permissions';
 
 // Create uploads directory if it doesn't exist
 const uploadsDir = path.join(process.cwd(), 'uploads');
@@ -14,6 +16,9 @@ const matchBannerUploadsDir = path.join(uploadsDir, 'match-banners');
 const marketBannerUploadsDir = path.join(uploadsDir, 'market-banners');
 const qrCodeUploadsDir = path.join(uploadsDir, 'qr-codes');
 
+// Identity documents are kept outside the uploads directory, which is served to anyone
+export const kycUploadsDir = path.join(process.cwd(), 'kyc-documents');
+
 if (!fs.existsSync(uploadsDir)) {
   fs.mkdirSync(uploadsDir, { recursive: true });
 }
@@ -46,6 +51,10 @@ if (!fs.existsSync(qrCodeUploadsDir)) {
   fs.mkdirSync(qrCodeUploadsDir, { recursive: true });
 }
 
+if (!fs.existsSync(kycUploadsDir)) {
+  fs.mkdirSync(kycUploadsDir, { recursive: true });
+}
+
 // File filter to accept only images
 const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
   // Accept only image files
@@ -197,6 +206,33 @@ const qrCodeUpload = multer({
   fileFilter: fileFilter
 });
 
+// Configure KYC document uploads storage
+const kycStorage = multer.diskStorage({
+  destination: function (req, file, cb) {
+    cb(null, kycUploadsDir);
+  },
+  filename: function (req, file, cb) {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    const ext = path.extname(file.originalname);
+    cb(null, `kyc-${uniqueSuffix}${ext}`);
+  }
+});
+
+// KYC documents may also be PDFs; the routes live in kyc.ts
+export const kycUpload = multer({
+  storage: kycStorage,
+  limits: {
+    fileSize: KYC_MAX_FILE_SIZE
+  },
+  fileFilter: (req, file, cb) => {
+    if (KYC_FILE_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only JPEG, PNG, WebP and PDF files are allowed!'));
+    }
+  }
+});
+
 export function setupUploadRoutes(app: express.Express) {
   // Handle authentication middleware
   const requireAuth = (req: Request, res: Response, next: NextFunction) => {
@@ -206,13 +242,9 @@ export function setupUploadRoutes(app: express.Express) {
     next();
   };
   
-  // Handle admin role check middleware
-  const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
-    if (!req.isAuthenticated() || !req.user || (req.user as any).role !== UserRole.ADMIN) {
-      return res.status(403).json({ message: 'Forbidden - Admin access required' });
-    }
-    next();
-  };
+  // Site images take settings.manage, the payment QR code wallet.payment_settings
+  const requireSettings = requirePermission(Permission.SETTINGS_MANAGE);
+  const requirePaymentSettings = requirePermission(Permission.WALLET_PAYMENT_SETTINGS);
 
   // API route to upload proof images
   app.post('/api/upload/proof', requireAuth, proofUpload.single('proofImage'), (req: Request, res: Response) => {
@@ -236,7 +268,7 @@ export function setupUploadRoutes(app: express.Express) {
   });
   
   // API route to upload slider images (admin only)
-  app.post('/api/upload/slider', requireAdmin, sliderUpload.single('sliderImage'), (req: Request, res: Response) => {
+  app.post('/api/upload/slider', requireSettings, sliderUpload.single('sliderImage'), (req: Request, res: Response) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'No file uploaded' });
@@ -276,7 +308,7 @@ export function setupUploadRoutes(app: express.Express) {
   });
   
   // API route to delete a slider image (admin only)
-  app.delete('/api/sliders/:filename', requireAdmin, (req: Request, res: Response) => {
+  app.delete('/api/sliders/:filename', requireSettings, (req: Request, res: Response) => {
     try {
       const { filename } = req.params;
       const filePath = path.join(sliderUploadsDir, filename);
@@ -297,7 +329,7 @@ export function setupUploadRoutes(app: express.Express) {
   });
   
   // API route to upload hero slider images (admin only)
-  app.post('/api/upload/heroslider', requireAdmin, heroSliderUpload.single('heroSliderImage'), (req: Request, res: Response) => {
+  app.post('/api/upload/heroslider', requireSettings, heroSliderUpload.single('heroSliderImage'), (req: Request, res: Response) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'No file uploaded' });
@@ -337,7 +369,7 @@ export function setupUploadRoutes(app: express.Express) {
   });
   
   // API route to delete a hero slider image (admin only)
-  app.delete('/api/herosliders/:filename', requireAdmin, (req: Request, res: Response) => {
+  app.delete('/api/herosliders/:filename', requireSettings, (req: Request, res: Response) => {
     try {
       const { filename } = req.params;
       const filePath = path.join(heroSliderUploadsDir, filename);
@@ -358,7 +390,7 @@ export function setupUploadRoutes(app: express.Express) {
   });
   
   // API route to upload game card images (admin only)
-  app.post('/api/upload/gamecard', requireAdmin, gameCardUpload.single('gameCardImage'), (req: Request, res: Response) => {
+  app.post('/api/upload/gamecard', requireSettings, gameCardUpload.single('gameCardImage'), (req: Request, res: Response) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'No file uploaded' });
@@ -448,7 +480,7 @@ export function setupUploadRoutes(app: express.Express) {
   });
   
   // API route to delete a game card image (admin only)
-  app.delete('/api/gamecards/:filename', requireAdmin, (req: Request, res: Response) => {
+  app.delete('/api/gamecards/:filename', requireSettings, (req: Request, res: Response) => {
     try {
       const { filename } = req.params;
       const filePath = path.join(gameCardUploadsDir, filename);
@@ -469,7 +501,7 @@ export function setupUploadRoutes(app: express.Express) {
   });
 
   // API route to upload match banner images (admin only)
-  app.post('/api/upload/match-banner', requireAdmin, matchBannerUpload.single('matchBannerImage'), (req: Request, res: Response) => {
+  app.post('/api/upload/match-banner', requireSettings, matchBannerUpload.single('matchBannerImage'), (req: Request, res: Response) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'No file uploaded' });
@@ -510,7 +542,7 @@ export function setupUploadRoutes(app: express.Express) {
   });
   
   // API route to delete a match banner image (admin only)
-  app.delete('/api/match-banners/:filename', requireAdmin, (req: Request, res: Response) => {
+  app.delete('/api/match-banners/:filename', requireSettings, (req: Request, res: Response) => {
     try {
       const { filename } = req.params;
       const filePath = path.join(matchBannerUploadsDir, filename);
@@ -531,7 +563,7 @@ export function setupUploadRoutes(app: express.Express) {
   });
 
   // API route to upload market banner images (admin only)
-  app.post('/api/upload/market-banner', requireAdmin, marketBannerUpload.single('marketBannerImage'), (req: Request, res: Response) => {
+  app.post('/api/upload/market-banner', requireSettings, marketBannerUpload.single('marketBannerImage'), (req: Request, res: Response) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'No file uploaded' });
@@ -572,7 +604,7 @@ export function setupUploadRoutes(app: express.Express) {
   });
   
   // API route to delete a market banner image (admin only)
-  app.delete('/api/market-banners/:filename', requireAdmin, (req: Request, res: Response) => {
+  app.delete('/api/market-banners/:filename', requireSettings, (req: Request, res: Response) => {
     try {
       const { filename } = req.params;
       const filePath = path.join(marketBannerUploadsDir, filename);
@@ -593,7 +625,7 @@ export function setupUploadRoutes(app: express.Express) {
   });
 
   // API route to upload QR code images (admin only)
-  app.post('/api/upload/qr-code', requireAdmin, qrCodeUpload.single('qrImage'), (req: Request, res: Response) => {
+  app.post('/api/upload/qr-code', requirePaymentSettings, qrCodeUpload.single('qrImage'), (req: Request, res: Response) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'No file uploaded' });
@@ -1,8 +1,16 @@
 import { db } from './db';
 import express, { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
-import { UserRole, walletRequests, users, transactions, systemSettings, depositCommissions, playerDepositDiscounts } from '@shared/schema';
-import { eq, desc, and, isNull } from 'drizzle-orm';
+import { UserRole, Permission, walletRequests, users, transactions, systemSettings, depositCommissions, playerDepositDiscounts, HouseAccount, LedgerEntryType } from '@shared/schema';
+import { eq, desc, and, isNull, sql } from 'drizzle-orm';
+import { postLedgerEntry, postUserBalanceChange, userAccount, houseAccount, LedgerError, type DbTransaction } from './ledger';
+import { findClaimedUtr, fingerprintProof, getDepositUtr, isUtrConflict, withVerificationFlags } from './deposit-verification';
+import { requirePermission, can, canAccessUser } from './permissions';
+import { requireStepUp } from './two-factor';
+import { getSubtreeUserIds } from './agent-hierarchy';
+import { positivePaisaSchema } from '@shared/money';
+import { depositLimitProblem } from './player-limits';
+import { walletKycProblem } from './kyc';
 
 // Payment Modes
 export const PaymentMode = {
@@ -27,7 +35,7 @@ export const RequestType = {
 // Validation schemas
 export const walletRequestSchema = z.object({
   userId: z.number(),
-  amount: z.number().positive(),
+  amount: positivePaisaSchema,
   requestType: z.enum([RequestType.DEPOSIT, RequestType.WITHDRAWAL, RequestType.PLATFORM_INVESTMENT]),
   paymentMode: z.enum([PaymentMode.UPI, PaymentMode.BANK]),
   paymentDetails: z.object({
@@ -51,7 +59,7 @@ export const adminRequestReviewSchema = z.object({
 export type WalletRequest = {
   id: number;
   userId: number;
-  amount: number;
+  amount: number; // in paisa
   requestType: typeof RequestType[keyof typeof RequestType];
   paymentMode: typeof PaymentMode[keyof typeof PaymentMode];
   paymentDetails: {
@@ -70,24 +78,115 @@ export type WalletRequest = {
   updatedAt: Date;
 };
 
+/**
+ * Raised when a wallet request cannot be reviewed. `status` is picked up by
+ * the global error handler.
+ */
+export class WalletRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'WalletRequestError';
+    this.status = status;
+  }
+}
+
 // Helper functions for wallet requests
+
+// Move funds between a user's available and held balance. The ledger posting
+// changes the available balance; held_balance tracks the user's share of the
+// withdrawal holds account.
+async function changeWithdrawalHold(
+  tx: DbTransaction,
+  params: { userId: number; amount: number; requestId: number; description: string; performedBy?: number },
+) {
+  const { userId, amount, requestId, description, performedBy } = params;
+  const release = amount < 0;
+
+  await postUserBalanceChange({
+    userId,
+    amount: -amount,
+    house: HouseAccount.WITHDRAWAL_HOLDS,
+    entryType: release ? LedgerEntryType.WITHDRAWAL_RELEASE : LedgerEntryType.WITHDRAWAL_HOLD,
+    description,
+    performedBy,
+    referenceType: 'wallet_request',
+    referenceId: requestId,
+  }, tx);
+
+  await tx.update(users)
+    .set({ heldBalance: sql`${users.heldBalance} + ${amount}` })
+    .where(eq(users.id, userId));
+}
+
+/**
+ * Create a wallet request. The amount of a withdrawal is held straight away,
+ * so it can no longer be bet while the request waits for review. A deposit's
+ * UTR may not be claimed by another pending or approved request. Players
+ * above a KYC threshold must be verified first.
+ */
 export async function createWalletRequest(walletRequest: Omit<WalletRequest, 'id' | 'status' | 'reviewedBy' | 'createdAt' | 'updatedAt'>) {
   try {
-    // Store the request using Drizzle ORM
-    const result = await db.insert(walletRequests).values({
-      userId: walletRequest.userId,
-      amount: walletRequest.amount,
-      requestType: walletRequest.requestType,
-      paymentMode: walletRequest.paymentMode,
-      paymentDetails: walletRequest.paymentDetails,
-      status: RequestStatus.PENDING,
-      proofImageUrl: walletRequest.proofImageUrl || null,
-      notes: walletRequest.notes || null,
-    }).returning();
+    const isDeposit = walletRequest.requestType === RequestType.DEPOSIT;
+    const utrNumber = isDeposit ? getDepositUtr(walletRequest.paymentDetails) : null;
+    const proofHash = isDeposit ? await fingerprintProof(walletRequest.proofImageUrl) : null;
+
+    if (utrNumber && await findClaimedUtr(utrNumber)) {
+      throw new WalletRequestError('This UTR / transaction ID has already been submitted', 409);
+    }
+
+    return await db.transaction(async (tx) => {
+      const kycProblem = await walletKycProblem(walletRequest.userId, walletRequest.requestType, walletRequest.amount, tx);
+      if (kycProblem) {
+        throw new WalletRequestError(kycProblem, 403);
+      }
+
+      if (isDeposit) {
+        // Lock the user so deposits requested together are counted one after the other
+        await tx.select({ id: users.id }).from(users).where(eq(users.id, walletRequest.userId)).for('update');
+        const limitProblem = await depositLimitProblem(walletRequest.userId, walletRequest.amount, tx);
+        if (limitProblem) {
+          throw new WalletRequestError(limitProblem, 403);
+        }
+      }
+
+      const isWithdrawal = walletRequest.requestType === RequestType.WITHDRAWAL;
+      const heldAmount = isWithdrawal ? walletRequest.amount : null;
+
+      const [created] = await tx.insert(walletRequests).values({
+        userId: walletRequest.userId,
+        amount: walletRequest.amount,
+        requestType: walletRequest.requestType,
+        paymentMode: walletRequest.paymentMode,
+        paymentDetails: walletRequest.paymentDetails,
+        status: RequestStatus.PENDING,
+        proofImageUrl: walletRequest.proofImageUrl || null,
+        notes: walletRequest.notes || null,
+        heldAmount,
+        utrNumber,
+        proofHash,
+      }).returning();
+
+      if (heldAmount !== null) {
+        await changeWithdrawalHold(tx, {
+          userId: walletRequest.userId,
+          amount: heldAmount,
+          requestId: created.id,
+          description: `Held for withdrawal request #${created.id}`,
+        });
+      }
 
-    return result[0];
+      return created;
+    });
   } catch (error) {
+    if (isUtrConflict(error)) {
+      throw new WalletRequestError('This UTR / transaction ID has already been submitted', 409);
+    }
     console.error('Error creating wallet request:', error);
+    if (error instanceof LedgerError || error instanceof WalletRequestError) {
+      throw error;
+    }
     throw new Error('Failed to create wallet request');
   }
 }
@@ -102,9 +201,9 @@ export async function getWalletRequests(userId?: number, status?: string, reques
       const filters = [];
       const params = [];
       
-      // Add base condition for assigned users
-      filters.push(`u.assigned_to = $${params.length + 1}`);
-      params.push(adminId);
+      // Add base condition for the users below the subadmin in the agent tree
+      filters.push(`u.id = ANY($${params.length + 1})`);
+      params.push(await getSubtreeUserIds(adminId));
       
       if (userId) {
         filters.push(`wr.user_id = $${params.length + 1}`);
@@ -206,16 +305,10 @@ export async function reviewWalletRequest(
   notes?: string
 ) {
   try {
-    // Import the connection pool for raw SQL transactions
-    const { pool } = await import('./db');
-    // For transactions, we need to use the raw pool to start/commit/rollback the transaction
-    const client = await pool.connect();
-    
-    try {
-      await client.query('BEGIN');
-      
-      // Update the request status
-      const updatedRequests = await db
+    return await db.transaction(async (tx) => {
+      // Update the request status; only pending requests can be reviewed, so
+      // a hold is never released or finalised twice
+      const updatedRequests = await tx
         .update(walletRequests)
         .set({
           status: status,
@@ -223,56 +316,45 @@ export async function reviewWalletRequest(
           reviewedBy: adminId,
           updatedAt: new Date()
         })
-        .where(eq(walletRequests.id, requestId))
+        .where(and(eq(walletRequests.id, requestId), eq(walletRequests.status, RequestStatus.PENDING)))
         .returning();
       
       if (updatedRequests.length === 0) {
-        await client.query('ROLLBACK');
-        throw new Error('Wallet request not found');
+        const [existing] = await tx.select({ id: walletRequests.id })
+          .from(walletRequests)
+          .where(eq(walletRequests.id, requestId))
+          .limit(1);
+        throw existing
+          ? new WalletRequestError('Wallet request has already been reviewed', 409)
+          : new WalletRequestError('Wallet request not found', 404);
       }
       
       const request = updatedRequests[0];
       
+      // A rejected withdrawal gives the held funds back
+      if (status === RequestStatus.REJECTED && request.heldAmount) {
+        await changeWithdrawalHold(tx, {
+          userId: request.userId,
+          amount: -request.heldAmount,
+          requestId,
+          description: `Released hold of rejected withdrawal request #${requestId}`,
+          performedBy: adminId,
+        });
+      }
+      
       // If request is approved, update the user's balance and create a transaction record
       if (status === RequestStatus.APPROVED) {
-        // Convert amount to paisa (multiply by 100) since the balance is stored in paisa
-        // but the deposit/withdrawal amounts are entered in rupees
-        const balanceChangeRupees = request.requestType === RequestType.WITHDRAWAL 
+        const balanceChangePaisa = request.requestType === RequestType.WITHDRAWAL 
           ? -request.amount 
           : request.amount;
-          
-        // Convert rupees to paisa (multiply by 100) for storage
-        const balanceChangePaisa = balanceChangeRupees * 100;
-        
-        // Update user balance with SQL function to add
-        const updatedUsersResult = await client.query(
-          'UPDATE users SET balance = balance + $1 WHERE id = $2 RETURNING *',
-          [balanceChangePaisa, request.userId]
-        );
-        
-        if (updatedUsersResult.rowCount === 0) {
-          await client.query('ROLLBACK');
-          throw new Error('User not found');
-        }
-        
-        // Get the updated user balance after the transaction
-        const updatedUser = await client.query(
-          'SELECT balance FROM users WHERE id = $1',
-          [request.userId]
-        );
         
         // Get the admin's username and role to include in the description
-        const adminResult = await client.query(
-          'SELECT username, role FROM users WHERE id = $1',
-          [adminId]
-        );
+        const [admin] = await tx.select({ username: users.username, role: users.role })
+          .from(users)
+          .where(eq(users.id, adminId))
+          .limit(1);
         
-        let adminDescription = '';
-        if (adminResult?.rowCount && adminResult.rowCount > 0) {
-          adminDescription = `${adminResult.rows[0].username} (${adminResult.rows[0].role})`;
-        } else {
-          adminDescription = `Admin #${adminId}`;
-        }
+        const adminDescription = admin ? `${admin.username} (${admin.role})` : `Admin #${adminId}`;
         
         // Create appropriate description based on request type
         let transactionDescription;
@@ -283,27 +365,61 @@ export async function reviewWalletRequest(
           transactionDescription = `${request.requestType === RequestType.DEPOSIT ? 'Deposit' : 'Withdrawal'} request processed by ${adminDescription}`;
         }
         
+        let balanceAfter: number;
+        
+        if (request.heldAmount) {
+          // The withdrawal was held when requested: pay the hold out, the
+          // available balance does not change again
+          await postLedgerEntry({
+            entryType: LedgerEntryType.WITHDRAWAL,
+            description: transactionDescription,
+            performedBy: adminId,
+            referenceType: 'wallet_request',
+            referenceId: requestId,
+            postings: [
+              { account: houseAccount(HouseAccount.WITHDRAWAL_HOLDS), amount: -request.heldAmount },
+              { account: houseAccount(HouseAccount.CASH), amount: request.heldAmount },
+            ],
+          }, tx);
+          
+          const [updatedUser] = await tx.update(users)
+            .set({ heldBalance: sql`${users.heldBalance} - ${request.heldAmount}` })
+            .where(eq(users.id, request.userId))
+            .returning({ balance: users.balance });
+          balanceAfter = updatedUser.balance;
+        } else {
+          // Move the funds through the ledger (cash in for deposits, cash out
+          // for withdrawals requested before holds existed)
+          balanceAfter = await postUserBalanceChange({
+            userId: request.userId,
+            amount: balanceChangePaisa,
+            house: HouseAccount.CASH,
+            entryType: request.requestType === RequestType.WITHDRAWAL ? LedgerEntryType.WITHDRAWAL : LedgerEntryType.DEPOSIT,
+            description: transactionDescription,
+            performedBy: adminId,
+            referenceType: 'wallet_request',
+            referenceId: requestId,
+          }, tx);
+        }
+        
         // Create transaction record with the player's balance after this transaction
-        await db.insert(transactions).values({
+        await tx.insert(transactions).values({
           userId: request.userId,
-          amount: balanceChangePaisa, // Use the converted amount (paisa)
-          balanceAfter: updatedUser.rows[0].balance, // Include the player's updated balance
+          amount: balanceChangePaisa,
+          balanceAfter, // Include the player's updated balance
           performedBy: adminId,
           requestId: requestId,
           description: transactionDescription,
         });
       }
       
-      await client.query('COMMIT');
       return request;
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
-    }
+    });
   } catch (error) {
     console.error('Error reviewing wallet request:', error);
+    if (error instanceof LedgerError || error instanceof WalletRequestError) {
+      throw error;
+    }
     throw new Error('Failed to review wallet request');
   }
 }
@@ -339,68 +455,51 @@ export function setupWalletRoutes(app: express.Express) {
   });
   
   // Special endpoint for admin platform investments (self-funding with tracking)
-  app.post('/api/admin/platform-investment', async (req: Request, res: Response, next: NextFunction) => {
+  app.post('/api/admin/platform-investment', requirePermission(Permission.WALLET_RECONCILE), requireStepUp, async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: 'Unauthorized' });
-      }
-      
-      // Only admin can access this endpoint
-      if (req.user.role !== UserRole.ADMIN) {
-        return res.status(403).json({ message: 'Forbidden - Only admins can make platform investments' });
-      }
-      
-      const { amount, notes } = req.body;
+      const { notes } = req.body;
+      const amount = positivePaisaSchema.safeParse(req.body.amount);
       
-      if (!amount || amount <= 0 || !notes) {
+      if (!amount.success || !notes) {
         return res.status(400).json({ message: 'Invalid request data - amount and notes are required' });
       }
       
-      // Start a transaction
-      const { pool } = await import('./db');
-      const client = await pool.connect();
+      const amountInPaisa = amount.data;
       
       try {
-        await client.query('BEGIN');
-        
-        // Convert amount to paisa for storage
-        const amountInPaisa = amount * 100;
-        
-        // Update admin's balance
-        const updatedUserResult = await client.query(
-          'UPDATE users SET balance = balance + $1 WHERE id = $2 RETURNING balance',
-          [amountInPaisa, req.user.id]
-        );
-        
-        if (updatedUserResult.rowCount === 0) {
-          await client.query('ROLLBACK');
-          return res.status(500).json({ message: 'Failed to update admin balance' });
-        }
-        
-        // Get the updated balance
-        const updatedBalance = updatedUserResult.rows[0].balance;
-        
-        // Create transaction record with special description
-        const transactionResult = await client.query(
-          'INSERT INTO transactions (user_id, amount, balance_after, performed_by, description) VALUES ($1, $2, $3, $4, $5) RETURNING *',
-          [req.user.id, amountInPaisa, updatedBalance, req.user.id, `Platform Investment: ${notes}`]
-        );
-        
-        await client.query('COMMIT');
+        const { transaction, updatedBalance } = await db.transaction(async (tx) => {
+          // Credit the admin's wallet from outside the platform
+          const balanceAfter = await postUserBalanceChange({
+            userId: req.user!.id,
+            amount: amountInPaisa,
+            house: HouseAccount.CASH,
+            entryType: LedgerEntryType.DEPOSIT,
+            description: `Platform Investment: ${notes}`,
+            performedBy: req.user!.id,
+          }, tx);
+          
+          // Create transaction record with special description
+          const [createdTransaction] = await tx.insert(transactions).values({
+            userId: req.user!.id,
+            amount: amountInPaisa,
+            balanceAfter,
+            performedBy: req.user!.id,
+            description: `Platform Investment: ${notes}`,
+          }).returning();
+          
+          return { transaction: createdTransaction, updatedBalance: balanceAfter };
+        });
         
         // Return the transaction and updated user
         res.status(201).json({
-          transaction: transactionResult.rows[0],
-          userBalance: updatedBalance / 100, // Convert back to rupees for display
+          transaction,
+          userBalance: updatedBalance,
           message: 'Platform investment recorded successfully.'
         });
         
       } catch (error) {
-        await client.query('ROLLBACK');
         console.error('Investment error:', error);
         res.status(500).json({ message: 'Platform investment failed' });
-      } finally {
-        client.release();
       }
     } catch (err) {
       next(err);
@@ -408,29 +507,21 @@ export function setupWalletRoutes(app: express.Express) {
   });
   
   // Get all wallet requests (admin/subadmin only)
-  app.get('/api/wallet/requests', async (req: Request, res: Response, next: NextFunction) => {
+  app.get('/api/wallet/requests', requirePermission(Permission.WALLET_VIEW_REQUESTS), async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: 'Unauthorized' });
-      }
-      
-      // Only admin and subadmin can access this endpoint
-      if (req.user.role !== UserRole.ADMIN && req.user.role !== UserRole.SUBADMIN) {
-        return res.status(403).json({ message: 'Forbidden' });
-      }
-      
       const { status, type } = req.query;
       
       // For admins, show all requests
-      // For subadmins, show only requests from their assigned users
+      // For subadmins, show only requests from the users below them
       const requests = await getWalletRequests(
         undefined, 
         status as string, 
         type as string,
-        req.user.role === UserRole.SUBADMIN ? req.user.id : undefined
+        req.user!.role === UserRole.SUBADMIN ? req.user!.id : undefined
       );
       
-      res.json(requests);
+      // Duplicate UTR and reused proof flags for the review queue
+      res.json(await withVerificationFlags(requests));
     } catch (err) {
       next(err);
     }
@@ -451,42 +542,38 @@ export function setupWalletRoutes(app: express.Express) {
   });
   
   // Admin/subadmin review a wallet request
-  app.patch('/api/wallet/requests/:id', async (req: Request, res: Response, next: NextFunction) => {
+  app.patch('/api/wallet/requests/:id', requirePermission([Permission.WALLET_APPROVE_DEPOSIT, Permission.WALLET_APPROVE_WITHDRAWAL]), async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: 'Unauthorized' });
-      }
-      
-      // Only admin and subadmin can access this endpoint
-      if (req.user.role !== UserRole.ADMIN && req.user.role !== UserRole.SUBADMIN) {
-        return res.status(403).json({ message: 'Forbidden' });
-      }
-      
       const requestId = Number(req.params.id);
       
       // Validate the request data
       const validatedData = adminRequestReviewSchema.parse(req.body);
       
-      // For subadmins, verify they can only approve requests from their assigned users
-      if (req.user.role === UserRole.SUBADMIN) {
-        // Import the connection pool for raw SQL transactions
-        const { pool } = await import('./db');
-        // Use a direct SQL query for this specific check
-        const result = await pool.query(
-          `SELECT wr.* FROM wallet_requests wr
-           JOIN users u ON wr.user_id = u.id
-           WHERE wr.id = $1 AND u.assigned_to = $2`,
-          [requestId, req.user.id]
-        );
-        
-        if (result.rowCount === 0) {
-          return res.status(403).json({ message: 'You can only review requests from your assigned users' });
-        }
+      const [request] = await db.select({ userId: walletRequests.userId, requestType: walletRequests.requestType })
+        .from(walletRequests)
+        .where(eq(walletRequests.id, requestId))
+        .limit(1);
+      
+      if (!request) {
+        return res.status(404).json({ message: 'Wallet request not found' });
+      }
+      
+      // Deposits and withdrawals are approved under separate permissions
+      const required = request.requestType === RequestType.DEPOSIT
+        ? Permission.WALLET_APPROVE_DEPOSIT
+        : Permission.WALLET_APPROVE_WITHDRAWAL;
+      if (!await can(req, required)) {
+        return res.status(403).json({ message: `You don't have permission to review ${request.requestType} requests` });
+      }
+      
+      // Subadmins only review requests from the users below them
+      if (!await canAccessUser(req.user!, request.userId)) {
+        return res.status(403).json({ message: 'You can only review requests from your assigned users' });
       }
       
       const updatedRequest = await reviewWalletRequest(
         requestId,
-        req.user.id,
+        req.user!.id,
         validatedData.status,
         validatedData.notes
       );
@@ -563,17 +650,8 @@ export function setupWalletRoutes(app: express.Express) {
   });
   
   // Update payment details (admin only)
-  app.put('/api/wallet/payment-details', async (req: Request, res: Response, next: NextFunction) => {
+  app.put('/api/wallet/payment-details', requirePermission(Permission.WALLET_PAYMENT_SETTINGS), async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: 'Unauthorized' });
-      }
-      
-      // Only admin can update payment details
-      if (req.user.role !== UserRole.ADMIN) {
-        return res.status(403).json({ message: 'Forbidden' });
-      }
-      
       // Convert request body to JSON string
       const settingValueJson = JSON.stringify(req.body);
       
@@ -605,233 +683,173 @@ export function setupWalletRoutes(app: express.Express) {
   });
   
   // Admin direct transaction endpoint (for adding/removing funds directly)
-  app.post('/api/admin/transactions', async (req: Request, res: Response, next: NextFunction) => {
+  app.post('/api/admin/transactions', requirePermission(Permission.WALLET_ADJUST_BALANCE, { user: (req) => Number(req.body.userId) }), requireStepUp, async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: 'Unauthorized' });
+      // Validate the request data
+      const { userId, transactionType, notes } = req.body;
+      const amount = positivePaisaSchema.safeParse(req.body.amount);
+      
+      if (!userId || !amount.success || !transactionType || !notes) {
+        return res.status(400).json({ message: 'Invalid request data' });
       }
       
-      // Only admin and subadmin can access this endpoint
-      if (req.user.role !== UserRole.ADMIN && req.user.role !== UserRole.SUBADMIN) {
-        return res.status(403).json({ message: 'Forbidden' });
+      // Get the user receiving funds
+      const [targetUser] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+      
+      if (!targetUser) {
+        return res.status(404).json({ message: 'User not found' });
       }
       
-      // Validate the request data
-      const { userId, amount, transactionType, notes } = req.body;
+      // Agents only move funds to and from the users directly below them
+      if (req.user!.role === UserRole.SUBADMIN && targetUser.assignedTo !== req.user!.id) {
+        return res.status(403).json({ message: 'You can only process transactions for your assigned users' });
+      }
+
+      const amountInPaisa: number = amount.data;
+      const actualAmount = transactionType === 'deposit' ? amountInPaisa : -amountInPaisa;
       
-      if (!userId || !amount || amount <= 0 || !transactionType || !notes) {
-        return res.status(400).json({ message: 'Invalid request data' });
+      // Special case: Admin adding funds to their own wallet (platform investment)
+      const isAdminSelfFunding = req.user!.role === UserRole.ADMIN && userId === req.user!.id && transactionType === 'deposit';
+      
+      // Admin moving funds between their own wallet and another user/subadmin
+      const isAdminTransfer = req.user!.role === UserRole.ADMIN && userId !== req.user!.id;
+      const isTargetSubadmin = targetUser.role === UserRole.SUBADMIN;
+      
+      // For transfers with subadmins, we apply the commission logic where only a percentage of funds
+      // moves in or out of the admin's wallet (commission-based system)
+      let adminAmount = amountInPaisa; // Default: full amount for players
+      
+      if (isAdminTransfer && isTargetSubadmin) {
+        // Get the commission rate for this subadmin (e.g., 50% = 5000)
+        const { getSubadminDepositCommission } = await import('./deposit-commission-endpoint');
+        const commissionRate = await getSubadminDepositCommission(userId);
+        
+        // Only the commission percentage moves through the admin's wallet, not the full amount
+        adminAmount = Math.floor((amountInPaisa * commissionRate) / 10000);
+        
+        console.log(`${transactionType === 'deposit' ? 'Transfer to' : 'Withdrawal from'} subadmin ${userId}: Total amount: ${amountInPaisa}, Commission rate: ${commissionRate/100}%, Admin amount: ${adminAmount}`);
       }
       
-      // For subadmins, verify they can only process transactions for their assigned users
-      if (req.user.role === UserRole.SUBADMIN) {
-        // Import the connection pool for raw SQL transactions
-        const { pool } = await import('./db');
-        // Use a direct SQL query for this specific check
-        const result = await pool.query(
-          `SELECT * FROM users WHERE id = $1 AND assigned_to = $2`,
-          [userId, req.user.id]
-        );
+      if (isAdminTransfer && transactionType === 'deposit') {
+        const [admin] = await db.select({ balance: users.balance }).from(users).where(eq(users.id, req.user!.id)).limit(1);
         
-        if (result.rowCount === 0) {
-          return res.status(403).json({ message: 'You can only process transactions for your assigned users' });
+        // Check if admin has sufficient balance for the deduction
+        if (!admin || admin.balance < adminAmount) {
+          return res.status(400).json({ 
+            message: 'Insufficient balance to fund user. Please add funds to your admin wallet first.' 
+          });
         }
       }
       
-      // Start a transaction
-      const { pool } = await import('./db');
-      const client = await pool.connect();
+      if (transactionType === 'withdraw' && targetUser.balance < amountInPaisa) {
+        return res.status(400).json({ 
+          message: 'User has insufficient balance for this deduction.' 
+        });
+      }
       
-      try {
-        await client.query('BEGIN');
-        
-        // Get the user receiving funds
-        const userResult = await client.query('SELECT * FROM users WHERE id = $1', [userId]);
-        
-        if (userResult.rowCount === 0) {
-          await client.query('ROLLBACK');
-          return res.status(404).json({ message: 'User not found' });
+      // Create transaction record with appropriate description
+      let transactionDescription;
+      
+      if (isAdminSelfFunding) {
+        transactionDescription = `Platform Investment`;
+      } else {
+        // Include both recipient and sender information in the description
+        if (transactionType === 'deposit') {
+          // For deposit, include special info about commission for subadmin
+          transactionDescription = isTargetSubadmin && req.user!.role === UserRole.ADMIN
+            ? `Fund added to ${targetUser.username} (${targetUser.role}) from ${req.user!.username} (${req.user!.role}) (Commission applied)`
+            : `Fund added to ${targetUser.username} (${targetUser.role}) from ${req.user!.username} (${req.user!.role})`;
+        } else {
+          // For withdraw, special handling for subadmin transactions with commission
+          transactionDescription = isTargetSubadmin && req.user!.role === UserRole.ADMIN
+            ? `Fund deducted from ${targetUser.username} (${targetUser.role}) added to ${req.user!.username} (${req.user!.role}) (Commission applied)`
+            : `Fund deducted from ${targetUser.username} (${targetUser.role}) by ${req.user!.username} (${req.user!.role})`;
         }
-
-        // Convert amount to paisa for storage
-        const amountInPaisa = amount * 100;
-        const actualAmount = transactionType === 'deposit' ? amountInPaisa : -amountInPaisa;
-        
-        // Special case: Admin adding funds to their own wallet (platform investment)
-        const isAdminSelfFunding = req.user.role === UserRole.ADMIN && userId === req.user.id && transactionType === 'deposit';
-        
-        // If admin is adding funds to another user/subadmin, check admin's balance
-        if (req.user.role === UserRole.ADMIN && transactionType === 'deposit' && userId !== req.user.id) {
-          // Get admin's current balance
-          const adminResult = await client.query('SELECT balance FROM users WHERE id = $1', [req.user.id]);
-          
-          // Check if target user is a subadmin for commission calculations
-          const isTargetSubadmin = userResult.rows[0].role === UserRole.SUBADMIN;
-          
-          // For transfers to subadmins, we apply the commission logic where only a percentage of funds
-          // is deducted from the admin's wallet (commission-based system)
-          let adminDeductionAmount = amountInPaisa; // Default: deduct full amount for players
+      }
+      
+      try {
+        const { transaction, updatedBalance } = await db.transaction(async (tx) => {
+          const direction = transactionType === 'deposit' ? 1 : -1;
           
-          if (isTargetSubadmin) {
-            // Get the commission rate for this subadmin (e.g., 50% = 5000)
-            // Import from deposit-commission-endpoint.ts to get the current implementation
-            const { getSubadminDepositCommission } = await import('./deposit-commission-endpoint');
-            const commissionRate = await getSubadminDepositCommission(userId);
+          if (isAdminTransfer) {
+            // Funds moving between the admin's wallet and the user
+            const { balances } = await postLedgerEntry({
+              entryType: LedgerEntryType.TRANSFER,
+              description: transactionDescription,
+              performedBy: req.user!.id,
+              postings: [
+                { account: userAccount(req.user!.id), amount: -direction * adminAmount },
+                { account: userAccount(userId), amount: direction * adminAmount },
+              ],
+            }, tx);
             
-            // Calculate the amount to deduct from admin (only the commission percentage)
-            // BUG FIX: Calculate the correct commission - only deduct the commission percentage
-            // from admin's wallet, not the full amount
-            adminDeductionAmount = Math.floor((amountInPaisa * commissionRate) / 10000);
+            // Part of the amount covered by the subadmin commission
+            if (adminAmount !== amountInPaisa) {
+              await postLedgerEntry({
+                entryType: LedgerEntryType.COMMISSION,
+                description: `Subadmin commission on transfer ${direction > 0 ? 'to' : 'from'} ${targetUser.username}`,
+                performedBy: req.user!.id,
+                postings: [
+                  { account: houseAccount(HouseAccount.COMMISSIONS), amount: -direction * (amountInPaisa - adminAmount) },
+                  { account: userAccount(userId), amount: direction * (amountInPaisa - adminAmount) },
+                ],
+              }, tx);
+            }
             
-            // Log the commission calculation for debugging
-            console.log(`Transfer to subadmin ${userId}: Total amount: ${amountInPaisa}, Commission rate: ${commissionRate/100}%, Admin deduction: ${adminDeductionAmount}`);
-          }
-          
-          // Check if admin has sufficient balance for the deduction
-          if (adminResult.rowCount === 0 || adminResult.rows[0].balance < adminDeductionAmount) {
-            await client.query('ROLLBACK');
-            return res.status(400).json({ 
-              message: 'Insufficient balance to fund user. Please add funds to your admin wallet first.' 
-            });
-          }
-          
-          // Deduct the calculated amount from admin's balance
-          await client.query(
-            'UPDATE users SET balance = balance - $1 WHERE id = $2',
-            [adminDeductionAmount, req.user.id]
-          );
-          
-          // Record this deduction in admin's transactions
-          const description = isTargetSubadmin 
-            ? `Fund transferred to ${userResult.rows[0].username} (${userResult.rows[0].role}) deducted from ${req.user.username} (${req.user.role}) (Commission applied)` 
-            : `Fund transferred to ${userResult.rows[0].username} (${userResult.rows[0].role}) deducted from ${req.user.username} (${req.user.role})`;
+            // Record the admin's side in their transactions
+            const adminDescription = direction > 0
+              ? (isTargetSubadmin 
+                ? `Fund transferred to ${targetUser.username} (${targetUser.role}) deducted from ${req.user!.username} (${req.user!.role}) (Commission applied)` 
+                : `Fund transferred to ${targetUser.username} (${targetUser.role}) deducted from ${req.user!.username} (${req.user!.role})`)
+              : (isTargetSubadmin 
+                ? `Fund added to ${req.user!.username} (${req.user!.role}) deducted from ${targetUser.username} (${targetUser.role}) (Commission applied)` 
+                : `Fund added to ${req.user!.username} (${req.user!.role}) deducted from ${targetUser.username} (${targetUser.role})`);
             
-          await client.query(
-            'INSERT INTO transactions (user_id, amount, performed_by, description, balance_after) VALUES ($1, $2, $3, $4, $5)',
-            [
-              req.user.id, 
-              -adminDeductionAmount, 
-              req.user.id, 
-              description,
-              adminResult.rows[0].balance - adminDeductionAmount
-            ]
-          );
-        }
-        
-        // If admin is deducting funds from a user/subadmin, add those funds to admin's wallet
-        if (req.user.role === UserRole.ADMIN && transactionType === 'withdraw' && userId !== req.user.id) {
-          // First check if user has sufficient balance
-          if (userResult.rows[0].balance < amountInPaisa) {
-            await client.query('ROLLBACK');
-            return res.status(400).json({ 
-              message: 'User has insufficient balance for this deduction.' 
+            await tx.insert(transactions).values({
+              userId: req.user!.id,
+              amount: -direction * adminAmount,
+              performedBy: req.user!.id,
+              description: adminDescription,
+              balanceAfter: balances[req.user!.id],
             });
+          } else {
+            // Cash received or paid out directly (admin self-funding, subadmin deposits)
+            await postUserBalanceChange({
+              userId,
+              amount: actualAmount,
+              house: HouseAccount.CASH,
+              entryType: direction > 0 ? LedgerEntryType.DEPOSIT : LedgerEntryType.WITHDRAWAL,
+              description: transactionDescription,
+              performedBy: req.user!.id,
+            }, tx);
           }
           
-          // Check if target user is a subadmin for commission calculations
-          const isTargetSubadmin = userResult.rows[0].role === UserRole.SUBADMIN;
-          
-          // For withdrawals from subadmins, we apply the commission logic where only a percentage 
-          // of funds is added to the admin's wallet (commission-based system)
-          let adminAdditionAmount = amountInPaisa; // Default: add full amount for players
-          
-          if (isTargetSubadmin) {
-            // Get the commission rate for this subadmin (e.g., 50% = 5000)
-            // Import from deposit-commission-endpoint.ts to get the current implementation
-            const { getSubadminDepositCommission } = await import('./deposit-commission-endpoint');
-            const commissionRate = await getSubadminDepositCommission(userId);
-            
-            // Calculate the amount to add to admin (only the commission percentage)
-            // BUG FIX: Calculate the correct commission - only add the commission percentage
-            // to admin's wallet, not the full amount
-            adminAdditionAmount = Math.floor((amountInPaisa * commissionRate) / 10000);
-            
-            // Log the commission calculation for debugging
-            console.log(`Withdrawal from subadmin ${userId}: Total amount: ${amountInPaisa}, Commission rate: ${commissionRate/100}%, Admin addition: ${adminAdditionAmount}`);
-          }
-          
-          // Get admin's current balance before update
-          const adminResult = await client.query('SELECT balance FROM users WHERE id = $1', [req.user.id]);
-          
-          // Add the calculated amount to admin's balance
-          await client.query(
-            'UPDATE users SET balance = balance + $1 WHERE id = $2',
-            [adminAdditionAmount, req.user.id]
-          );
+          const [updatedUser] = await tx.select({ balance: users.balance }).from(users).where(eq(users.id, userId)).limit(1);
           
-          // Record this addition in admin's transactions
-          const description = isTargetSubadmin 
-            ? `Fund added to ${req.user.username} (${req.user.role}) deducted from ${userResult.rows[0].username} (${userResult.rows[0].role}) (Commission applied)` 
-            : `Fund added to ${req.user.username} (${req.user.role}) deducted from ${userResult.rows[0].username} (${userResult.rows[0].role})`;
+          const [createdTransaction] = await tx.insert(transactions).values({
+            userId,
+            amount: actualAmount,
+            balanceAfter: updatedUser.balance,
+            performedBy: req.user!.id,
+            description: transactionDescription,
+          }).returning();
           
-          await client.query(
-            'INSERT INTO transactions (user_id, amount, performed_by, description, balance_after) VALUES ($1, $2, $3, $4, $5)',
-            [
-              req.user.id, 
-              adminAdditionAmount, 
-              req.user.id, 
-              description,
-              adminResult.rows[0].balance + adminAdditionAmount
-            ]
-          );
-        }
-        
-        // Update user balance
-        const updatedUserResult = await client.query(
-          'UPDATE users SET balance = balance + $1 WHERE id = $2 RETURNING balance',
-          [actualAmount, userId]
-        );
-        
-        if (updatedUserResult.rowCount === 0) {
-          await client.query('ROLLBACK');
-          return res.status(500).json({ message: 'Failed to update user balance' });
-        }
-        
-        // Get the updated balance
-        const updatedBalance = updatedUserResult.rows[0].balance;
-        
-        // Create transaction record with appropriate description
-        let transactionDescription;
-        
-        if (isAdminSelfFunding) {
-          transactionDescription = `Platform Investment`;
-        } else {
-          // Include both recipient and sender information in the description
-          if (transactionType === 'deposit') {
-            // For deposit, include special info about commission for subadmin
-            const isSubadminReceivingFunds = userResult.rows[0].role === UserRole.SUBADMIN;
-            transactionDescription = isSubadminReceivingFunds && req.user.role === UserRole.ADMIN
-              ? `Fund added to ${userResult.rows[0].username} (${userResult.rows[0].role}) from ${req.user.username} (${req.user.role}) (Commission applied)`
-              : `Fund added to ${userResult.rows[0].username} (${userResult.rows[0].role}) from ${req.user.username} (${req.user.role})`;
-          } else {
-            // For withdraw, special handling for subadmin transactions with commission
-            const isSubadminLosingFunds = userResult.rows[0].role === UserRole.SUBADMIN && req.user.role === UserRole.ADMIN;
-            transactionDescription = isSubadminLosingFunds
-              ? `Fund deducted from ${userResult.rows[0].username} (${userResult.rows[0].role}) added to ${req.user.username} (${req.user.role}) (Commission applied)`
-              : `Fund deducted from ${userResult.rows[0].username} (${userResult.rows[0].role}) by ${req.user.username} (${req.user.role})`;
-          }
-        }
-        
-        const transactionResult = await client.query(
-          'INSERT INTO transactions (user_id, amount, balance_after, performed_by, description) VALUES ($1, $2, $3, $4, $5) RETURNING *',
-          [userId, actualAmount, updatedBalance, req.user.id, transactionDescription]
-        );
-        
-        await client.query('COMMIT');
+          return { transaction: createdTransaction, updatedBalance: updatedUser.balance };
+        });
         
         // Return the transaction and updated user
         res.status(201).json({
-          transaction: transactionResult.rows[0],
-          userBalance: updatedBalance / 100, // Convert back to rupees for display
+          transaction,
+          userBalance: updatedBalance,
           message: isAdminSelfFunding ? 'Platform investment recorded successfully.' : 'Transaction completed successfully.'
         });
         
       } catch (error) {
-        await client.query('ROLLBACK');
+        if (error instanceof LedgerError) {
+          return res.status(400).json({ message: error.message });
+        }
         console.error('Transaction error:', error);
         res.status(500).json({ message: 'Transaction failed' });
-      } finally {
-        client.release();
       }
     } catch (err) {
       next(err);
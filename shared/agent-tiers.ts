@@ -0,0 +1,11 @@
+// Names of the agent levels, from the top of the tree down. Deeper levels
+// are all sub-agents.
+const AGENT_TIER_LABELS = ["Master", "Super Agent", "Agent"];
+
+/**
+ * Label of an agent at the given depth, 1 being an agent directly below the
+ * admin.
+ */
+export function agentTierLabel(depth: number): string {
+  return AGENT_TIER_LABELS[depth - 1] ?? "Sub-agent";
+}
@@ -0,0 +1,226 @@
+import { SatamatkaGameMode, MarketSession } from "./schema";
+import { isValidPanna, pannaDigit } from "./market-sessions";
+
+// A bet as it is sent to the server: prediction and amount
+export type BetSelection = {
+  prediction: string;
+  betAmount: number;
+  includeDoubles?: boolean; // Crossing only, see CrossingBet
+};
+
+// A bet as it is stored: the amount is the full stake, gameData carries what
+// the bet type needs beyond the prediction
+export type PlacedBet = {
+  prediction: string;
+  betAmount: number;
+  gameData?: unknown;
+};
+
+/**
+ * A crossing bet, stored under `crossing` in the bet's gameData. The selected
+ * digits are crossed into the jodis the bet covers: every ordered pair of two
+ * different digits, plus the doubles (11, 22, ...) when includeDoubles is set.
+ * Each jodi is staked with stakePerJodi, so the bet costs
+ * stakePerJodi × jodis.length and a winning bet is paid on stakePerJodi.
+ */
+export type CrossingBet = {
+  digits: string[];
+  includeDoubles: boolean;
+  jodis: string[];
+  stakePerJodi: number; // in paisa
+};
+
+/**
+ * Everything the server and the client need to know about one Satamatka game
+ * mode. New modes are added by registering another definition; the betting
+ * routes, settlement and the game screen look modes up here.
+ */
+export interface SatamatkaBetType {
+  mode: string;
+  label: string;
+  // Key of the mode's odds in game_odds
+  oddsKey: string;
+  // Payout multiplier shown when no odds are configured
+  defaultMultiplier: number;
+  // Session bets are placed on the open or close session of a two-session
+  // market and judged against that session's panna instead of the jodi
+  sessionBet: boolean;
+  validatePrediction(prediction: string): boolean;
+  // Whether a placed bet wins against the result it is judged on: the final
+  // two-digit result, or the session's panna for session bets
+  isWinning(bet: PlacedBet, result: string): boolean;
+  // Stake a placed bet is paid on when judged against a result, 0 when it
+  // loses. Defaults to the whole stake of a winning prediction.
+  winningStake(bet: PlacedBet, result: string): number;
+  formatPrediction(prediction: string): string;
+  // Turn a validated selection into the bet that is stored
+  toPlacedBet(selection: BetSelection): PlacedBet;
+}
+
+// Declared results of a market that its bets are judged against
+export type MarketResults = {
+  closeResult?: string | null; // Final two-digit result (jodi)
+  openPanna?: string | null;
+  closePanna?: string | null;
+};
+
+const betTypes = new Map<string, SatamatkaBetType>();
+
+type OptionalBetTypeFields = "oddsKey" | "sessionBet" | "winningStake" | "formatPrediction" | "toPlacedBet";
+
+type BetTypeDefinition =
+  Omit<SatamatkaBetType, OptionalBetTypeFields>
+  & Partial<Pick<SatamatkaBetType, OptionalBetTypeFields>>;
+
+/**
+ * Register a game mode. Registering a mode again replaces it.
+ */
+export function registerBetType(definition: BetTypeDefinition): SatamatkaBetType {
+  const betType: SatamatkaBetType = {
+    oddsKey: `satamatka_${definition.mode}`,
+    sessionBet: false,
+    winningStake: (bet, result) => (betType.isWinning(bet, result) ? bet.betAmount : 0),
+    formatPrediction: (prediction) => prediction,
+    toPlacedBet: ({ prediction, betAmount }) => ({ prediction, betAmount }),
+    ...definition,
+  };
+  betTypes.set(betType.mode, betType);
+  return betType;
+}
+
+export function getBetType(mode: string | null | undefined): SatamatkaBetType | undefined {
+  return mode ? betTypes.get(mode) : undefined;
+}
+
+export function getBetTypes(): SatamatkaBetType[] {
+  return Array.from(betTypes.values());
+}
+
+/**
+ * Result a bet is judged against: the panna of its session for session bets,
+ * the final jodi for every other bet. Null while that result is not declared.
+ */
+export function getBetResult(betType: SatamatkaBetType, session: string | null | undefined, results: MarketResults): string | null {
+  if (!betType.sessionBet) {
+    return results.closeResult ?? null;
+  }
+  return (session === MarketSession.OPEN ? results.openPanna : results.closePanna) ?? null;
+}
+
+registerBetType({
+  mode: SatamatkaGameMode.JODI,
+  label: "Jodi (Full Number)",
+  defaultMultiplier: 60,
+  // Two-digit number, must match the result exactly
+  validatePrediction: (prediction) => /^[0-9]{2}$/.test(prediction),
+  isWinning: ({ prediction }, closeResult) => prediction === closeResult,
+});
+
+registerBetType({
+  mode: SatamatkaGameMode.HARF,
+  label: "Harf",
+  defaultMultiplier: 6,
+  // A single digit, or a digit with its position: A (Ander) / L for the left
+  // digit, B (Bahar) / R for the right digit
+  validatePrediction: (prediction) => /^[ABLR]?[0-9]$/.test(prediction),
+  isWinning: ({ prediction }, closeResult) => {
+    if (/^[AL][0-9]$/.test(prediction)) return prediction[1] === closeResult[0];
+    if (/^[BR][0-9]$/.test(prediction)) return prediction[1] === closeResult[1];
+
+    // Single digit without a position matches either digit
+    return prediction === closeResult[0] || prediction === closeResult[1];
+  },
+  // Old L/R predictions are shown in the current A/B notation
+  formatPrediction: (prediction) => prediction.replace(/^L/, "A").replace(/^R/, "B"),
+});
+
+/**
+ * Jodis covered by crossing the given digits, in selection order.
+ */
+export function crossDigits(digits: string[], includeDoubles: boolean): string[] {
+  const jodis: string[] = [];
+  for (const first of digits) {
+    for (const second of digits) {
+      if (first !== second || includeDoubles) {
+        jodis.push(first + second);
+      }
+    }
+  }
+  return jodis;
+}
+
+/**
+ * Read the crossing bet behind a placed bet. Bets placed before crossing bets
+ * were stored in gameData are read from their prediction: an exact pair
+ * ("12") covers that jodi, a digit list ("0,1,2" or "Combinations of 0,1,2")
+ * every pair of two different digits, each at the whole stake as they were
+ * paid before. The "3 digits (6 combinations)" summary names no digits and
+ * covers nothing.
+ */
+export function getCrossingBet(bet: PlacedBet): CrossingBet {
+  const stored = (bet.gameData as { crossing?: CrossingBet } | null | undefined)?.crossing;
+  if (stored) return stored;
+
+  if (/^[0-9]{2}$/.test(bet.prediction)) {
+    return { digits: bet.prediction.split(""), includeDoubles: false, jodis: [bet.prediction], stakePerJodi: bet.betAmount };
+  }
+  const digitList = /^(?:Combinations of )?([0-9](?:,[0-9])+)$/.exec(bet.prediction);
+  const digits = digitList ? digitList[1].split(",") : [];
+  return { digits, includeDoubles: false, jodis: crossDigits(digits, false), stakePerJodi: bet.betAmount };
+}
+
+registerBetType({
+  mode: SatamatkaGameMode.CROSSING,
+  label: "Crossing Digit",
+  defaultMultiplier: 66,
+  // Two or more different digits, comma-separated ("2,3,5")
+  validatePrediction: (prediction) => {
+    if (!/^[0-9](,[0-9])+$/.test(prediction)) return false;
+    const digits = prediction.split(",");
+    return new Set(digits).size === digits.length;
+  },
+  // Judged on the jodis stored with the bet, so doubles count when they were included
+  isWinning: (bet, closeResult) => getCrossingBet(bet).jodis.includes(closeResult),
+  // Only one jodi can match the result, so a win is paid on one jodi's stake
+  winningStake: (bet, closeResult) => {
+    const crossing = getCrossingBet(bet);
+    return crossing.jodis.includes(closeResult) ? crossing.stakePerJodi : 0;
+  },
+  // The amount sent with a crossing selection is the stake per jodi
+  toPlacedBet: ({ prediction, betAmount, includeDoubles = false }) => {
+    const digits = prediction.split(",");
+    const jodis = crossDigits(digits, includeDoubles);
+    const crossing: CrossingBet = { digits, includeDoubles, jodis, stakePerJodi: betAmount };
+    return { prediction, betAmount: betAmount * jodis.length, gameData: { crossing } };
+  },
+});
+
+registerBetType({
+  mode: SatamatkaGameMode.ODD_EVEN,
+  label: "Odd-Even",
+  defaultMultiplier: 1.9,
+  validatePrediction: (prediction) => prediction === "odd" || prediction === "even",
+  isWinning: ({ prediction }, closeResult) => {
+    const isResultOdd = parseInt(closeResult, 10) % 2 !== 0;
+    return (prediction === "odd" && isResultOdd) || (prediction === "even" && !isResultOdd);
+  },
+  formatPrediction: (prediction) => prediction.charAt(0).toUpperCase() + prediction.slice(1),
+});
+
+registerBetType({
+  mode: SatamatkaGameMode.SINGLE,
+  label: "Single (Ank)",
+  defaultMultiplier: 9.5,
+  sessionBet: true,
+  validatePrediction: (prediction) => /^[0-9]$/.test(prediction),
+  isWinning: ({ prediction }, panna) => pannaDigit(panna) === prediction,
+});
+
+registerBetType({
+  mode: SatamatkaGameMode.PANNA,
+  label: "Panna",
+  defaultMultiplier: 140,
+  sessionBet: true,
+  validatePrediction: isValidPanna,
+  isWinning: ({ prediction }, panna) => prediction === panna,
+});
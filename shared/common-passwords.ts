@@ -0,0 +1,31 @@
+// Passwords that appear most often in public breach dumps, lower-cased. Only
+// entries long enough to pass the length rule are kept; shorter ones are
+// rejected by length alone.
+export const COMMON_PASSWORDS: readonly string[] = [
+  "12345678", "123456789", "1234567890", "12345678910", "123123123", "11111111", "111111111",
+  "00000000", "000000000", "88888888", "87654321", "987654321", "0987654321", "11223344",
+  "12341234", "123456123", "147258369", "159753456", "1q2w3e4r", "1q2w3e4r5t", "1qaz2wsx",
+  "1qaz2wsx3edc", "zaq12wsx", "qwertyuiop", "qwerty123", "qwerty12", "qwerty1234", "qwertyui",
+  "asdfghjkl", "asdfghjk", "zxcvbnm1", "zxcvbnm123", "q1w2e3r4", "q1w2e3r4t5", "q1w2e3r4t5y6",
+  "a1b2c3d4", "abcd1234", "abc12345", "abcdefgh", "aa123456", "password", "password1",
+  "password12", "password123", "password1234", "password!", "passw0rd", "p@ssw0rd", "p@ssword",
+  "pass1234", "passpass", "iloveyou", "iloveyou1", "iloveyou2", "sunshine", "sunshine1",
+  "princess", "princess1", "football", "football1", "baseball", "basketball", "superman",
+  "batman123", "starwars", "whatever", "trustno1", "welcome1", "welcome123", "welcome@123",
+  "letmein1", "letmein123", "admin123", "admin1234", "admin@123", "administrator", "master123",
+  "michael1", "jennifer", "jordan23", "computer", "internet", "midnight", "mercedes",
+  "liverpool", "chelsea1", "arsenal1", "manchester", "barcelona", "cristiano", "ronaldo7",
+  "christmas", "blink182", "butterfly", "chocolate", "cookie123", "danielle", "elephant",
+  "fireball", "flower123", "freedom1", "hello123", "hellokitty", "hannah123", "jessica1",
+  "jesus123", "lovely123", "lovelove", "loveme123", "monkey123", "mustang1", "nicole123",
+  "pakistan", "pokemon1", "qazwsxedc", "samsung1", "samsung123", "secret123", "shadow123",
+  "spiderman", "summer123", "sweetheart", "tinkerbell", "unknown1", "victoria", "changeme",
+  "changeme123", "default1", "guest123", "test1234", "testtest", "user1234", "zaq1zaq1",
+  "india123", "india@123", "bharat123", "hindustan", "krishna123", "ganesh123", "mahadev1",
+  "jaishreeram", "jaihind123", "sachin10", "dhoni007", "kohli18", "cricket1", "cricket123",
+  "mumbai123", "delhi123", "kolkata1", "bangalore", "hyderabad", "chennai1", "lucknow1",
+  "kalyan123", "matka123", "satta123", "sattaking", "satamatka", "kinggames", "kinggame1",
+  "coinflip", "money123", "lucky123", "lucky777", "jackpot1", "winner123", "gambler1",
+  "player123", "agent123", "subadmin", "qwerty@123", "abc@1234", "abcd@1234", "pass@123",
+  "pass@1234", "password@123", "test@123", "user@123", "asdf1234", "asdfasdf", "asdf@1234",
+];
@@ -0,0 +1,42 @@
+import {
+  KycDocumentType,
+  KycStatus,
+  type KycDocumentTypeValue,
+  type KycStatusValue,
+} from "./schema";
+
+export const KYC_DOCUMENT_TYPES: { type: KycDocumentTypeValue; label: string }[] = [
+  { type: KycDocumentType.AADHAAR, label: "Aadhaar card" },
+  { type: KycDocumentType.PAN, label: "PAN card" },
+  { type: KycDocumentType.PASSPORT, label: "Passport" },
+  { type: KycDocumentType.DRIVING_LICENCE, label: "Driving licence" },
+  { type: KycDocumentType.VOTER_ID, label: "Voter ID" },
+];
+
+export const KYC_STATUS_LABELS: Record<KycStatusValue, string> = {
+  [KycStatus.UNVERIFIED]: "Not verified",
+  [KycStatus.PENDING]: "Under review",
+  [KycStatus.VERIFIED]: "Verified",
+  [KycStatus.REJECTED]: "Rejected",
+};
+
+// Scans and photos of documents; anything else is refused on upload
+export const KYC_FILE_TYPES = ["image/jpeg", "image/png", "image/webp", "application/pdf"];
+export const KYC_MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+// Wallet requests that need a verified identity. Amounts in paisa; a request
+// above the threshold is refused until the player is verified. Null turns a
+// rule off and 0 applies it to every request.
+export type KycRules = {
+  withdrawalThreshold: number | null;
+  depositThreshold: number | null;
+};
+
+export const DEFAULT_KYC_RULES: KycRules = {
+  withdrawalThreshold: null,
+  depositThreshold: null,
+};
+
+export function getKycDocumentLabel(type: string): string {
+  return KYC_DOCUMENT_TYPES.find(option => option.type === type)?.label ?? type;
+}
@@ -0,0 +1,94 @@
+import { MarketType, MarketSession, type MarketSessionValue } from "./schema";
+
+// Markets declared in two sessions: an open panna, then a close panna. The
+// final jodi is the single digit of the open panna followed by the single
+// digit of the close panna (128-16-358).
+const TWO_SESSION_MARKET_TYPES: string[] = [MarketType.MUMBAI, MarketType.KALYAN];
+
+export function isTwoSessionMarket(type: string): boolean {
+  return TWO_SESSION_MARKET_TYPES.includes(type);
+}
+
+export function isMarketSession(value: unknown): value is MarketSessionValue {
+  return value === MarketSession.OPEN || value === MarketSession.CLOSE;
+}
+
+// 0 ranks after 9 in a panna
+const pannaRank = (digit: string) => (digit === "0" ? 10 : Number(digit));
+
+/**
+ * A panna is three digits in ascending order, with 0 counting as ten
+ * (128, 390, 550 and 000 are pannas, 821 and 039 are not).
+ */
+export function isValidPanna(panna: string): boolean {
+  if (!/^[0-9]{3}$/.test(panna)) return false;
+  return pannaRank(panna[0]) <= pannaRank(panna[1]) && pannaRank(panna[1]) <= pannaRank(panna[2]);
+}
+
+/**
+ * Single digit (ank) of a panna: the last digit of the sum of its digits.
+ */
+export function pannaDigit(panna: string): string {
+  const sum = Number(panna[0]) + Number(panna[1]) + Number(panna[2]);
+  return String(sum % 10);
+}
+
+export type SessionResult = {
+  openPanna: string;
+  closePanna: string;
+};
+
+/**
+ * Result of a two-session market in the usual notation: 128-16-358 once both
+ * sessions are declared, 128-1 while only the open session is.
+ */
+export function formatSessionResult(openPanna: string, closePanna?: string | null): string {
+  if (!closePanna) {
+    return `${openPanna}-${pannaDigit(openPanna)}`;
+  }
+  return `${openPanna}-${pannaDigit(openPanna)}${pannaDigit(closePanna)}-${closePanna}`;
+}
+
+/**
+ * Parse a full two-session result given as 128-358 or 128-16-358. Returns
+ * null when the pannas are invalid or the jodi does not match them.
+ */
+export function parseSessionResult(value: string): SessionResult | null {
+  const match = /^([0-9]{3})-(?:([0-9]{2})-)?([0-9]{3})$/.exec(value?.trim() ?? "");
+  if (!match) return null;
+
+  const [, openPanna, jodi, closePanna] = match;
+  if (!isValidPanna(openPanna) || !isValidPanna(closePanna)) return null;
+  if (jodi !== undefined && jodi !== pannaDigit(openPanna) + pannaDigit(closePanna)) return null;
+
+  return { openPanna, closePanna };
+}
+
+/**
+ * Declared result of a market for display: the session notation for
+ * two-session markets, the two-digit close result otherwise.
+ */
+export function formatMarketResult(market: { openPanna?: string | null; closePanna?: string | null; closeResult?: string | null }): string | null {
+  if (market.openPanna) {
+    return formatSessionResult(market.openPanna, market.closePanna);
+  }
+  return market.closeResult ?? null;
+}
+
+type SessionMarket = {
+  type: string;
+  openPanna?: string | null;
+  openResultTime?: Date | string | null;
+};
+
+/**
+ * Whether betting on the open session of a market has stopped: at the
+ * market's open result time, or as soon as the open panna is declared. Bets
+ * on the full jodi lock with it, as the open digit is the first half of the
+ * jodi. Single-session markets have no open session.
+ */
+export function isOpenSessionLocked(market: SessionMarket, now: Date = new Date()): boolean {
+  if (!isTwoSessionMarket(market.type)) return false;
+  if (market.openPanna) return true;
+  return !!market.openResultTime && new Date(market.openResultTime) <= now;
+}
@@ -0,0 +1,98 @@
+import { z } from "zod";
+
+// Money is held as a whole number of paisa (100 paisa = 1 rupee) in the
+// database, in the ledger and in every amount the API sends or receives.
+// Rupees appear only where people type or read an amount: forms convert
+// their input with parseRupees or rupeesToPaisa, and displays use
+// formatPaisa.
+
+declare const paisaBrand: unique symbol;
+
+// A number known to be a whole amount of paisa
+export type Paisa = number & { readonly [paisaBrand]: true };
+
+export const PAISA_PER_RUPEE = 100;
+
+/**
+ * Mark a whole number as paisa. Throws for fractions, which always mean an
+ * amount in rupees or a bad calculation slipped through.
+ */
+export function asPaisa(amount: number): Paisa {
+  if (!Number.isSafeInteger(amount)) {
+    throw new RangeError(`${amount} is not a whole number of paisa`);
+  }
+  return amount as Paisa;
+}
+
+/**
+ * Paisa in an amount of rupees, rounded to the nearest paisa (so 0.29
+ * rupees is 29 paisa, not 28.999...).
+ */
+export function rupeesToPaisa(rupees: number): Paisa {
+  if (!Number.isFinite(rupees)) {
+    throw new RangeError(`${rupees} is not an amount of rupees`);
+  }
+  return asPaisa(Math.round(rupees * PAISA_PER_RUPEE));
+}
+
+export function paisaToRupees(amount: number): number {
+  return amount / PAISA_PER_RUPEE;
+}
+
+/**
+ * Read an amount of rupees as typed by a person: "1500", "1,500.50" or
+ * "₹ 99.9". Null when it is not a non-negative amount with at most two
+ * decimals.
+ */
+export function parseRupees(input: string | number): Paisa | null {
+  if (typeof input === "number") {
+    // Numbers such as 0.1 + 0.2 are only near a whole number of paisa
+    const paisa = Math.round(input * PAISA_PER_RUPEE);
+    const exact = Math.abs(paisa - input * PAISA_PER_RUPEE) < 1e-6;
+    return exact && paisa >= 0 && Number.isSafeInteger(paisa) ? (paisa as Paisa) : null;
+  }
+
+  const match = /^(\d+)(?:\.(\d{0,2}))?$/.exec(input.replace(/[₹,\s]/g, ""));
+  if (!match) return null;
+
+  const paisa = Number(match[1]) * PAISA_PER_RUPEE + Number((match[2] ?? "").padEnd(2, "0"));
+  return Number.isSafeInteger(paisa) ? (paisa as Paisa) : null;
+}
+
+export type FormatPaisaOptions = {
+  symbol?: boolean; // Prefix with ₹ (default)
+  fractionDigits?: 0 | 2;
+  signed?: boolean; // Prefix positive amounts with +
+};
+
+/**
+ * An amount of paisa as rupees for display: 123450 is "₹1234.50".
+ */
+export function formatPaisa(amount: number, options: FormatPaisaOptions = {}): string {
+  const { symbol = true, fractionDigits = 2, signed = false } = options;
+  const sign = amount < 0 ? "-" : signed && amount > 0 ? "+" : "";
+  const rupees = (Math.abs(amount) / PAISA_PER_RUPEE).toFixed(fractionDigits);
+  return `${sign}${symbol ? "₹" : ""}${rupees}`;
+}
+
+// Request fields. Amounts in request bodies are paisa, like everywhere else.
+export const paisaSchema = z.number()
+  .int("Amounts are whole numbers of paisa")
+  .safe()
+  .transform(amount => amount as Paisa);
+
+export const positivePaisaSchema = z.number()
+  .int("Amounts are whole numbers of paisa")
+  .positive("Amount must be greater than zero")
+  .safe()
+  .transform(amount => amount as Paisa);
+
+// Form field for an amount typed in rupees
+export const rupeesInputSchema = z.union([z.string(), z.number()]).transform((value, ctx) => {
+  const amount = parseRupees(value);
+  if (amount === null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter an amount in rupees, with at most two decimals" });
+    return z.NEVER;
+  }
+  return amount;
+});
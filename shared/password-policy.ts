@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { COMMON_PASSWORDS } from "./common-passwords";
+
+// Rules for new passwords, checked by the forms and again by the server
+// wherever a password is set. Existing passwords that predate a rule keep
+// working until they are changed.
+export const PASSWORD_MIN_LENGTH = 8;
+// Hashing cost grows with length
+export const PASSWORD_MAX_LENGTH = 128;
+
+const commonPasswords = new Set(COMMON_PASSWORDS);
+
+export function isCommonPassword(password: string): boolean {
+  return commonPasswords.has(password.toLowerCase());
+}
+
+/**
+ * What is wrong with a new password, or null when it meets the policy.
+ */
+export function passwordPolicyProblem(password: string, username?: string): string | null {
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+  }
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    return `Password cannot exceed ${PASSWORD_MAX_LENGTH} characters`;
+  }
+  if (/^(.)\1*$/.test(password)) {
+    return "Password cannot be one repeated character";
+  }
+  if (isCommonPassword(password)) {
+    return "This password is too common. Choose one that is harder to guess";
+  }
+  if (username?.trim() && password.toLowerCase().includes(username.trim().toLowerCase())) {
+    return "Password cannot contain your username";
+  }
+  return null;
+}
+
+// Form field for a new password; the username rule is left to the server
+export const newPasswordSchema = z.string().superRefine((password, ctx) => {
+  const problem = passwordPolicyProblem(password);
+  if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+});
@@ -0,0 +1,112 @@
+import { Permission, UserRole, type PermissionValue, type UserRoleType } from "./schema";
+
+export type PermissionGroup = {
+  label: string;
+  permissions: { permission: PermissionValue; label: string }[];
+};
+
+// Every permission, grouped and labelled for the role editor
+export const PERMISSION_GROUPS: PermissionGroup[] = [
+  {
+    label: "Users",
+    permissions: [
+      { permission: Permission.USERS_VIEW, label: "View users" },
+      { permission: Permission.USERS_CREATE, label: "Create users" },
+      { permission: Permission.USERS_EDIT, label: "Edit user details" },
+      { permission: Permission.USERS_BLOCK, label: "Block users and end their sessions" },
+      { permission: Permission.USERS_DELETE, label: "Delete users" },
+      { permission: Permission.USERS_ASSIGN, label: "Reassign users" },
+      { permission: Permission.USERS_RESET_PASSWORD, label: "Reset passwords" },
+      { permission: Permission.USERS_RESET_ACCOUNT, label: "Reset accounts" },
+      { permission: Permission.USERS_IMPERSONATE, label: "Log in as agents" },
+      { permission: Permission.USERS_KYC_REVIEW, label: "Review identity documents" },
+    ],
+  },
+  {
+    label: "Agents",
+    permissions: [
+      { permission: Permission.AGENTS_CREATE, label: "Create agents" },
+      { permission: Permission.AGENTS_MANAGE, label: "Manage agent permissions" },
+      { permission: Permission.AGENTS_MOVE, label: "Move agents in the tree" },
+    ],
+  },
+  {
+    label: "Wallet",
+    permissions: [
+      { permission: Permission.WALLET_ADJUST_BALANCE, label: "Transfer and adjust balances" },
+      { permission: Permission.WALLET_VIEW_REQUESTS, label: "View deposit and withdrawal requests" },
+      { permission: Permission.WALLET_APPROVE_DEPOSIT, label: "Approve deposits" },
+      { permission: Permission.WALLET_APPROVE_WITHDRAWAL, label: "Approve withdrawals" },
+      { permission: Permission.WALLET_PAYMENT_SETTINGS, label: "Edit payment details" },
+      { permission: Permission.WALLET_RECONCILE, label: "Ledger and bank reconciliation" },
+    ],
+  },
+  {
+    label: "Markets and matches",
+    permissions: [
+      { permission: Permission.MARKETS_MANAGE, label: "Manage markets" },
+      { permission: Permission.MARKETS_DECLARE_RESULT, label: "Declare market results" },
+      { permission: Permission.MARKETS_CORRECT_RESULT, label: "Correct market results" },
+      { permission: Permission.MATCHES_MANAGE, label: "Manage matches" },
+      { permission: Permission.MATCHES_DECLARE_RESULT, label: "Declare match results" },
+      { permission: Permission.CRICKET_TOSS_MANAGE, label: "Manage cricket toss matches" },
+      { permission: Permission.CRICKET_TOSS_DECLARE_RESULT, label: "Declare cricket toss results" },
+    ],
+  },
+  {
+    label: "Odds and commissions",
+    permissions: [
+      { permission: Permission.ODDS_VIEW, label: "View odds" },
+      { permission: Permission.ODDS_SET, label: "Set own odds" },
+      { permission: Permission.ODDS_SET_PLATFORM, label: "Set platform and agent odds" },
+      { permission: Permission.COMMISSIONS_VIEW, label: "View commissions" },
+      { permission: Permission.COMMISSIONS_MANAGE, label: "Set commissions" },
+      { permission: Permission.DISCOUNTS_MANAGE, label: "Set player discounts" },
+    ],
+  },
+  {
+    label: "Platform",
+    permissions: [
+      { permission: Permission.REPORTS_VIEW, label: "View reports for own users" },
+      { permission: Permission.REPORTS_VIEW_PLATFORM, label: "View platform reports" },
+      { permission: Permission.SETTINGS_MANAGE, label: "Edit settings and site images" },
+      { permission: Permission.SYSTEM_MAINTENANCE, label: "System maintenance" },
+      { permission: Permission.ROLES_MANAGE, label: "Edit roles and permissions" },
+      { permission: Permission.AUDIT_VIEW, label: "View the audit log" },
+    ],
+  },
+];
+
+export const ALL_PERMISSIONS = Object.values(Permission) as PermissionValue[];
+
+export function isPermission(value: unknown): value is PermissionValue {
+  return ALL_PERMISSIONS.includes(value as PermissionValue);
+}
+
+// Built-in role templates, matching what each role could do before
+// permissions were configurable
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRoleType, PermissionValue[]> = {
+  [UserRole.ADMIN]: ALL_PERMISSIONS,
+  [UserRole.SUBADMIN]: [
+    Permission.USERS_VIEW,
+    Permission.USERS_CREATE,
+    Permission.USERS_BLOCK,
+    Permission.USERS_RESET_PASSWORD,
+    Permission.USERS_RESET_ACCOUNT,
+    Permission.USERS_KYC_REVIEW,
+    Permission.AGENTS_CREATE,
+    Permission.AGENTS_MANAGE,
+    Permission.WALLET_ADJUST_BALANCE,
+    Permission.WALLET_VIEW_REQUESTS,
+    Permission.WALLET_APPROVE_DEPOSIT,
+    Permission.WALLET_APPROVE_WITHDRAWAL,
+    Permission.CRICKET_TOSS_MANAGE,
+    Permission.CRICKET_TOSS_DECLARE_RESULT,
+    Permission.ODDS_VIEW,
+    Permission.ODDS_SET,
+    Permission.COMMISSIONS_VIEW,
+    Permission.DISCOUNTS_MANAGE,
+    Permission.REPORTS_VIEW,
+  ],
+  [UserRole.PLAYER]: [],
+};
@@ -0,0 +1,36 @@
+// Reality checks remind players how long they have been playing and how they
+// are doing. Any activity keeps a play session going; half an hour without
+// any ends it.
+export const PLAY_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+export const DEFAULT_REALITY_CHECK_MINUTES = 60;
+export const REALITY_CHECK_MINUTES = [15, 30, 45, 60, 90, 120];
+export const SESSION_LIMIT_MINUTES = [30, 60, 90, 120, 180, 240];
+
+export type PlaySessionSettingsValues = {
+  realityCheckMinutes: number | null; // Null when reminders are off
+  sessionLimitMinutes: number | null; // Null for no limit
+};
+
+// The current play session as the API reports it; amounts in paisa
+export type PlaySessionStatus = {
+  session: {
+    id: number;
+    startedAt: string;
+    lastRealityCheckAt: string | null;
+    realityChecks: number;
+  } | null;
+  net: number; // Payouts less stakes since the session started
+  staked: number;
+  bets: number;
+  settings: PlaySessionSettingsValues;
+};
+
+/**
+ * A length of time as hours and minutes, e.g. "1 h 5 min".
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.max(0, Math.floor(ms / 60000));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours} h ${minutes % 60} min` : `${minutes} min`;
+}
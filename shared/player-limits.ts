@@ -0,0 +1,35 @@
+import {
+  PlayerLimitPeriod,
+  PlayerLimitType,
+  type PlayerLimitPeriodValue,
+  type PlayerLimitTypeValue,
+} from "./schema";
+
+// Raising or removing a limit waits this long, so it cannot be done on impulse
+export const LIMIT_INCREASE_DELAY_MS = 24 * 60 * 60 * 1000;
+
+export const PLAYER_LIMIT_TYPES: { type: PlayerLimitTypeValue; label: string }[] = [
+  { type: PlayerLimitType.DEPOSIT, label: "Deposit" },
+  { type: PlayerLimitType.LOSS, label: "Loss" },
+  { type: PlayerLimitType.WAGER, label: "Wager" },
+];
+
+export const PLAYER_LIMIT_PERIODS: { period: PlayerLimitPeriodValue; label: string; adjective: string; ms: number }[] = [
+  { period: PlayerLimitPeriod.DAY, label: "Day", adjective: "daily", ms: 24 * 60 * 60 * 1000 },
+  { period: PlayerLimitPeriod.WEEK, label: "Week", adjective: "weekly", ms: 7 * 24 * 60 * 60 * 1000 },
+  { period: PlayerLimitPeriod.MONTH, label: "Month", adjective: "monthly", ms: 30 * 24 * 60 * 60 * 1000 },
+];
+
+// Archiving must leave this much play and deposit history in the live tables
+export const LONGEST_LIMIT_PERIOD_MS = Math.max(...PLAYER_LIMIT_PERIODS.map(({ ms }) => ms));
+
+// A limit as the API reports it: amounts in paisa, `amount` null when there
+// is none, and what has been used of it in the period so far
+export type PlayerLimitStatus = {
+  type: PlayerLimitTypeValue;
+  period: PlayerLimitPeriodValue;
+  amount: number | null;
+  used: number;
+  pendingAmount: number | null;
+  pendingFrom: string | null; // Set while a higher limit or a removal is waiting
+};
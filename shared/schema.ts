@@ -1,7 +1,7 @@
-import { pgTable, text, serial, integer, boolean, timestamp, foreignKey, json, jsonb, decimal, varchar, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, foreignKey, json, jsonb, decimal, varchar, index, uniqueIndex, date } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 
 // User roles
 export const UserRole = {
@@ -66,10 +66,20 @@ export const SatamatkaGameMode = {
   HARF: "harf", // Bet on a single digit in a specific position (left or right)
   CROSSING: "crossing", // Cross betting
   ODD_EVEN: "odd_even", // Bet on whether the result will be odd or even
+  SINGLE: "single", // Bet on the single digit of one session's panna (Mumbai/Kalyan)
+  PANNA: "panna", // Bet on one session's three-digit panna (Mumbai/Kalyan)
 } as const;
 
 export type SatamatkaGameModeValue = typeof SatamatkaGameMode[keyof typeof SatamatkaGameMode];
 
+// Sessions of a two-session (Mumbai/Kalyan) market
+export const MarketSession = {
+  OPEN: "open",
+  CLOSE: "close",
+} as const;
+
+export type MarketSessionValue = typeof MarketSession[keyof typeof MarketSession];
+
 // Payment Method Enums
 export const PaymentMode = {
   UPI: 'upi',
@@ -93,6 +103,16 @@ export const RequestType = {
 
 export type RequestTypeValue = typeof RequestType[keyof typeof RequestType];
 
+// Where a player is in identity verification (KYC)
+export const KycStatus = {
+  UNVERIFIED: "unverified", // No documents sent yet
+  PENDING: "pending", // Documents waiting for review
+  VERIFIED: "verified",
+  REJECTED: "rejected", // Documents turned down; the player can send new ones
+} as const;
+
+export type KycStatusValue = typeof KycStatus[keyof typeof KycStatus];
+
 // Tables
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -101,10 +121,13 @@ export const users = pgTable("users", {
   email: text("email"),
   mobile: text("mobile"),
   role: text("role").notNull().default(UserRole.PLAYER), // admin, subadmin, player
-  balance: integer("balance").notNull().default(0),
+  balance: integer("balance").notNull().default(0), // Available balance
+  heldBalance: integer("held_balance").notNull().default(0), // Held for pending withdrawals, not available for betting
   assignedTo: integer("assigned_to").references(() => users.id),
   isBlocked: boolean("is_blocked").notNull().default(false),
   blockedBy: integer("blocked_by").references(() => users.id),
+  twoFactorEnabled: boolean("two_factor_enabled").notNull().default(false), // Secrets live in user_two_factor
+  kycStatus: text("kyc_status").$type<KycStatusValue>().notNull().default(KycStatus.UNVERIFIED), // Documents live in kyc_documents
 });
 
 export const insertUserSchema = createInsertSchema(users)
@@ -142,6 +165,7 @@ export const games = pgTable("games", {
   matchId: integer("match_id").references(() => teamMatches.id),
   gameMode: text("game_mode"), // For satamatka: "single", "jodi", "patti"
   gameData: jsonb("game_data"), // For cricket_toss: team names, odds, etc.
+  session: text("session"), // For satamatka session bets: "open" or "close"
 });
 
 export const insertGameSchema = createInsertSchema(games)
@@ -206,14 +230,18 @@ export const satamatkaMarkets = pgTable("satamatka_markets", {
   openTime: timestamp("open_time").notNull(),
   closeTime: timestamp("close_time").notNull(),
   resultTime: timestamp("result_time"), // Added new field for result declaration time
-  openResult: text("open_result"),
-  closeResult: text("close_result"),
+  openResultTime: timestamp("open_result_time"), // Two-session markets: open-session betting locks, open result is due
+  openResult: text("open_result"), // Two-session markets: single digit of the open panna
+  closeResult: text("close_result"), // Final two-digit result (jodi)
+  openPanna: text("open_panna"), // Two-session markets: declared open panna
+  closePanna: text("close_panna"), // Two-session markets: declared close panna
   status: text("status").notNull().default(MarketStatus.WAITING),
   isRecurring: boolean("is_recurring").notNull().default(false),
   recurrencePattern: text("recurrence_pattern").default(RecurrencePattern.DAILY),
   lastResultedDate: timestamp("last_resulted_date"),
   nextOpenTime: timestamp("next_open_time"), 
   nextCloseTime: timestamp("next_close_time"),
+  rolledIntoMarketId: integer("rolled_into_market_id"), // Next cycle created by the scheduler for a recurring market
   coverImage: text("cover_image"), // Added field for market cover image
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -239,6 +267,9 @@ export const insertSatamatkaMarketSchema = createInsertSchema(satamatkaMarkets)
     resultTime: z.union([z.string(), z.date()]).transform(val => 
       val ? (typeof val === 'string' ? new Date(val) : val) : undefined
     ).optional(),
+    openResultTime: z.union([z.string(), z.date()]).transform(val => 
+      val ? (typeof val === 'string' ? new Date(val) : val) : undefined
+    ).optional(),
     status: z.enum([
       MarketStatus.WAITING,
       MarketStatus.OPEN, 
@@ -278,7 +309,7 @@ export const walletRequests = pgTable("wallet_requests", {
   userId: integer("user_id")
     .notNull()
     .references(() => users.id),
-  amount: integer("amount").notNull(), // in cents
+  amount: integer("amount").notNull(), // in paisa
   requestType: text("request_type").notNull(), // 'deposit' or 'withdrawal'
   paymentMode: text("payment_mode").notNull(), // 'upi', 'bank'
   paymentDetails: json("payment_details").notNull(),
@@ -286,9 +317,16 @@ export const walletRequests = pgTable("wallet_requests", {
   proofImageUrl: text("proof_image_url"),
   notes: text("notes"),
   reviewedBy: integer("reviewed_by").references(() => users.id), // ID of admin/subadmin who reviewed this request
+  heldAmount: integer("held_amount"), // Paisa held for a withdrawal until it is reviewed; null for requests made before holds
+  utrNumber: text("utr_number"), // Normalised UTR / transaction ID of a deposit
+  proofHash: text("proof_hash"), // SHA-256 of the uploaded proof image
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  // A UTR can back one deposit; it is free again once that request is rejected
+  uniqueIndex("IDX_wallet_requests_utr").on(table.utrNumber).where(sql`${table.status} <> 'rejected'`),
+  index("IDX_wallet_requests_proof_hash").on(table.proofHash),
+]);
 
 // Transaction Schema
 export const transactions = pgTable("transactions", {
@@ -559,7 +597,7 @@ export const playerDepositDiscounts = pgTable("player_deposit_discounts", {
   id: serial("id").primaryKey(),
   subadminId: integer("subadmin_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
   userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
-  discountRate: integer("discount_rate").notNull(), // percentage (stored as integer, e.g. 1000 = 10.00%)
+  discountRate: integer("discount_rate").notNull(), // whole percentage, e.g. 10 = 10%
   isActive: boolean("is_active").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -610,4 +648,645 @@ export const playerDepositDiscountsRelations = relations(playerDepositDiscounts,
 
 export const gameOddsRelations = relations(gameOdds, ({ one }) => ({
   subadmin: one(users, { fields: [gameOdds.subadminId], references: [users.id] }),
-}));
\ No newline at end of file
+}));
+// Ledger account types
+export const LedgerAccountType = {
+  PLAYER: "player",
+  SUBADMIN: "subadmin",
+  PLATFORM: "platform", // Admin wallets (platform funds)
+  HOUSE: "house",       // System accounts that are not owned by a user
+} as const;
+
+export type LedgerAccountTypeValue = typeof LedgerAccountType[keyof typeof LedgerAccountType];
+
+// System (house) accounts used as the counterparty of user postings
+export const HouseAccount = {
+  GAMES: "house:games",             // Stakes taken and payouts made
+  CASH: "house:cash",               // Money entering or leaving the platform (deposits, withdrawals, investments)
+  COMMISSIONS: "house:commissions", // Commission difference on admin <-> subadmin transfers
+  BONUSES: "house:bonuses",         // Deposit bonuses granted to players
+  ADJUSTMENTS: "house:adjustments", // Opening balances, manual corrections and resets
+  WITHDRAWAL_HOLDS: "house:withdrawal_holds", // Funds held for pending withdrawal requests
+} as const;
+
+export type HouseAccountCode = typeof HouseAccount[keyof typeof HouseAccount];
+
+// Ledger entry types
+export const LedgerEntryType = {
+  OPENING_BALANCE: "opening_balance",
+  BET: "bet",
+  PAYOUT: "payout",
+  PAYOUT_REVERSAL: "payout_reversal", // Compensates a payout made against a wrong result
+  DEPOSIT: "deposit",
+  WITHDRAWAL: "withdrawal",
+  WITHDRAWAL_HOLD: "withdrawal_hold", // Funds moved out of the available balance when a withdrawal is requested
+  WITHDRAWAL_RELEASE: "withdrawal_release", // Held funds returned when a withdrawal is rejected
+  TRANSFER: "transfer",
+  COMMISSION: "commission",
+  BONUS: "bonus",
+  ADJUSTMENT: "adjustment",
+} as const;
+
+export type LedgerEntryTypeValue = typeof LedgerEntryType[keyof typeof LedgerEntryType];
+
+// Ledger Schema - every balance change is an entry whose postings sum to zero
+export const ledgerAccounts = pgTable("ledger_accounts", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // "user:<id>" for user wallets, HouseAccount codes for system accounts
+  accountType: text("account_type").notNull(), // player, subadmin, platform, house
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }).unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: serial("id").primaryKey(),
+  entryType: text("entry_type").notNull(), // bet, payout, deposit, withdrawal, transfer, commission, bonus, adjustment
+  description: text("description"),
+  referenceType: text("reference_type"), // game, wallet_request, transaction, market, etc.
+  referenceId: text("reference_id"),
+  performedBy: integer("performed_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_ledger_entries_reference").on(table.referenceType, table.referenceId)]);
+
+export const ledgerPostings = pgTable("ledger_postings", {
+  id: serial("id").primaryKey(),
+  entryId: integer("entry_id").notNull().references(() => ledgerEntries.id),
+  accountId: integer("account_id").notNull().references(() => ledgerAccounts.id),
+  amount: integer("amount").notNull(), // in paisa, positive credits the account, negative debits it
+  balanceAfter: integer("balance_after"), // Account balance after this posting (user accounts only)
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_ledger_postings_account").on(table.accountId)]);
+
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type LedgerPosting = typeof ledgerPostings.$inferSelect;
+
+export const ledgerAccountsRelations = relations(ledgerAccounts, ({ one, many }) => ({
+  user: one(users, { fields: [ledgerAccounts.userId], references: [users.id] }),
+  postings: many(ledgerPostings),
+}));
+
+export const ledgerEntriesRelations = relations(ledgerEntries, ({ one, many }) => ({
+  performer: one(users, { fields: [ledgerEntries.performedBy], references: [users.id] }),
+  postings: many(ledgerPostings),
+}));
+
+export const ledgerPostingsRelations = relations(ledgerPostings, ({ one }) => ({
+  entry: one(ledgerEntries, { fields: [ledgerPostings.entryId], references: [ledgerEntries.id] }),
+  account: one(ledgerAccounts, { fields: [ledgerPostings.accountId], references: [ledgerAccounts.id] }),
+}));
+
+// Bet placement requests, keyed by the client's Idempotency-Key header so a
+// retried request returns the original bets instead of debiting again
+export const betRequests = pgTable("bet_requests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  idempotencyKey: text("idempotency_key").notNull(),
+  endpoint: text("endpoint").notNull(), // Route the request was made to
+  requestHash: text("request_hash").notNull(), // Fingerprint of the bets, to reject a reused key with a different payload
+  gameIds: jsonb("game_ids").$type<number[]>().notNull(),
+  balanceAfter: integer("balance_after").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [uniqueIndex("IDX_bet_requests_user_key").on(table.userId, table.idempotencyKey)]);
+
+export type BetRequest = typeof betRequests.$inferSelect;
+
+// Settlement jobs: one run of settling all pending bets of a market
+export const SettlementJobStatus = {
+  RUNNING: "running",
+  COMPLETED: "completed", // Every bet of the market is resolved
+  FAILED: "failed",       // Some bets could not be settled; the job can be re-run
+} as const;
+
+export type SettlementJobStatusValue = typeof SettlementJobStatus[keyof typeof SettlementJobStatus];
+
+export type SettlementFailure = {
+  gameId: number;
+  userId: number;
+  error: string;
+};
+
+export const settlementJobs = pgTable("settlement_jobs", {
+  id: serial("id").primaryKey(),
+  marketId: integer("market_id").notNull().references(() => satamatkaMarkets.id, { onDelete: "cascade" }),
+  status: text("status").notNull().default(SettlementJobStatus.RUNNING),
+  closeResult: text("close_result").notNull(), // Result the bets were settled against
+  session: text("session").notNull().default(MarketSession.CLOSE), // Open jobs settle open-session bets only
+  totalBets: integer("total_bets").notNull().default(0),
+  settledBets: integer("settled_bets").notNull().default(0),
+  winningBets: integer("winning_bets").notNull().default(0),
+  totalPayout: integer("total_payout").notNull().default(0), // in paisa
+  failures: jsonb("failures").$type<SettlementFailure[]>().notNull().default([]),
+  startedBy: integer("started_by").references(() => users.id, { onDelete: "set null" }),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [index("IDX_settlement_jobs_market").on(table.marketId)]);
+
+export type SettlementJob = typeof settlementJobs.$inferSelect;
+
+// Corrections of a declared close result; the payouts made against the
+// previous result are reversed and the market is settled again
+export const resultCorrections = pgTable("result_corrections", {
+  id: serial("id").primaryKey(),
+  marketId: integer("market_id").notNull().references(() => satamatkaMarkets.id, { onDelete: "cascade" }),
+  previousResult: text("previous_result").notNull(),
+  correctedResult: text("corrected_result").notNull(),
+  reason: text("reason"),
+  reversedBets: integer("reversed_bets").notNull().default(0),
+  reversedPayout: integer("reversed_payout").notNull().default(0), // in paisa
+  settlementJobId: integer("settlement_job_id").references(() => settlementJobs.id, { onDelete: "set null" }),
+  performedBy: integer("performed_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type ResultCorrection = typeof resultCorrections.$inferSelect;
+
+// Market scheduler: days on which markets do not run. A holiday applies to
+// one market type, or to every market when marketType is null.
+export const marketHolidays = pgTable("market_holidays", {
+  id: serial("id").primaryKey(),
+  holidayDate: date("holiday_date", { mode: "string" }).notNull(), // YYYY-MM-DD in market time (IST)
+  marketType: text("market_type"),
+  reason: text("reason"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_market_holidays_date").on(table.holidayDate)]);
+
+export const insertMarketHolidaySchema = createInsertSchema(marketHolidays)
+  .pick({
+    holidayDate: true,
+    marketType: true,
+    reason: true,
+  })
+  .extend({
+    holidayDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+    marketType: z.enum([MarketType.DISHAWAR, MarketType.GALI, MarketType.MUMBAI, MarketType.KALYAN]).nullable().optional(),
+  });
+
+export type MarketHoliday = typeof marketHolidays.$inferSelect;
+export type InsertMarketHoliday = z.infer<typeof insertMarketHolidaySchema>;
+
+export const MarketScheduleAction = {
+  OPEN: "open",
+  CLOSE: "close",
+  ROLL: "roll",   // Next cycle of a recurring market created
+  SKIP: "skip",   // Cycle skipped because of a holiday
+  MANUAL: "manual", // Status changed by an admin
+} as const;
+
+export type MarketScheduleActionValue = typeof MarketScheduleAction[keyof typeof MarketScheduleAction];
+
+// Log of every status transition of a market
+export const marketScheduleEvents = pgTable("market_schedule_events", {
+  id: serial("id").primaryKey(),
+  marketId: integer("market_id").notNull().references(() => satamatkaMarkets.id, { onDelete: "cascade" }),
+  action: text("action").notNull(),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status"),
+  details: text("details"),
+  performedBy: integer("performed_by").references(() => users.id, { onDelete: "set null" }), // null when done by the scheduler
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_market_schedule_events_market").on(table.marketId)]);
+
+export type MarketScheduleEvent = typeof marketScheduleEvents.$inferSelect;
+
+// Provably fair seeds for coin flips. The hash of the server seed is shown to
+// the player before they bet; the seed itself is revealed once the player
+// rotates to a new one, so every flip made with it can be recomputed.
+export const fairnessSeeds = pgTable("fairness_seeds", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  serverSeed: text("server_seed").notNull(), // Secret until revealedAt is set
+  serverSeedHash: text("server_seed_hash").notNull(), // SHA-256 of serverSeed, committed to the player
+  clientSeed: text("client_seed").notNull(),
+  nonce: integer("nonce").notNull().default(0), // Nonce of the next flip
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  revealedAt: timestamp("revealed_at"),
+}, (table) => [
+  index("IDX_fairness_seeds_user").on(table.userId),
+  // One active seed pair per player
+  uniqueIndex("IDX_fairness_seeds_active_user").on(table.userId).where(sql`${table.active}`),
+]);
+
+export type FairnessSeed = typeof fairnessSeeds.$inferSelect;
+
+// Stored in a coin flip's gameData: what its outcome was derived from
+export type FairnessProof = {
+  seedId: number;
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+};
+
+// How a bank statement line was reconciled against deposit requests
+export const StatementLineStatus = {
+  MATCHED: "matched", // UTR, amount and time matched a pending deposit, which was auto-approved
+  FUZZY: "fuzzy", // Partial match, left for manual review
+  ALREADY_CREDITED: "already_credited", // The deposit with this UTR was already approved
+  UNMATCHED: "unmatched", // Credit with no deposit request
+  INVALID: "invalid", // Line could not be read
+} as const;
+
+export type StatementLineStatusValue = typeof StatementLineStatus[keyof typeof StatementLineStatus];
+
+// Column mapping of one bank's statement export. Column names are matched
+// against the CSV header without regard to case.
+export type BankStatementProfile = {
+  name: string;
+  utrColumn: string;
+  amountColumn: string;
+  dateColumn: string;
+  dateFormat: string; // date-fns format, e.g. dd/MM/yyyy
+  descriptionColumn?: string;
+  typeColumn?: string; // Debit/credit indicator; all lines are credits without it
+  creditValue?: string; // Value of typeColumn on credit lines, e.g. CR
+  matchWindowHours: number; // How far apart the deposit request and the credit may be
+};
+
+// Bank / UPI statements imported to reconcile deposit requests
+export const bankStatementImports = pgTable("bank_statement_imports", {
+  id: serial("id").primaryKey(),
+  fileName: text("file_name").notNull(),
+  profileName: text("profile_name").notNull(),
+  lineCount: integer("line_count").notNull().default(0),
+  matchedCount: integer("matched_count").notNull().default(0),
+  fuzzyCount: integer("fuzzy_count").notNull().default(0),
+  unmatchedCount: integer("unmatched_count").notNull().default(0),
+  matchWindowHours: integer("match_window_hours").notNull(),
+  importedBy: integer("imported_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type BankStatementImport = typeof bankStatementImports.$inferSelect;
+
+export const bankStatementLines = pgTable("bank_statement_lines", {
+  id: serial("id").primaryKey(),
+  importId: integer("import_id").notNull().references(() => bankStatementImports.id, { onDelete: "cascade" }),
+  lineNumber: integer("line_number").notNull(), // Line in the CSV file, 1-based
+  utr: text("utr"),
+  amount: integer("amount"), // in paisa
+  transactedAt: timestamp("transacted_at"),
+  description: text("description"),
+  status: text("status").notNull(),
+  walletRequestId: integer("wallet_request_id").references(() => walletRequests.id, { onDelete: "set null" }), // Approved or already credited deposit
+  candidateRequestIds: jsonb("candidate_request_ids").$type<number[]>().notNull().default([]), // Possible deposits of a fuzzy match
+  note: text("note"),
+}, (table) => [index("IDX_bank_statement_lines_import").on(table.importId)]);
+
+export type BankStatementLine = typeof bankStatementLines.$inferSelect;
+
+// What an agent (subadmin) may do. An agent only has a permission when every
+// agent above it has it too.
+export const AgentPermission = {
+  CREATE_AGENTS: "create_agents", // Create sub-agents below themselves
+  SET_ODDS: "set_odds", // Set custom odds for their subtree
+  MANAGE_FUNDS: "manage_funds", // Transfer funds to and from the users directly below them
+} as const;
+
+export type AgentPermissionValue = typeof AgentPermission[keyof typeof AgentPermission];
+
+// Permissions of agents without settings; matches what subadmins could always do
+export const DEFAULT_AGENT_PERMISSIONS: AgentPermissionValue[] = [AgentPermission.SET_ODDS, AgentPermission.MANAGE_FUNDS];
+
+// Per-agent settings in the agent tree. The tree itself is users.assignedTo:
+// an agent is assigned to the agent above it, or to no one / an admin at the top.
+export const agentSettings = pgTable("agent_settings", {
+  agentId: integer("agent_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  permissions: jsonb("permissions").$type<AgentPermissionValue[]>().notNull(),
+  updatedBy: integer("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type AgentSettings = typeof agentSettings.$inferSelect;
+
+// Named capabilities checked by the API. Roles get theirs from a role
+// template; single users can have permissions granted or denied on top.
+export const Permission = {
+  USERS_VIEW: "users.view",
+  USERS_CREATE: "users.create",
+  USERS_EDIT: "users.edit",
+  USERS_BLOCK: "users.block",
+  USERS_DELETE: "users.delete",
+  USERS_ASSIGN: "users.assign",
+  USERS_RESET_PASSWORD: "users.reset_password",
+  USERS_RESET_ACCOUNT: "users.reset_account",
+  USERS_IMPERSONATE: "users.impersonate", // Log in as an agent
+  USERS_KYC_REVIEW: "users.kyc_review", // Approve or reject identity documents
+  AGENTS_CREATE: "agents.create",
+  AGENTS_MANAGE: "agents.manage", // Permissions of the agents below
+  AGENTS_MOVE: "agents.move", // Re-parent agents in the tree
+  WALLET_ADJUST_BALANCE: "wallet.adjust_balance",
+  WALLET_VIEW_REQUESTS: "wallet.view_requests",
+  WALLET_APPROVE_DEPOSIT: "wallet.approve_deposit",
+  WALLET_APPROVE_WITHDRAWAL: "wallet.approve_withdrawal",
+  WALLET_PAYMENT_SETTINGS: "wallet.payment_settings",
+  WALLET_RECONCILE: "wallet.reconcile", // Ledger, platform funds and bank statements
+  MARKETS_MANAGE: "markets.manage",
+  MARKETS_DECLARE_RESULT: "markets.declare_result",
+  MARKETS_CORRECT_RESULT: "markets.correct_result",
+  MATCHES_MANAGE: "matches.manage",
+  MATCHES_DECLARE_RESULT: "matches.declare_result",
+  CRICKET_TOSS_MANAGE: "cricket_toss.manage",
+  CRICKET_TOSS_DECLARE_RESULT: "cricket_toss.declare_result",
+  ODDS_VIEW: "odds.view",
+  ODDS_SET: "odds.set", // Own odds, for an agent's subtree
+  ODDS_SET_PLATFORM: "odds.set_platform", // Platform odds and other agents' odds
+  COMMISSIONS_VIEW: "commissions.view",
+  COMMISSIONS_MANAGE: "commissions.manage",
+  DISCOUNTS_MANAGE: "discounts.manage",
+  REPORTS_VIEW: "reports.view",
+  REPORTS_VIEW_PLATFORM: "reports.view_platform",
+  SETTINGS_MANAGE: "settings.manage",
+  SYSTEM_MAINTENANCE: "system.maintenance", // Seeding, repairs and resets
+  ROLES_MANAGE: "roles.manage",
+  AUDIT_VIEW: "audit.view",
+} as const;
+
+export type PermissionValue = typeof Permission[keyof typeof Permission];
+
+// Edited role templates; roles without a row use the built-in template
+export const rolePermissions = pgTable("role_permissions", {
+  role: text("role").primaryKey(),
+  permissions: jsonb("permissions").$type<PermissionValue[]>().notNull(),
+  updatedBy: integer("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type RolePermissions = typeof rolePermissions.$inferSelect;
+
+// Permissions granted to (granted = true) or taken from one user on top of
+// their role template
+export const userPermissionOverrides = pgTable("user_permission_overrides", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  permission: text("permission").$type<PermissionValue>().notNull(),
+  granted: boolean("granted").notNull(),
+  updatedBy: integer("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [uniqueIndex("IDX_user_permission_overrides_user").on(table.userId, table.permission)]);
+
+export type UserPermissionOverride = typeof userPermissionOverrides.$inferSelect;
+
+// Sensitive actions recorded in the audit log
+export const AuditAction = {
+  USER_IMPERSONATE: "user.impersonate",
+  USER_PASSWORD_RESET: "user.password_reset",
+  USER_BALANCE_ADJUST: "user.balance_adjust",
+  ODDS_UPDATE: "odds.update",
+  MARKET_DECLARE_RESULT: "market.declare_result",
+  MARKET_CORRECT_RESULT: "market.correct_result",
+  MATCH_DECLARE_RESULT: "match.declare_result",
+  SYSTEM_RESET: "system.reset", // No longer recorded; kept for events from before archives
+  SYSTEM_ARCHIVE: "system.archive",
+  SYSTEM_RESTORE: "system.restore",
+  USER_TWO_FACTOR_CHANGE: "user.two_factor", // Enabled, disabled or reset
+  USER_SELF_EXCLUSION_START: "user.self_exclusion_start",
+  USER_SELF_EXCLUSION_LOGIN: "user.self_exclusion_login", // Login refused during a cooling-off or self-exclusion
+  USER_KYC_REVIEW: "user.kyc_review", // Identity documents approved or rejected
+  ADMIN_REQUEST: "admin.request", // Any other change made through a permission-gated route
+} as const;
+
+export type AuditActionValue = typeof AuditAction[keyof typeof AuditAction];
+
+// Append-only log of sensitive actions. Actor and target are not foreign keys
+// and the actor's username is copied, so events outlive the users they name.
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  action: text("action").$type<AuditActionValue>().notNull(),
+  actorId: integer("actor_id"),
+  actorUsername: text("actor_username"),
+  actorRole: text("actor_role"),
+  targetType: text("target_type"), // e.g. "user", "market", "route"
+  targetId: text("target_id"),
+  targetUserId: integer("target_user_id"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_audit_events_created_at").on(table.createdAt),
+  index("IDX_audit_events_actor").on(table.actorId),
+  index("IDX_audit_events_target_user").on(table.targetUserId),
+]);
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+
+// Archives keep a recoverable copy of data taken out of the live tables
+export const ArchiveKind = {
+  PERIOD: "period", // Everything settled before the end of a period, with balances carried forward
+  ACCOUNT: "account", // Games and transactions removed by an account reset
+} as const;
+
+export type ArchiveKindValue = typeof ArchiveKind[keyof typeof ArchiveKind];
+
+export const ArchiveStatus = {
+  ARCHIVED: "archived",
+  RESTORED: "restored", // Put back into the live tables; the copy is kept
+} as const;
+
+export type ArchiveStatusValue = typeof ArchiveStatus[keyof typeof ArchiveStatus];
+
+export const archives = pgTable("archives", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").$type<ArchiveKindValue>().notNull(),
+  label: text("label").notNull(),
+  periodEnd: timestamp("period_end"), // Period archives: data from before this moment
+  userId: integer("user_id"), // Account archives: the reset account; not a foreign key so the archive outlives it
+  status: text("status").$type<ArchiveStatusValue>().notNull().default(ArchiveStatus.ARCHIVED),
+  recordCounts: jsonb("record_counts").$type<Record<string, number>>().notNull().default({}),
+  carriedForwardEntryId: integer("carried_forward_entry_id"), // Ledger entry holding the balances at periodEnd
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  restoredBy: integer("restored_by").references(() => users.id, { onDelete: "set null" }),
+  restoredAt: timestamp("restored_at"),
+});
+
+export type Archive = typeof archives.$inferSelect;
+
+// One archived row of a live table, kept as the JSON of the whole row
+export const archiveRecords = pgTable("archive_records", {
+  id: serial("id").primaryKey(),
+  archiveId: integer("archive_id").notNull().references(() => archives.id),
+  tableName: text("table_name").notNull(),
+  recordId: integer("record_id").notNull(),
+  data: jsonb("data").notNull(),
+}, (table) => [
+  index("IDX_archive_records_archive").on(table.archiveId, table.tableName),
+  // Archived deposits keep their UTR claim; see findClaimedUtr
+  index("IDX_archive_records_utr")
+    .on(sql`nullif(upper(regexp_replace(coalesce(${table.data}->>'utr_number', ${table.data}->'payment_details'->>'utrNumber', ${table.data}->'payment_details'->>'transactionId'), '\\s', '', 'g')), '')`)
+    .where(sql`${table.tableName} = 'wallet_requests'`),
+]);
+
+export type ArchiveRecord = typeof archiveRecords.$inferSelect;
+
+// TOTP second factor of a user. The row is created when enrollment starts and
+// users.twoFactorEnabled is only set once a code from the authenticator is confirmed.
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // Base32, as shown to authenticator apps
+  enabledAt: timestamp("enabled_at"), // Null until enrollment is confirmed
+  recoveryCodeHashes: jsonb("recovery_code_hashes").$type<string[]>().notNull().default([]), // SHA-256 of each unused code
+  lastUsedStep: integer("last_used_step"), // Time step of the last accepted code, so each code works once
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+
+// Failed logins per account and per IP address, for progressive lockout
+export const loginThrottles = pgTable("login_throttles", {
+  key: text("key").primaryKey(), // "account:<username>" or "ip:<address>"
+  failures: integer("failures").notNull().default(0), // Since the last successful login, or within the memory window
+  lockedUntil: timestamp("locked_until"),
+  lastFailureAt: timestamp("last_failure_at").defaultNow().notNull(),
+});
+
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+
+// One-off fixes to existing rows that have been applied, so each runs once.
+// Table changes are made by drizzle-kit; these correct the data in them.
+export const dataMigrations = pgTable("data_migrations", {
+  name: text("name").primaryKey(),
+  appliedAt: timestamp("applied_at").defaultNow().notNull(),
+  report: jsonb("report").$type<Record<string, unknown>>(), // What was changed and what the checks afterwards found
+});
+
+export type DataMigration = typeof dataMigrations.$inferSelect;
+
+export const SelfExclusionKind = {
+  COOLING_OFF: "cooling_off", // A short break
+  SELF_EXCLUSION: "self_exclusion", // Six months or for good
+} as const;
+
+export type SelfExclusionKindValue = typeof SelfExclusionKind[keyof typeof SelfExclusionKind];
+
+export const SelfExclusionPeriod = {
+  HOURS_24: "24h",
+  DAYS_7: "7d",
+  DAYS_30: "30d",
+  MONTHS_6: "6m",
+  PERMANENT: "permanent",
+} as const;
+
+export type SelfExclusionPeriodValue = typeof SelfExclusionPeriod[keyof typeof SelfExclusionPeriod];
+
+// Breaks players have taken from playing. Rows are never updated or deleted:
+// a break ends only when endsAt passes, and nobody can end one early.
+export const selfExclusions = pgTable("self_exclusions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  kind: text("kind").$type<SelfExclusionKindValue>().notNull(),
+  period: text("period").$type<SelfExclusionPeriodValue>().notNull(),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  endsAt: timestamp("ends_at"), // Null for a permanent self-exclusion
+}, (table) => [
+  index("IDX_self_exclusions_user").on(table.userId),
+]);
+
+export type SelfExclusion = typeof selfExclusions.$inferSelect;
+
+export const PlayerLimitType = {
+  DEPOSIT: "deposit", // Deposit requests that are pending or approved
+  LOSS: "loss", // Stakes less payouts
+  WAGER: "wager", // Total stake
+} as const;
+
+export type PlayerLimitTypeValue = typeof PlayerLimitType[keyof typeof PlayerLimitType];
+
+// Limits count what happened in the last 24 hours, 7 days or 30 days
+export const PlayerLimitPeriod = {
+  DAY: "day",
+  WEEK: "week",
+  MONTH: "month",
+} as const;
+
+export type PlayerLimitPeriodValue = typeof PlayerLimitPeriod[keyof typeof PlayerLimitPeriod];
+
+// Limits players set on themselves. A lower limit applies at once; a higher
+// one, or removing the limit, waits in pendingAmount until pendingFrom.
+export const playerLimits = pgTable("player_limits", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: text("type").$type<PlayerLimitTypeValue>().notNull(),
+  period: text("period").$type<PlayerLimitPeriodValue>().notNull(),
+  amount: integer("amount"), // In paisa; null when there is no limit
+  pendingAmount: integer("pending_amount"), // Null with pendingFrom set removes the limit
+  pendingFrom: timestamp("pending_from"), // Null when no change is waiting
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("IDX_player_limits_user_type_period").on(table.userId, table.type, table.period),
+]);
+
+export type PlayerLimit = typeof playerLimits.$inferSelect;
+
+export const PlaySessionEndReason = {
+  LOGOUT: "logout",
+  IDLE: "idle", // No activity for a while; ends at the last activity
+  TIME_LIMIT: "time_limit", // Reached the session length the player chose
+} as const;
+
+export type PlaySessionEndReasonValue = typeof PlaySessionEndReason[keyof typeof PlaySessionEndReason];
+
+// A player's time playing, from login until logout or going idle
+export const playSessions = pgTable("play_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  lastActivityAt: timestamp("last_activity_at").defaultNow().notNull(),
+  endedAt: timestamp("ended_at"),
+  endReason: text("end_reason").$type<PlaySessionEndReasonValue>(),
+  realityChecks: integer("reality_checks").notNull().default(0), // Reminders the player acknowledged
+  lastRealityCheckAt: timestamp("last_reality_check_at"),
+}, (table) => [
+  index("IDX_play_sessions_user").on(table.userId),
+]);
+
+export type PlaySession = typeof playSessions.$inferSelect;
+
+// How often a player is reminded of their time and result, and the session
+// length after which they are logged out. Players without a row get the
+// default reminder and no session length.
+export const playSessionSettings = pgTable("play_session_settings", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  realityCheckMinutes: integer("reality_check_minutes"), // Null turns reminders off
+  sessionLimitMinutes: integer("session_limit_minutes"), // Null for no limit
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type PlaySessionSettings = typeof playSessionSettings.$inferSelect;
+
+export const KycDocumentType = {
+  AADHAAR: "aadhaar",
+  PAN: "pan",
+  PASSPORT: "passport",
+  DRIVING_LICENCE: "driving_licence",
+  VOTER_ID: "voter_id",
+} as const;
+
+export type KycDocumentTypeValue = typeof KycDocumentType[keyof typeof KycDocumentType];
+
+// Identity documents players upload for KYC. The files are kept outside the
+// public uploads and served only to the player and their reviewers. A review
+// decides every pending document of the player at once.
+export const kycDocuments = pgTable("kyc_documents", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  documentType: text("document_type").$type<KycDocumentTypeValue>().notNull(),
+  documentNumber: text("document_number"),
+  fileName: text("file_name").notNull(), // Stored name in the KYC uploads directory
+  originalName: text("original_name"),
+  mimeType: text("mime_type").notNull(),
+  status: text("status").$type<RequestStatusType>().notNull().default(RequestStatus.PENDING),
+  reviewedBy: integer("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewReason: text("review_reason"), // Shown to the player; required for a rejection
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_kyc_documents_user").on(table.userId),
+  index("IDX_kyc_documents_status").on(table.status),
+]);
+
+export type KycDocument = typeof kycDocuments.$inferSelect;
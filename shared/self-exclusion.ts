@@ -0,0 +1,49 @@
+import {
+  SelfExclusionKind,
+  SelfExclusionPeriod,
+  type SelfExclusionKindValue,
+  type SelfExclusionPeriodValue,
+} from "./schema";
+
+export type SelfExclusionOption = {
+  period: SelfExclusionPeriodValue;
+  kind: SelfExclusionKindValue;
+  label: string;
+};
+
+// The breaks a player can choose, shortest first
+export const SELF_EXCLUSION_OPTIONS: SelfExclusionOption[] = [
+  { period: SelfExclusionPeriod.HOURS_24, kind: SelfExclusionKind.COOLING_OFF, label: "24 hours" },
+  { period: SelfExclusionPeriod.DAYS_7, kind: SelfExclusionKind.COOLING_OFF, label: "7 days" },
+  { period: SelfExclusionPeriod.DAYS_30, kind: SelfExclusionKind.COOLING_OFF, label: "30 days" },
+  { period: SelfExclusionPeriod.MONTHS_6, kind: SelfExclusionKind.SELF_EXCLUSION, label: "6 months" },
+  { period: SelfExclusionPeriod.PERMANENT, kind: SelfExclusionKind.SELF_EXCLUSION, label: "Permanently" },
+];
+
+export function getSelfExclusionOption(period: unknown): SelfExclusionOption | undefined {
+  return SELF_EXCLUSION_OPTIONS.find(option => option.period === period);
+}
+
+/**
+ * When a break of the given period started at `start` ends, or null when it
+ * never does. Months are calendar months.
+ */
+export function selfExclusionEnd(period: SelfExclusionPeriodValue, start: Date): Date | null {
+  const end = new Date(start);
+  switch (period) {
+    case SelfExclusionPeriod.HOURS_24:
+      end.setTime(start.getTime() + 24 * 60 * 60 * 1000);
+      return end;
+    case SelfExclusionPeriod.DAYS_7:
+      end.setDate(end.getDate() + 7);
+      return end;
+    case SelfExclusionPeriod.DAYS_30:
+      end.setDate(end.getDate() + 30);
+      return end;
+    case SelfExclusionPeriod.MONTHS_6:
+      end.setMonth(end.getMonth() + 6);
+      return end;
+    case SelfExclusionPeriod.PERMANENT:
+      return null;
+  }
+}